@@ -0,0 +1,113 @@
+import { config } from '../../config/index.js';
+import { ApiError } from '../middleware/errorHandler.js';
+import type { SessionUser } from '../../types/auth.types.js';
+
+/** OAuth2 scopes requested from Discord */
+const OAUTH_SCOPES = ['identify', 'guilds'];
+
+/** Subset of Discord's token response used by the bridge */
+interface TokenResponse {
+    access_token: string;
+    token_type: string;
+}
+
+/** Subset of Discord's user object used by the bridge */
+interface DiscordUserResponse {
+    id: string;
+    username: string;
+    global_name?: string | null;
+    avatar?: string | null;
+}
+
+/**
+ * Whether Discord login is configured.
+ */
+export function isOAuthConfigured(): boolean {
+    const { clientId, clientSecret, redirectUri } = config.oauth;
+    return Boolean(clientId && clientSecret && redirectUri);
+}
+
+function requireOAuthConfig(): { clientId: string; clientSecret: string; redirectUri: string } {
+    const { clientId, clientSecret, redirectUri } = config.oauth;
+    if (!clientId || !clientSecret || !redirectUri) {
+        throw new ApiError(503, 'Discord login is not configured', 'OAUTH_NOT_CONFIGURED');
+    }
+    return { clientId, clientSecret, redirectUri };
+}
+
+/**
+ * Build the Discord authorization URL the browser is sent to.
+ */
+export function buildAuthorizeUrl(state: string): string {
+    const { clientId, redirectUri } = requireOAuthConfig();
+
+    const url = new URL(config.oauth.authorizeUrl);
+    url.searchParams.set('client_id', clientId);
+    url.searchParams.set('redirect_uri', redirectUri);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('scope', OAUTH_SCOPES.join(' '));
+    url.searchParams.set('state', state);
+    return url.toString();
+}
+
+/**
+ * Exchange an authorization code for an access token.
+ */
+export async function exchangeCode(code: string): Promise<string> {
+    const { clientId, clientSecret, redirectUri } = requireOAuthConfig();
+
+    const response = await fetch(config.oauth.tokenUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({
+            grant_type: 'authorization_code',
+            code,
+            redirect_uri: redirectUri,
+            client_id: clientId,
+            client_secret: clientSecret,
+        }),
+    });
+
+    if (!response.ok) {
+        throw new ApiError(401, `Discord rejected the authorization code (HTTP ${response.status})`, 'OAUTH_EXCHANGE_FAILED');
+    }
+
+    const data = (await response.json()) as TokenResponse;
+    return data.access_token;
+}
+
+/**
+ * Call the Discord API on behalf of the user.
+ */
+async function fetchAsUser<T>(accessToken: string, path: string): Promise<T> {
+    const response = await fetch(`${config.oauth.apiBaseUrl}${path}`, {
+        headers: { Authorization: `Bearer ${accessToken}` },
+    });
+
+    if (!response.ok) {
+        throw new ApiError(502, `Discord API request failed (HTTP ${response.status})`, 'OAUTH_DISCORD_ERROR');
+    }
+
+    return (await response.json()) as T;
+}
+
+/**
+ * Fetch the user that authorized the application.
+ */
+export async function fetchCurrentUser(accessToken: string): Promise<SessionUser> {
+    const user = await fetchAsUser<DiscordUserResponse>(accessToken, '/users/@me');
+    return {
+        id: user.id,
+        username: user.username,
+        globalName: user.global_name ?? null,
+        avatar: user.avatar ?? null,
+    };
+}
+
+/**
+ * Fetch the IDs of the guilds the user is a member of.
+ */
+export async function fetchUserGuildIds(accessToken: string): Promise<string[]> {
+    const guilds = await fetchAsUser<{ id: string }[]>(accessToken, '/users/@me/guilds');
+    return guilds.map((guild) => guild.id);
+}
@@ -0,0 +1,56 @@
+import type { GuildMember, PermissionsString } from 'discord.js';
+import { discordClient } from '../../discord/client.js';
+import type { ResourceTarget } from './restrictions.js';
+
+/**
+ * Check whether `actor` outranks `target` in the role hierarchy, as Discord
+ * requires for kicking, banning, timing out and editing other members.
+ */
+export function outranks(actor: GuildMember, target: GuildMember): boolean {
+    const ownerId = actor.guild.ownerId;
+    if (target.id === ownerId) {return false;}
+    if (actor.id === ownerId) {return true;}
+
+    return actor.roles.highest.comparePositionTo(target.roles.highest) > 0;
+}
+
+/**
+ * Check a Discord user's real permissions for a guild or channel.
+ * Channel targets use the channel's permission overwrites. The `Administrator`
+ * permission satisfies every check.
+ *
+ * @param targetUserId - If set, the user must also outrank this member
+ */
+export async function hasDiscordPermissions(
+    userId: string,
+    target: ResourceTarget,
+    permissions: readonly PermissionsString[],
+    targetUserId?: string
+): Promise<boolean> {
+    const channel = target.channelId ? discordClient.channels.cache.get(target.channelId) : undefined;
+    const guildId = target.guildId ?? (channel && 'guildId' in channel ? channel.guildId : undefined);
+    if (!guildId) {return false;}
+
+    const guild = discordClient.guilds.cache.get(guildId);
+    const member = await guild?.members.fetch(userId).catch(() => null);
+    if (!guild || !member) {return false;}
+
+    let granted;
+    if (target.channelId) {
+        if (!channel || !('permissionsFor' in channel)) {return false;}
+        granted = channel.permissionsFor(member);
+    } else {
+        granted = member.permissions;
+    }
+
+    if (!granted.has([...permissions])) {return false;}
+
+    if (targetUserId) {
+        const targetMember = await guild.members.fetch(targetUserId).catch(() => null);
+        if (targetMember && !outranks(member, targetMember)) {
+            return false;
+        }
+    }
+
+    return true;
+}
@@ -0,0 +1,522 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { EventEmitter } from 'events';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname, resolve } from 'path';
+import { config } from '../../config/index.js';
+import { ApiError } from '../middleware/errorHandler.js';
+import type { ApiKeyRecord, ApiKeySource, ApiKeyUsage, ApiScope, MentionPolicy, SerializedApiKey } from '../../types/auth.types.js';
+
+/** Prefix of every key generated by the bridge */
+const GENERATED_KEY_PREFIX = 'holo_';
+
+/** Number of leading characters kept as the identifying key prefix */
+const KEY_PREFIX_LENGTH = 12;
+
+/** Delay before usage counters are written to disk, so busy keys don't cause a write per request */
+const USAGE_FLUSH_DELAY_MS = 30_000;
+
+/**
+ * A key defined in configuration (`API_KEY` / `API_KEYS`).
+ * These are hashed in memory and never written to the key store file.
+ */
+export interface StaticApiKey {
+    id: string;
+    name: string;
+    key: string;
+    scopes: ApiScope[];
+    guildIds?: string[];
+    channelIds?: string[];
+    mentions?: MentionPolicy;
+    source: Exclude<ApiKeySource, 'store' | 'token' | 'session'>;
+    createdAt?: Date;
+    notBefore?: Date;
+    expiresAt?: Date;
+}
+
+/**
+ * A freshly issued key. `key` is the raw value and is only available here.
+ */
+export interface IssuedApiKey {
+    record: ApiKeyRecord;
+    key: string;
+}
+
+/**
+ * Options for creating a new key.
+ */
+export interface CreateApiKeyOptions {
+    name: string;
+    scopes: ApiScope[];
+    guildIds?: string[];
+    channelIds?: string[];
+    mentions?: MentionPolicy;
+    notBefore?: Date;
+    expiresAt?: Date;
+}
+
+/**
+ * Why a key is outside its validity window.
+ */
+export interface KeyValidityError {
+    error: string;
+    code: 'KEY_EXPIRED' | 'KEY_NOT_YET_VALID';
+}
+
+/** On-disk representation of a key */
+interface StoredApiKey {
+    id: string;
+    name: string;
+    keyHash: string;
+    keyPrefix: string;
+    scopes: ApiScope[];
+    guildIds?: string[];
+    channelIds?: string[];
+    mentions?: MentionPolicy;
+    createdAt: string;
+    notBefore?: string;
+    expiresAt?: string;
+}
+
+/** On-disk usage counters. Kept for every key, including configured ones. */
+interface StoredApiKeyUsage {
+    lastUsedAt: string;
+    requestCount: number;
+    lastIp?: string;
+}
+
+/** On-disk representation of the key store file */
+interface KeyStoreFile {
+    version: 1;
+    keys: StoredApiKey[];
+    usage?: Record<string, StoredApiKeyUsage>;
+}
+
+/**
+ * Generate a new random API key.
+ */
+export function generateApiKey(): string {
+    return `${GENERATED_KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+}
+
+/**
+ * Hash a raw API key for storage and comparison.
+ * Keys are high-entropy random values, so a fast hash is sufficient.
+ */
+export function hashApiKey(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Get the identifying prefix of a raw API key.
+ */
+export function getKeyPrefix(key: string): string {
+    return key.slice(0, KEY_PREFIX_LENGTH);
+}
+
+/**
+ * Serialize a key record for API responses. The hash is never exposed.
+ */
+export function serializeApiKey(record: ApiKeyRecord): SerializedApiKey {
+    return {
+        id: record.id,
+        name: record.name,
+        keyPrefix: record.keyPrefix,
+        scopes: record.scopes,
+        guildIds: record.guildIds ?? null,
+        channelIds: record.channelIds ?? null,
+        mentions: record.mentions ?? null,
+        source: record.source,
+        createdAt: record.createdAt.toISOString(),
+        notBefore: record.notBefore?.toISOString() ?? null,
+        expiresAt: record.expiresAt?.toISOString() ?? null,
+        lastUsedAt: record.lastUsedAt?.toISOString() ?? null,
+    };
+}
+
+/**
+ * Report the usage counters of a key.
+ */
+export function getApiKeyUsage(record: ApiKeyRecord, now: Date = new Date()): ApiKeyUsage {
+    return {
+        id: record.id,
+        name: record.name,
+        source: record.source,
+        lastUsedAt: record.lastUsedAt?.toISOString() ?? null,
+        requestCount: record.requestCount ?? 0,
+        lastIp: record.lastIp ?? null,
+        expiresAt: record.expiresAt?.toISOString() ?? null,
+        expired: checkKeyValidity(record, now)?.code === 'KEY_EXPIRED',
+    };
+}
+
+/**
+ * Check a key against its `notBefore` / `expiresAt` window.
+ * Returns null if the key may be used at `now`.
+ */
+export function checkKeyValidity(record: ApiKeyRecord, now: Date = new Date()): KeyValidityError | null {
+    if (record.notBefore && now < record.notBefore) {
+        return { error: 'API key is not valid yet', code: 'KEY_NOT_YET_VALID' };
+    }
+    if (record.expiresAt && now >= record.expiresAt) {
+        return { error: 'API key has expired', code: 'KEY_EXPIRED' };
+    }
+    return null;
+}
+
+/** Longest delay setTimeout accepts; later expiries are waited for in steps */
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+/**
+ * Call `onExpired` once a key's `expiresAt` passes, with the error to report
+ * (`TOKEN_EXPIRED` for signed tokens, `KEY_EXPIRED` otherwise). Returns a function
+ * that stops watching; keys without `expiresAt` are never reported.
+ */
+export function watchKeyExpiry(
+    record: ApiKeyRecord,
+    onExpired: (expiry: { error: string; code: 'KEY_EXPIRED' | 'TOKEN_EXPIRED' }) => void
+): () => void {
+    const { expiresAt } = record;
+    if (!expiresAt) {
+        return () => {};
+    }
+
+    let timer: NodeJS.Timeout;
+    const arm = (): void => {
+        const delay = expiresAt.getTime() - Date.now();
+        if (delay > MAX_TIMER_DELAY_MS) {
+            timer = setTimeout(arm, MAX_TIMER_DELAY_MS);
+            return;
+        }
+        timer = setTimeout(() => onExpired(record.source === 'token'
+            ? { error: 'Token has expired', code: 'TOKEN_EXPIRED' }
+            : { error: 'API key has expired', code: 'KEY_EXPIRED' }), delay);
+    };
+    arm();
+    return () => clearTimeout(timer);
+}
+
+/**
+ * Constant-time comparison of two hex-encoded hashes.
+ */
+function hashesEqual(a: string, b: string): boolean {
+    const bufA = Buffer.from(a, 'hex');
+    const bufB = Buffer.from(b, 'hex');
+    return bufA.length === bufB.length && timingSafeEqual(bufA, bufB);
+}
+
+function toRecord(stored: StoredApiKey): ApiKeyRecord {
+    return {
+        id: stored.id,
+        name: stored.name,
+        keyHash: stored.keyHash,
+        keyPrefix: stored.keyPrefix,
+        scopes: stored.scopes,
+        guildIds: stored.guildIds,
+        channelIds: stored.channelIds,
+        mentions: stored.mentions,
+        source: 'store',
+        createdAt: new Date(stored.createdAt),
+        notBefore: stored.notBefore ? new Date(stored.notBefore) : undefined,
+        expiresAt: stored.expiresAt ? new Date(stored.expiresAt) : undefined,
+    };
+}
+
+function toStored(record: ApiKeyRecord): StoredApiKey {
+    return {
+        id: record.id,
+        name: record.name,
+        keyHash: record.keyHash,
+        keyPrefix: record.keyPrefix,
+        scopes: record.scopes,
+        guildIds: record.guildIds,
+        channelIds: record.channelIds,
+        mentions: record.mentions,
+        createdAt: record.createdAt.toISOString(),
+        notBefore: record.notBefore?.toISOString(),
+        expiresAt: record.expiresAt?.toISOString(),
+    };
+}
+
+function toStoredUsage(record: ApiKeyRecord): StoredApiKeyUsage | null {
+    if (!record.lastUsedAt) {return null;}
+
+    return {
+        lastUsedAt: record.lastUsedAt.toISOString(),
+        requestCount: record.requestCount ?? 0,
+        lastIp: record.lastIp,
+    };
+}
+
+/**
+ * File-backed store of hashed API keys.
+ *
+ * Keys from configuration are kept in memory only; keys created at runtime are
+ * persisted (hash and prefix only) so they survive restarts.
+ *
+ * Usage counters are kept for every key and flushed to the same file shortly
+ * after they change.
+ *
+ * Emits `invalidated` with the key ID when a key is rotated or revoked, so
+ * long-lived connections authenticated with the old secret can be closed.
+ */
+export class ApiKeyStore extends EventEmitter {
+    private keys: Map<string, ApiKeyRecord> = new Map();
+    private writeQueue: Promise<void> = Promise.resolve();
+    private usageFlushTimer: NodeJS.Timeout | null = null;
+
+    constructor(
+        private readonly filePath: string,
+        staticKeys: readonly StaticApiKey[] = []
+    ) {
+        super();
+        for (const staticKey of staticKeys) {
+            this.keys.set(staticKey.id, {
+                id: staticKey.id,
+                name: staticKey.name,
+                keyHash: hashApiKey(staticKey.key),
+                keyPrefix: getKeyPrefix(staticKey.key),
+                scopes: staticKey.scopes,
+                guildIds: staticKey.guildIds,
+                channelIds: staticKey.channelIds,
+                mentions: staticKey.mentions,
+                source: staticKey.source,
+                createdAt: staticKey.createdAt ?? new Date(),
+                notBefore: staticKey.notBefore,
+                expiresAt: staticKey.expiresAt,
+            });
+        }
+    }
+
+    /**
+     * Load persisted keys from disk. A missing file is treated as an empty store.
+     */
+    async load(): Promise<void> {
+        let raw: string;
+        try {
+            raw = await readFile(this.filePath, 'utf8');
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return;
+            }
+            throw error;
+        }
+
+        const data = JSON.parse(raw) as KeyStoreFile;
+        for (const stored of data.keys ?? []) {
+            if (this.keys.has(stored.id)) {
+                console.warn(`⚠️ Ignoring stored API key "${stored.id}": ID already defined in configuration`);
+                continue;
+            }
+            this.keys.set(stored.id, toRecord(stored));
+        }
+
+        for (const [id, usage] of Object.entries(data.usage ?? {})) {
+            const record = this.keys.get(id);
+            if (!record) {continue;}
+
+            record.lastUsedAt = new Date(usage.lastUsedAt);
+            record.requestCount = usage.requestCount;
+            record.lastIp = usage.lastIp;
+        }
+    }
+
+    /**
+     * Find the key record matching a raw API key.
+     */
+    find(rawKey: string): ApiKeyRecord | null {
+        const prefix = getKeyPrefix(rawKey);
+        const hash = hashApiKey(rawKey);
+
+        for (const record of this.keys.values()) {
+            if (record.keyPrefix === prefix && hashesEqual(record.keyHash, hash)) {
+                return record;
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Record a use of a key. Counters are persisted after a short delay.
+     */
+    recordUsage(id: string, ip?: string): void {
+        const record = this.keys.get(id);
+        if (!record) {return;}
+
+        record.lastUsedAt = new Date();
+        record.requestCount = (record.requestCount ?? 0) + 1;
+        if (ip) {
+            record.lastIp = ip;
+        }
+
+        if (!this.usageFlushTimer) {
+            this.usageFlushTimer = setTimeout(() => {
+                this.usageFlushTimer = null;
+                this.save().catch((error) => console.error('Failed to save API key usage:', error));
+            }, USAGE_FLUSH_DELAY_MS);
+            this.usageFlushTimer.unref();
+        }
+    }
+
+    /**
+     * Write any pending usage counters to disk immediately.
+     */
+    async flush(): Promise<void> {
+        if (!this.usageFlushTimer) {return;}
+
+        clearTimeout(this.usageFlushTimer);
+        this.usageFlushTimer = null;
+        await this.save();
+    }
+
+    /**
+     * Get a key record by ID.
+     */
+    get(id: string): ApiKeyRecord | null {
+        return this.keys.get(id) ?? null;
+    }
+
+    /**
+     * List all known key records.
+     */
+    list(): ApiKeyRecord[] {
+        return Array.from(this.keys.values());
+    }
+
+    /**
+     * Create and persist a new key. The raw key is returned once and cannot be recovered.
+     */
+    async create(options: CreateApiKeyOptions): Promise<IssuedApiKey> {
+        const key = generateApiKey();
+        const record: ApiKeyRecord = {
+            id: `key_${randomBytes(8).toString('hex')}`,
+            name: options.name,
+            keyHash: hashApiKey(key),
+            keyPrefix: getKeyPrefix(key),
+            scopes: options.scopes,
+            guildIds: options.guildIds,
+            channelIds: options.channelIds,
+            mentions: options.mentions,
+            source: 'store',
+            createdAt: new Date(),
+            notBefore: options.notBefore,
+            expiresAt: options.expiresAt,
+        };
+
+        this.keys.set(record.id, record);
+        await this.save();
+
+        return { record, key };
+    }
+
+    /**
+     * Replace the secret of an existing key, keeping its ID, name and scopes.
+     * The previous secret stops working immediately.
+     */
+    async rotate(id: string): Promise<IssuedApiKey> {
+        const existing = this.getManaged(id);
+
+        const key = generateApiKey();
+        const record: ApiKeyRecord = {
+            ...existing,
+            keyHash: hashApiKey(key),
+            keyPrefix: getKeyPrefix(key),
+        };
+
+        this.keys.set(id, record);
+        await this.save();
+        this.emit('invalidated', id);
+
+        return { record, key };
+    }
+
+    /**
+     * Permanently revoke a key.
+     */
+    async revoke(id: string): Promise<void> {
+        this.getManaged(id);
+
+        this.keys.delete(id);
+        await this.save();
+        this.emit('invalidated', id);
+    }
+
+    /**
+     * Get a key that can be managed at runtime (i.e. not defined in configuration).
+     */
+    private getManaged(id: string): ApiKeyRecord {
+        const record = this.keys.get(id);
+        if (!record) {
+            throw ApiError.notFound('API key not found', 'KEY_NOT_FOUND');
+        }
+        if (record.source !== 'store') {
+            throw ApiError.badRequest(
+                'This key is defined in configuration and must be changed there',
+                'KEY_NOT_MANAGED'
+            );
+        }
+        return record;
+    }
+
+    /**
+     * Persist runtime-managed keys and usage counters. Writes are serialized and atomic (write + rename).
+     */
+    private save(): Promise<void> {
+        const usage: Record<string, StoredApiKeyUsage> = {};
+        for (const record of this.keys.values()) {
+            const stored = toStoredUsage(record);
+            if (stored) {
+                usage[record.id] = stored;
+            }
+        }
+
+        const data: KeyStoreFile = {
+            version: 1,
+            keys: this.list().filter((k) => k.source === 'store').map(toStored),
+            usage,
+        };
+
+        const write = async (): Promise<void> => {
+            const tmpPath = `${this.filePath}.tmp`;
+            await mkdir(dirname(this.filePath), { recursive: true });
+            await writeFile(tmpPath, JSON.stringify(data, null, 2), { encoding: 'utf8', mode: 0o600 });
+            await rename(tmpPath, this.filePath);
+        };
+
+        this.writeQueue = this.writeQueue.then(write, write);
+        return this.writeQueue;
+    }
+}
+
+/**
+ * Build the static keys defined in configuration.
+ */
+function getConfiguredKeys(): StaticApiKey[] {
+    const keys: StaticApiKey[] = config.api.apiKeys.map((k) => ({
+        id: k.id,
+        name: k.name,
+        key: k.key,
+        scopes: k.scopes as ApiScope[],
+        guildIds: k.guildIds,
+        channelIds: k.channelIds,
+        mentions: k.mentions,
+        source: 'env',
+        createdAt: k.createdAt,
+        notBefore: k.notBefore,
+        expiresAt: k.expiresAt,
+    }));
+
+    // Legacy single key (has admin scope)
+    keys.push({
+        id: 'legacy',
+        name: 'Legacy API Key',
+        key: config.api.apiKey,
+        scopes: ['admin'],
+        source: 'legacy',
+    });
+
+    return keys;
+}
+
+// Singleton instance
+export const apiKeyStore = new ApiKeyStore(resolve(process.cwd(), config.api.keyStoreFile), getConfiguredKeys());
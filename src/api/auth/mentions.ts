@@ -0,0 +1,52 @@
+import { config } from '../../config/index.js';
+import type { AllowedMentionsInput } from '../../types/api.types.js';
+import type { ApiKeyRecord, MentionPolicy } from '../../types/auth.types.js';
+
+/**
+ * The mention policy that applies to a key: its own overrides on top of the server defaults.
+ */
+export function getMentionPolicy(key?: ApiKeyRecord): Required<MentionPolicy> {
+    return {
+        everyone: key?.mentions?.everyone ?? config.mentions.allowEveryone,
+        roles: key?.mentions?.roles ?? config.mentions.allowRoles,
+    };
+}
+
+/**
+ * Allowed mentions for a message whose request did not set any. User mentions
+ * and reply pings always work; `@everyone`/`@here` and role pings only when the
+ * key's policy allows them.
+ */
+export function getDefaultAllowedMentions(key?: ApiKeyRecord): AllowedMentionsInput {
+    const policy = getMentionPolicy(key);
+    const parse: NonNullable<AllowedMentionsInput['parse']> = ['users'];
+    if (policy.roles) {parse.push('roles');}
+    if (policy.everyone) {parse.push('everyone');}
+    return { parse, repliedUser: true };
+}
+
+/**
+ * Hold allowed mentions chosen by the caller to the key's policy: `everyone` and
+ * `roles` are dropped from `parse`, and role IDs from `roles`, unless it allows them.
+ * Works on both the API's and Discord's (snake_case) shape.
+ */
+export function limitAllowedMentions<T extends Pick<AllowedMentionsInput, 'parse' | 'roles'>>(mentions: T, key?: ApiKeyRecord): T {
+    const policy = getMentionPolicy(key);
+    const { parse, roles, ...rest } = mentions;
+    return {
+        ...rest,
+        ...(parse ? { parse: parse.filter((type) => type === 'users' || policy[type]) } : {}),
+        ...(roles && policy.roles ? { roles } : {}),
+    } as T;
+}
+
+/**
+ * Apply the key's mention policy to a send or edit payload: the default allowed
+ * mentions when it sets none, otherwise its own limited to what the policy allows.
+ */
+export function withDefaultMentions<T extends { allowedMentions?: AllowedMentionsInput }>(input: T, key?: ApiKeyRecord): T {
+    return {
+        ...input,
+        allowedMentions: input.allowedMentions ? limitAllowedMentions(input.allowedMentions, key) : getDefaultAllowedMentions(key),
+    };
+}
@@ -0,0 +1,98 @@
+import type { ApiKeyRecord } from '../../types/auth.types.js';
+
+/**
+ * Minimal channel information needed to evaluate restrictions.
+ */
+export interface ChannelLocation {
+    guildId: string | null;
+    parentId: string | null;
+}
+
+/**
+ * Resolves a channel ID to its guild and parent channel, or null if unknown.
+ */
+export type ChannelResolver = (channelId: string) => ChannelLocation | null;
+
+/**
+ * The guild and/or channel a request or subscription targets.
+ */
+export interface ResourceTarget {
+    guildId?: string;
+    channelId?: string;
+}
+
+/**
+ * Whether a key carries guild or channel allow-lists.
+ */
+export function isRestrictedKey(key: ApiKeyRecord): boolean {
+    return key.guildIds !== undefined || key.channelIds !== undefined;
+}
+
+/**
+ * Check whether a key may access a guild.
+ * Channel-restricted keys may access a guild that contains at least one of their channels.
+ */
+export function canAccessGuild(key: ApiKeyRecord, guildId: string, resolveChannel: ChannelResolver): boolean {
+    if (key.guildIds && !key.guildIds.includes(guildId)) {
+        return false;
+    }
+
+    if (key.channelIds) {
+        return key.channelIds.some((channelId) => resolveChannel(channelId)?.guildId === guildId);
+    }
+
+    return true;
+}
+
+/**
+ * Check whether a key may access a channel.
+ * A thread is allowed when its parent channel is allowed.
+ */
+export function canAccessChannel(key: ApiKeyRecord, channelId: string, resolveChannel: ChannelResolver): boolean {
+    if (!isRestrictedKey(key)) {
+        return true;
+    }
+
+    const location = resolveChannel(channelId);
+
+    if (key.guildIds && (!location?.guildId || !key.guildIds.includes(location.guildId))) {
+        return false;
+    }
+
+    if (key.channelIds) {
+        const allowed = key.channelIds;
+        return allowed.includes(channelId) || (location?.parentId ? allowed.includes(location.parentId) : false);
+    }
+
+    return true;
+}
+
+/**
+ * Check whether a key may access a request or subscription target.
+ * Restricted keys may not access targets that name neither a guild nor a channel,
+ * and channel-restricted keys may not access guild-wide targets (channel lists,
+ * members, roles, bans...) that name no channel.
+ */
+export function canAccessTarget(key: ApiKeyRecord, target: ResourceTarget, resolveChannel: ChannelResolver): boolean {
+    if (!isRestrictedKey(key)) {
+        return true;
+    }
+
+    if (!target.guildId && !target.channelId) {
+        return false;
+    }
+
+    if (key.channelIds && !target.channelId) {
+        return false;
+    }
+
+    if (target.guildId && !canAccessGuild(key, target.guildId, resolveChannel)) {
+        return false;
+    }
+
+    if (target.channelId && !canAccessChannel(key, target.channelId, resolveChannel)) {
+        return false;
+    }
+
+    return true;
+}
@@ -0,0 +1,133 @@
+import { randomBytes } from 'crypto';
+import { hashApiKey } from './key-store.js';
+import type { ApiKeyRecord, SessionUser } from '../../types/auth.types.js';
+
+/** Prefix of every session ID, so sessions are never mistaken for API keys */
+const SESSION_PREFIX = 'hbs_';
+
+/** Name of the cookie carrying the session ID */
+export const SESSION_COOKIE = 'holo_session';
+
+/** Name of the cookie binding an OAuth2 `state` value to the browser that started the login */
+export const STATE_COOKIE = 'holo_oauth_state';
+
+/** How long an OAuth2 `state` value stays valid, in milliseconds */
+export const STATE_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * A Discord OAuth2 login session.
+ */
+export interface LoginSession {
+    user: SessionUser;
+    /** Guilds the user shares with the bot at login time */
+    guildIds: string[];
+    createdAt: Date;
+    expiresAt: Date;
+}
+
+/**
+ * Build the key record a session acts as. Sessions hold no scopes; routes are
+ * authorized against the user's Discord permissions instead.
+ */
+export function toSessionRecord(session: LoginSession): ApiKeyRecord {
+    return {
+        id: `user:${session.user.id}`,
+        name: session.user.globalName ?? session.user.username,
+        keyHash: '',
+        keyPrefix: '',
+        scopes: [],
+        guildIds: session.guildIds,
+        source: 'session',
+        userId: session.user.id,
+        createdAt: session.createdAt,
+        expiresAt: session.expiresAt,
+    };
+}
+
+/**
+ * In-memory store of login sessions and pending OAuth2 `state` values.
+ * Sessions are keyed by the hash of their ID and do not survive a restart.
+ */
+export class SessionStore {
+    private sessions: Map<string, LoginSession> = new Map();
+    private states: Map<string, number> = new Map();
+
+    /**
+     * Create a session and return its ID. The ID is the only way to use the session.
+     */
+    create(user: SessionUser, guildIds: string[], ttlSeconds: number): { id: string; session: LoginSession } {
+        this.prune();
+        const id = `${SESSION_PREFIX}${randomBytes(32).toString('base64url')}`;
+        const createdAt = new Date();
+        const session: LoginSession = {
+            user,
+            guildIds,
+            createdAt,
+            expiresAt: new Date(createdAt.getTime() + ttlSeconds * 1000),
+        };
+
+        this.sessions.set(hashApiKey(id), session);
+        return { id, session };
+    }
+
+    /**
+     * Get a live session by ID. Expired sessions are removed.
+     */
+    get(id: string): LoginSession | null {
+        const hash = hashApiKey(id);
+        const session = this.sessions.get(hash);
+        if (!session) {return null;}
+
+        if (session.expiresAt <= new Date()) {
+            this.sessions.delete(hash);
+            return null;
+        }
+        return session;
+    }
+
+    /**
+     * End a session.
+     */
+    delete(id: string): void {
+        this.sessions.delete(hashApiKey(id));
+    }
+
+    /**
+     * Issue a one-time `state` value for an authorization request.
+     */
+    createState(): string {
+        this.prune();
+        const state = randomBytes(16).toString('base64url');
+        this.states.set(state, Date.now() + STATE_TTL_MS);
+        return state;
+    }
+
+    /**
+     * Consume a `state` value. Returns false if it is unknown, used or expired.
+     */
+    consumeState(state: string): boolean {
+        const expiresAt = this.states.get(state);
+        this.states.delete(state);
+        return expiresAt !== undefined && expiresAt > Date.now();
+    }
+
+    /**
+     * Drop expired sessions and states.
+     */
+    private prune(): void {
+        const now = Date.now();
+        for (const [hash, session] of this.sessions) {
+            if (session.expiresAt.getTime() <= now) {
+                this.sessions.delete(hash);
+            }
+        }
+        for (const [state, expiresAt] of this.states) {
+            if (expiresAt <= now) {
+                this.states.delete(state);
+            }
+        }
+    }
+}
+
+// Singleton instance
+export const sessionStore = new SessionStore();
@@ -0,0 +1,93 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { config } from '../../config/index.js';
+import type { ApiScope } from '../../types/auth.types.js';
+
+/** Prefix of every token minted by the bridge, so tokens are never mistaken for API keys */
+const TOKEN_PREFIX = 'hbt_';
+
+/** Current token format version */
+const TOKEN_VERSION = 1;
+
+/**
+ * Claims carried by a signed token.
+ * A token acts on behalf of its parent key and can only narrow what that key may do.
+ */
+export interface TokenClaims {
+    /** Token format version */
+    v: typeof TOKEN_VERSION;
+    /** ID of the parent API key */
+    kid: string;
+    /** Prefix of the parent key's secret at issue time; rotating the key invalidates its tokens */
+    kpx: string;
+    /** Scopes granted to the token */
+    scopes: ApiScope[];
+    /** Guild allow-list, if any */
+    guildIds?: string[];
+    /** Channel allow-list, if any */
+    channelIds?: string[];
+    /** Issued at (seconds since epoch) */
+    iat: number;
+    /** Expires at (seconds since epoch) */
+    exp: number;
+}
+
+/**
+ * Secret used to sign tokens. Without `TOKEN_SECRET`, a random secret is generated
+ * per process, so tokens stop working when the bridge restarts.
+ */
+let signingSecret: Buffer | null = null;
+
+function getSigningSecret(): Buffer {
+    if (!signingSecret) {
+        if (config.api.tokenSecret) {
+            signingSecret = Buffer.from(config.api.tokenSecret, 'utf8');
+        } else {
+            console.warn('⚠️ TOKEN_SECRET is not set. Using a random secret; signed tokens will not survive a restart.');
+            signingSecret = randomBytes(32);
+        }
+    }
+    return signingSecret;
+}
+
+function sign(payload: string): Buffer {
+    return createHmac('sha256', getSigningSecret()).update(payload).digest();
+}
+
+/**
+ * Whether a credential looks like a token minted by the bridge.
+ */
+export function isSignedToken(value: string): boolean {
+    return value.startsWith(TOKEN_PREFIX);
+}
+
+/**
+ * Sign a set of claims into a token string.
+ */
+export function signToken(claims: Omit<TokenClaims, 'v'>): string {
+    const payload = Buffer.from(JSON.stringify({ v: TOKEN_VERSION, ...claims })).toString('base64url');
+    return `${TOKEN_PREFIX}${payload}.${sign(payload).toString('base64url')}`;
+}
+
+/**
+ * Verify a token's format and signature and return its claims.
+ * Expiry and the parent key are not checked here.
+ */
+export function verifyToken(token: string): TokenClaims | null {
+    if (!isSignedToken(token)) {return null;}
+
+    const [payload, signature, ...rest] = token.slice(TOKEN_PREFIX.length).split('.');
+    if (!payload || !signature || rest.length > 0) {return null;}
+
+    const expected = sign(payload);
+    const actual = Buffer.from(signature, 'base64url');
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+        return null;
+    }
+
+    try {
+        const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as TokenClaims;
+        return claims.v === TOKEN_VERSION ? claims : null;
+    } catch {
+        return null;
+    }
+}
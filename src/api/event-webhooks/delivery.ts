@@ -0,0 +1,234 @@
+import { createHmac, randomBytes } from 'crypto';
+import { config } from '../../config/index.js';
+import { eventWebhookStore, webhookMatches, type EventWebhook, type EventWebhookStore } from './store.js';
+import type { SequencedEventPayload } from '../../types/events.types.js';
+
+/** Header carrying the delivery signature (`sha256=<hex>`) */
+export const SIGNATURE_HEADER = 'X-Holo-Signature';
+
+/** Header carrying the Unix time (seconds) included in the signature */
+export const TIMESTAMP_HEADER = 'X-Holo-Timestamp';
+
+/**
+ * Outcome of a single delivery attempt.
+ */
+export interface DeliveryAttempt {
+    ok: boolean;
+    /** HTTP status, or null if no response was received */
+    status: number | null;
+    error: string | null;
+}
+
+interface DeliveryOptions {
+    /** Attempts before a delivery is dead-lettered */
+    maxAttempts: number;
+    /** Delay before the first retry; doubled for each further retry */
+    retryBaseMs: number;
+    /** Timeout for a single attempt */
+    timeoutMs: number;
+    /** Deliveries (including their retries) in flight per webhook */
+    concurrency: number;
+    /** Events waiting per webhook once `concurrency` is reached; further events are dead-lettered */
+    maxPending: number;
+}
+
+/** Deliveries in flight and waiting for one webhook */
+interface WebhookQueue {
+    active: number;
+    pending: SequencedEventPayload[];
+}
+
+/**
+ * Compute the signature of a delivery: HMAC-SHA256 over `<timestamp>.<body>`.
+ * Receivers should recompute it with their secret and reject stale timestamps.
+ */
+export function signDelivery(secret: string, timestamp: number, body: string): string {
+    return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * Whether a failed attempt is worth retrying. Client errors other than 408/429 are not.
+ */
+function isRetryable(attempt: DeliveryAttempt): boolean {
+    if (attempt.status === null) {return true;}
+    return attempt.status >= 500 || attempt.status === 408 || attempt.status === 429;
+}
+
+/**
+ * POSTs Discord events to registered webhooks.
+ *
+ * Failed attempts are retried with exponential backoff; a delivery that fails
+ * every attempt (or gets a non-retryable response) goes to the dead-letter list.
+ * Each webhook has a bounded number of deliveries in flight and events waiting,
+ * so a slow or failing endpoint cannot pile up work in memory.
+ */
+export class EventWebhookDispatcher {
+    private queues: Map<string, WebhookQueue> = new Map();
+
+    constructor(
+        private readonly options: DeliveryOptions,
+        private readonly store: EventWebhookStore = eventWebhookStore
+    ) {}
+
+    /**
+     * Deliver an event to every matching webhook in the background.
+     */
+    dispatch(payload: SequencedEventPayload): void {
+        for (const webhook of this.store.list()) {
+            if (!webhookMatches(webhook, payload)) {continue;}
+
+            let queue = this.queues.get(webhook.id);
+            if (!queue) {
+                queue = { active: 0, pending: [] };
+                this.queues.set(webhook.id, queue);
+            }
+
+            if (queue.active < this.options.concurrency) {
+                this.run(webhook.id, queue, payload);
+            } else if (queue.pending.length < this.options.maxPending) {
+                queue.pending.push(payload);
+            } else {
+                this.deadLetter(webhook.id, payload, 0, { ok: false, status: null, error: 'Delivery queue full' }).catch((error) => {
+                    console.error(`Failed to dead-letter event #${payload.seq} for webhook ${webhook.id}:`, error);
+                });
+            }
+        }
+    }
+
+    /**
+     * Deliver an event from a webhook's queue, then move on to the next waiting one.
+     */
+    private run(webhookId: string, queue: WebhookQueue, payload: SequencedEventPayload): void {
+        queue.active++;
+
+        // The webhook may have been deleted while the event was waiting
+        const webhook = this.store.get(webhookId);
+        const delivery = webhook ? this.deliver(webhook, payload) : Promise.resolve(false);
+
+        void delivery
+            .catch((error) => {
+                console.error(`Failed to deliver event #${payload.seq} to webhook ${webhookId}:`, error);
+            })
+            .finally(() => {
+                queue.active--;
+                const next = queue.pending.shift();
+                if (next) {
+                    this.run(webhookId, queue, next);
+                } else if (queue.active === 0) {
+                    this.queues.delete(webhookId);
+                }
+            });
+    }
+
+    /**
+     * Deliver an event to one webhook, retrying until it succeeds or attempts run out.
+     * Returns true if the event was delivered.
+     */
+    async deliver(webhook: EventWebhook, payload: SequencedEventPayload): Promise<boolean> {
+        let attempts = 0;
+        let result: DeliveryAttempt;
+
+        for (;;) {
+            result = await this.attempt(webhook, payload);
+            attempts++;
+
+            if (result.ok) {return true;}
+            if (attempts >= this.options.maxAttempts || !isRetryable(result)) {break;}
+
+            await new Promise((resolve) => setTimeout(resolve, this.options.retryBaseMs * 2 ** (attempts - 1)));
+
+            // Stop retrying if the webhook was deleted in the meantime
+            if (!this.store.get(webhook.id)) {return false;}
+        }
+
+        await this.deadLetter(webhook.id, payload, attempts, result);
+        return false;
+    }
+
+    private async deadLetter(
+        webhookId: string,
+        payload: SequencedEventPayload,
+        attempts: number,
+        result: DeliveryAttempt
+    ): Promise<void> {
+        await this.store.addDeadLetter({
+            id: `dlv_${randomBytes(8).toString('hex')}`,
+            webhookId,
+            payload,
+            attempts,
+            lastStatus: result.status,
+            lastError: result.error ?? 'Delivery failed',
+            failedAt: new Date(),
+        });
+    }
+
+    /**
+     * Try a dead-lettered delivery once more. It is removed from the list on success
+     * and updated with the new failure otherwise.
+     */
+    async redeliver(deadLetterId: string): Promise<DeliveryAttempt> {
+        const deadLetter = this.store.getDeadLetter(deadLetterId);
+        const webhook = this.store.get(deadLetter.webhookId);
+        if (!webhook) {
+            await this.store.removeDeadLetter(deadLetterId);
+            return { ok: false, status: null, error: 'Webhook no longer exists' };
+        }
+
+        const result = await this.attempt(webhook, deadLetter.payload);
+        if (result.ok) {
+            await this.store.removeDeadLetter(deadLetterId);
+        } else {
+            await this.store.addDeadLetter({
+                ...deadLetter,
+                attempts: deadLetter.attempts + 1,
+                lastStatus: result.status,
+                lastError: result.error ?? 'Delivery failed',
+                failedAt: new Date(),
+            });
+        }
+        return result;
+    }
+
+    /**
+     * Make a single signed POST to a webhook.
+     */
+    private async attempt(webhook: EventWebhook, payload: SequencedEventPayload): Promise<DeliveryAttempt> {
+        const body = JSON.stringify(payload);
+        const timestamp = Math.floor(Date.now() / 1000);
+
+        try {
+            const response = await fetch(webhook.url, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'User-Agent': 'HoloBridge-Webhooks',
+                    'X-Holo-Event': payload.event,
+                    'X-Holo-Sequence': String(payload.seq),
+                    [TIMESTAMP_HEADER]: String(timestamp),
+                    [SIGNATURE_HEADER]: signDelivery(webhook.secret, timestamp, body),
+                },
+                body,
+                redirect: 'manual',
+                signal: AbortSignal.timeout(this.options.timeoutMs),
+            });
+            // Only the status matters; discarding the body frees the connection for reuse
+            await response.body?.cancel().catch(() => undefined);
+
+            if (response.ok) {
+                return { ok: true, status: response.status, error: null };
+            }
+            return { ok: false, status: response.status, error: `Endpoint responded with ${response.status}` };
+        } catch (error) {
+            return { ok: false, status: null, error: error instanceof Error ? error.message : String(error) };
+        }
+    }
+}
+
+// Singleton instance
+export const eventWebhookDispatcher = new EventWebhookDispatcher({
+    maxAttempts: config.eventWebhooks.maxAttempts,
+    retryBaseMs: config.eventWebhooks.retryBaseMs,
+    timeoutMs: config.eventWebhooks.timeoutMs,
+    concurrency: config.eventWebhooks.concurrency,
+    maxPending: config.eventWebhooks.maxPending,
+});
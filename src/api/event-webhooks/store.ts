@@ -0,0 +1,295 @@
+import { randomBytes } from 'crypto';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname, resolve } from 'path';
+import { config } from '../../config/index.js';
+import { ApiError } from '../middleware/errorHandler.js';
+import type { DiscordEventName, SequencedEventPayload } from '../../types/events.types.js';
+
+/** Prefix of every generated signing secret */
+const SECRET_PREFIX = 'whsec_';
+
+/** Number of leading secret characters shown in API responses */
+const SECRET_PREFIX_LENGTH = 12;
+
+/**
+ * An HTTPS endpoint that receives Discord events.
+ */
+export interface EventWebhook {
+    id: string;
+    url: string;
+    /** If set, only these event types are delivered */
+    events?: DiscordEventName[];
+    /** If set, only events from these guilds are delivered (DM events never match) */
+    guildIds?: string[];
+    /** Secret used to sign deliveries. Stored as-is, since it is needed to compute signatures. */
+    secret: string;
+    createdAt: Date;
+}
+
+/**
+ * A delivery that failed every attempt and is kept for inspection and redelivery.
+ */
+export interface DeadLetter {
+    id: string;
+    webhookId: string;
+    payload: SequencedEventPayload;
+    attempts: number;
+    /** HTTP status of the last attempt, or null if the request itself failed */
+    lastStatus: number | null;
+    lastError: string;
+    failedAt: Date;
+}
+
+/**
+ * Options for registering an endpoint.
+ */
+export interface CreateEventWebhookOptions {
+    url: string;
+    events?: DiscordEventName[];
+    guildIds?: string[];
+}
+
+/**
+ * A webhook as returned by the API. The secret is only returned when the webhook is created.
+ */
+export interface SerializedEventWebhook {
+    id: string;
+    url: string;
+    events: DiscordEventName[] | null;
+    guildIds: string[] | null;
+    secretPrefix: string;
+    createdAt: string;
+}
+
+/**
+ * A dead-lettered delivery as returned by the API.
+ */
+export interface SerializedDeadLetter {
+    id: string;
+    webhookId: string;
+    event: string;
+    seq: number;
+    attempts: number;
+    lastStatus: number | null;
+    lastError: string;
+    failedAt: string;
+    payload: SequencedEventPayload;
+}
+
+/** On-disk representation of a webhook */
+interface StoredEventWebhook extends Omit<EventWebhook, 'createdAt'> {
+    createdAt: string;
+}
+
+/** On-disk representation of a dead letter */
+interface StoredDeadLetter extends Omit<DeadLetter, 'failedAt'> {
+    failedAt: string;
+}
+
+/** On-disk representation of the webhook store file */
+interface EventWebhookFile {
+    version: 1;
+    webhooks: StoredEventWebhook[];
+    deadLetters: StoredDeadLetter[];
+}
+
+/**
+ * Serialize a webhook for API responses. The secret is never exposed.
+ */
+export function serializeEventWebhook(webhook: EventWebhook): SerializedEventWebhook {
+    return {
+        id: webhook.id,
+        url: webhook.url,
+        events: webhook.events ?? null,
+        guildIds: webhook.guildIds ?? null,
+        secretPrefix: webhook.secret.slice(0, SECRET_PREFIX_LENGTH),
+        createdAt: webhook.createdAt.toISOString(),
+    };
+}
+
+/**
+ * Serialize a dead letter for API responses.
+ */
+export function serializeDeadLetter(deadLetter: DeadLetter): SerializedDeadLetter {
+    return {
+        id: deadLetter.id,
+        webhookId: deadLetter.webhookId,
+        event: deadLetter.payload.event,
+        seq: deadLetter.payload.seq,
+        attempts: deadLetter.attempts,
+        lastStatus: deadLetter.lastStatus,
+        lastError: deadLetter.lastError,
+        failedAt: deadLetter.failedAt.toISOString(),
+        payload: deadLetter.payload,
+    };
+}
+
+/**
+ * Check whether a webhook's filters accept an event.
+ */
+export function webhookMatches(webhook: EventWebhook, payload: SequencedEventPayload): boolean {
+    if (webhook.events && !webhook.events.includes(payload.event)) {
+        return false;
+    }
+    if (webhook.guildIds && (!payload.guildId || !webhook.guildIds.includes(payload.guildId))) {
+        return false;
+    }
+    return true;
+}
+
+/**
+ * File-backed registry of event webhooks and their dead-lettered deliveries.
+ *
+ * The dead-letter list is bounded; the oldest entries are dropped first.
+ */
+export class EventWebhookStore {
+    private webhooks: Map<string, EventWebhook> = new Map();
+    private deadLetters: Map<string, DeadLetter> = new Map();
+    private writeQueue: Promise<void> = Promise.resolve();
+
+    constructor(
+        private readonly filePath: string,
+        private readonly maxDeadLetters: number
+    ) {}
+
+    /**
+     * Load persisted webhooks from disk. A missing file is treated as an empty store.
+     */
+    async load(): Promise<void> {
+        let raw: string;
+        try {
+            raw = await readFile(this.filePath, 'utf8');
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return;
+            }
+            throw error;
+        }
+
+        const data = JSON.parse(raw) as EventWebhookFile;
+        for (const stored of data.webhooks ?? []) {
+            this.webhooks.set(stored.id, { ...stored, createdAt: new Date(stored.createdAt) });
+        }
+        for (const stored of data.deadLetters ?? []) {
+            this.deadLetters.set(stored.id, { ...stored, failedAt: new Date(stored.failedAt) });
+        }
+    }
+
+    /**
+     * List all registered webhooks.
+     */
+    list(): EventWebhook[] {
+        return Array.from(this.webhooks.values());
+    }
+
+    /**
+     * Get a webhook by ID.
+     */
+    get(id: string): EventWebhook | null {
+        return this.webhooks.get(id) ?? null;
+    }
+
+    /**
+     * Register a new endpoint with a freshly generated signing secret.
+     */
+    async create(options: CreateEventWebhookOptions): Promise<EventWebhook> {
+        const webhook: EventWebhook = {
+            id: `ewh_${randomBytes(8).toString('hex')}`,
+            url: options.url,
+            events: options.events,
+            guildIds: options.guildIds,
+            secret: `${SECRET_PREFIX}${randomBytes(32).toString('base64url')}`,
+            createdAt: new Date(),
+        };
+
+        this.webhooks.set(webhook.id, webhook);
+        await this.save();
+        return webhook;
+    }
+
+    /**
+     * Remove a webhook and its dead letters.
+     */
+    async delete(id: string): Promise<void> {
+        if (!this.webhooks.delete(id)) {
+            throw ApiError.notFound('Event webhook not found', 'EVENT_WEBHOOK_NOT_FOUND');
+        }
+
+        for (const deadLetter of this.deadLetters.values()) {
+            if (deadLetter.webhookId === id) {
+                this.deadLetters.delete(deadLetter.id);
+            }
+        }
+        await this.save();
+    }
+
+    /**
+     * List dead letters, oldest first, optionally for a single webhook.
+     */
+    listDeadLetters(webhookId?: string): DeadLetter[] {
+        const all = Array.from(this.deadLetters.values());
+        return webhookId ? all.filter((d) => d.webhookId === webhookId) : all;
+    }
+
+    /**
+     * Get a dead letter by ID.
+     */
+    getDeadLetter(id: string): DeadLetter {
+        const deadLetter = this.deadLetters.get(id);
+        if (!deadLetter) {
+            throw ApiError.notFound('Dead-lettered delivery not found', 'DELIVERY_NOT_FOUND');
+        }
+        return deadLetter;
+    }
+
+    /**
+     * Record a delivery that failed every attempt. Replaces an existing entry with the same ID.
+     */
+    async addDeadLetter(deadLetter: DeadLetter): Promise<void> {
+        // Re-insert so a redelivered entry moves to the end
+        this.deadLetters.delete(deadLetter.id);
+        this.deadLetters.set(deadLetter.id, deadLetter);
+
+        for (const id of this.deadLetters.keys()) {
+            if (this.deadLetters.size <= this.maxDeadLetters) {break;}
+            this.deadLetters.delete(id);
+        }
+        await this.save();
+    }
+
+    /**
+     * Remove a dead letter (after a successful redelivery, or to discard it).
+     */
+    async removeDeadLetter(id: string): Promise<void> {
+        this.getDeadLetter(id);
+        this.deadLetters.delete(id);
+        await this.save();
+    }
+
+    /**
+     * Persist webhooks and dead letters. Writes are serialized and atomic (write + rename).
+     */
+    private save(): Promise<void> {
+        const data: EventWebhookFile = {
+            version: 1,
+            webhooks: this.list().map((w) => ({ ...w, createdAt: w.createdAt.toISOString() })),
+            deadLetters: this.listDeadLetters().map((d) => ({ ...d, failedAt: d.failedAt.toISOString() })),
+        };
+
+        const write = async (): Promise<void> => {
+            const tmpPath = `${this.filePath}.tmp`;
+            await mkdir(dirname(this.filePath), { recursive: true });
+            await writeFile(tmpPath, JSON.stringify(data, null, 2), { encoding: 'utf8', mode: 0o600 });
+            await rename(tmpPath, this.filePath);
+        };
+
+        this.writeQueue = this.writeQueue.then(write, write);
+        return this.writeQueue;
+    }
+}
+
+// Singleton instance
+export const eventWebhookStore = new EventWebhookStore(
+    resolve(process.cwd(), config.eventWebhooks.file),
+    config.eventWebhooks.maxDeadLetters
+);
@@ -1,5 +1,13 @@
 import type { Request, Response, NextFunction, RequestHandler } from 'express';
 import { config } from '../../config/index.js';
+import { discordClient } from '../../discord/client.js';
+import { apiKeyStore, checkKeyValidity } from '../auth/key-store.js';
+import { canAccessTarget, isRestrictedKey, type ChannelLocation } from '../auth/restrictions.js';
+import { isSignedToken, verifyToken } from '../auth/tokens.js';
+import { SESSION_COOKIE, sessionStore, toSessionRecord } from '../auth/sessions.js';
+import { hasDiscordPermissions } from '../auth/discord-permissions.js';
+import { matchRouteScope, type RouteScopeMatch } from '../scopes.js';
+import { clusterDirectory } from '../../cluster/directory.js';
 import type { ApiScope, ApiKeyRecord } from '../../types/auth.types.js';
 
 /**
@@ -10,65 +18,286 @@ export interface AuthenticatedRequest extends Request {
 }
 
 /**
- * Find an API key record by its key value.
- * Checks both the new apiKeys array and legacy single apiKey.
+ * Credentials presented by an HTTP request or WebSocket handshake.
  */
-function findApiKey(key: string): ApiKeyRecord | null {
-    // Check new multi-key system first
-    const found = config.api.apiKeys.find((k) => k.key === key);
-    if (found) {
-        return {
-            ...found,
-            scopes: found.scopes as ApiScope[],
-            createdAt: found.createdAt || new Date(),
-        };
+export interface Credentials {
+    /** Raw API key */
+    apiKey?: string;
+    /** Signed token, or an API key sent as a bearer credential */
+    bearer?: string;
+    /** Discord login session ID */
+    session?: string;
+}
+
+/**
+ * Outcome of authenticating a set of credentials.
+ */
+export type AuthResult =
+    | { success: true; keyRecord: ApiKeyRecord }
+    | { success: false; error: string; code: string };
+
+/**
+ * Extract the credential from an `Authorization: Bearer <credential>` header.
+ */
+export function getBearerCredential(header: string | undefined): string | undefined {
+    const match = header ? /^Bearer\s+(\S+)\s*$/i.exec(header) : null;
+    return match?.[1];
+}
+
+/**
+ * Read a cookie from a `Cookie` header.
+ */
+export function getCookie(header: string | undefined, name: string): string | undefined {
+    for (const part of header?.split(';') ?? []) {
+        const separator = part.indexOf('=');
+        if (separator !== -1 && part.slice(0, separator).trim() === name) {
+            return decodeURIComponent(part.slice(separator + 1).trim());
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Find an API key record by its raw key value.
+ * Covers runtime-managed keys, the API_KEYS array and the legacy single API_KEY.
+ */
+export function findApiKey(key: string): ApiKeyRecord | null {
+    return apiKeyStore.find(key);
+}
+
+/**
+ * Resolve a signed token to the key record it acts as.
+ * The token's scopes are narrowed to what the parent key still holds, and the token
+ * stops working when the parent key is revoked, rotated or expires.
+ */
+export function resolveToken(token: string, now: Date = new Date()): AuthResult {
+    const claims = verifyToken(token);
+    if (!claims) {
+        return { success: false, error: 'Invalid token', code: 'INVALID_TOKEN' };
+    }
+
+    if (now.getTime() >= claims.exp * 1000) {
+        return { success: false, error: 'Token has expired', code: 'TOKEN_EXPIRED' };
+    }
+
+    const parent = apiKeyStore.get(claims.kid);
+    if (!parent || parent.keyPrefix !== claims.kpx) {
+        return { success: false, error: 'Token was issued for a key that has been revoked or rotated', code: 'INVALID_TOKEN' };
+    }
+
+    const tokenExpiresAt = new Date(claims.exp * 1000);
+    return {
+        success: true,
+        keyRecord: {
+            ...parent,
+            scopes: claims.scopes.filter((scope) => hasScopes(parent, [scope])),
+            guildIds: claims.guildIds,
+            channelIds: claims.channelIds,
+            source: 'token',
+            expiresAt: parent.expiresAt && parent.expiresAt < tokenExpiresAt ? parent.expiresAt : tokenExpiresAt,
+        },
+    };
+}
+
+/**
+ * Authenticate an API key, bearer credential or login session and check its validity window.
+ * Explicit credentials take precedence over a session cookie.
+ */
+export function authenticate(credentials: Credentials): AuthResult {
+    const credential = credentials.apiKey ?? credentials.bearer;
+    if (!credential) {
+        if (!credentials.session) {
+            return { success: false, error: 'Missing API key', code: 'MISSING_API_KEY' };
+        }
+
+        const session = sessionStore.get(credentials.session);
+        return session
+            ? { success: true, keyRecord: toSessionRecord(session) }
+            : { success: false, error: 'Session has expired or was logged out', code: 'INVALID_SESSION' };
+    }
+
+    let result: AuthResult;
+    if (isSignedToken(credential)) {
+        result = resolveToken(credential);
+    } else {
+        const keyRecord = findApiKey(credential);
+        result = keyRecord
+            ? { success: true, keyRecord }
+            : { success: false, error: 'Invalid API key', code: 'INVALID_API_KEY' };
+    }
+
+    if (!result.success) {
+        return result;
+    }
+
+    const validityError = checkKeyValidity(result.keyRecord);
+    return validityError ? { success: false, ...validityError } : result;
+}
+
+/**
+ * Authenticates a realtime connection (Socket.IO, plain WebSocket or event
+ * stream): resolves the credentials, requires the `events` scope and records
+ * the key's use. Cluster API nodes replace it to ask the gateway instead.
+ */
+export type ConnectionAuthenticator = (credentials: Credentials, ip: string | undefined) => Promise<AuthResult>;
+
+async function authenticateLocally(credentials: Credentials, ip: string | undefined): Promise<AuthResult> {
+    const result = authenticate(credentials);
+    if (!result.success) {
+        return result;
+    }
+    if (!hasScopes(result.keyRecord, ['events'])) {
+        return { success: false, error: 'Missing required scope(s): events', code: 'INSUFFICIENT_SCOPE' };
+    }
+
+    apiKeyStore.recordUsage(result.keyRecord.id, ip);
+    return result;
+}
+
+let connectionAuthenticator: ConnectionAuthenticator = authenticateLocally;
+
+/**
+ * Replace how realtime connections are authenticated.
+ * Call before the server starts accepting connections.
+ */
+export function setConnectionAuthenticator(authenticator: ConnectionAuthenticator): void {
+    connectionAuthenticator = authenticator;
+}
+
+/**
+ * Authenticate a realtime connection. See {@link ConnectionAuthenticator}.
+ * Faults in the authenticator, thrown or not, come back as a rejection.
+ */
+export async function authenticateConnection(credentials: Credentials, ip: string | undefined): Promise<AuthResult> {
+    return connectionAuthenticator(credentials, ip);
+}
+
+/**
+ * Resolve a channel's guild and parent from the Discord cache
+ * (or, on cluster API nodes, from the gateway's directory).
+ */
+export function resolveChannelLocation(channelId: string): ChannelLocation | null {
+    const channel = discordClient.channels.cache.get(channelId);
+    if (!channel) {return clusterDirectory.resolveChannel(channelId);}
+
+    return {
+        guildId: 'guildId' in channel ? channel.guildId : null,
+        parentId: 'parentId' in channel ? channel.parentId : null,
+    };
+}
+
+/**
+ * Whether the bot is in a guild, per the Discord cache
+ * (or, on cluster API nodes, the gateway's directory).
+ */
+export function isKnownGuild(guildId: string): boolean {
+    return discordClient.guilds.cache.has(guildId) || clusterDirectory.hasGuild(guildId);
+}
+
+/**
+ * Check a restricted key against the guild/channel targeted by the request.
+ */
+function isRequestAllowed(req: Request, keyRecord: ApiKeyRecord): boolean {
+    if (!isRestrictedKey(keyRecord)) {
+        return true;
     }
 
-    // Fall back to legacy single key (has admin scope)
-    if (key === config.api.apiKey) {
-        return {
-            id: 'legacy',
-            name: 'Legacy API Key',
-            key: key,
-            scopes: ['admin'],
-            createdAt: new Date(),
-        };
+    const match = matchRouteScope(req.method, `${req.baseUrl}${req.path}`);
+    if (!match) {
+        return false;
+    }
+    if (match.route.allowRestricted) {
+        return true;
     }
 
-    return null;
+    return canAccessTarget(
+        keyRecord,
+        { guildId: match.params['guildId'], channelId: match.params['channelId'] },
+        resolveChannelLocation
+    );
 }
 
 /**
  * API Key authentication middleware.
- * Validates API key and attaches key context to request.
+ * Accepts an `X-API-Key` header, an `Authorization: Bearer` token or a Discord
+ * login session cookie, checks the
+ * validity window, enforces guild/channel allow-lists, records usage and attaches
+ * key context to request.
  */
 export function authMiddleware(req: Request, res: Response, next: NextFunction): void {
     const apiKey = req.headers['x-api-key'];
+    const result = authenticate({
+        apiKey: typeof apiKey === 'string' ? apiKey : undefined,
+        bearer: getBearerCredential(req.headers.authorization),
+        session: getCookie(req.headers.cookie, SESSION_COOKIE),
+    });
 
-    if (!apiKey || typeof apiKey !== 'string') {
+    if (!result.success) {
         res.status(401).json({
             success: false,
-            error: 'Missing API key',
-            code: 'MISSING_API_KEY',
+            error: result.error,
+            code: result.code,
         });
         return;
     }
 
-    const keyRecord = findApiKey(apiKey);
-    if (!keyRecord) {
-        res.status(401).json({
+    const { keyRecord } = result;
+
+    if (!isRequestAllowed(req, keyRecord)) {
+        res.status(403).json({
             success: false,
-            error: 'Invalid API key',
-            code: 'INVALID_API_KEY',
+            error: 'API key is not allowed to access this guild or channel',
+            code: 'RESOURCE_NOT_ALLOWED',
         });
         return;
     }
 
+    apiKeyStore.recordUsage(keyRecord.id, req.ip);
+
     // Attach key record to request for downstream use
     (req as AuthenticatedRequest).apiKey = keyRecord;
     next();
 }
 
+/**
+ * Authentication for the event stream on cluster API nodes, which have no key
+ * store: credentials are checked by {@link authenticateConnection} instead.
+ */
+export function connectionAuthMiddleware(req: Request, res: Response, next: NextFunction): void {
+    const apiKey = req.headers['x-api-key'];
+    const credentials = {
+        apiKey: typeof apiKey === 'string' ? apiKey : undefined,
+        bearer: getBearerCredential(req.headers.authorization),
+        session: getCookie(req.headers.cookie, SESSION_COOKIE),
+    };
+
+    void authenticateConnection(credentials, req.ip).then((result) => {
+        if (!result.success) {
+            const status = result.code === 'INSUFFICIENT_SCOPE' ? 403 : result.code === 'GATEWAY_UNAVAILABLE' ? 503 : 401;
+            res.status(status).json({
+                success: false,
+                error: result.error,
+                code: result.code,
+            });
+            return;
+        }
+
+        (req as AuthenticatedRequest).apiKey = result.keyRecord;
+        next();
+    }, next);
+}
+
+/**
+ * Check whether a key holds all of the given scopes.
+ * The `admin` scope satisfies every check.
+ */
+export function hasScopes(keyRecord: ApiKeyRecord, requiredScopes: readonly ApiScope[]): boolean {
+    if (keyRecord.scopes.includes('admin')) {
+        return true;
+    }
+    return requiredScopes.every((scope) => keyRecord.scopes.includes(scope));
+}
+
 /**
  * Middleware factory to require specific scope(s).
  * Use after authMiddleware to enforce granular permissions.
@@ -90,16 +319,7 @@ export function requireScope(...requiredScopes: ApiScope[]): RequestHandler {
         }
 
         // Admin scope bypasses all checks
-        if (keyRecord.scopes.includes('admin')) {
-            return next();
-        }
-
-        // Check if key has all required scopes
-        const hasAllScopes = requiredScopes.every((scope) =>
-            keyRecord.scopes.includes(scope)
-        );
-
-        if (!hasAllScopes) {
+        if (!hasScopes(keyRecord, requiredScopes)) {
             res.status(403).json({
                 success: false,
                 error: `Missing required scope(s): ${requiredScopes.join(', ')}`,
@@ -114,6 +334,75 @@ export function requireScope(...requiredScopes: ApiScope[]): RequestHandler {
     };
 }
 
+/**
+ * Check a login session's user against the Discord permissions declared for the route.
+ */
+async function enforceSessionPermissions(
+    res: Response,
+    next: NextFunction,
+    userId: string,
+    match: RouteScopeMatch | null
+): Promise<void> {
+    const permissions = match?.route.permissions;
+    if (!match || !permissions) {
+        res.status(403).json({
+            success: false,
+            error: 'This route is not available to Discord login sessions',
+            code: 'SESSION_NOT_ALLOWED',
+        });
+        return;
+    }
+
+    const { guildId, channelId, userId: targetUserId } = match.params;
+    if (!guildId && !channelId) {
+        return next();
+    }
+
+    const allowed = await hasDiscordPermissions(
+        userId,
+        { guildId, channelId },
+        permissions,
+        match.route.memberHierarchy ? targetUserId : undefined
+    );
+
+    if (!allowed) {
+        res.status(403).json({
+            success: false,
+            error: permissions.length > 0
+                ? `Missing required Discord permission(s): ${permissions.join(', ')}`
+                : 'You do not have access to this guild or channel',
+            code: 'MISSING_DISCORD_PERMISSIONS',
+            required: permissions,
+        });
+        return;
+    }
+
+    next();
+}
+
+/**
+ * Enforce the scopes declared in ROUTE_SCOPES for the requested route.
+ * Login sessions are checked against the route's Discord permissions instead.
+ * Use after authMiddleware. Routes that are not listed require the `admin` scope.
+ */
+export function enforceRouteScopes(req: Request, res: Response, next: NextFunction): void {
+    const match = matchRouteScope(req.method, `${req.baseUrl}${req.path}`);
+
+    const keyRecord = (req as AuthenticatedRequest).apiKey;
+    if (keyRecord?.source === 'session' && keyRecord.userId) {
+        enforceSessionPermissions(res, next, keyRecord.userId, match).catch(next);
+        return;
+    }
+
+    const requiredScopes: ApiScope[] = match ? match.route.scopes : ['admin'];
+
+    if (requiredScopes.length === 0) {
+        return next();
+    }
+
+    requireScope(...requiredScopes)(req, res, next);
+}
+
 /**
  * Error handler middleware
  */
@@ -1,17 +1,53 @@
 import type { Request, Response, NextFunction, ErrorRequestHandler } from 'express';
+import { DiscordAPIError, HTTPError, RateLimitError, RESTJSONErrorCodes } from 'discord.js';
 import { ZodError } from 'zod';
 
+/**
+ * HTTP status and bridge error code for well-known Discord JSON error codes.
+ * Codes not listed here are mapped from Discord's HTTP status (see `fromDiscord`).
+ */
+const DISCORD_ERROR_CODES: Partial<Record<RESTJSONErrorCodes, [status: number, code: string]>> = {
+    [RESTJSONErrorCodes.UnknownChannel]: [404, 'CHANNEL_NOT_FOUND'],
+    [RESTJSONErrorCodes.UnknownGuild]: [404, 'GUILD_NOT_FOUND'],
+    [RESTJSONErrorCodes.UnknownInvite]: [404, 'INVITE_NOT_FOUND'],
+    [RESTJSONErrorCodes.UnknownMember]: [404, 'MEMBER_NOT_FOUND'],
+    [RESTJSONErrorCodes.UnknownMessage]: [404, 'MESSAGE_NOT_FOUND'],
+    [RESTJSONErrorCodes.UnknownRole]: [404, 'ROLE_NOT_FOUND'],
+    [RESTJSONErrorCodes.UnknownUser]: [404, 'USER_NOT_FOUND'],
+    [RESTJSONErrorCodes.UnknownEmoji]: [404, 'EMOJI_NOT_FOUND'],
+    [RESTJSONErrorCodes.UnknownWebhook]: [404, 'WEBHOOK_NOT_FOUND'],
+    [RESTJSONErrorCodes.UnknownBan]: [404, 'BAN_NOT_FOUND'],
+    [RESTJSONErrorCodes.UnknownSticker]: [404, 'STICKER_NOT_FOUND'],
+    [RESTJSONErrorCodes.UnknownInteraction]: [404, 'INTERACTION_NOT_FOUND'],
+    [RESTJSONErrorCodes.UnknownApplicationCommand]: [404, 'COMMAND_NOT_FOUND'],
+    [RESTJSONErrorCodes.UnknownStageInstance]: [404, 'STAGE_INSTANCE_NOT_FOUND'],
+    [RESTJSONErrorCodes.UnknownGuildScheduledEvent]: [404, 'SCHEDULED_EVENT_NOT_FOUND'],
+    [RESTJSONErrorCodes.MissingAccess]: [403, 'MISSING_ACCESS'],
+    [RESTJSONErrorCodes.MissingPermissions]: [403, 'MISSING_PERMISSIONS'],
+    [RESTJSONErrorCodes.CannotEditMessageAuthoredByAnotherUser]: [403, 'NOT_MESSAGE_AUTHOR'],
+    [RESTJSONErrorCodes.CannotSendMessagesToThisUser]: [403, 'CANNOT_MESSAGE_USER'],
+    [RESTJSONErrorCodes.CannotExecuteActionOnDMChannel]: [400, 'DM_CHANNEL_NOT_SUPPORTED'],
+    [RESTJSONErrorCodes.CannotExecuteActionOnSystemMessage]: [400, 'SYSTEM_MESSAGE_NOT_SUPPORTED'],
+    [RESTJSONErrorCodes.ProvidedTooFewOrTooManyMessagesToDelete]: [400, 'INVALID_BULK_DELETE'],
+    [RESTJSONErrorCodes.OneOfTheMessagesProvidedWasTooOldForBulkDelete]: [400, 'MESSAGES_TOO_OLD'],
+    [RESTJSONErrorCodes.InvalidFormBodyOrContentType]: [400, 'INVALID_FORM_BODY'],
+    [RESTJSONErrorCodes.InteractionHasAlreadyBeenAcknowledged]: [409, 'INTERACTION_ALREADY_ACKNOWLEDGED'],
+};
+
 /**
  * Custom API error class for standardized error handling.
  */
 export class ApiError extends Error {
     public readonly statusCode: number;
     public readonly code: string;
+    /** Discord JSON error code, when the error came from Discord */
+    public readonly discordCode?: number;
 
-    constructor(statusCode: number, message: string, code: string) {
+    constructor(statusCode: number, message: string, code: string, discordCode?: number) {
         super(message);
         this.statusCode = statusCode;
         this.code = code;
+        this.discordCode = discordCode;
         this.name = 'ApiError';
     }
 
@@ -34,6 +70,41 @@ export class ApiError extends Error {
     static internal(message = 'Internal server error', code = 'INTERNAL_ERROR'): ApiError {
         return new ApiError(500, message, code);
     }
+
+    /**
+     * Convert an error thrown by a Discord REST call into an ApiError.
+     * Known Discord codes map to a stable bridge code; the rest keep Discord's 4xx
+     * status, and outages become 502. Errors that did not come from Discord are
+     * returned unchanged, so services can rethrow whatever they catch:
+     *
+     *     catch (error) { throw ApiError.fromDiscord(error); }
+     */
+    static fromDiscord(error: unknown): unknown {
+        if (error instanceof DiscordAPIError) {
+            const code = typeof error.code === 'number' ? error.code : undefined;
+            const known = code === undefined ? undefined : DISCORD_ERROR_CODES[code as RESTJSONErrorCodes];
+            if (known) {
+                return new ApiError(known[0], error.message, known[1], code);
+            }
+            if (code !== undefined && code >= 30001 && code < 40000) {
+                return new ApiError(400, error.message, 'DISCORD_LIMIT_REACHED', code);
+            }
+            if (error.status === 400 || error.status === 403 || error.status === 404) {
+                return new ApiError(error.status, error.message, 'DISCORD_ERROR', code);
+            }
+            return new ApiError(502, error.message, 'DISCORD_ERROR', code);
+        }
+
+        if (error instanceof RateLimitError) {
+            return new ApiError(429, `Discord rate limit on ${error.route}, retry in ${error.retryAfter}ms`, 'DISCORD_RATE_LIMITED');
+        }
+
+        if (error instanceof HTTPError) {
+            return new ApiError(502, `Discord responded with ${error.status} ${error.message}`, 'DISCORD_UNAVAILABLE');
+        }
+
+        return error;
+    }
 }
 
 /**
@@ -60,12 +131,16 @@ export const errorHandler: ErrorRequestHandler = (
         return;
     }
 
+    // Discord errors that services let through
+    err = ApiError.fromDiscord(err);
+
     // Handle custom API errors
     if (err instanceof ApiError) {
         res.status(err.statusCode).json({
             success: false,
             error: err.message,
             code: err.code,
+            ...(err.discordCode !== undefined && { discordCode: err.discordCode }),
         });
         return;
     }
@@ -1,163 +1,299 @@
 import type { Request, Response, NextFunction, RequestHandler } from 'express';
-import { config } from '../../config/index.js';
+import { config, type RateLimitRuleConfig } from '../../config/index.js';
+import { matchRouteScope, type RouteScope } from '../scopes.js';
 
 /**
- * Simple in-memory rate limiter.
- * For production, consider using express-rate-limit with Redis store.
+ * Counter for one rate limit key within the current window.
  */
-interface RateLimitEntry {
+export interface RateLimitEntry {
     count: number;
     resetAt: number;
 }
 
-const rateLimitStore = new Map<string, RateLimitEntry>();
-
 /**
- * Get client identifier for rate limiting (IP address).
+ * Backend holding rate limit counters.
+ * The default store is in-memory; implement this interface (e.g. on Redis) and
+ * install it with `setRateLimitStore()` to share limits between bridge instances.
  */
-function getClientId(req: Request): string {
-    // Support X-Forwarded-For for proxied requests
-    const forwarded = req.headers['x-forwarded-for'];
-    if (typeof forwarded === 'string') {
-        return forwarded.split(',')[0]?.trim() ?? req.ip ?? 'unknown';
-    }
-    return req.ip ?? 'unknown';
+export interface RateLimitStore {
+    /**
+     * Count a request against `key` and return the updated entry.
+     * Starts a new window of `windowMs` if none is active.
+     */
+    increment(key: string, windowMs: number): Promise<RateLimitEntry>;
+    /** Release timers or connections held by the store */
+    shutdown?(): void | Promise<void>;
 }
 
-
 /**
- * Global rate limiter middleware.
- * Uses configuration from config.rateLimit.
+ * In-memory rate limit store for a single bridge instance.
  */
-export function rateLimiter(): RequestHandler {
-    return (req: Request, res: Response, next: NextFunction): void => {
-        if (!config.rateLimit.enabled) {
-            return next();
-        }
+export class MemoryRateLimitStore implements RateLimitStore {
+    private entries = new Map<string, RateLimitEntry>();
+    private cleanupInterval: NodeJS.Timeout;
 
-        const clientId = getClientId(req);
-        const now = Date.now();
-        const windowMs = config.rateLimit.windowMs;
-        const maxRequests = config.rateLimit.maxRequests;
+    constructor(cleanupIntervalMs: number = 60000) {
+        this.cleanupInterval = setInterval(() => {
+            const now = Date.now();
+            for (const [key, entry] of this.entries) {
+                if (entry.resetAt < now) {
+                    this.entries.delete(key);
+                }
+            }
+        }, cleanupIntervalMs);
+        this.cleanupInterval.unref();
+    }
 
-        let entry = rateLimitStore.get(clientId);
+    increment(key: string, windowMs: number): Promise<RateLimitEntry> {
+        const now = Date.now();
+        let entry = this.entries.get(key);
 
         // Create new entry or reset if window expired
         if (!entry || entry.resetAt < now) {
-            entry = {
-                count: 0,
-                resetAt: now + windowMs,
-            };
-            rateLimitStore.set(clientId, entry);
+            entry = { count: 0, resetAt: now + windowMs };
+            this.entries.set(key, entry);
         }
 
         entry.count++;
+        return Promise.resolve({ ...entry });
+    }
 
-        // Set rate limit headers
-        const remaining = Math.max(0, maxRequests - entry.count);
-        res.setHeader('X-RateLimit-Limit', maxRequests);
-        res.setHeader('X-RateLimit-Remaining', remaining);
-        res.setHeader('X-RateLimit-Reset', Math.ceil(entry.resetAt / 1000));
-
-        if (entry.count > maxRequests) {
-            const retryAfter = Math.ceil((entry.resetAt - now) / 1000);
-            res.setHeader('Retry-After', retryAfter);
-            res.status(429).json({
-                success: false,
-                error: 'Too many requests',
-                code: 'RATE_LIMITED',
-                retryAfter,
-            });
-            return;
-        }
+    shutdown(): void {
+        clearInterval(this.cleanupInterval);
+        this.entries.clear();
+    }
+}
+
+/**
+ * A limit applied to the routes it matches.
+ */
+interface RateLimitRule {
+    id: string;
+    windowMs: number;
+    maxRequests: number;
+    matches: (route: RouteScope | null) => boolean;
+}
+
+let rateLimitStore: RateLimitStore = new MemoryRateLimitStore();
+
+/**
+ * Replace the rate limit store (e.g. with a shared backend).
+ * Call before the server starts handling requests.
+ */
+export function setRateLimitStore(store: RateLimitStore): void {
+    void rateLimitStore.shutdown?.();
+    rateLimitStore = store;
+}
+
+/**
+ * Build a rule from configuration. A rule matches routes that require any of its
+ * scopes or are listed in its routes (as "METHOD /path").
+ */
+function compileRule(rule: RateLimitRuleConfig): RateLimitRule {
+    const scopes = new Set(rule.scopes ?? []);
+    const routes = new Set(rule.routes ?? []);
 
-        next();
+    return {
+        id: rule.id,
+        windowMs: rule.windowMs,
+        maxRequests: rule.maxRequests,
+        matches: (route) =>
+            route !== null &&
+            (routes.has(`${route.method} ${route.path}`) || route.scopes.some((scope) => scopes.has(scope))),
     };
 }
 
 /**
- * Create a strict rate limiter for specific routes.
- * @param maxRequests - Max requests allowed
- * @param windowMs - Time window in milliseconds
- * @param cleanupIntervalMs - Cleanup interval in milliseconds (default: 60000)
+ * Identify the caller for rate limiting.
+ * Authenticated requests are limited per API key (tokens share their parent key's limits);
+ * anything else falls back to the client IP, which honours the `TRUST_PROXY` setting.
  */
-export function strictRateLimiter(
-    maxRequests: number,
-    windowMs: number,
-    cleanupIntervalMs: number = 60000
-): RequestHandler {
-    const store = new Map<string, RateLimitEntry>();
-
-    // Set up periodic cleanup for this store
-    const cleanupInterval = setInterval(() => {
-        const now = Date.now();
-        for (const [key, entry] of store) {
-            if (entry.resetAt < now) {
-                store.delete(key);
-            }
+export function getRateLimitKey(req: Request): string {
+    if (req.apiKey) {
+        return `key:${req.apiKey.id}`;
+    }
+    return `ip:${req.ip ?? 'unknown'}`;
+}
+
+/**
+ * Count a request against each rule. Returns the rule closest to its limit
+ * (over it if `remaining` is negative), or null if no rule applies.
+ */
+async function countRules(
+    rules: RateLimitRule[],
+    clientKey: string
+): Promise<{ rule: RateLimitRule; entry: RateLimitEntry; remaining: number } | null> {
+    let tightest: { rule: RateLimitRule; entry: RateLimitEntry; remaining: number } | null = null;
+    for (const rule of rules) {
+        const entry = await rateLimitStore.increment(`${rule.id}:${clientKey}`, rule.windowMs);
+        const remaining = rule.maxRequests - entry.count;
+        if (!tightest || remaining < tightest.remaining) {
+            tightest = { rule, entry, remaining };
         }
-    }, cleanupIntervalMs);
+    }
+    return tightest;
+}
 
-    // Track interval for shutdown cleanup
-    cleanupIntervals.push(cleanupInterval);
+/**
+ * Count a request against each rule and reject it if any limit is exceeded.
+ * Headers describe the rule closest to its limit.
+ */
+async function applyRules(
+    rules: RateLimitRule[],
+    clientKey: string,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    const now = Date.now();
+    const tightest = await countRules(rules, clientKey);
 
-    return (req: Request, res: Response, next: NextFunction): void => {
-        const clientId = getClientId(req);
-        const now = Date.now();
+    if (!tightest) {
+        return next();
+    }
 
-        let entry = store.get(clientId);
+    const { rule, entry, remaining } = tightest;
+    res.setHeader('X-RateLimit-Limit', rule.maxRequests);
+    res.setHeader('X-RateLimit-Remaining', Math.max(0, remaining));
+    res.setHeader('X-RateLimit-Reset', Math.ceil(entry.resetAt / 1000));
+    res.setHeader('X-RateLimit-Rule', rule.id);
 
-        if (!entry || entry.resetAt < now) {
-            entry = {
-                count: 0,
-                resetAt: now + windowMs,
-            };
-            store.set(clientId, entry);
+    if (remaining < 0) {
+        const retryAfter = Math.ceil((entry.resetAt - now) / 1000);
+        res.setHeader('Retry-After', retryAfter);
+        res.status(429).json({
+            success: false,
+            error: 'Too many requests',
+            code: 'RATE_LIMITED',
+            rule: rule.id,
+            retryAfter,
+        });
+        return;
+    }
+
+    next();
+}
+
+/**
+ * The default limit from config.rateLimit followed by the configured rules.
+ */
+function buildRules(): RateLimitRule[] {
+    const defaultRule: RateLimitRule = {
+        id: 'default',
+        windowMs: config.rateLimit.windowMs,
+        maxRequests: config.rateLimit.maxRequests,
+        matches: () => true,
+    };
+    return [defaultRule, ...config.rateLimit.rules.map(compileRule)];
+}
+
+let actionRules: RateLimitRule[] | null = null;
+
+/**
+ * Count a call to a route made outside of Express (a socket action) against the
+ * same limits as the REST request, from the same store. Resolves to the rule that
+ * was exceeded and the seconds until it resets, or null if the call is allowed.
+ */
+export async function consumeRateLimit(
+    route: RouteScope,
+    clientKey: string
+): Promise<{ rule: string; retryAfter: number } | null> {
+    if (!config.rateLimit.enabled) {
+        return null;
+    }
+
+    actionRules ??= buildRules();
+    try {
+        const tightest = await countRules(actionRules.filter((rule) => rule.matches(route)), clientKey);
+        if (!tightest || tightest.remaining >= 0) {
+            return null;
         }
+        return { rule: tightest.rule.id, retryAfter: Math.ceil((tightest.entry.resetAt - Date.now()) / 1000) };
+    } catch (error) {
+        // Fail open, as for REST requests
+        console.error('Rate limit store error:', error);
+        return null;
+    }
+}
 
-        entry.count++;
+/**
+ * Global rate limiter middleware.
+ * Applies the default limit from config.rateLimit to every request, plus any
+ * configured rules matching the requested route. Mount after authMiddleware so
+ * limits are tracked per API key (and behind {@link ipRateLimiter}).
+ */
+export function rateLimiter(): RequestHandler {
+    const rules = buildRules();
 
-        if (entry.count > maxRequests) {
-            const retryAfter = Math.ceil((entry.resetAt - now) / 1000);
-            res.setHeader('Retry-After', retryAfter);
-            res.status(429).json({
-                success: false,
-                error: 'Rate limit exceeded for this endpoint',
-                code: 'RATE_LIMITED',
-                retryAfter,
-            });
-            return;
+    return (req: Request, res: Response, next: NextFunction): void => {
+        if (!config.rateLimit.enabled) {
+            return next();
         }
 
-        next();
+        const route = matchRouteScope(req.method, `${req.baseUrl}${req.path}`)?.route ?? null;
+        const matching = rules.filter((rule) => rule.matches(route));
+
+        applyRules(matching, getRateLimitKey(req), res, next).catch((error) => {
+            // Fail open: an unavailable store should not take the API down
+            console.error('Rate limit store error:', error);
+            next();
+        });
     };
 }
 
 /**
- * Track all cleanup intervals for proper shutdown
+ * Per-IP rate limiter, mounted before authMiddleware.
+ * Throttles every request from a client address, including those with missing
+ * or invalid credentials, so key guessing and auth-failure floods are limited.
+ * Its limit (config.rateLimit.ipMaxRequests) is kept above the per-key default
+ * so that keys sharing an address are not throttled by each other first.
  */
-const cleanupIntervals: NodeJS.Timeout[] = [];
+export function ipRateLimiter(): RequestHandler {
+    const rule: RateLimitRule = {
+        id: 'ip',
+        windowMs: config.rateLimit.windowMs,
+        maxRequests: config.rateLimit.ipMaxRequests,
+        matches: () => true,
+    };
 
-// Track the global cleanup interval
-const globalCleanupInterval = setInterval(() => {
-    const now = Date.now();
-    for (const [key, entry] of rateLimitStore) {
-        if (entry.resetAt < now) {
-            rateLimitStore.delete(key);
+    return (req: Request, res: Response, next: NextFunction): void => {
+        if (!config.rateLimit.enabled) {
+            return next();
         }
-    }
-}, 60000);
-cleanupIntervals.push(globalCleanupInterval);
+
+        applyRules([rule], `ip:${req.ip ?? 'unknown'}`, res, next).catch((error) => {
+            console.error('Rate limit store error:', error);
+            next();
+        });
+    };
+}
+
+let strictLimiterCount = 0;
+
+/**
+ * Create a strict rate limiter for specific routes.
+ * Shares the configured store; counters are separate from the global limits.
+ * @param maxRequests - Max requests allowed
+ * @param windowMs - Time window in milliseconds
+ */
+export function strictRateLimiter(maxRequests: number, windowMs: number): RequestHandler {
+    const rule: RateLimitRule = {
+        id: `strict-${++strictLimiterCount}`,
+        windowMs,
+        maxRequests,
+        matches: () => true,
+    };
+
+    return (req: Request, res: Response, next: NextFunction): void => {
+        applyRules([rule], getRateLimitKey(req), res, next).catch((error) => {
+            console.error('Rate limit store error:', error);
+            next();
+        });
+    };
+}
 
 /**
- * Clean up all rate limiter intervals on shutdown.
- * Call this when the server is shutting down to prevent memory leaks.
+ * Release the rate limit store on shutdown.
  */
 export function shutdownRateLimiter(): void {
-    for (const interval of cleanupIntervals) {
-        clearInterval(interval);
-    }
-    cleanupIntervals.length = 0;
-    rateLimitStore.clear();
+    void rateLimitStore.shutdown?.();
 }
-
@@ -0,0 +1,57 @@
+import type { Request, Response, NextFunction } from 'express';
+import { discordRequestQueue, REQUEST_PRIORITIES, type RequestPriority } from '../../discord/request-queue.js';
+import type { ApiKeyRecord } from '../../types/auth.types.js';
+import { matchRouteScope } from '../scopes.js';
+import { hasScopes } from './auth.js';
+import { getRateLimitKey } from './rateLimit.js';
+
+/**
+ * The queue priority a caller gets for a requested one. Any caller may yield
+ * with `low`, but only keys with the `admin` scope may jump ahead with `high`;
+ * other keys asking for `high` are queued at `normal`.
+ */
+export function resolvePriority(requested: unknown, key: ApiKeyRecord | undefined): RequestPriority {
+    const priority = REQUEST_PRIORITIES.find((value) => value === requested) ?? 'normal';
+    if (priority === 'high' && !(key && hasScopes(key, ['admin']))) {
+        return 'normal';
+    }
+    return priority;
+}
+
+/**
+ * Schedule requests that call Discord through the outbound queue.
+ * Each API key may have a limited number of requests running or waiting; beyond
+ * that the request is rejected with 429 and a suggested retry delay. The place in
+ * the queue is released once the response has been sent or the client disconnects.
+ * Routes served from the Discord cache (`cached` in ROUTE_SCOPES) skip the queue.
+ */
+export function discordQueue(req: Request, res: Response, next: NextFunction): void {
+    if (matchRouteScope(req.method, `${req.baseUrl}${req.path}`)?.route.cached) {
+        return next();
+    }
+
+    const priority = resolvePriority(req.header('x-request-priority')?.toLowerCase(), req.apiKey);
+    const slot = discordRequestQueue.enqueue(getRateLimitKey(req), priority);
+
+    if (!slot) {
+        const retryAfter = discordRequestQueue.getRetryAfter();
+        res.setHeader('Retry-After', retryAfter);
+        res.status(429).json({
+            success: false,
+            error: 'Too many pending Discord requests for this API key',
+            code: 'DISCORD_QUEUE_FULL',
+            retryAfter,
+        });
+        return;
+    }
+
+    res.once('close', slot.release);
+    slot.ready.then(() => {
+        // The client may have gone away while the request was queued
+        if (res.writableEnded || req.socket.destroyed) {
+            slot.release();
+            return;
+        }
+        next();
+    }, next);
+}
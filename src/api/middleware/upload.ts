@@ -0,0 +1,119 @@
+import multer from 'multer';
+import type { Request, Response, NextFunction, RequestHandler } from 'express';
+import { config } from '../../config/index.js';
+import { ApiError } from './errorHandler.js';
+import type { UploadedFile } from '../../types/api.types.js';
+
+/** Multipart field holding the JSON body, as in Discord's own API */
+const PAYLOAD_FIELD = 'payload_json';
+
+/** File fields: `files`, or `files[0]`, `files[1]`, ... */
+const FILE_FIELD = /^files(\[\d+\])?$/;
+
+/**
+ * Status and bridge code for Multer's limit errors. Others become `INVALID_MULTIPART`.
+ */
+const MULTER_ERRORS: Partial<Record<multer.ErrorCode, [status: number, code: string]>> = {
+    LIMIT_FILE_SIZE: [413, 'FILE_TOO_LARGE'],
+    LIMIT_FILE_COUNT: [400, 'TOO_MANY_FILES'],
+};
+
+/**
+ * Whether a content type matches the allow-list. Entries are exact types
+ * (`text/plain`) or wildcards (`image/*`); an empty list allows any type.
+ */
+export function isAllowedContentType(contentType: string, allowedTypes: readonly string[]): boolean {
+    if (allowedTypes.length === 0) {return true;}
+
+    const type = contentType.toLowerCase();
+    return allowedTypes.some((allowed) => {
+        const pattern = allowed.toLowerCase();
+        return pattern.endsWith('/*') ? type.startsWith(pattern.slice(0, -1)) : type === pattern;
+    });
+}
+
+let parser: RequestHandler | null = null;
+
+function getParser(): RequestHandler {
+    parser ??= multer({
+        storage: multer.memoryStorage(),
+        limits: { fileSize: config.uploads.maxFileSize, files: config.uploads.maxFiles },
+        defParamCharset: 'utf8',
+        fileFilter: (_req, file, callback) => {
+            if (!FILE_FIELD.test(file.fieldname)) {
+                callback(ApiError.badRequest(`Unexpected file field "${file.fieldname}"; use "files"`, 'INVALID_MULTIPART'));
+                return;
+            }
+            if (!isAllowedContentType(file.mimetype, config.uploads.allowedTypes)) {
+                callback(new ApiError(415, `Files of type ${file.mimetype} are not allowed`, 'UNSUPPORTED_FILE_TYPE'));
+                return;
+            }
+            callback(null, true);
+        },
+    }).any();
+    return parser;
+}
+
+/**
+ * Accept `multipart/form-data` requests with file uploads, alongside plain JSON ones.
+ * The JSON body is sent in the `payload_json` field and replaces `req.body`; the
+ * files are read into memory and returned by {@link getUploadedFiles}.
+ */
+export function acceptUploads(req: Request, res: Response, next: NextFunction): void {
+    if (!req.is('multipart/form-data')) {
+        next();
+        return;
+    }
+
+    getParser()(req, res, (error?: unknown) => {
+        if (error instanceof multer.MulterError) {
+            const [status, code] = MULTER_ERRORS[error.code] ?? [400, 'INVALID_MULTIPART'];
+            next(new ApiError(status, error.message, code));
+            return;
+        }
+        if (error) {
+            next(error instanceof ApiError ? error : ApiError.badRequest('Malformed multipart body', 'INVALID_MULTIPART'));
+            return;
+        }
+
+        const payload = (req.body as Record<string, unknown>)[PAYLOAD_FIELD];
+        if (typeof payload === 'string') {
+            try {
+                req.body = JSON.parse(payload) as unknown;
+            } catch {
+                next(ApiError.badRequest(`${PAYLOAD_FIELD} is not valid JSON`, 'INVALID_MULTIPART'));
+                return;
+            }
+        }
+        next();
+    });
+}
+
+/**
+ * Files uploaded with the request, in the order they were sent.
+ */
+export function getUploadedFiles(req: Request): UploadedFile[] {
+    if (!Array.isArray(req.files)) {return [];}
+
+    return req.files.map((file) => ({
+        name: file.originalname,
+        contentType: file.mimetype,
+        data: file.buffer,
+    }));
+}
+
+/**
+ * Add an `attachments` entry for each uploaded file the body does not describe,
+ * so messages carrying only files pass validation. Bodies that are not objects
+ * are returned unchanged for validation to reject.
+ */
+export function describeUploads(body: unknown, files: readonly UploadedFile[]): unknown {
+    if (files.length === 0 || typeof body !== 'object' || body === null || Array.isArray(body)) {return body;}
+
+    const { attachments = [] } = body as { attachments?: unknown };
+    if (!Array.isArray(attachments)) {return body;}
+
+    const described = new Set(attachments.map((attachment) => (attachment as { name?: unknown } | null)?.name));
+    const undescribed = files.filter((file) => !described.has(file.name)).map((file) => ({ name: file.name }));
+    return { ...body, attachments: [...attachments, ...undescribed] };
+}
@@ -13,6 +13,7 @@ const ErrorResponseSchema = z.object({
     success: z.literal(false),
     error: z.string(),
     code: z.string(),
+    discordCode: z.number().optional(),
 });
 
 const SuccessResponseSchema = z.object({
@@ -187,6 +188,7 @@ export const openApiDocument = generator.generateDocument({
     ],
     security: [
         { ApiKeyAuth: [] },
+        { BearerAuth: [] },
     ],
 });
 
@@ -200,5 +202,10 @@ openApiDocument.components = {
             name: 'X-API-Key',
             description: 'API key for authentication',
         },
+        BearerAuth: {
+            type: 'http',
+            scheme: 'bearer',
+            description: 'Short-lived signed token from POST /api/auth/token',
+        },
     },
 };
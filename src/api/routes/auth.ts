@@ -0,0 +1,145 @@
+import { Router } from 'express';
+import { config } from '../../config/index.js';
+import { ROUTE_SCOPES } from '../scopes.js';
+import { canAccessChannel, canAccessGuild } from '../auth/restrictions.js';
+import { signToken } from '../auth/tokens.js';
+import { SESSION_COOKIE, sessionStore } from '../auth/sessions.js';
+import { getSessionCookieOptions } from './oauth.js';
+import { API_SCOPES } from '../../types/auth.types.js';
+import type { ApiKeyRecord, IssuedToken } from '../../types/auth.types.js';
+import { CreateTokenSchema } from '../../types/api.types.js';
+import type { ApiResponse, CreateTokenInput } from '../../types/api.types.js';
+import { asyncHandler } from '../middleware/asyncHandler.js';
+import { ApiError } from '../middleware/errorHandler.js';
+import { getCookie, hasScopes, resolveChannelLocation, type AuthenticatedRequest } from '../middleware/auth.js';
+
+/** Token lifetime used when the request does not specify one, in seconds */
+const DEFAULT_TOKEN_TTL = 900;
+
+const router = Router();
+
+/**
+ * Mint a token for a key. The token may only narrow the key's scopes and
+ * guild/channel allow-lists; omitted fields are inherited from the key.
+ */
+function issueToken(keyRecord: ApiKeyRecord, input: CreateTokenInput): IssuedToken {
+    const scopes = input.scopes ?? keyRecord.scopes;
+    const excessScopes = scopes.filter((scope) => !hasScopes(keyRecord, [scope]));
+    if (excessScopes.length > 0) {
+        throw ApiError.forbidden(`API key does not hold scope(s): ${excessScopes.join(', ')}`, 'INSUFFICIENT_SCOPE');
+    }
+
+    if (input.guildIds?.some((guildId) => !canAccessGuild(keyRecord, guildId, resolveChannelLocation))) {
+        throw ApiError.forbidden('API key is not allowed to access this guild or channel', 'RESOURCE_NOT_ALLOWED');
+    }
+    if (input.channelIds?.some((channelId) => !canAccessChannel(keyRecord, channelId, resolveChannelLocation))) {
+        throw ApiError.forbidden('API key is not allowed to access this guild or channel', 'RESOURCE_NOT_ALLOWED');
+    }
+
+    const ttl = input.ttl ?? Math.min(DEFAULT_TOKEN_TTL, config.api.tokenMaxTtl);
+    if (ttl > config.api.tokenMaxTtl) {
+        throw ApiError.badRequest(`Token lifetime may not exceed ${config.api.tokenMaxTtl} seconds`, 'TOKEN_TTL_TOO_LONG');
+    }
+
+    const iat = Math.floor(Date.now() / 1000);
+    let exp = iat + ttl;
+    if (keyRecord.expiresAt) {
+        exp = Math.min(exp, Math.floor(keyRecord.expiresAt.getTime() / 1000));
+    }
+
+    const guildIds = input.guildIds ?? keyRecord.guildIds;
+    const channelIds = input.channelIds ?? keyRecord.channelIds;
+    const token = signToken({
+        kid: keyRecord.id,
+        kpx: keyRecord.keyPrefix,
+        scopes,
+        guildIds,
+        channelIds,
+        iat,
+        exp,
+    });
+
+    return {
+        token,
+        expiresAt: new Date(exp * 1000).toISOString(),
+        scopes,
+        guildIds: guildIds ?? null,
+        channelIds: channelIds ?? null,
+    };
+}
+
+/**
+ * GET /api/auth/scopes
+ * List all scopes, the scopes granted to the caller and the scopes required by each route
+ */
+router.get('/scopes', asyncHandler(async (req, res) => {
+    res.json({
+        success: true,
+        data: {
+            scopes: API_SCOPES,
+            granted: (req as AuthenticatedRequest).apiKey.scopes,
+            routes: ROUTE_SCOPES,
+        },
+    });
+}));
+
+/**
+ * GET /api/auth/session
+ * Get the Discord user and guilds of the current login session
+ */
+router.get('/session', asyncHandler(async (req, res) => {
+    const sessionId = getCookie(req.headers.cookie, SESSION_COOKIE);
+    const session = (req as AuthenticatedRequest).apiKey.source === 'session' && sessionId
+        ? sessionStore.get(sessionId)
+        : null;
+
+    if (!session) {
+        throw ApiError.badRequest('Not authenticated with a Discord login session', 'NOT_A_SESSION');
+    }
+
+    res.json({
+        success: true,
+        data: {
+            user: session.user,
+            guildIds: session.guildIds,
+            expiresAt: session.expiresAt.toISOString(),
+        },
+    });
+}));
+
+/**
+ * POST /api/auth/logout
+ * End the current login session
+ */
+router.post('/logout', asyncHandler(async (req, res) => {
+    const sessionId = getCookie(req.headers.cookie, SESSION_COOKIE);
+    if ((req as AuthenticatedRequest).apiKey.source !== 'session' || !sessionId) {
+        throw ApiError.badRequest('Not authenticated with a Discord login session', 'NOT_A_SESSION');
+    }
+
+    sessionStore.delete(sessionId);
+    res.clearCookie(SESSION_COOKIE, getSessionCookieOptions());
+    res.json({ success: true, data: { loggedOut: true } });
+}));
+
+/**
+ * POST /api/auth/token
+ * Exchange the caller's API key for a short-lived signed token (e.g. for browser clients)
+ */
+router.post('/token', asyncHandler(async (req, res) => {
+    const keyRecord = (req as AuthenticatedRequest).apiKey;
+    if (keyRecord.source === 'token' || keyRecord.source === 'session') {
+        throw ApiError.forbidden('Only API keys can be exchanged for tokens', 'TOKEN_EXCHANGE_NOT_ALLOWED');
+    }
+
+    const result = CreateTokenSchema.safeParse(req.body);
+    if (!result.success) {
+        res.status(400).json({ success: false, error: 'Invalid request body', details: result.error.issues });
+        return;
+    }
+
+    const response: ApiResponse<IssuedToken> = { success: true, data: issueToken(keyRecord, result.data) };
+    res.status(201).json(response);
+}));
+
+export default router;
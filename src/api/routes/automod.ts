@@ -82,11 +82,6 @@ router.get('/rules/:ruleId', asyncHandler(async (req: Request<GuildRuleParams>,
     const { guildId, ruleId } = req.params;
     const rule = await autoModService.getAutoModRule(guildId, ruleId);
 
-    if (!rule) {
-        res.status(404).json({ success: false, error: 'Rule not found', code: 'RULE_NOT_FOUND' });
-        return;
-    }
-
     const response: ApiResponse<SerializedAutoModRule> = { success: true, data: rule };
     res.json(response);
 }));
@@ -116,11 +111,6 @@ router.post('/rules', asyncHandler(async (req: Request<GuildParams>, res) => {
     const validatedData = parseResult.data;
     const rule = await autoModService.createAutoModRule(guildId, validatedData);
 
-    if (!rule) {
-        res.status(400).json({ success: false, error: 'Failed to create rule', code: 'RULE_CREATE_FAILED' });
-        return;
-    }
-
     const response: ApiResponse<SerializedAutoModRule> = { success: true, data: rule };
     res.status(201).json(response);
 }));
@@ -147,11 +137,6 @@ router.patch('/rules/:ruleId', asyncHandler(async (req: Request<GuildRuleParams>
     const validatedData = parseResult.data;
     const rule = await autoModService.editAutoModRule(guildId, ruleId, validatedData);
 
-    if (!rule) {
-        res.status(404).json({ success: false, error: 'Rule not found or failed to update', code: 'RULE_UPDATE_FAILED' });
-        return;
-    }
-
     const response: ApiResponse<SerializedAutoModRule> = { success: true, data: rule };
     res.json(response);
 }));
@@ -162,12 +147,7 @@ router.patch('/rules/:ruleId', asyncHandler(async (req: Request<GuildRuleParams>
  */
 router.delete('/rules/:ruleId', asyncHandler(async (req: Request<GuildRuleParams>, res) => {
     const { guildId, ruleId } = req.params;
-    const success = await autoModService.deleteAutoModRule(guildId, ruleId);
-
-    if (!success) {
-        res.status(404).json({ success: false, error: 'Rule not found or failed to delete', code: 'RULE_DELETE_FAILED' });
-        return;
-    }
+    await autoModService.deleteAutoModRule(guildId, ruleId);
 
     res.json({ success: true });
 }));
@@ -13,11 +13,6 @@ router.get('/:channelId', asyncHandler(async (req, res) => {
     const { channelId } = req.params;
     const channel = await channelService.getChannel(channelId);
 
-    if (!channel) {
-        res.status(404).json({ success: false, error: 'Channel not found', code: 'CHANNEL_NOT_FOUND' });
-        return;
-    }
-
     res.json({ success: true, data: channel });
 }));
 
@@ -36,11 +31,6 @@ router.post('/guilds/:guildId/channels', asyncHandler(async (req, res) => {
 
     const channel = await channelService.createChannel(guildId, result.data);
 
-    if (!channel) {
-        res.status(400).json({ success: false, error: 'Failed to create channel', code: 'CREATE_FAILED' });
-        return;
-    }
-
     res.status(201).json({ success: true, data: channel });
 }));
 
@@ -59,11 +49,6 @@ router.patch('/:channelId', asyncHandler(async (req, res) => {
 
     const channel = await channelService.editChannel(channelId, result.data);
 
-    if (!channel) {
-        res.status(400).json({ success: false, error: 'Failed to edit channel', code: 'EDIT_FAILED' });
-        return;
-    }
-
     res.json({ success: true, data: channel });
 }));
 
@@ -75,12 +60,7 @@ router.delete('/:channelId', asyncHandler(async (req, res) => {
     const { channelId } = req.params;
     const reason = req.body?.reason as string | undefined;
 
-    const success = await channelService.deleteChannel(channelId, reason);
-
-    if (!success) {
-        res.status(400).json({ success: false, error: 'Failed to delete channel', code: 'DELETE_FAILED' });
-        return;
-    }
+    await channelService.deleteChannel(channelId, reason);
 
     res.json({ success: true, data: { deleted: true } });
 }));
@@ -101,11 +81,6 @@ router.post('/:channelId/threads', asyncHandler(async (req, res) => {
 
     const thread = await channelService.createThread(channelId, result.data, messageId);
 
-    if (!thread) {
-        res.status(400).json({ success: false, error: 'Failed to create thread', code: 'THREAD_CREATE_FAILED' });
-        return;
-    }
-
     res.status(201).json({ success: true, data: thread });
 }));
 
@@ -125,12 +100,7 @@ router.get('/:channelId/threads', asyncHandler(async (req, res) => {
  */
 router.post('/:channelId/archive', asyncHandler(async (req, res) => {
     const { channelId } = req.params;
-    const success = await channelService.archiveThread(channelId, true);
-
-    if (!success) {
-        res.status(400).json({ success: false, error: 'Failed to archive thread', code: 'ARCHIVE_FAILED' });
-        return;
-    }
+    await channelService.archiveThread(channelId, true);
 
     res.json({ success: true, data: { archived: true } });
 }));
@@ -141,12 +111,7 @@ router.post('/:channelId/archive', asyncHandler(async (req, res) => {
  */
 router.delete('/:channelId/archive', asyncHandler(async (req, res) => {
     const { channelId } = req.params;
-    const success = await channelService.archiveThread(channelId, false);
-
-    if (!success) {
-        res.status(400).json({ success: false, error: 'Failed to unarchive thread', code: 'UNARCHIVE_FAILED' });
-        return;
-    }
+    await channelService.archiveThread(channelId, false);
 
     res.json({ success: true, data: { archived: false } });
 }));
@@ -157,12 +122,7 @@ router.delete('/:channelId/archive', asyncHandler(async (req, res) => {
  */
 router.post('/:channelId/lock', asyncHandler(async (req, res) => {
     const { channelId } = req.params;
-    const success = await channelService.lockThread(channelId, true);
-
-    if (!success) {
-        res.status(400).json({ success: false, error: 'Failed to lock thread', code: 'LOCK_FAILED' });
-        return;
-    }
+    await channelService.lockThread(channelId, true);
 
     res.json({ success: true, data: { locked: true } });
 }));
@@ -173,12 +133,7 @@ router.post('/:channelId/lock', asyncHandler(async (req, res) => {
  */
 router.delete('/:channelId/lock', asyncHandler(async (req, res) => {
     const { channelId } = req.params;
-    const success = await channelService.lockThread(channelId, false);
-
-    if (!success) {
-        res.status(400).json({ success: false, error: 'Failed to unlock thread', code: 'UNLOCK_FAILED' });
-        return;
-    }
+    await channelService.lockThread(channelId, false);
 
     res.json({ success: true, data: { locked: false } });
 }));
@@ -193,11 +148,6 @@ router.post('/:channelId/clone', asyncHandler(async (req, res) => {
 
     const channel = await channelService.cloneChannel(channelId, name);
 
-    if (!channel) {
-        res.status(400).json({ success: false, error: 'Failed to clone channel', code: 'CLONE_FAILED' });
-        return;
-    }
-
     res.status(201).json({ success: true, data: channel });
 }));
 
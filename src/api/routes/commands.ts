@@ -37,11 +37,6 @@ router.get('/:commandId', asyncHandler(async (req, res) => {
 
     const command = await commandService.getGlobalCommand(commandId);
 
-    if (!command) {
-        res.status(404).json({ success: false, error: 'Command not found', code: 'COMMAND_NOT_FOUND' });
-        return;
-    }
-
     res.json({ success: true, data: command });
 }));
 
@@ -58,11 +53,6 @@ router.post('/', asyncHandler(async (req, res) => {
 
     const command = await commandService.createGlobalCommand(result.data);
 
-    if (!command) {
-        res.status(400).json({ success: false, error: 'Failed to create command', code: 'CREATE_FAILED' });
-        return;
-    }
-
     res.status(201).json({ success: true, data: command });
 }));
 
@@ -85,11 +75,6 @@ router.patch('/:commandId', asyncHandler(async (req, res) => {
 
     const command = await commandService.editGlobalCommand(commandId, result.data);
 
-    if (!command) {
-        res.status(400).json({ success: false, error: 'Failed to edit command', code: 'EDIT_FAILED' });
-        return;
-    }
-
     res.json({ success: true, data: command });
 }));
 
@@ -104,12 +89,7 @@ router.delete('/:commandId', asyncHandler(async (req, res) => {
         return;
     }
 
-    const success = await commandService.deleteGlobalCommand(commandId);
-
-    if (!success) {
-        res.status(400).json({ success: false, error: 'Failed to delete command', code: 'DELETE_FAILED' });
-        return;
-    }
+    await commandService.deleteGlobalCommand(commandId);
 
     res.json({ success: true, data: { deleted: true } });
 }));
@@ -0,0 +1,55 @@
+import { Router } from 'express';
+import { config } from '../../config/index.js';
+import { listConnections, type OutboundStats, type SlowConsumerPolicy } from '../streams/outbound.js';
+import type { ApiResponse } from '../../types/api.types.js';
+import { asyncHandler } from '../middleware/asyncHandler.js';
+
+/**
+ * A realtime connection with its outbound counters.
+ */
+interface ConnectionSummary extends OutboundStats {
+    id: string;
+    transport: 'socket.io' | 'websocket' | 'sse';
+    keyId: string;
+    connectedAt: string;
+}
+
+/** Connections of this process, the limits they run under and summed counters */
+interface ConnectionsOverview {
+    limits: { maxUnflushed: number; maxQueued: number; policy: SlowConsumerPolicy };
+    totals: OutboundStats;
+    connections: ConnectionSummary[];
+}
+
+const router = Router();
+
+/**
+ * GET /api/system/connections
+ * Open Socket.IO, plain WebSocket and SSE connections with sent, dropped and queued event counts
+ */
+router.get('/', asyncHandler(async (_req, res) => {
+    const connections = listConnections().map(({ id, transport, keyId, connectedAt, outbound }): ConnectionSummary => ({
+        id,
+        transport,
+        keyId,
+        connectedAt: connectedAt.toISOString(),
+        ...outbound.stats,
+    }));
+
+    const totals: OutboundStats = { sent: 0, dropped: 0, queued: 0, unflushed: 0 };
+    for (const connection of connections) {
+        totals.sent += connection.sent;
+        totals.dropped += connection.dropped;
+        totals.queued += connection.queued;
+        totals.unflushed += connection.unflushed;
+    }
+
+    const { maxUnflushed, maxQueued, policy } = config.backpressure;
+    const response: ApiResponse<ConnectionsOverview> = {
+        success: true,
+        data: { limits: { maxUnflushed, maxQueued, policy }, totals, connections },
+    };
+    res.json(response);
+}));
+
+export default router;
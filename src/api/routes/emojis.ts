@@ -36,11 +36,6 @@ router.get('/:emojiId', asyncHandler(async (req: Request<GuildEmojiParams>, res)
     const { guildId, emojiId } = req.params;
     const emoji = await emojiService.getEmoji(guildId, emojiId);
 
-    if (!emoji) {
-        res.status(404).json({ success: false, error: 'Emoji not found', code: 'EMOJI_NOT_FOUND' });
-        return;
-    }
-
     const response: ApiResponse<SerializedEmoji> = { success: true, data: emoji };
     res.json(response);
 }));
@@ -53,11 +48,6 @@ router.post('/', asyncHandler(async (req: Request<GuildParams>, res) => {
     const { guildId } = req.params;
     const emoji = await emojiService.createEmoji(guildId, req.body);
 
-    if (!emoji) {
-        res.status(400).json({ success: false, error: 'Failed to create emoji', code: 'EMOJI_CREATE_FAILED' });
-        return;
-    }
-
     const response: ApiResponse<SerializedEmoji> = { success: true, data: emoji };
     res.status(201).json(response);
 }));
@@ -70,11 +60,6 @@ router.patch('/:emojiId', asyncHandler(async (req: Request<GuildEmojiParams>, re
     const { guildId, emojiId } = req.params;
     const emoji = await emojiService.editEmoji(guildId, emojiId, req.body);
 
-    if (!emoji) {
-        res.status(404).json({ success: false, error: 'Emoji not found or failed to update', code: 'EMOJI_UPDATE_FAILED' });
-        return;
-    }
-
     const response: ApiResponse<SerializedEmoji> = { success: true, data: emoji };
     res.json(response);
 }));
@@ -85,12 +70,7 @@ router.patch('/:emojiId', asyncHandler(async (req: Request<GuildEmojiParams>, re
  */
 router.delete('/:emojiId', asyncHandler(async (req: Request<GuildEmojiParams>, res) => {
     const { guildId, emojiId } = req.params;
-    const success = await emojiService.deleteEmoji(guildId, emojiId);
-
-    if (!success) {
-        res.status(404).json({ success: false, error: 'Emoji not found or failed to delete', code: 'EMOJI_DELETE_FAILED' });
-        return;
-    }
+    await emojiService.deleteEmoji(guildId, emojiId);
 
     res.json({ success: true });
 }));
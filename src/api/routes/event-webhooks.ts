@@ -0,0 +1,121 @@
+import { Router, type Request } from 'express';
+import {
+    eventWebhookStore,
+    serializeDeadLetter,
+    serializeEventWebhook,
+    type SerializedDeadLetter,
+    type SerializedEventWebhook,
+} from '../event-webhooks/store.js';
+import { eventWebhookDispatcher, type DeliveryAttempt } from '../event-webhooks/delivery.js';
+import { CreateEventWebhookSchema } from '../../types/api.types.js';
+import type { ApiResponse } from '../../types/api.types.js';
+import type { DiscordEventName } from '../../types/events.types.js';
+import { asyncHandler } from '../middleware/asyncHandler.js';
+
+/** Route params for webhook-specific endpoints */
+interface WebhookParams {
+    webhookId: string;
+}
+
+/** Route params for dead-letter endpoints */
+interface DeliveryParams {
+    deliveryId: string;
+}
+
+const router = Router();
+
+/**
+ * GET /api/event-webhooks
+ * List registered webhooks (secrets are never returned)
+ */
+router.get('/', asyncHandler(async (_req, res) => {
+    const webhooks = eventWebhookStore.list().map(serializeEventWebhook);
+    const response: ApiResponse<SerializedEventWebhook[]> = { success: true, data: webhooks };
+    res.json(response);
+}));
+
+/**
+ * POST /api/event-webhooks
+ * Register an endpoint. The signing secret is only returned in this response.
+ */
+router.post('/', asyncHandler(async (req, res) => {
+    const result = CreateEventWebhookSchema.safeParse(req.body);
+    if (!result.success) {
+        res.status(400).json({ success: false, error: 'Invalid request body', details: result.error.issues });
+        return;
+    }
+
+    const { events, ...options } = result.data;
+    const webhook = await eventWebhookStore.create({
+        ...options,
+        events: events as DiscordEventName[] | undefined,
+    });
+    res.status(201).json({ success: true, data: { ...serializeEventWebhook(webhook), secret: webhook.secret } });
+}));
+
+/**
+ * GET /api/event-webhooks/dead-letters
+ * Deliveries that failed every attempt, oldest first. Filter with `?webhookId=`.
+ */
+router.get('/dead-letters', asyncHandler(async (req, res) => {
+    const webhookId = typeof req.query['webhookId'] === 'string' ? req.query['webhookId'] : undefined;
+    const deadLetters = eventWebhookStore.listDeadLetters(webhookId).map(serializeDeadLetter);
+    const response: ApiResponse<SerializedDeadLetter[]> = { success: true, data: deadLetters };
+    res.json(response);
+}));
+
+/**
+ * GET /api/event-webhooks/dead-letters/:deliveryId
+ * Get a dead-lettered delivery, including its payload
+ */
+router.get('/dead-letters/:deliveryId', asyncHandler(async (req: Request<DeliveryParams>, res) => {
+    const deadLetter = eventWebhookStore.getDeadLetter(req.params.deliveryId);
+    const response: ApiResponse<SerializedDeadLetter> = { success: true, data: serializeDeadLetter(deadLetter) };
+    res.json(response);
+}));
+
+/**
+ * POST /api/event-webhooks/dead-letters/:deliveryId/redeliver
+ * Try a failed delivery once more. It leaves the dead-letter list if it succeeds.
+ */
+router.post('/dead-letters/:deliveryId/redeliver', asyncHandler(async (req: Request<DeliveryParams>, res) => {
+    const result = await eventWebhookDispatcher.redeliver(req.params.deliveryId);
+    const response: ApiResponse<DeliveryAttempt> = { success: true, data: result };
+    res.json(response);
+}));
+
+/**
+ * DELETE /api/event-webhooks/dead-letters/:deliveryId
+ * Discard a failed delivery
+ */
+router.delete('/dead-letters/:deliveryId', asyncHandler(async (req: Request<DeliveryParams>, res) => {
+    await eventWebhookStore.removeDeadLetter(req.params.deliveryId);
+    res.json({ success: true, data: { deleted: true } });
+}));
+
+/**
+ * GET /api/event-webhooks/:webhookId
+ * Get a specific webhook
+ */
+router.get('/:webhookId', asyncHandler(async (req: Request<WebhookParams>, res) => {
+    const webhook = eventWebhookStore.get(req.params.webhookId);
+
+    if (!webhook) {
+        res.status(404).json({ success: false, error: 'Event webhook not found', code: 'EVENT_WEBHOOK_NOT_FOUND' });
+        return;
+    }
+
+    const response: ApiResponse<SerializedEventWebhook> = { success: true, data: serializeEventWebhook(webhook) };
+    res.json(response);
+}));
+
+/**
+ * DELETE /api/event-webhooks/:webhookId
+ * Remove a webhook and its dead-lettered deliveries
+ */
+router.delete('/:webhookId', asyncHandler(async (req: Request<WebhookParams>, res) => {
+    await eventWebhookStore.delete(req.params.webhookId);
+    res.json({ success: true, data: { deleted: true } });
+}));
+
+export default router;
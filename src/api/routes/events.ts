@@ -0,0 +1,56 @@
+import { Router, type Request } from 'express';
+import { canAccessGuild } from '../auth/restrictions.js';
+import { openEventStream } from '../streams/sse.js';
+import { parseSubscriptionQuery } from '../websocket/filters.js';
+import { asyncHandler } from '../middleware/asyncHandler.js';
+import { ApiError } from '../middleware/errorHandler.js';
+import { isKnownGuild, resolveChannelLocation, type AuthenticatedRequest } from '../middleware/auth.js';
+
+const router = Router();
+
+/**
+ * Read the sequence to resume from: the `Last-Event-ID` header sent by
+ * reconnecting EventSource clients, or the `lastEventId` query parameter.
+ */
+function getLastEventId(req: Request): number | null {
+    const header = req.headers['last-event-id'];
+    const query = req.query['lastEventId'];
+    const value = typeof header === 'string' ? header : typeof query === 'string' ? query : undefined;
+    if (value === undefined || value === '') {return null;}
+
+    if (!/^\d+$/.test(value)) {
+        throw ApiError.badRequest('Last-Event-ID must be a non-negative integer', 'INVALID_RESUME');
+    }
+    return parseInt(value, 10);
+}
+
+/**
+ * GET /api/events/stream
+ * Stream Discord events as Server-Sent Events.
+ * Query: `guildIds`, `events`, `channelIds` (comma-separated), `authorIsBot`, `hasAttachments`
+ */
+router.get('/stream', asyncHandler(async (req, res) => {
+    const keyRecord = (req as AuthenticatedRequest).apiKey;
+
+    const parsed = parseSubscriptionQuery(req.query as Record<string, unknown>);
+    if (!parsed.success) {
+        throw ApiError.badRequest(`Invalid subscription filter: ${parsed.error}`, 'INVALID_FILTER');
+    }
+
+    const requested = typeof req.query['guildIds'] === 'string' && req.query['guildIds']
+        ? req.query['guildIds'].split(',').map((id) => id.trim())
+        : [];
+    const denied = requested.filter((guildId) => !canAccessGuild(keyRecord, guildId, resolveChannelLocation));
+    if (denied.length > 0) {
+        throw ApiError.forbidden(`API key is not allowed to access guild(s): ${denied.join(', ')}`, 'RESOURCE_NOT_ALLOWED');
+    }
+
+    const lastEventId = getLastEventId(req);
+
+    // Unknown guilds are ignored, as with Socket.IO subscriptions
+    const subscribedGuilds = new Set(requested.filter(isKnownGuild));
+
+    openEventStream(res, { apiKey: keyRecord, subscribedGuilds, filter: parsed.filter }, lastEventId);
+}));
+
+export default router;
@@ -47,11 +47,6 @@ router.get('/:commandId', asyncHandler(async (req, res) => {
 
     const command = await commandService.getGuildCommand(guildId, commandId);
 
-    if (!command) {
-        res.status(404).json({ success: false, error: 'Command not found', code: 'COMMAND_NOT_FOUND' });
-        return;
-    }
-
     res.json({ success: true, data: command });
 }));
 
@@ -74,11 +69,6 @@ router.post('/', asyncHandler(async (req, res) => {
 
     const command = await commandService.createGuildCommand(guildId, result.data);
 
-    if (!command) {
-        res.status(400).json({ success: false, error: 'Failed to create command', code: 'CREATE_FAILED' });
-        return;
-    }
-
     res.status(201).json({ success: true, data: command });
 }));
 
@@ -105,11 +95,6 @@ router.patch('/:commandId', asyncHandler(async (req, res) => {
 
     const command = await commandService.editGuildCommand(guildId, commandId, result.data);
 
-    if (!command) {
-        res.status(400).json({ success: false, error: 'Failed to edit command', code: 'EDIT_FAILED' });
-        return;
-    }
-
     res.json({ success: true, data: command });
 }));
 
@@ -128,12 +113,7 @@ router.delete('/:commandId', asyncHandler(async (req, res) => {
         return;
     }
 
-    const success = await commandService.deleteGuildCommand(guildId, commandId);
-
-    if (!success) {
-        res.status(400).json({ success: false, error: 'Failed to delete command', code: 'DELETE_FAILED' });
-        return;
-    }
+    await commandService.deleteGuildCommand(guildId, commandId);
 
     res.json({ success: true, data: { deleted: true } });
 }));
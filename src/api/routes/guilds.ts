@@ -3,15 +3,20 @@ import { guildService } from '../../discord/services/index.js';
 import type { ApiResponse } from '../../types/api.types.js';
 import type { SerializedGuild, SerializedChannel, SerializedRole } from '../../types/discord.types.js';
 import { asyncHandler } from '../middleware/asyncHandler.js';
+import { resolveChannelLocation, type AuthenticatedRequest } from '../middleware/auth.js';
+import { canAccessGuild } from '../auth/restrictions.js';
 
 const router = Router();
 
 /**
  * GET /api/guilds
- * List all guilds the bot is in
+ * List all guilds the bot is in (limited to allowed guilds for restricted keys)
  */
 router.get('/', asyncHandler(async (req, res) => {
-    const guilds = await guildService.getGuilds();
+    const { apiKey } = req as AuthenticatedRequest;
+    const guilds = (await guildService.getGuilds()).filter((guild) =>
+        canAccessGuild(apiKey, guild.id, resolveChannelLocation)
+    );
     const response: ApiResponse<SerializedGuild[]> = { success: true, data: guilds };
     res.json(response);
 }));
@@ -24,11 +29,6 @@ router.get('/:guildId', asyncHandler(async (req, res) => {
     const { guildId } = req.params;
     const guild = await guildService.getGuild(guildId);
 
-    if (!guild) {
-        res.status(404).json({ success: false, error: 'Guild not found', code: 'GUILD_NOT_FOUND' });
-        return;
-    }
-
     const response: ApiResponse<SerializedGuild> = { success: true, data: guild };
     res.json(response);
 }));
@@ -1,7 +1,12 @@
 import { Router } from 'express';
+import { MessageFlags } from 'discord.js';
 import { z } from 'zod';
 
 import { ApiError } from '../middleware/errorHandler.js';
+import type { AuthenticatedRequest } from '../middleware/auth.js';
+import { getDefaultAllowedMentions, limitAllowedMentions } from '../auth/mentions.js';
+import { MessageComponentsSchema, ModalSchema, usesComponentsV2 } from '../../types/api.types.js';
+import type { ApiKeyRecord } from '../../types/auth.types.js';
 
 const router = Router();
 
@@ -9,10 +14,57 @@ const router = Router();
 const InteractionCallbackSchema = z.object({
     interactionId: z.string(),
     token: z.string(),
-    type: z.enum(['reply', 'defer', 'update', 'deferUpdate', 'modal']),
+    type: z.enum(['reply', 'defer', 'update', 'deferUpdate', 'autocomplete', 'modal']),
     data: z.unknown().optional(), // Flexible data based on response type
 });
 
+// Message data of reply/defer/update callbacks. Only components and allowed mentions
+// are checked; other fields (content, embeds, flags, ...) go to Discord as they are.
+// Fields use Discord's API names (snake_case).
+const InteractionMessageSchema = z
+    .object({
+        components: MessageComponentsSchema.optional(),
+        flags: z.number().int().optional(),
+        allowed_mentions: z
+            .object({
+                parse: z.array(z.enum(['users', 'roles', 'everyone'])).optional(),
+                users: z.array(z.string()).max(100).optional(),
+                roles: z.array(z.string()).max(100).optional(),
+                replied_user: z.boolean().optional(),
+            })
+            .optional(),
+    })
+    .passthrough();
+
+const AutocompleteResultSchema = z.object({
+    choices: z
+        .array(
+            z.object({
+                name: z.string().min(1).max(100),
+                value: z.union([z.string().max(100), z.number()]),
+            })
+        )
+        .max(25),
+});
+
+/**
+ * Validate a callback's message data, adding the Components V2 flag when its components need it
+ * and holding its allowed mentions to the key's mention policy.
+ */
+function parseMessageData(data: unknown, apiKey: ApiKeyRecord | undefined): z.infer<typeof InteractionMessageSchema> {
+    const message = InteractionMessageSchema.parse(data ?? {});
+    if (message.components && usesComponentsV2(message.components)) {
+        message.flags = (message.flags ?? 0) | MessageFlags.IsComponentsV2;
+    }
+    if (message.allowed_mentions) {
+        message.allowed_mentions = limitAllowedMentions(message.allowed_mentions, apiKey);
+    } else {
+        const { parse, repliedUser } = getDefaultAllowedMentions(apiKey);
+        message.allowed_mentions = { parse, replied_user: repliedUser };
+    }
+    return message;
+}
+
 /**
  * Handle interaction callbacks (responding to buttons, modals, etc.)
  * POST /api/interactions/callback
@@ -20,6 +72,7 @@ const InteractionCallbackSchema = z.object({
 router.post('/callback', async (req, res, next) => {
     try {
         const { interactionId, token, type, data } = InteractionCallbackSchema.parse(req.body);
+        const { apiKey } = req as AuthenticatedRequest;
 
         // We can't fetch the interaction object directly nicely without keeping a cache
         // or using the raw REST API.
@@ -41,23 +94,27 @@ router.post('/callback', async (req, res, next) => {
         // 5: DeferredChannelMessageWithSource (defer)
         // 6: DeferredUpdateMessage (deferUpdate - for components)
         // 7: UpdateMessage (update - for components)
+        // 8: ApplicationCommandAutocompleteResult (autocomplete)
         // 9: Modal (modal)
 
         switch (type) {
             case 'reply':
-                body = { type: 4, data: data };
+                body = { type: 4, data: parseMessageData(data, apiKey) };
                 break;
             case 'defer':
-                body = { type: 5, data: data };
+                body = { type: 5, data: parseMessageData(data, apiKey) };
                 break;
             case 'deferUpdate':
                 body = { type: 6 };
                 break;
             case 'update':
-                body = { type: 7, data: data };
+                body = { type: 7, data: parseMessageData(data, apiKey) };
+                break;
+            case 'autocomplete':
+                body = { type: 8, data: AutocompleteResultSchema.parse(data) };
                 break;
             case 'modal':
-                body = { type: 9, data: data };
+                body = { type: 9, data: ModalSchema.parse(data) };
                 break;
         }
 
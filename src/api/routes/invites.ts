@@ -14,11 +14,6 @@ router.get('/:code', asyncHandler(async (req, res) => {
     const { code } = req.params;
     const invite = await inviteService.getInvite(code);
 
-    if (!invite) {
-        res.status(404).json({ success: false, error: 'Invite not found', code: 'INVITE_NOT_FOUND' });
-        return;
-    }
-
     const response: ApiResponse<SerializedInvite> = { success: true, data: invite };
     res.json(response);
 }));
@@ -29,12 +24,7 @@ router.get('/:code', asyncHandler(async (req, res) => {
  */
 router.delete('/:code', asyncHandler(async (req, res) => {
     const { code } = req.params;
-    const success = await inviteService.deleteInvite(code);
-
-    if (!success) {
-        res.status(404).json({ success: false, error: 'Invite not found or failed to delete', code: 'INVITE_DELETE_FAILED' });
-        return;
-    }
+    await inviteService.deleteInvite(code);
 
     res.json({ success: true });
 }));
@@ -0,0 +1,113 @@
+import { Router, type Request } from 'express';
+import { apiKeyStore, getApiKeyUsage, serializeApiKey } from '../auth/key-store.js';
+import { CreateApiKeySchema } from '../../types/api.types.js';
+import type { ApiResponse } from '../../types/api.types.js';
+import type { ApiKeyUsage, SerializedApiKey } from '../../types/auth.types.js';
+import { asyncHandler } from '../middleware/asyncHandler.js';
+import { ApiError } from '../middleware/errorHandler.js';
+
+/** Route params for key-specific endpoints */
+interface KeyParams {
+    keyId: string;
+}
+
+const router = Router();
+
+/**
+ * GET /api/keys
+ * List all API keys (hashes are never returned)
+ */
+router.get('/', asyncHandler(async (_req, res) => {
+    const keys = apiKeyStore.list().map(serializeApiKey);
+    const response: ApiResponse<SerializedApiKey[]> = { success: true, data: keys };
+    res.json(response);
+}));
+
+/**
+ * GET /api/keys/usage
+ * Usage counters for all keys, least recently used first (never-used keys lead)
+ */
+router.get('/usage', asyncHandler(async (_req, res) => {
+    const now = new Date();
+    const usage = apiKeyStore
+        .list()
+        .sort((a, b) => (a.lastUsedAt?.getTime() ?? 0) - (b.lastUsedAt?.getTime() ?? 0))
+        .map((key) => getApiKeyUsage(key, now));
+
+    const response: ApiResponse<ApiKeyUsage[]> = { success: true, data: usage };
+    res.json(response);
+}));
+
+/**
+ * GET /api/keys/:keyId
+ * Get a specific API key
+ */
+router.get('/:keyId', asyncHandler(async (req: Request<KeyParams>, res) => {
+    const { keyId } = req.params;
+    const key = apiKeyStore.get(keyId);
+
+    if (!key) {
+        throw ApiError.notFound('API key not found', 'KEY_NOT_FOUND');
+    }
+
+    const response: ApiResponse<SerializedApiKey> = { success: true, data: serializeApiKey(key) };
+    res.json(response);
+}));
+
+/**
+ * GET /api/keys/:keyId/usage
+ * Usage counters for a specific key
+ */
+router.get('/:keyId/usage', asyncHandler(async (req: Request<KeyParams>, res) => {
+    const { keyId } = req.params;
+    const key = apiKeyStore.get(keyId);
+
+    if (!key) {
+        throw ApiError.notFound('API key not found', 'KEY_NOT_FOUND');
+    }
+
+    const response: ApiResponse<ApiKeyUsage> = { success: true, data: getApiKeyUsage(key) };
+    res.json(response);
+}));
+
+/**
+ * POST /api/keys
+ * Create a new API key. The raw key is only returned in this response.
+ */
+router.post('/', asyncHandler(async (req, res) => {
+    const result = CreateApiKeySchema.safeParse(req.body);
+    if (!result.success) {
+        res.status(400).json({ success: false, error: 'Invalid request body', details: result.error.issues });
+        return;
+    }
+
+    const { notBefore, expiresAt, ...options } = result.data;
+    const { record, key } = await apiKeyStore.create({
+        ...options,
+        notBefore: notBefore ? new Date(notBefore) : undefined,
+        expiresAt: expiresAt ? new Date(expiresAt) : undefined,
+    });
+    res.status(201).json({ success: true, data: { ...serializeApiKey(record), key } });
+}));
+
+/**
+ * POST /api/keys/:keyId/rotate
+ * Issue a new secret for a key. The old secret stops working immediately.
+ */
+router.post('/:keyId/rotate', asyncHandler(async (req: Request<KeyParams>, res) => {
+    const { keyId } = req.params;
+    const { record, key } = await apiKeyStore.rotate(keyId);
+    res.json({ success: true, data: { ...serializeApiKey(record), key } });
+}));
+
+/**
+ * DELETE /api/keys/:keyId
+ * Revoke a key
+ */
+router.delete('/:keyId', asyncHandler(async (req: Request<KeyParams>, res) => {
+    const { keyId } = req.params;
+    await apiKeyStore.revoke(keyId);
+    res.json({ success: true, data: { revoked: true } });
+}));
+
+export default router;
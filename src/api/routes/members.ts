@@ -53,11 +53,6 @@ router.get('/:userId', asyncHandler(async (req, res) => {
     const { guildId, userId } = getParams(req);
     const member = await memberService.getMember(guildId, userId ?? '');
 
-    if (!member) {
-        res.status(404).json({ success: false, error: 'Member not found', code: 'MEMBER_NOT_FOUND' });
-        return;
-    }
-
     res.json({ success: true, data: member });
 }));
 
@@ -69,12 +64,7 @@ router.post('/:userId/kick', asyncHandler(async (req, res) => {
     const { guildId, userId } = getParams(req);
     const reason = req.body?.reason as string | undefined;
 
-    const success = await memberService.kickMember(guildId, userId ?? '', reason);
-
-    if (!success) {
-        res.status(400).json({ success: false, error: 'Failed to kick member', code: 'KICK_FAILED' });
-        return;
-    }
+    await memberService.kickMember(guildId, userId ?? '', reason);
 
     res.json({ success: true, data: { kicked: true } });
 }));
@@ -92,12 +82,7 @@ router.post('/:userId/ban', asyncHandler(async (req, res) => {
         return;
     }
 
-    const success = await memberService.banMember(guildId, userId ?? '', result.data);
-
-    if (!success) {
-        res.status(400).json({ success: false, error: 'Failed to ban member', code: 'BAN_FAILED' });
-        return;
-    }
+    await memberService.banMember(guildId, userId ?? '', result.data);
 
     res.json({ success: true, data: { banned: true } });
 }));
@@ -110,12 +95,7 @@ router.delete('/bans/:userId', asyncHandler(async (req, res) => {
     const { guildId, userId } = getParams(req);
     const reason = req.body?.reason as string | undefined;
 
-    const success = await memberService.unbanMember(guildId, userId ?? '', reason);
-
-    if (!success) {
-        res.status(400).json({ success: false, error: 'Failed to unban user', code: 'UNBAN_FAILED' });
-        return;
-    }
+    await memberService.unbanMember(guildId, userId ?? '', reason);
 
     res.json({ success: true, data: { unbanned: true } });
 }));
@@ -135,11 +115,6 @@ router.patch('/:userId/nickname', asyncHandler(async (req, res) => {
 
     const member = await memberService.setNickname(guildId, userId ?? '', result.data);
 
-    if (!member) {
-        res.status(400).json({ success: false, error: 'Failed to set nickname', code: 'NICKNAME_FAILED' });
-        return;
-    }
-
     res.json({ success: true, data: member });
 }));
 
@@ -158,11 +133,6 @@ router.patch('/:userId/roles', asyncHandler(async (req, res) => {
 
     const member = await memberService.modifyRoles(guildId, userId ?? '', result.data);
 
-    if (!member) {
-        res.status(400).json({ success: false, error: 'Failed to modify roles', code: 'ROLES_FAILED' });
-        return;
-    }
-
     res.json({ success: true, data: member });
 }));
 
@@ -181,11 +151,6 @@ router.post('/:userId/timeout', asyncHandler(async (req, res) => {
 
     const member = await memberService.timeoutMember(guildId, userId ?? '', duration, reason);
 
-    if (!member) {
-        res.status(400).json({ success: false, error: 'Failed to timeout member', code: 'TIMEOUT_FAILED' });
-        return;
-    }
-
     res.json({ success: true, data: member });
 }));
 
@@ -199,11 +164,6 @@ router.delete('/:userId/timeout', asyncHandler(async (req, res) => {
 
     const member = await memberService.removeTimeout(guildId, userId ?? '', reason);
 
-    if (!member) {
-        res.status(400).json({ success: false, error: 'Failed to remove timeout', code: 'TIMEOUT_REMOVE_FAILED' });
-        return;
-    }
-
     res.json({ success: true, data: member });
 }));
 
@@ -2,6 +2,9 @@ import { Router, type Request } from 'express';
 import { messageService } from '../../discord/services/index.js';
 import { SendMessageSchema, EditMessageSchema, GetMessagesSchema } from '../../types/api.types.js';
 import { asyncHandler } from '../middleware/asyncHandler.js';
+import { acceptUploads, describeUploads, getUploadedFiles } from '../middleware/upload.js';
+import type { AuthenticatedRequest } from '../middleware/auth.js';
+import { withDefaultMentions } from '../auth/mentions.js';
 
 /** Route params for message endpoints (merged from parent router) */
 interface MessageParams {
@@ -57,56 +60,45 @@ router.get('/:messageId', asyncHandler(async (req, res) => {
     const { channelId, messageId } = getParams(req);
     const message = await messageService.getMessage(channelId, messageId ?? '');
 
-    if (!message) {
-        res.status(404).json({ success: false, error: 'Message not found', code: 'MESSAGE_NOT_FOUND' });
-        return;
-    }
-
     res.json({ success: true, data: message });
 }));
 
 /**
  * POST /api/channels/:channelId/messages
- * Send a message
+ * Send a message, as JSON or as multipart/form-data with files
  */
-router.post('/', asyncHandler(async (req, res) => {
+router.post('/', acceptUploads, asyncHandler(async (req, res) => {
     const { channelId } = getParams(req);
+    const files = getUploadedFiles(req);
 
-    const result = SendMessageSchema.safeParse(req.body);
+    const result = SendMessageSchema.safeParse(describeUploads(req.body, files));
     if (!result.success) {
         res.status(400).json({ success: false, error: 'Invalid request body', details: result.error.issues });
         return;
     }
 
-    const message = await messageService.sendMessage(channelId, result.data);
-
-    if (!message) {
-        res.status(400).json({ success: false, error: 'Failed to send message', code: 'SEND_FAILED' });
-        return;
-    }
+    const input = withDefaultMentions(result.data, (req as AuthenticatedRequest).apiKey);
+    const message = await messageService.sendMessage(channelId, input, files);
 
     res.status(201).json({ success: true, data: message });
 }));
 
 /**
  * PATCH /api/channels/:channelId/messages/:messageId
- * Edit a message
+ * Edit a message, as JSON or as multipart/form-data with files to add
  */
-router.patch('/:messageId', asyncHandler(async (req, res) => {
+router.patch('/:messageId', acceptUploads, asyncHandler(async (req, res) => {
     const { channelId, messageId } = getParams(req);
+    const files = getUploadedFiles(req);
 
-    const result = EditMessageSchema.safeParse(req.body);
+    const result = EditMessageSchema.safeParse(describeUploads(req.body, files));
     if (!result.success) {
         res.status(400).json({ success: false, error: 'Invalid request body', details: result.error.issues });
         return;
     }
 
-    const message = await messageService.editMessage(channelId, messageId ?? '', result.data);
-
-    if (!message) {
-        res.status(400).json({ success: false, error: 'Failed to edit message', code: 'EDIT_FAILED' });
-        return;
-    }
+    const input = withDefaultMentions(result.data, (req as AuthenticatedRequest).apiKey);
+    const message = await messageService.editMessage(channelId, messageId ?? '', input, files);
 
     res.json({ success: true, data: message });
 }));
@@ -118,12 +110,7 @@ router.patch('/:messageId', asyncHandler(async (req, res) => {
 router.delete('/:messageId', asyncHandler(async (req, res) => {
     const { channelId, messageId } = getParams(req);
 
-    const success = await messageService.deleteMessage(channelId, messageId ?? '');
-
-    if (!success) {
-        res.status(400).json({ success: false, error: 'Failed to delete message', code: 'DELETE_FAILED' });
-        return;
-    }
+    await messageService.deleteMessage(channelId, messageId ?? '');
 
     res.json({ success: true, data: { deleted: true } });
 }));
@@ -152,12 +139,7 @@ router.post('/bulk-delete', asyncHandler(async (req, res) => {
 router.post('/:messageId/reactions/:emoji', asyncHandler(async (req, res) => {
     const { channelId, messageId, emoji } = getParams(req);
 
-    const success = await messageService.addReaction(channelId, messageId ?? '', decodeURIComponent(emoji ?? ''));
-
-    if (!success) {
-        res.status(400).json({ success: false, error: 'Failed to add reaction', code: 'REACTION_FAILED' });
-        return;
-    }
+    await messageService.addReaction(channelId, messageId ?? '', decodeURIComponent(emoji ?? ''));
 
     res.json({ success: true, data: { reacted: true } });
 }));
@@ -170,18 +152,13 @@ router.delete('/:messageId/reactions/:emoji', asyncHandler(async (req, res) => {
     const { channelId, messageId, emoji } = getParams(req);
     const userId = req.query['userId'] as string | undefined;
 
-    const success = await messageService.removeReaction(
+    await messageService.removeReaction(
         channelId,
         messageId ?? '',
         decodeURIComponent(emoji ?? ''),
         userId
     );
 
-    if (!success) {
-        res.status(400).json({ success: false, error: 'Failed to remove reaction', code: 'REACTION_REMOVE_FAILED' });
-        return;
-    }
-
     res.json({ success: true, data: { removed: true } });
 }));
 
@@ -192,12 +169,7 @@ router.delete('/:messageId/reactions/:emoji', asyncHandler(async (req, res) => {
 router.delete('/:messageId/reactions', asyncHandler(async (req, res) => {
     const { channelId, messageId } = getParams(req);
 
-    const success = await messageService.removeAllReactions(channelId, messageId ?? '');
-
-    if (!success) {
-        res.status(400).json({ success: false, error: 'Failed to remove reactions', code: 'REACTIONS_REMOVE_FAILED' });
-        return;
-    }
+    await messageService.removeAllReactions(channelId, messageId ?? '');
 
     res.json({ success: true, data: { removed: true } });
 }));
@@ -227,12 +199,7 @@ router.get('/:messageId/reactions/:emoji/users', asyncHandler(async (req, res) =
 router.post('/:messageId/pin', asyncHandler(async (req, res) => {
     const { channelId, messageId } = getParams(req);
 
-    const success = await messageService.pinMessage(channelId, messageId ?? '');
-
-    if (!success) {
-        res.status(400).json({ success: false, error: 'Failed to pin message', code: 'PIN_FAILED' });
-        return;
-    }
+    await messageService.pinMessage(channelId, messageId ?? '');
 
     res.json({ success: true, data: { pinned: true } });
 }));
@@ -244,12 +211,7 @@ router.post('/:messageId/pin', asyncHandler(async (req, res) => {
 router.delete('/:messageId/pin', asyncHandler(async (req, res) => {
     const { channelId, messageId } = getParams(req);
 
-    const success = await messageService.unpinMessage(channelId, messageId ?? '');
-
-    if (!success) {
-        res.status(400).json({ success: false, error: 'Failed to unpin message', code: 'UNPIN_FAILED' });
-        return;
-    }
+    await messageService.unpinMessage(channelId, messageId ?? '');
 
     res.json({ success: true, data: { unpinned: true } });
 }));
@@ -261,12 +223,7 @@ router.delete('/:messageId/pin', asyncHandler(async (req, res) => {
 router.post('/:messageId/crosspost', asyncHandler(async (req, res) => {
     const { channelId, messageId } = getParams(req);
 
-    const success = await messageService.crosspostMessage(channelId, messageId ?? '');
-
-    if (!success) {
-        res.status(400).json({ success: false, error: 'Failed to crosspost message', code: 'CROSSPOST_FAILED' });
-        return;
-    }
+    await messageService.crosspostMessage(channelId, messageId ?? '');
 
     res.json({ success: true, data: { crossposted: true } });
 }));
@@ -0,0 +1,91 @@
+import { Router, type CookieOptions } from 'express';
+import { config } from '../../config/index.js';
+import { discordClient } from '../../discord/client.js';
+import { buildAuthorizeUrl, exchangeCode, fetchCurrentUser, fetchUserGuildIds } from '../auth/discord-oauth.js';
+import { SESSION_COOKIE, STATE_COOKIE, STATE_TTL_MS, sessionStore } from '../auth/sessions.js';
+import { getCookie } from '../middleware/auth.js';
+import { asyncHandler } from '../middleware/asyncHandler.js';
+import { ApiError } from '../middleware/errorHandler.js';
+
+/**
+ * Options for the session cookie. SameSite=Lax keeps the cookie off cross-site
+ * form posts, and Secure is set whenever the bridge is served over HTTPS.
+ */
+export function getSessionCookieOptions(): CookieOptions {
+    return {
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: config.oauth.redirectUri?.startsWith('https://') ?? false,
+        path: '/',
+    };
+}
+
+/**
+ * Options for the cookie holding the OAuth2 `state`. It is only sent back to
+ * the callback, and only for as long as the state is valid.
+ */
+function getStateCookieOptions(): CookieOptions {
+    return { ...getSessionCookieOptions(), path: '/api/auth/discord/callback' };
+}
+
+const router = Router();
+
+/**
+ * GET /api/auth/discord/login
+ * Redirect the browser to Discord to authorize the application
+ */
+router.get('/login', asyncHandler(async (_req, res) => {
+    const state = sessionStore.createState();
+    res.cookie(STATE_COOKIE, state, { ...getStateCookieOptions(), maxAge: STATE_TTL_MS });
+    res.redirect(buildAuthorizeUrl(state));
+}));
+
+/**
+ * GET /api/auth/discord/callback
+ * Complete the authorization-code flow and start a login session
+ */
+router.get('/callback', asyncHandler(async (req, res) => {
+    const { code, state, error } = req.query;
+
+    // The state must come back to the browser that started the login (no login CSRF)
+    const expectedState = getCookie(req.headers.cookie, STATE_COOKIE);
+    res.clearCookie(STATE_COOKIE, getStateCookieOptions());
+
+    if (typeof error === 'string') {
+        throw ApiError.badRequest(`Discord authorization failed: ${error}`, 'OAUTH_DENIED');
+    }
+    if (typeof state !== 'string' || state !== expectedState || !sessionStore.consumeState(state)) {
+        throw ApiError.badRequest('Invalid or expired OAuth2 state', 'INVALID_OAUTH_STATE');
+    }
+    if (typeof code !== 'string') {
+        throw ApiError.badRequest('Missing authorization code', 'MISSING_OAUTH_CODE');
+    }
+
+    const accessToken = await exchangeCode(code);
+    const [user, userGuildIds] = await Promise.all([
+        fetchCurrentUser(accessToken),
+        fetchUserGuildIds(accessToken),
+    ]);
+
+    // Only guilds shared with the bot can be managed through the bridge
+    const guildIds = userGuildIds.filter((guildId) => discordClient.guilds.cache.has(guildId));
+    const { id, session } = sessionStore.create(user, guildIds, config.oauth.sessionTtl);
+
+    res.cookie(SESSION_COOKIE, id, { ...getSessionCookieOptions(), maxAge: config.oauth.sessionTtl * 1000 });
+
+    if (config.oauth.successRedirect) {
+        res.redirect(config.oauth.successRedirect);
+        return;
+    }
+
+    res.json({
+        success: true,
+        data: {
+            user: session.user,
+            guildIds: session.guildIds,
+            expiresAt: session.expiresAt.toISOString(),
+        },
+    });
+}));
+
+export default router;
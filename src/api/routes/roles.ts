@@ -37,11 +37,6 @@ router.get('/search', asyncHandler(async (req, res) => {
 
     const role = await roleService.getRoleByName(guildId, name);
 
-    if (!role) {
-        res.status(404).json({ success: false, error: 'Role not found', code: 'ROLE_NOT_FOUND' });
-        return;
-    }
-
     res.json({ success: true, data: role });
 }));
 
@@ -53,11 +48,6 @@ router.get('/:roleId', asyncHandler(async (req, res) => {
     const { guildId, roleId } = getParams(req);
     const role = await roleService.getRole(guildId, roleId ?? '');
 
-    if (!role) {
-        res.status(404).json({ success: false, error: 'Role not found', code: 'ROLE_NOT_FOUND' });
-        return;
-    }
-
     res.json({ success: true, data: role });
 }));
 
@@ -76,11 +66,6 @@ router.post('/', asyncHandler(async (req, res) => {
 
     const role = await roleService.createRole(guildId, result.data);
 
-    if (!role) {
-        res.status(400).json({ success: false, error: 'Failed to create role', code: 'CREATE_FAILED' });
-        return;
-    }
-
     res.status(201).json({ success: true, data: role });
 }));
 
@@ -99,11 +84,6 @@ router.patch('/:roleId', asyncHandler(async (req, res) => {
 
     const role = await roleService.editRole(guildId, roleId ?? '', result.data);
 
-    if (!role) {
-        res.status(400).json({ success: false, error: 'Failed to edit role', code: 'EDIT_FAILED' });
-        return;
-    }
-
     res.json({ success: true, data: role });
 }));
 
@@ -115,12 +95,7 @@ router.delete('/:roleId', asyncHandler(async (req, res) => {
     const { guildId, roleId } = getParams(req);
     const reason = req.body?.reason as string | undefined;
 
-    const success = await roleService.deleteRole(guildId, roleId ?? '', reason);
-
-    if (!success) {
-        res.status(400).json({ success: false, error: 'Failed to delete role', code: 'DELETE_FAILED' });
-        return;
-    }
+    await roleService.deleteRole(guildId, roleId ?? '', reason);
 
     res.json({ success: true, data: { deleted: true } });
 }));
@@ -148,12 +123,7 @@ router.patch('/:roleId/permissions', asyncHandler(async (req, res) => {
         return;
     }
 
-    const success = await roleService.setRolePermissions(guildId, roleId ?? '', permissions);
-
-    if (!success) {
-        res.status(400).json({ success: false, error: 'Failed to set permissions', code: 'PERMISSIONS_FAILED' });
-        return;
-    }
+    await roleService.setRolePermissions(guildId, roleId ?? '', permissions);
 
     res.json({ success: true, data: { updated: true } });
 }));
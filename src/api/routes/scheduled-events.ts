@@ -36,11 +36,6 @@ router.get('/:eventId', asyncHandler(async (req: Request<GuildEventParams>, res)
     const { guildId, eventId } = req.params;
     const event = await scheduledEventService.getEvent(guildId, eventId);
 
-    if (!event) {
-        res.status(404).json({ success: false, error: 'Event not found', code: 'EVENT_NOT_FOUND' });
-        return;
-    }
-
     const response: ApiResponse<SerializedScheduledEvent> = { success: true, data: event };
     res.json(response);
 }));
@@ -53,11 +48,6 @@ router.post('/', asyncHandler(async (req: Request<GuildParams>, res) => {
     const { guildId } = req.params;
     const event = await scheduledEventService.createEvent(guildId, req.body);
 
-    if (!event) {
-        res.status(400).json({ success: false, error: 'Failed to create event', code: 'EVENT_CREATE_FAILED' });
-        return;
-    }
-
     const response: ApiResponse<SerializedScheduledEvent> = { success: true, data: event };
     res.status(201).json(response);
 }));
@@ -70,11 +60,6 @@ router.patch('/:eventId', asyncHandler(async (req: Request<GuildEventParams>, re
     const { guildId, eventId } = req.params;
     const event = await scheduledEventService.editEvent(guildId, eventId, req.body);
 
-    if (!event) {
-        res.status(404).json({ success: false, error: 'Event not found or failed to update', code: 'EVENT_UPDATE_FAILED' });
-        return;
-    }
-
     const response: ApiResponse<SerializedScheduledEvent> = { success: true, data: event };
     res.json(response);
 }));
@@ -85,12 +70,7 @@ router.patch('/:eventId', asyncHandler(async (req: Request<GuildEventParams>, re
  */
 router.delete('/:eventId', asyncHandler(async (req: Request<GuildEventParams>, res) => {
     const { guildId, eventId } = req.params;
-    const success = await scheduledEventService.deleteEvent(guildId, eventId);
-
-    if (!success) {
-        res.status(404).json({ success: false, error: 'Event not found or failed to delete', code: 'EVENT_DELETE_FAILED' });
-        return;
-    }
+    await scheduledEventService.deleteEvent(guildId, eventId);
 
     res.json({ success: true });
 }));
@@ -0,0 +1,137 @@
+import { Router, type Request } from 'express';
+import {
+    scheduledMessageStore,
+    serializeScheduledMessage,
+    type ScheduledMessage,
+    type SerializedScheduledMessage,
+} from '../scheduled-messages/store.js';
+import { CreateScheduledMessageSchema, EditScheduledMessageSchema } from '../../types/api.types.js';
+import type { ApiResponse } from '../../types/api.types.js';
+import type { ApiKeyRecord } from '../../types/auth.types.js';
+import { canAccessChannel } from '../auth/restrictions.js';
+import { hasScopes, resolveChannelLocation, type AuthenticatedRequest } from '../middleware/auth.js';
+import { asyncHandler } from '../middleware/asyncHandler.js';
+import { ApiError } from '../middleware/errorHandler.js';
+
+const router = Router();
+
+/**
+ * Whether a key may see and manage a schedule: it must be the key's own (or the key
+ * an `admin` one) and post in a channel the key may access. Signed tokens carry
+ * their parent key's ID, so the channel check keeps narrowed tokens to their channels.
+ */
+function canManage(key: ApiKeyRecord, scheduled: ScheduledMessage): boolean {
+    return (scheduled.keyId === key.id || hasScopes(key, ['admin']))
+        && canAccessChannel(key, scheduled.channelId, resolveChannelLocation);
+}
+
+/**
+ * Get the scheduled message named in the path, if the request's key may manage it.
+ * Schedules the key may not manage are reported as missing.
+ */
+function getOwnScheduledMessage(req: Request): ScheduledMessage {
+    const { apiKey } = req as AuthenticatedRequest;
+    const scheduled = scheduledMessageStore.get(req.params['scheduledMessageId'] ?? '');
+    if (!scheduled || !canManage(apiKey, scheduled)) {
+        throw ApiError.notFound('Scheduled message not found', 'SCHEDULED_MESSAGE_NOT_FOUND');
+    }
+    return scheduled;
+}
+
+/**
+ * Check that a schedule's target channel exists and the key may post in it.
+ */
+function checkChannel(key: ApiKeyRecord, channelId: string): void {
+    if (!resolveChannelLocation(channelId)) {
+        throw ApiError.notFound('Channel not found', 'CHANNEL_NOT_FOUND');
+    }
+    if (!canAccessChannel(key, channelId, resolveChannelLocation)) {
+        throw ApiError.forbidden('API key is not allowed to access this guild or channel', 'RESOURCE_NOT_ALLOWED');
+    }
+}
+
+/**
+ * GET /api/scheduled-messages
+ * List the key's scheduled messages by next run (every key's for admin keys),
+ * leaving out those in channels the key may not access
+ */
+router.get('/', asyncHandler(async (req, res) => {
+    const key = (req as AuthenticatedRequest).apiKey;
+    const scheduled = scheduledMessageStore.list(hasScopes(key, ['admin']) ? undefined : key.id)
+        .filter((s) => canAccessChannel(key, s.channelId, resolveChannelLocation));
+    const response: ApiResponse<SerializedScheduledMessage[]> = { success: true, data: scheduled.map(serializeScheduledMessage) };
+    res.json(response);
+}));
+
+/**
+ * POST /api/scheduled-messages
+ * Schedule a message once (`sendAt`) or on a cron schedule (`cron`)
+ */
+router.post('/', asyncHandler(async (req, res) => {
+    const key = (req as AuthenticatedRequest).apiKey;
+    const result = CreateScheduledMessageSchema.safeParse(req.body);
+    if (!result.success) {
+        res.status(400).json({ success: false, error: 'Invalid request body', details: result.error.issues });
+        return;
+    }
+
+    const { sendAt, ...options } = result.data;
+    checkChannel(key, options.channelId);
+
+    const scheduled = await scheduledMessageStore.create({
+        ...options,
+        keyId: key.id,
+        sendAt: sendAt ? new Date(sendAt) : undefined,
+    });
+    const response: ApiResponse<SerializedScheduledMessage> = { success: true, data: serializeScheduledMessage(scheduled) };
+    res.status(201).json(response);
+}));
+
+/**
+ * GET /api/scheduled-messages/:scheduledMessageId
+ * Get a scheduled message
+ */
+router.get('/:scheduledMessageId', asyncHandler(async (req, res) => {
+    const scheduled = getOwnScheduledMessage(req);
+    const response: ApiResponse<SerializedScheduledMessage> = { success: true, data: serializeScheduledMessage(scheduled) };
+    res.json(response);
+}));
+
+/**
+ * PATCH /api/scheduled-messages/:scheduledMessageId
+ * Edit a scheduled message's channel, payload or schedule
+ */
+router.patch('/:scheduledMessageId', asyncHandler(async (req, res) => {
+    const key = (req as AuthenticatedRequest).apiKey;
+    const existing = getOwnScheduledMessage(req);
+
+    const result = EditScheduledMessageSchema.safeParse(req.body);
+    if (!result.success) {
+        res.status(400).json({ success: false, error: 'Invalid request body', details: result.error.issues });
+        return;
+    }
+
+    const { sendAt, ...changes } = result.data;
+    if (changes.channelId) {
+        checkChannel(key, changes.channelId);
+    }
+
+    const scheduled = await scheduledMessageStore.update(existing.id, {
+        ...changes,
+        sendAt: sendAt ? new Date(sendAt) : undefined,
+    });
+    const response: ApiResponse<SerializedScheduledMessage> = { success: true, data: serializeScheduledMessage(scheduled) };
+    res.json(response);
+}));
+
+/**
+ * DELETE /api/scheduled-messages/:scheduledMessageId
+ * Cancel a scheduled message
+ */
+router.delete('/:scheduledMessageId', asyncHandler(async (req, res) => {
+    const scheduled = getOwnScheduledMessage(req);
+    await scheduledMessageStore.delete(scheduled.id);
+    res.json({ success: true, data: { deleted: true } });
+}));
+
+export default router;
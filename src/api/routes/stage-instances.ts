@@ -15,11 +15,6 @@ router.get('/:channelId', asyncHandler(async (req, res) => {
 
     const stageInstance = await stageInstanceService.getStageInstance(channelId);
 
-    if (!stageInstance) {
-        res.status(404).json({ success: false, error: 'Stage instance not found', code: 'STAGE_INSTANCE_NOT_FOUND' });
-        return;
-    }
-
     const response: ApiResponse<SerializedStageInstance> = { success: true, data: stageInstance };
     res.json(response);
 }));
@@ -38,11 +33,6 @@ router.post('/', asyncHandler(async (req, res) => {
 
     const stageInstance = await stageInstanceService.createStageInstance(channelId, topic, options);
 
-    if (!stageInstance) {
-        res.status(400).json({ success: false, error: 'Failed to create stage instance', code: 'STAGE_INSTANCE_CREATE_FAILED' });
-        return;
-    }
-
     const response: ApiResponse<SerializedStageInstance> = { success: true, data: stageInstance };
     res.status(201).json(response);
 }));
@@ -71,11 +61,6 @@ router.patch('/:channelId', asyncHandler(async (req, res) => {
 
     const stageInstance = await stageInstanceService.editStageInstance(channelId, updates);
 
-    if (!stageInstance) {
-        res.status(404).json({ success: false, error: 'Stage instance not found or failed to update', code: 'STAGE_INSTANCE_UPDATE_FAILED' });
-        return;
-    }
-
     const response: ApiResponse<SerializedStageInstance> = { success: true, data: stageInstance };
     res.json(response);
 }));
@@ -87,12 +72,7 @@ router.patch('/:channelId', asyncHandler(async (req, res) => {
 router.delete('/:channelId', asyncHandler(async (req, res) => {
     const { channelId } = req.params;
 
-    const success = await stageInstanceService.deleteStageInstance(channelId);
-
-    if (!success) {
-        res.status(404).json({ success: false, error: 'Stage instance not found or failed to delete', code: 'STAGE_INSTANCE_DELETE_FAILED' });
-        return;
-    }
+    await stageInstanceService.deleteStageInstance(channelId);
 
     res.json({ success: true });
 }));
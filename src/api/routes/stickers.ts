@@ -25,11 +25,6 @@ router.get('/:stickerId', asyncHandler(async (req, res) => {
     const { guildId, stickerId } = req.params as any;
     const sticker = await stickerService.getSticker(guildId as string, stickerId as string);
 
-    if (!sticker) {
-        res.status(404).json({ success: false, error: 'Sticker not found', code: 'STICKER_NOT_FOUND' });
-        return;
-    }
-
     const response: ApiResponse<SerializedSticker> = { success: true, data: sticker };
     res.json(response);
 }));
@@ -42,11 +37,6 @@ router.post('/', asyncHandler(async (req, res) => {
     const { guildId } = req.params as any;
     const sticker = await stickerService.createSticker(guildId as string, req.body);
 
-    if (!sticker) {
-        res.status(400).json({ success: false, error: 'Failed to create sticker', code: 'STICKER_CREATE_FAILED' });
-        return;
-    }
-
     const response: ApiResponse<SerializedSticker> = { success: true, data: sticker };
     res.status(201).json(response);
 }));
@@ -59,11 +49,6 @@ router.patch('/:stickerId', asyncHandler(async (req, res) => {
     const { guildId, stickerId } = req.params as any;
     const sticker = await stickerService.editSticker(guildId as string, stickerId as string, req.body);
 
-    if (!sticker) {
-        res.status(404).json({ success: false, error: 'Sticker not found or failed to update', code: 'STICKER_UPDATE_FAILED' });
-        return;
-    }
-
     const response: ApiResponse<SerializedSticker> = { success: true, data: sticker };
     res.json(response);
 }));
@@ -74,12 +59,7 @@ router.patch('/:stickerId', asyncHandler(async (req, res) => {
  */
 router.delete('/:stickerId', asyncHandler(async (req, res) => {
     const { guildId, stickerId } = req.params as any;
-    const success = await stickerService.deleteSticker(guildId as string, stickerId as string);
-
-    if (!success) {
-        res.status(404).json({ success: false, error: 'Sticker not found or failed to delete', code: 'STICKER_DELETE_FAILED' });
-        return;
-    }
+    await stickerService.deleteSticker(guildId as string, stickerId as string);
 
     res.json({ success: true });
 }));
@@ -0,0 +1,27 @@
+import { Router } from 'express';
+import { discordRateLimits, type DiscordRateLimitSnapshot } from '../../discord/ratelimits.js';
+import { discordRequestQueue, type QueueStats } from '../../discord/request-queue.js';
+import type { ApiResponse } from '../../types/api.types.js';
+import { asyncHandler } from '../middleware/asyncHandler.js';
+
+/** Discord rate limit state together with the outbound queue */
+type RateLimitOverview = DiscordRateLimitSnapshot & { queue: QueueStats };
+
+const router = Router();
+
+/**
+ * GET /api/system/ratelimits
+ * Current Discord buckets, global limit state and outbound queue depth
+ */
+router.get('/ratelimits', asyncHandler(async (_req, res) => {
+    const response: ApiResponse<RateLimitOverview> = {
+        success: true,
+        data: {
+            ...discordRateLimits.getSnapshot(),
+            queue: discordRequestQueue.getStats(),
+        },
+    };
+    res.json(response);
+}));
+
+export default router;
@@ -14,11 +14,6 @@ router.get('/:webhookId', asyncHandler(async (req, res) => {
     const { webhookId } = req.params;
     const webhook = await webhookService.getWebhook(webhookId);
 
-    if (!webhook) {
-        res.status(404).json({ success: false, error: 'Webhook not found', code: 'WEBHOOK_NOT_FOUND' });
-        return;
-    }
-
     const response: ApiResponse<SerializedWebhook> = { success: true, data: webhook };
     res.json(response);
 }));
@@ -31,11 +26,6 @@ router.patch('/:webhookId', asyncHandler(async (req, res) => {
     const { webhookId } = req.params;
     const webhook = await webhookService.editWebhook(webhookId, req.body);
 
-    if (!webhook) {
-        res.status(404).json({ success: false, error: 'Webhook not found or failed to update', code: 'WEBHOOK_NOT_FOUND' });
-        return;
-    }
-
     const response: ApiResponse<SerializedWebhook> = { success: true, data: webhook };
     res.json(response);
 }));
@@ -46,12 +36,7 @@ router.patch('/:webhookId', asyncHandler(async (req, res) => {
  */
 router.delete('/:webhookId', asyncHandler(async (req, res) => {
     const { webhookId } = req.params;
-    const success = await webhookService.deleteWebhook(webhookId);
-
-    if (!success) {
-        res.status(404).json({ success: false, error: 'Webhook not found or failed to delete', code: 'WEBHOOK_DELETE_FAILED' });
-        return;
-    }
+    await webhookService.deleteWebhook(webhookId);
 
     res.json({ success: true });
 }));
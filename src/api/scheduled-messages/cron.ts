@@ -0,0 +1,154 @@
+/**
+ * A parsed five-field cron expression (`minute hour day-of-month month day-of-week`),
+ * evaluated in UTC.
+ */
+export interface CronSchedule {
+    minutes: ReadonlySet<number>;
+    hours: ReadonlySet<number>;
+    daysOfMonth: ReadonlySet<number>;
+    months: ReadonlySet<number>;
+    daysOfWeek: ReadonlySet<number>;
+    /** Whether the day-of-month field is restricted (not `*`) */
+    restrictsDayOfMonth: boolean;
+    /** Whether the day-of-week field is restricted (not `*`) */
+    restrictsDayOfWeek: boolean;
+}
+
+interface CronField {
+    name: string;
+    min: number;
+    max: number;
+    /** Names accepted in place of numbers, e.g. `JAN` or `MON` */
+    aliases?: readonly string[];
+    /** First value of `aliases` */
+    aliasBase?: number;
+}
+
+const FIELDS: readonly CronField[] = [
+    { name: 'minute', min: 0, max: 59 },
+    { name: 'hour', min: 0, max: 23 },
+    { name: 'day of month', min: 1, max: 31 },
+    { name: 'month', min: 1, max: 12, aliases: ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'], aliasBase: 1 },
+    // 7 is accepted as Sunday and folded into 0
+    { name: 'day of week', min: 0, max: 7, aliases: ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'], aliasBase: 0 },
+];
+
+/** How far ahead to look for a matching time before giving up (e.g. `0 0 30 2 *`) */
+const MAX_SEARCH_YEARS = 5;
+
+function parseValue(value: string, field: CronField): number {
+    const aliasIndex = field.aliases?.indexOf(value.toUpperCase()) ?? -1;
+    const number = aliasIndex >= 0 ? aliasIndex + (field.aliasBase ?? 0) : /^\d+$/.test(value) ? Number(value) : NaN;
+    if (!Number.isInteger(number) || number < field.min || number > field.max) {
+        throw new Error(`Invalid ${field.name} "${value}" (expected ${field.min}-${field.max})`);
+    }
+    return number;
+}
+
+function parseField(source: string, field: CronField): Set<number> {
+    const values = new Set<number>();
+
+    for (const part of source.split(',')) {
+        const [range = '', stepSource] = part.split('/');
+        const step = stepSource === undefined ? 1 : Number(stepSource);
+        if (!Number.isInteger(step) || step < 1) {
+            throw new Error(`Invalid ${field.name} step "${stepSource}"`);
+        }
+
+        let start: number;
+        let end: number;
+        if (range === '*') {
+            start = field.min;
+            end = field.max;
+        } else if (range.includes('-')) {
+            const [from = '', to = ''] = range.split('-');
+            start = parseValue(from, field);
+            end = parseValue(to, field);
+            if (start > end) {
+                throw new Error(`Invalid ${field.name} range "${range}"`);
+            }
+        } else {
+            start = parseValue(range, field);
+            // "5/15" runs from 5 to the end of the field
+            end = stepSource === undefined ? start : field.max;
+        }
+
+        for (let value = start; value <= end; value += step) {
+            values.add(value);
+        }
+    }
+
+    return values;
+}
+
+/**
+ * Parse a five-field cron expression. Fields accept `*`, numbers, ranges (`1-5`),
+ * steps after `*` or a range (`0-30/10`), lists (`1,15`) and month/weekday names
+ * (`JAN`, `MON`).
+ * Throws an Error describing the invalid field.
+ */
+export function parseCron(expression: string): CronSchedule {
+    const sources = expression.trim().split(/\s+/);
+    if (sources.length !== FIELDS.length) {
+        throw new Error(`Cron expressions need ${FIELDS.length} fields (minute hour day-of-month month day-of-week)`);
+    }
+
+    const field = (index: number): Set<number> => parseField(sources[index] ?? '', FIELDS[index] as CronField);
+    const daysOfWeek = field(4);
+    if (daysOfWeek.delete(7)) {
+        daysOfWeek.add(0);
+    }
+
+    return {
+        minutes: field(0),
+        hours: field(1),
+        daysOfMonth: field(2),
+        months: field(3),
+        daysOfWeek,
+        restrictsDayOfMonth: !sources[2]?.startsWith('*'),
+        restrictsDayOfWeek: !sources[4]?.startsWith('*'),
+    };
+}
+
+/**
+ * Check whether a day matches. As in standard cron, a day matches either field
+ * when both day-of-month and day-of-week are restricted.
+ */
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+    const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+    const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+
+    if (schedule.restrictsDayOfMonth && schedule.restrictsDayOfWeek) {
+        return dayOfMonth || dayOfWeek;
+    }
+    return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * The first time strictly after `after` that matches the schedule, or null if
+ * none does within the next few years.
+ */
+export function getNextCronRun(schedule: CronSchedule, after: Date): Date | null {
+    const next = new Date(after.getTime());
+    next.setUTCSeconds(0, 0);
+    next.setUTCMinutes(next.getUTCMinutes() + 1);
+    const limit = after.getUTCFullYear() + MAX_SEARCH_YEARS;
+
+    while (next.getUTCFullYear() <= limit) {
+        if (!schedule.months.has(next.getUTCMonth() + 1)) {
+            next.setUTCMonth(next.getUTCMonth() + 1, 1);
+            next.setUTCHours(0, 0);
+        } else if (!matchesDay(schedule, next)) {
+            next.setUTCDate(next.getUTCDate() + 1);
+            next.setUTCHours(0, 0);
+        } else if (!schedule.hours.has(next.getUTCHours())) {
+            next.setUTCHours(next.getUTCHours() + 1, 0);
+        } else if (!schedule.minutes.has(next.getUTCMinutes())) {
+            next.setUTCMinutes(next.getUTCMinutes() + 1);
+        } else {
+            return next;
+        }
+    }
+
+    return null;
+}
@@ -0,0 +1,167 @@
+import { messageService } from '../../discord/services/index.js';
+import { broadcastEvent } from '../../discord/events/index.js';
+import { apiKeyStore, checkKeyValidity } from '../auth/key-store.js';
+import { withDefaultMentions } from '../auth/mentions.js';
+import { canAccessChannel, type ChannelResolver } from '../auth/restrictions.js';
+import { hasScopes, resolveChannelLocation } from '../middleware/auth.js';
+import { ApiError } from '../middleware/errorHandler.js';
+import { scheduledMessageStore, type ScheduledMessage, type ScheduledMessageStore } from './store.js';
+import type { SerializedMessage } from '../../types/discord.types.js';
+import type { ScheduledMessageFailedEvent, ScheduledMessageSentEvent } from '../../types/events.types.js';
+
+/** Longest delay Node.js timers support; later runs are re-armed when it fires */
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+export interface SchedulerOptions {
+    /** Send a scheduled message, throwing if it cannot be sent */
+    send: (scheduled: ScheduledMessage) => Promise<SerializedMessage>;
+    /** Publish the outcome of a send to realtime clients */
+    publish: (payload: ScheduledMessageSentEvent | ScheduledMessageFailedEvent) => void;
+    /** Resolves the channel's guild for the published event */
+    resolveChannel: ChannelResolver;
+}
+
+/**
+ * Send a scheduled message with the permissions its key has now: a key that was
+ * revoked, expired, lost `write:messages` or lost access to the channel cannot send.
+ */
+export async function sendScheduledMessage(scheduled: ScheduledMessage): Promise<SerializedMessage> {
+    const key = apiKeyStore.get(scheduled.keyId);
+    if (!key) {
+        throw ApiError.forbidden('The key that scheduled this message has been revoked', 'KEY_REVOKED');
+    }
+
+    const invalid = checkKeyValidity(key);
+    if (invalid) {
+        throw ApiError.forbidden(invalid.error, invalid.code);
+    }
+    if (!hasScopes(key, ['write:messages'])) {
+        throw ApiError.forbidden('Missing required scope(s): write:messages', 'INSUFFICIENT_SCOPE');
+    }
+    if (!canAccessChannel(key, scheduled.channelId, resolveChannelLocation)) {
+        throw ApiError.forbidden('API key is not allowed to access this guild or channel', 'RESOURCE_NOT_ALLOWED');
+    }
+
+    return messageService.sendMessage(scheduled.channelId, withDefaultMentions(scheduled.message, key));
+}
+
+/**
+ * Sends scheduled messages when they are due.
+ *
+ * A single timer is armed for the earliest pending message and re-armed whenever
+ * the store changes. Due messages are sent one at a time, and each send raises a
+ * `scheduledMessageSent` or `scheduledMessageFailed` event. Runs missed while the
+ * bridge was down are sent once when it starts.
+ */
+export class MessageScheduler {
+    private timer: NodeJS.Timeout | null = null;
+    private running: Promise<void> | null = null;
+    private started = false;
+    private readonly onChanged = (): void => this.arm();
+
+    constructor(
+        private readonly options: SchedulerOptions,
+        private readonly store: ScheduledMessageStore = scheduledMessageStore
+    ) {}
+
+    start(): void {
+        if (this.started) {return;}
+        this.started = true;
+        this.store.on('changed', this.onChanged);
+        this.arm();
+    }
+
+    stop(): void {
+        this.started = false;
+        this.store.off('changed', this.onChanged);
+        this.arm();
+    }
+
+    /**
+     * Send every message due at `now`. Resolves once they have all been sent
+     * (or, if a run is already in progress, once that run finishes).
+     */
+    runDue(now: Date = new Date()): Promise<void> {
+        this.running ??= this.sendDue(now).finally(() => {
+            this.running = null;
+            this.arm();
+        });
+        return this.running;
+    }
+
+    private async sendDue(now: Date): Promise<void> {
+        for (const scheduled of this.store.list()) {
+            if (scheduled.nextRunAt > now) {break;}
+
+            try {
+                await this.fire(scheduled);
+            } catch (error) {
+                console.error(`❌ Failed to record the run of scheduled message ${scheduled.id}:`, error);
+            }
+        }
+    }
+
+    private async fire(scheduled: ScheduledMessage): Promise<void> {
+        const at = new Date();
+        const { id, channelId } = scheduled;
+        const guildId = this.options.resolveChannel(channelId)?.guildId ?? null;
+
+        let message: SerializedMessage;
+        try {
+            message = await this.options.send(scheduled);
+        } catch (error) {
+            const reason = error instanceof Error ? error.message : String(error);
+            const code = error instanceof ApiError ? error.code : 'INTERNAL_ERROR';
+            console.error(`❌ Scheduled message ${id} could not be sent:`, reason);
+
+            // Schedules of revoked keys would fail on every run
+            let next: ScheduledMessage | null = null;
+            if (code === 'KEY_REVOKED') {
+                if (this.store.get(id)) {await this.store.delete(id);}
+            } else {
+                next = await this.store.recordRun(scheduled, { at, messageId: null, error: reason, code });
+            }
+
+            this.options.publish({
+                event: 'scheduledMessageFailed',
+                guildId,
+                data: { scheduledMessageId: id, channelId, error: reason, code, nextRunAt: next?.nextRunAt.toISOString() ?? null },
+            });
+            return;
+        }
+
+        const next = await this.store.recordRun(scheduled, { at, messageId: message.id, error: null, code: null });
+        this.options.publish({
+            event: 'scheduledMessageSent',
+            guildId,
+            data: { scheduledMessageId: id, channelId, message, nextRunAt: next?.nextRunAt.toISOString() ?? null },
+        });
+    }
+
+    /**
+     * Point the timer at the earliest pending message.
+     */
+    private arm(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+
+        const next = this.started ? this.store.list()[0] : undefined;
+        if (!next) {return;}
+
+        const delay = Math.min(Math.max(next.nextRunAt.getTime() - Date.now(), 0), MAX_TIMER_MS);
+        this.timer = setTimeout(() => {
+            this.timer = null;
+            void this.runDue();
+        }, delay);
+        this.timer.unref();
+    }
+}
+
+// Singleton instance
+export const messageScheduler = new MessageScheduler({
+    send: sendScheduledMessage,
+    publish: broadcastEvent,
+    resolveChannel: resolveChannelLocation,
+});
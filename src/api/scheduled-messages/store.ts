@@ -0,0 +1,330 @@
+import { randomBytes } from 'crypto';
+import { EventEmitter } from 'events';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname, resolve } from 'path';
+import { config } from '../../config/index.js';
+import { ApiError } from '../middleware/errorHandler.js';
+import { getNextCronRun, parseCron } from './cron.js';
+import type { SendMessageInput } from '../../types/api.types.js';
+
+/**
+ * A message to send later, once (`sendAt`) or on a cron schedule (`cron`).
+ */
+export interface ScheduledMessage {
+    id: string;
+    /** Key that created the schedule. Sends use the key's permissions at the time they run. */
+    keyId: string;
+    channelId: string;
+    /** Payload passed to the message service, as for `POST /api/channels/:channelId/messages` */
+    message: SendMessageInput;
+    /** One-off send time */
+    sendAt?: Date;
+    /** Recurring schedule (five-field cron, UTC) */
+    cron?: string;
+    /** When the message is sent next */
+    nextRunAt: Date;
+    /** Outcome of the most recent send of a recurring schedule */
+    lastRun?: ScheduledRun;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+/**
+ * Outcome of one send.
+ */
+export interface ScheduledRun {
+    at: Date;
+    /** ID of the sent message, or null if the send failed */
+    messageId: string | null;
+    error: string | null;
+    code: string | null;
+}
+
+/**
+ * Options for scheduling a message.
+ */
+export interface CreateScheduledMessageOptions {
+    keyId: string;
+    channelId: string;
+    message: SendMessageInput;
+    sendAt?: Date;
+    cron?: string;
+}
+
+/**
+ * Changes to a scheduled message. Setting `sendAt` or `cron` switches the schedule to that kind.
+ */
+export interface UpdateScheduledMessageOptions {
+    channelId?: string;
+    message?: SendMessageInput;
+    sendAt?: Date;
+    cron?: string;
+}
+
+/**
+ * A scheduled message as returned by the API.
+ */
+export interface SerializedScheduledMessage {
+    id: string;
+    keyId: string;
+    channelId: string;
+    message: SendMessageInput;
+    sendAt: string | null;
+    cron: string | null;
+    nextRunAt: string;
+    lastRun: {
+        at: string;
+        messageId: string | null;
+        error: string | null;
+        code: string | null;
+    } | null;
+    createdAt: string;
+    updatedAt: string;
+}
+
+/** On-disk representation of a scheduled message */
+interface StoredScheduledMessage extends Omit<ScheduledMessage, 'sendAt' | 'nextRunAt' | 'lastRun' | 'createdAt' | 'updatedAt'> {
+    sendAt?: string;
+    nextRunAt: string;
+    lastRun?: Omit<ScheduledRun, 'at'> & { at: string };
+    createdAt: string;
+    updatedAt: string;
+}
+
+/** On-disk representation of the scheduled message file */
+interface ScheduledMessageFile {
+    version: 1;
+    messages: StoredScheduledMessage[];
+}
+
+/**
+ * Serialize a scheduled message for API responses.
+ */
+export function serializeScheduledMessage(scheduled: ScheduledMessage): SerializedScheduledMessage {
+    return {
+        id: scheduled.id,
+        keyId: scheduled.keyId,
+        channelId: scheduled.channelId,
+        message: scheduled.message,
+        sendAt: scheduled.sendAt?.toISOString() ?? null,
+        cron: scheduled.cron ?? null,
+        nextRunAt: scheduled.nextRunAt.toISOString(),
+        lastRun: scheduled.lastRun ? { ...scheduled.lastRun, at: scheduled.lastRun.at.toISOString() } : null,
+        createdAt: scheduled.createdAt.toISOString(),
+        updatedAt: scheduled.updatedAt.toISOString(),
+    };
+}
+
+/**
+ * When a new or edited schedule first runs. Rejects send times in the past and
+ * cron expressions that never match.
+ */
+function getFirstRun(schedule: { sendAt?: Date; cron?: string }, now: Date): Date {
+    if (schedule.sendAt) {
+        if (schedule.sendAt <= now) {
+            throw ApiError.badRequest('sendAt must be in the future', 'INVALID_SCHEDULE');
+        }
+        return schedule.sendAt;
+    }
+
+    const next = getNextCronRun(parseCron(schedule.cron ?? ''), now);
+    if (!next) {
+        throw ApiError.badRequest('Cron expression never matches', 'INVALID_SCHEDULE');
+    }
+    return next;
+}
+
+function toStored(scheduled: ScheduledMessage): StoredScheduledMessage {
+    return {
+        ...scheduled,
+        sendAt: scheduled.sendAt?.toISOString(),
+        nextRunAt: scheduled.nextRunAt.toISOString(),
+        lastRun: scheduled.lastRun && { ...scheduled.lastRun, at: scheduled.lastRun.at.toISOString() },
+        createdAt: scheduled.createdAt.toISOString(),
+        updatedAt: scheduled.updatedAt.toISOString(),
+    };
+}
+
+function toScheduledMessage(stored: StoredScheduledMessage): ScheduledMessage {
+    return {
+        ...stored,
+        sendAt: stored.sendAt ? new Date(stored.sendAt) : undefined,
+        nextRunAt: new Date(stored.nextRunAt),
+        lastRun: stored.lastRun && { ...stored.lastRun, at: new Date(stored.lastRun.at) },
+        createdAt: new Date(stored.createdAt),
+        updatedAt: new Date(stored.updatedAt),
+    };
+}
+
+/**
+ * File-backed list of scheduled messages.
+ *
+ * One-off messages are removed once they have run; recurring ones move on to
+ * their next run. Emits `changed` whenever the schedule changes, so the
+ * scheduler can re-arm its timer.
+ */
+export class ScheduledMessageStore extends EventEmitter {
+    private messages: Map<string, ScheduledMessage> = new Map();
+    private writeQueue: Promise<void> = Promise.resolve();
+
+    constructor(
+        private readonly filePath: string,
+        private readonly maxPerKey: number
+    ) {
+        super();
+    }
+
+    /**
+     * Load persisted schedules from disk. A missing file is treated as an empty store.
+     */
+    async load(): Promise<void> {
+        let raw: string;
+        try {
+            raw = await readFile(this.filePath, 'utf8');
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return;
+            }
+            throw error;
+        }
+
+        const data = JSON.parse(raw) as ScheduledMessageFile;
+        for (const stored of data.messages ?? []) {
+            this.messages.set(stored.id, toScheduledMessage(stored));
+        }
+        this.emit('changed');
+    }
+
+    /**
+     * List scheduled messages by next run, optionally only those of one key.
+     */
+    list(keyId?: string): ScheduledMessage[] {
+        const all = Array.from(this.messages.values()).sort((a, b) => a.nextRunAt.getTime() - b.nextRunAt.getTime());
+        return keyId ? all.filter((scheduled) => scheduled.keyId === keyId) : all;
+    }
+
+    /**
+     * Get a scheduled message by ID.
+     */
+    get(id: string): ScheduledMessage | null {
+        return this.messages.get(id) ?? null;
+    }
+
+    /**
+     * Schedule a message. Each key may have a limited number of pending schedules.
+     */
+    async create(options: CreateScheduledMessageOptions, now: Date = new Date()): Promise<ScheduledMessage> {
+        if (this.list(options.keyId).length >= this.maxPerKey) {
+            throw ApiError.badRequest(`A key may have at most ${this.maxPerKey} scheduled messages`, 'SCHEDULE_LIMIT_REACHED');
+        }
+
+        const scheduled: ScheduledMessage = {
+            id: `sch_${randomBytes(8).toString('hex')}`,
+            keyId: options.keyId,
+            channelId: options.channelId,
+            message: options.message,
+            sendAt: options.sendAt,
+            cron: options.cron,
+            nextRunAt: getFirstRun(options, now),
+            createdAt: now,
+            updatedAt: now,
+        };
+
+        this.messages.set(scheduled.id, scheduled);
+        await this.save();
+        return scheduled;
+    }
+
+    /**
+     * Edit a scheduled message. Changing the schedule recomputes its next run.
+     */
+    async update(id: string, changes: UpdateScheduledMessageOptions, now: Date = new Date()): Promise<ScheduledMessage> {
+        const existing = this.getExisting(id);
+        const schedule = changes.sendAt || changes.cron
+            ? { sendAt: changes.sendAt, cron: changes.cron }
+            : { sendAt: existing.sendAt, cron: existing.cron };
+
+        const updated: ScheduledMessage = {
+            ...existing,
+            channelId: changes.channelId ?? existing.channelId,
+            message: changes.message ?? existing.message,
+            ...schedule,
+            nextRunAt: changes.sendAt || changes.cron ? getFirstRun(schedule, now) : existing.nextRunAt,
+            updatedAt: now,
+        };
+
+        this.messages.set(id, updated);
+        await this.save();
+        return updated;
+    }
+
+    /**
+     * Cancel a scheduled message.
+     */
+    async delete(id: string): Promise<void> {
+        this.getExisting(id);
+        this.messages.delete(id);
+        await this.save();
+    }
+
+    /**
+     * Record the send of `sent`. One-off messages are removed; recurring ones move
+     * to their next run, or are removed when there is none. A message that was
+     * edited while it was being sent keeps its edits and next run.
+     *
+     * Returns the message as it now stands, or null if it was removed.
+     */
+    async recordRun(sent: ScheduledMessage, run: ScheduledRun): Promise<ScheduledMessage | null> {
+        const current = this.messages.get(sent.id);
+        if (!current) {return null;}
+        if (current.updatedAt.getTime() !== sent.updatedAt.getTime()) {return current;}
+
+        const after = run.at > sent.nextRunAt ? run.at : sent.nextRunAt;
+        const nextRunAt = current.cron ? getNextCronRun(parseCron(current.cron), after) : null;
+        if (!nextRunAt) {
+            this.messages.delete(sent.id);
+            await this.save();
+            return null;
+        }
+
+        const updated: ScheduledMessage = { ...current, nextRunAt, lastRun: run };
+        this.messages.set(sent.id, updated);
+        await this.save();
+        return updated;
+    }
+
+    private getExisting(id: string): ScheduledMessage {
+        const scheduled = this.messages.get(id);
+        if (!scheduled) {
+            throw ApiError.notFound('Scheduled message not found', 'SCHEDULED_MESSAGE_NOT_FOUND');
+        }
+        return scheduled;
+    }
+
+    /**
+     * Persist the schedule and notify listeners. Writes are serialized and atomic (write + rename).
+     */
+    private save(): Promise<void> {
+        const data: ScheduledMessageFile = {
+            version: 1,
+            messages: Array.from(this.messages.values()).map(toStored),
+        };
+
+        const write = async (): Promise<void> => {
+            const tmpPath = `${this.filePath}.tmp`;
+            await mkdir(dirname(this.filePath), { recursive: true });
+            await writeFile(tmpPath, JSON.stringify(data, null, 2), { encoding: 'utf8', mode: 0o600 });
+            await rename(tmpPath, this.filePath);
+        };
+
+        this.emit('changed');
+        this.writeQueue = this.writeQueue.then(write, write);
+        return this.writeQueue;
+    }
+}
+
+// Singleton instance
+export const scheduledMessageStore = new ScheduledMessageStore(
+    resolve(process.cwd(), config.scheduledMessages.file),
+    config.scheduledMessages.maxPerKey
+);
@@ -0,0 +1,293 @@
+import type { PermissionsString } from 'discord.js';
+import type { ApiScope } from '../types/auth.types.js';
+
+/**
+ * HTTP methods used by the built-in routes.
+ */
+export type RouteMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * Scope requirements for a single route.
+ */
+export interface RouteScope {
+    /** HTTP method */
+    method: RouteMethod;
+    /** Express-style path (e.g. `/api/guilds/:guildId`). A trailing `/*` matches any sub-path. */
+    path: string;
+    /** Scopes required to call the route. An empty list allows any authenticated key. */
+    scopes: ApiScope[];
+    /**
+     * Allow guild/channel-restricted keys to call this route even though it targets
+     * no specific guild or channel (the handler filters its own results).
+     */
+    allowRestricted?: boolean;
+    /**
+     * Discord permissions a login session's user needs in the targeted guild or channel.
+     * Routes without this field are not available to login sessions.
+     */
+    permissions?: PermissionsString[];
+    /** The session's user must also outrank the `:userId` member in the role hierarchy */
+    memberHierarchy?: boolean;
+    /** Served from the Discord cache without calling Discord, so it skips the outbound queue */
+    cached?: boolean;
+}
+
+/**
+ * A route matched against an incoming request.
+ */
+export interface RouteScopeMatch {
+    route: RouteScope;
+    params: Record<string, string>;
+}
+
+/**
+ * Scope requirements for every built-in route.
+ * Routes are matched in order, so specific paths must come before parameterised ones.
+ * Requests to `/api` paths that are not listed here require the `admin` scope.
+ * `permissions` gives the equivalent Discord permissions for Discord login sessions.
+ */
+export const ROUTE_SCOPES: readonly RouteScope[] = [
+    // Auth
+    { method: 'GET', path: '/api/auth/scopes', scopes: [], allowRestricted: true, permissions: [] },
+    { method: 'POST', path: '/api/auth/token', scopes: [], allowRestricted: true },
+    { method: 'GET', path: '/api/auth/session', scopes: [], allowRestricted: true, permissions: [] },
+    { method: 'POST', path: '/api/auth/logout', scopes: [], allowRestricted: true, permissions: [] },
+
+    // API keys
+    { method: 'GET', path: '/api/keys', scopes: ['admin'] },
+    { method: 'POST', path: '/api/keys', scopes: ['admin'] },
+    { method: 'GET', path: '/api/keys/usage', scopes: ['admin'] },
+    { method: 'GET', path: '/api/keys/:keyId', scopes: ['admin'] },
+    { method: 'GET', path: '/api/keys/:keyId/usage', scopes: ['admin'] },
+    { method: 'POST', path: '/api/keys/:keyId/rotate', scopes: ['admin'] },
+    { method: 'DELETE', path: '/api/keys/:keyId', scopes: ['admin'] },
+
+    // Event stream (restricted keys only receive events they may access)
+    { method: 'GET', path: '/api/events/stream', scopes: ['events'], allowRestricted: true },
+
+    // Event webhooks
+    { method: 'GET', path: '/api/event-webhooks', scopes: ['admin'] },
+    { method: 'POST', path: '/api/event-webhooks', scopes: ['admin'] },
+    { method: 'GET', path: '/api/event-webhooks/dead-letters', scopes: ['admin'] },
+    { method: 'GET', path: '/api/event-webhooks/dead-letters/:deliveryId', scopes: ['admin'] },
+    { method: 'POST', path: '/api/event-webhooks/dead-letters/:deliveryId/redeliver', scopes: ['admin'] },
+    { method: 'DELETE', path: '/api/event-webhooks/dead-letters/:deliveryId', scopes: ['admin'] },
+    { method: 'GET', path: '/api/event-webhooks/:webhookId', scopes: ['admin'] },
+    { method: 'DELETE', path: '/api/event-webhooks/:webhookId', scopes: ['admin'] },
+
+    // Scheduled messages (keys see and edit their own; admin keys see all)
+    { method: 'GET', path: '/api/scheduled-messages', scopes: ['write:messages'], allowRestricted: true },
+    { method: 'POST', path: '/api/scheduled-messages', scopes: ['write:messages'], allowRestricted: true },
+    { method: 'GET', path: '/api/scheduled-messages/:scheduledMessageId', scopes: ['write:messages'], allowRestricted: true },
+    { method: 'PATCH', path: '/api/scheduled-messages/:scheduledMessageId', scopes: ['write:messages'], allowRestricted: true },
+    { method: 'DELETE', path: '/api/scheduled-messages/:scheduledMessageId', scopes: ['write:messages'], allowRestricted: true },
+
+    // System
+    { method: 'GET', path: '/api/system/ratelimits', scopes: ['admin'] },
+    { method: 'GET', path: '/api/system/connections', scopes: ['admin'] },
+
+    // Guilds
+    { method: 'GET', path: '/api/guilds', scopes: ['read:guilds'], allowRestricted: true, permissions: [], cached: true },
+    { method: 'GET', path: '/api/guilds/:guildId', scopes: ['read:guilds'], permissions: [], cached: true },
+    { method: 'GET', path: '/api/guilds/:guildId/channels', scopes: ['read:channels'], permissions: [] },
+    { method: 'GET', path: '/api/guilds/:guildId/bans', scopes: ['read:members'], permissions: ['BanMembers'] },
+    { method: 'GET', path: '/api/guilds/:guildId/invites', scopes: ['read:invites'], permissions: ['ManageGuild'] },
+
+    // Members
+    { method: 'GET', path: '/api/guilds/:guildId/members', scopes: ['read:members'], permissions: [] },
+    { method: 'GET', path: '/api/guilds/:guildId/members/search', scopes: ['read:members'], permissions: [] },
+    { method: 'GET', path: '/api/guilds/:guildId/members/:userId', scopes: ['read:members'], permissions: [] },
+    { method: 'POST', path: '/api/guilds/:guildId/members/:userId/kick', scopes: ['write:members'], permissions: ['KickMembers'], memberHierarchy: true },
+    { method: 'POST', path: '/api/guilds/:guildId/members/:userId/ban', scopes: ['write:members'], permissions: ['BanMembers'], memberHierarchy: true },
+    { method: 'DELETE', path: '/api/guilds/:guildId/members/bans/:userId', scopes: ['write:members'], permissions: ['BanMembers'] },
+    { method: 'PATCH', path: '/api/guilds/:guildId/members/:userId/nickname', scopes: ['write:members'], permissions: ['ManageNicknames'], memberHierarchy: true },
+    { method: 'PATCH', path: '/api/guilds/:guildId/members/:userId/roles', scopes: ['write:members'], permissions: ['ManageRoles'], memberHierarchy: true },
+    { method: 'POST', path: '/api/guilds/:guildId/members/:userId/timeout', scopes: ['write:members'], permissions: ['ModerateMembers'], memberHierarchy: true },
+    { method: 'DELETE', path: '/api/guilds/:guildId/members/:userId/timeout', scopes: ['write:members'], permissions: ['ModerateMembers'], memberHierarchy: true },
+
+    // Roles
+    { method: 'GET', path: '/api/guilds/:guildId/roles', scopes: ['read:guilds'], permissions: [] },
+    { method: 'GET', path: '/api/guilds/:guildId/roles/search', scopes: ['read:guilds'], permissions: [] },
+    { method: 'GET', path: '/api/guilds/:guildId/roles/:roleId', scopes: ['read:guilds'], permissions: [] },
+    { method: 'GET', path: '/api/guilds/:guildId/roles/:roleId/members', scopes: ['read:guilds', 'read:members'], permissions: [] },
+    { method: 'POST', path: '/api/guilds/:guildId/roles', scopes: ['write:roles'], permissions: ['ManageRoles'] },
+    { method: 'PATCH', path: '/api/guilds/:guildId/roles/:roleId', scopes: ['write:roles'], permissions: ['ManageRoles'] },
+    { method: 'PATCH', path: '/api/guilds/:guildId/roles/:roleId/permissions', scopes: ['write:roles'], permissions: ['ManageRoles'] },
+    { method: 'DELETE', path: '/api/guilds/:guildId/roles/:roleId', scopes: ['write:roles'], permissions: ['ManageRoles'] },
+
+    // Messages
+    { method: 'GET', path: '/api/channels/:channelId/messages', scopes: ['read:messages'], permissions: ['ViewChannel', 'ReadMessageHistory'] },
+    { method: 'GET', path: '/api/channels/:channelId/messages/pinned', scopes: ['read:messages'], permissions: ['ViewChannel', 'ReadMessageHistory'] },
+    { method: 'GET', path: '/api/channels/:channelId/messages/:messageId', scopes: ['read:messages'], permissions: ['ViewChannel', 'ReadMessageHistory'] },
+    { method: 'GET', path: '/api/channels/:channelId/messages/:messageId/reactions/:emoji/users', scopes: ['read:messages'], permissions: ['ViewChannel', 'ReadMessageHistory'] },
+    { method: 'POST', path: '/api/channels/:channelId/messages', scopes: ['write:messages'], permissions: ['ViewChannel', 'SendMessages'] },
+    { method: 'POST', path: '/api/channels/:channelId/messages/bulk-delete', scopes: ['write:messages'], permissions: ['ManageMessages'] },
+    { method: 'PATCH', path: '/api/channels/:channelId/messages/:messageId', scopes: ['write:messages'], permissions: ['ManageMessages'] },
+    { method: 'DELETE', path: '/api/channels/:channelId/messages/:messageId', scopes: ['write:messages'], permissions: ['ManageMessages'] },
+    { method: 'POST', path: '/api/channels/:channelId/messages/:messageId/reactions/:emoji', scopes: ['write:messages'], permissions: ['ViewChannel', 'AddReactions'] },
+    { method: 'DELETE', path: '/api/channels/:channelId/messages/:messageId/reactions/:emoji', scopes: ['write:messages'], permissions: ['ManageMessages'] },
+    { method: 'DELETE', path: '/api/channels/:channelId/messages/:messageId/reactions', scopes: ['write:messages'], permissions: ['ManageMessages'] },
+    { method: 'POST', path: '/api/channels/:channelId/messages/:messageId/pin', scopes: ['write:messages'], permissions: ['ManageMessages'] },
+    { method: 'DELETE', path: '/api/channels/:channelId/messages/:messageId/pin', scopes: ['write:messages'], permissions: ['ManageMessages'] },
+    { method: 'POST', path: '/api/channels/:channelId/messages/:messageId/crosspost', scopes: ['write:messages'], permissions: ['ManageMessages'] },
+
+    // Channels & threads
+    { method: 'POST', path: '/api/channels/guilds/:guildId/channels', scopes: ['write:channels'], permissions: ['ManageChannels'] },
+    { method: 'GET', path: '/api/channels/:channelId', scopes: ['read:channels'], permissions: ['ViewChannel'] },
+    { method: 'PATCH', path: '/api/channels/:channelId', scopes: ['write:channels'], permissions: ['ManageChannels'] },
+    { method: 'DELETE', path: '/api/channels/:channelId', scopes: ['write:channels'], permissions: ['ManageChannels'] },
+    { method: 'GET', path: '/api/channels/:channelId/threads', scopes: ['read:channels'], permissions: ['ViewChannel'] },
+    { method: 'POST', path: '/api/channels/:channelId/threads', scopes: ['write:channels'], permissions: ['CreatePublicThreads'] },
+    { method: 'POST', path: '/api/channels/:channelId/archive', scopes: ['write:channels'], permissions: ['ManageThreads'] },
+    { method: 'DELETE', path: '/api/channels/:channelId/archive', scopes: ['write:channels'], permissions: ['ManageThreads'] },
+    { method: 'POST', path: '/api/channels/:channelId/lock', scopes: ['write:channels'], permissions: ['ManageThreads'] },
+    { method: 'DELETE', path: '/api/channels/:channelId/lock', scopes: ['write:channels'], permissions: ['ManageThreads'] },
+    { method: 'POST', path: '/api/channels/:channelId/clone', scopes: ['write:channels'], permissions: ['ManageChannels'] },
+    { method: 'GET', path: '/api/channels/:channelId/webhooks', scopes: ['read:webhooks'], permissions: ['ManageWebhooks'] },
+
+    // Stage instances
+    { method: 'GET', path: '/api/stage-instances/:channelId', scopes: ['read:channels'], permissions: ['ViewChannel'] },
+    { method: 'POST', path: '/api/stage-instances', scopes: ['write:channels'] },
+    { method: 'PATCH', path: '/api/stage-instances/:channelId', scopes: ['write:channels'], permissions: ['ManageChannels'] },
+    { method: 'DELETE', path: '/api/stage-instances/:channelId', scopes: ['write:channels'], permissions: ['ManageChannels'] },
+
+    // Emojis
+    { method: 'GET', path: '/api/guilds/:guildId/emojis', scopes: ['read:emojis'], permissions: [] },
+    { method: 'GET', path: '/api/guilds/:guildId/emojis/:emojiId', scopes: ['read:emojis'], permissions: [] },
+    { method: 'POST', path: '/api/guilds/:guildId/emojis', scopes: ['write:emojis'], permissions: ['ManageGuildExpressions'] },
+    { method: 'PATCH', path: '/api/guilds/:guildId/emojis/:emojiId', scopes: ['write:emojis'], permissions: ['ManageGuildExpressions'] },
+    { method: 'DELETE', path: '/api/guilds/:guildId/emojis/:emojiId', scopes: ['write:emojis'], permissions: ['ManageGuildExpressions'] },
+
+    // Stickers
+    { method: 'GET', path: '/api/guilds/:guildId/stickers', scopes: ['read:stickers'], permissions: [] },
+    { method: 'GET', path: '/api/guilds/:guildId/stickers/:stickerId', scopes: ['read:stickers'], permissions: [] },
+    { method: 'POST', path: '/api/guilds/:guildId/stickers', scopes: ['write:stickers'], permissions: ['ManageGuildExpressions'] },
+    { method: 'PATCH', path: '/api/guilds/:guildId/stickers/:stickerId', scopes: ['write:stickers'], permissions: ['ManageGuildExpressions'] },
+    { method: 'DELETE', path: '/api/guilds/:guildId/stickers/:stickerId', scopes: ['write:stickers'], permissions: ['ManageGuildExpressions'] },
+
+    // Scheduled events
+    { method: 'GET', path: '/api/guilds/:guildId/scheduled-events', scopes: ['read:scheduled-events'], permissions: [] },
+    { method: 'GET', path: '/api/guilds/:guildId/scheduled-events/:eventId', scopes: ['read:scheduled-events'], permissions: [] },
+    { method: 'GET', path: '/api/guilds/:guildId/scheduled-events/:eventId/users', scopes: ['read:scheduled-events'], permissions: [] },
+    { method: 'POST', path: '/api/guilds/:guildId/scheduled-events', scopes: ['write:scheduled-events'], permissions: ['ManageEvents'] },
+    { method: 'PATCH', path: '/api/guilds/:guildId/scheduled-events/:eventId', scopes: ['write:scheduled-events'], permissions: ['ManageEvents'] },
+    { method: 'DELETE', path: '/api/guilds/:guildId/scheduled-events/:eventId', scopes: ['write:scheduled-events'], permissions: ['ManageEvents'] },
+
+    // AutoMod
+    { method: 'GET', path: '/api/guilds/:guildId/auto-moderation/rules', scopes: ['read:automod'], permissions: ['ManageGuild'] },
+    { method: 'GET', path: '/api/guilds/:guildId/auto-moderation/rules/:ruleId', scopes: ['read:automod'], permissions: ['ManageGuild'] },
+    { method: 'POST', path: '/api/guilds/:guildId/auto-moderation/rules', scopes: ['write:automod'], permissions: ['ManageGuild'] },
+    { method: 'PATCH', path: '/api/guilds/:guildId/auto-moderation/rules/:ruleId', scopes: ['write:automod'], permissions: ['ManageGuild'] },
+    { method: 'DELETE', path: '/api/guilds/:guildId/auto-moderation/rules/:ruleId', scopes: ['write:automod'], permissions: ['ManageGuild'] },
+
+    // Application commands
+    { method: 'GET', path: '/api/commands', scopes: ['read:commands'] },
+    { method: 'GET', path: '/api/commands/:commandId', scopes: ['read:commands'] },
+    { method: 'POST', path: '/api/commands', scopes: ['write:commands'] },
+    { method: 'PATCH', path: '/api/commands/:commandId', scopes: ['write:commands'] },
+    { method: 'DELETE', path: '/api/commands/:commandId', scopes: ['write:commands'] },
+    { method: 'GET', path: '/api/guilds/:guildId/commands', scopes: ['read:commands'], permissions: [] },
+    { method: 'GET', path: '/api/guilds/:guildId/commands/:commandId', scopes: ['read:commands'], permissions: [] },
+    { method: 'POST', path: '/api/guilds/:guildId/commands', scopes: ['write:commands'], permissions: ['ManageGuild'] },
+    { method: 'PATCH', path: '/api/guilds/:guildId/commands/:commandId', scopes: ['write:commands'], permissions: ['ManageGuild'] },
+    { method: 'DELETE', path: '/api/guilds/:guildId/commands/:commandId', scopes: ['write:commands'], permissions: ['ManageGuild'] },
+
+    // Interactions
+    { method: 'POST', path: '/api/interactions/callback', scopes: ['write:interactions'] },
+
+    // Webhooks
+    { method: 'GET', path: '/api/webhooks/:webhookId', scopes: ['read:webhooks'] },
+    { method: 'PATCH', path: '/api/webhooks/:webhookId', scopes: ['write:webhooks'] },
+    { method: 'DELETE', path: '/api/webhooks/:webhookId', scopes: ['write:webhooks'] },
+
+    // Invites
+    { method: 'GET', path: '/api/invites/:code', scopes: ['read:invites'] },
+    { method: 'DELETE', path: '/api/invites/:code', scopes: ['write:invites'] },
+
+    // Voice
+    { method: 'GET', path: '/api/guilds/:guildId/voice', scopes: ['read:voice'], permissions: [], cached: true },
+    { method: 'POST', path: '/api/guilds/:guildId/voice/join', scopes: ['write:voice'], permissions: ['Connect', 'Speak'] },
+    { method: 'POST', path: '/api/guilds/:guildId/voice/leave', scopes: ['write:voice'], permissions: ['Connect', 'Speak'] },
+    { method: 'POST', path: '/api/guilds/:guildId/voice/play', scopes: ['write:voice'], permissions: ['Connect', 'Speak'] },
+
+    // Plugin routes enforce their own access rules
+    { method: 'GET', path: '/api/plugins/*', scopes: [] },
+    { method: 'POST', path: '/api/plugins/*', scopes: [] },
+    { method: 'PUT', path: '/api/plugins/*', scopes: [] },
+    { method: 'PATCH', path: '/api/plugins/*', scopes: [] },
+    { method: 'DELETE', path: '/api/plugins/*', scopes: [] },
+];
+
+interface CompiledRoute {
+    route: RouteScope;
+    pattern: RegExp;
+    paramNames: string[];
+}
+
+/**
+ * Compile an Express-style path into a regular expression.
+ */
+function compilePath(path: string): { pattern: RegExp; paramNames: string[] } {
+    const paramNames: string[] = [];
+    const wildcard = path.endsWith('/*');
+    const base = wildcard ? path.slice(0, -2) : path;
+
+    const source = base
+        .split('/')
+        .map((segment) => {
+            if (segment.startsWith(':')) {
+                paramNames.push(segment.slice(1));
+                return '([^/]+)';
+            }
+            return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        })
+        .join('/');
+
+    return {
+        pattern: new RegExp(`^${source}${wildcard ? '(?:/.*)?' : ''}/?$`),
+        paramNames,
+    };
+}
+
+const compiledRoutes: CompiledRoute[] = ROUTE_SCOPES.map((route) => ({
+    route,
+    ...compilePath(route.path),
+}));
+
+/**
+ * Decode a path parameter, keeping the raw value if it is malformed.
+ */
+function decodeParam(value: string): string {
+    try {
+        return decodeURIComponent(value);
+    } catch {
+        return value;
+    }
+}
+
+/**
+ * Find the scope requirements for a request.
+ * HEAD requests are matched as GET.
+ */
+export function matchRouteScope(method: string, path: string): RouteScopeMatch | null {
+    const normalizedMethod = method.toUpperCase() === 'HEAD' ? 'GET' : method.toUpperCase();
+
+    for (const { route, pattern, paramNames } of compiledRoutes) {
+        if (route.method !== normalizedMethod) {continue;}
+
+        const match = pattern.exec(path);
+        if (!match) {continue;}
+
+        const params: Record<string, string> = {};
+        paramNames.forEach((name, index) => {
+            const value = match[index + 1];
+            if (value !== undefined) {
+                params[name] = decodeParam(value);
+            }
+        });
+
+        return { route, params };
+    }
+
+    return null;
+}
@@ -6,12 +6,15 @@ import os from 'os';
 import { Server as SocketIOServer } from 'socket.io';
 import swaggerUi from 'swagger-ui-express';
 import { config } from '../config/index.js';
-import { authMiddleware } from './middleware/auth.js';
+import { authMiddleware, connectionAuthMiddleware, enforceRouteScopes, requireScope } from './middleware/auth.js';
 import { errorHandler, notFoundHandler } from './middleware/errorHandler.js';
-import { rateLimiter } from './middleware/rateLimit.js';
+import { ipRateLimiter, rateLimiter } from './middleware/rateLimit.js';
+import { discordQueue } from './middleware/requestQueue.js';
 import { openApiDocument } from './openapi.js';
 import { setupWebSocketEvents } from './websocket/events.js';
+import { RAW_WEBSOCKET_PATH, setupRawWebSocket } from './streams/ws.js';
 import { setSocketServer } from '../discord/events/index.js';
+import { createGatewayProxy } from '../cluster/proxy.js';
 import type {
     ServerToClientEvents,
     ClientToServerEvents,
@@ -36,6 +39,14 @@ import commandsRouter from './routes/commands.js';
 import guildCommandsRouter from './routes/guild-commands.js';
 import interactionsRouter from './routes/interactions.js';
 import voiceRouter from './routes/voice.js';
+import keysRouter from './routes/keys.js';
+import authRouter from './routes/auth.js';
+import oauthRouter from './routes/oauth.js';
+import systemRouter from './routes/system.js';
+import connectionsRouter from './routes/connections.js';
+import eventWebhooksRouter from './routes/event-webhooks.js';
+import scheduledMessagesRouter from './routes/scheduled-messages.js';
+import eventsRouter from './routes/events.js';
 import { pluginManager } from '../plugins/manager.js';
 import type { Application } from 'express';
 import type { Server as HttpServer } from 'http';
@@ -49,6 +60,82 @@ export interface ApiServerInstance {
     io: SocketIOServer<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>;
 }
 
+// Route prefixes whose handlers call Discord's REST API
+const DISCORD_ROUTE_PREFIXES = [
+    '/api/guilds',
+    '/api/channels',
+    '/api/stage-instances',
+    '/api/invites',
+    '/api/webhooks',
+    '/api/commands',
+    '/api/interactions',
+];
+
+/**
+ * Mount the REST API served by this process
+ */
+function mountLocalRoutes(app: Application): void {
+    app.use(express.json());
+
+    // Rate limit per client IP before authentication (covers bad credentials)
+    app.use('/api', ipRateLimiter());
+
+    // Discord OAuth2 login (no auth required; starts a session, rate limited per IP)
+    app.use('/api/auth/discord', rateLimiter(), oauthRouter);
+
+    // Apply authentication to all /api routes
+    app.use('/api', authMiddleware);
+
+    // Apply rate limiting per API key (see config.rateLimit.rules)
+    app.use('/api', rateLimiter());
+
+    // Enforce per-route scopes (see ROUTE_SCOPES)
+    app.use('/api', enforceRouteScopes);
+
+    // Schedule Discord-facing requests through the outbound queue
+    app.use(DISCORD_ROUTE_PREFIXES, discordQueue);
+
+    // Mount routes
+    app.use('/api/guilds', guildsRouter);
+    app.use('/api/guilds/:guildId/members', membersRouter);
+    app.use('/api/guilds/:guildId/roles', rolesRouter);
+    app.use('/api/channels/:channelId/messages', messagesRouter);
+    app.use('/api/channels', channelsRouter);
+    app.use('/api/guilds/:guildId/stickers', stickersRouter);
+    app.use('/api/guilds/:guildId/scheduled-events', scheduledEventsRouter);
+    app.use('/api/guilds/:guildId/auto-moderation', autoModRouter);
+    app.use('/api/guilds/:guildId/emojis', emojisRouter);
+    app.use('/api/stage-instances', stageInstancesRouter);
+    app.use('/api/invites', invitesRouter);
+    app.use('/api/webhooks', webhooksRouter);
+    app.use('/api/commands', commandsRouter);
+    app.use('/api/guilds/:guildId/commands', guildCommandsRouter);
+
+    app.use('/api/interactions', interactionsRouter);
+    app.use('/api/guilds/:guildId/voice', voiceRouter);
+    app.use('/api/keys', keysRouter);
+    app.use('/api/auth', authRouter);
+    app.use('/api/system/connections', connectionsRouter);
+    app.use('/api/system', systemRouter);
+    app.use('/api/event-webhooks', eventWebhooksRouter);
+    app.use('/api/scheduled-messages', scheduledMessagesRouter);
+    app.use('/api/events', eventsRouter);
+
+    // Mount plugin routes (plugins inherit auth middleware from /api)
+    app.use('/api/plugins', pluginManager.getPluginRouter());
+}
+
+/**
+ * Mount the REST API of a cluster API node: event streams and connection
+ * counters are served locally, everything else is forwarded to the gateway
+ */
+function mountGatewayRoutes(app: Application): void {
+    app.use('/api/events', connectionAuthMiddleware, eventsRouter);
+    // Connections are per node, so their counters are reported by each node
+    app.use('/api/system/connections', connectionAuthMiddleware, requireScope('admin'), connectionsRouter);
+    app.use('/api', createGatewayProxy(config.cluster.gatewayUrl as string, config.cluster.requestTimeoutMs));
+}
+
 // Store server instance for reuse
 let serverInstance: ApiServerInstance | null = null;
 
@@ -62,6 +149,7 @@ export function createApiServer(): ApiServerInstance {
     }
 
     const app = express();
+    app.set('trust proxy', config.api.trustProxy);
     const httpServer = createServer(app);
 
     // Socket.IO setup
@@ -72,6 +160,8 @@ export function createApiServer(): ApiServerInstance {
                 origin: '*',
                 methods: ['GET', 'POST', 'PATCH', 'DELETE'],
             },
+            // Used only with clients that offer permessage-deflate in the handshake
+            perMessageDeflate: config.compression.enabled ? { threshold: config.compression.threshold } : false,
         }
     );
 
@@ -80,7 +170,6 @@ export function createApiServer(): ApiServerInstance {
         contentSecurityPolicy: false, // Disable CSP for Swagger UI
     }));
     app.use(cors());
-    app.use(express.json());
 
     // Swagger UI documentation (no auth required)
     app.use('/api/docs', swaggerUi.serve, swaggerUi.setup(openApiDocument, {
@@ -98,33 +187,11 @@ export function createApiServer(): ApiServerInstance {
         res.json({ status: 'ok', timestamp: new Date().toISOString() });
     });
 
-    // Apply rate limiting globally (before auth)
-    app.use('/api', rateLimiter());
-
-    // Apply authentication to all /api routes
-    app.use('/api', authMiddleware);
-
-    // Mount routes
-    app.use('/api/guilds', guildsRouter);
-    app.use('/api/guilds/:guildId/members', membersRouter);
-    app.use('/api/guilds/:guildId/roles', rolesRouter);
-    app.use('/api/channels/:channelId/messages', messagesRouter);
-    app.use('/api/channels', channelsRouter);
-    app.use('/api/guilds/:guildId/stickers', stickersRouter);
-    app.use('/api/guilds/:guildId/scheduled-events', scheduledEventsRouter);
-    app.use('/api/guilds/:guildId/auto-moderation', autoModRouter);
-    app.use('/api/guilds/:guildId/emojis', emojisRouter);
-    app.use('/api/stage-instances', stageInstancesRouter);
-    app.use('/api/invites', invitesRouter);
-    app.use('/api/webhooks', webhooksRouter);
-    app.use('/api/commands', commandsRouter);
-    app.use('/api/guilds/:guildId/commands', guildCommandsRouter);
-
-    app.use('/api/interactions', interactionsRouter);
-    app.use('/api/guilds/:guildId/voice', voiceRouter);
-
-    // Mount plugin routes (plugins inherit auth middleware from /api)
-    app.use('/api/plugins', pluginManager.getPluginRouter());
+    if (config.cluster.role === 'api') {
+        mountGatewayRoutes(app);
+    } else {
+        mountLocalRoutes(app);
+    }
 
     // Error handlers
     app.use(notFoundHandler);
@@ -133,6 +200,9 @@ export function createApiServer(): ApiServerInstance {
     // Setup WebSocket events
     setupWebSocketEvents(io);
 
+    // Plain WebSocket endpoint for clients without a Socket.IO library
+    setupRawWebSocket(httpServer);
+
     // Connect socket server to Discord event broadcaster
     setSocketServer(io);
 
@@ -177,6 +247,8 @@ export function startApiServer(): Promise<void> {
             console.log(`   API Docs:   http://${displayHost}:${config.api.port}/api/docs`);
             console.log(`   Plugin API: http://${displayHost}:${config.api.port}/api/plugins`);
             console.log(`   WebSocket:  ws://${displayHost}:${config.api.port}`);
+            console.log(`   Plain WS:   ws://${displayHost}:${config.api.port}${RAW_WEBSOCKET_PATH}`);
+            console.log(`   SSE:        http://${displayHost}:${config.api.port}/api/events/stream`);
             console.log(`   Health:     http://${displayHost}:${config.api.port}/health`);
             resolve();
         });
@@ -0,0 +1,63 @@
+import { decode, encode } from '@msgpack/msgpack';
+import type { EventEncoding, SequencedEventPayload, WsServerFrame } from '../../types/events.types.js';
+
+/** Encodings a client can ask for when it connects */
+export const EVENT_ENCODINGS: readonly EventEncoding[] = ['json', 'msgpack'];
+
+/**
+ * Read the encoding requested at handshake. Missing means `json`; anything
+ * unknown is null.
+ */
+export function parseEncoding(value: unknown): EventEncoding | null {
+    if (value === undefined || value === null || value === '') {return 'json';}
+    return EVENT_ENCODINGS.find((encoding) => encoding === value) ?? null;
+}
+
+/**
+ * Encode a value as MessagePack. Undefined properties are left out, as in JSON.
+ */
+export function encodeMessagePack(value: unknown): Uint8Array {
+    return encode(value, { ignoreUndefined: true });
+}
+
+/**
+ * Decode a MessagePack message. Throws if it is malformed.
+ */
+export function decodeMessagePack(data: Uint8Array): unknown {
+    return decode(data);
+}
+
+// Encoded forms of each event, so a broadcast is encoded once per encoding rather than per client
+const encodedEvents: WeakMap<SequencedEventPayload, Uint8Array> = new WeakMap();
+const encodedEventFrames: WeakMap<SequencedEventPayload, { json?: string; msgpack?: Uint8Array }> = new WeakMap();
+
+/**
+ * MessagePack encoding of an event, as sent to Socket.IO clients.
+ */
+export function encodeEvent(payload: SequencedEventPayload): Uint8Array {
+    let encoded = encodedEvents.get(payload);
+    if (!encoded) {
+        encoded = encodeMessagePack(payload);
+        encodedEvents.set(payload, encoded);
+    }
+    return encoded;
+}
+
+/**
+ * Encode a `/ws` frame for a connection.
+ */
+export function encodeWsFrame(frame: WsServerFrame, encoding: EventEncoding): string | Uint8Array {
+    if (frame.op !== 'event') {
+        return encoding === 'msgpack' ? encodeMessagePack(frame) : JSON.stringify(frame);
+    }
+
+    let cached = encodedEventFrames.get(frame.d);
+    if (!cached) {
+        cached = {};
+        encodedEventFrames.set(frame.d, cached);
+    }
+    if (encoding === 'msgpack') {
+        return cached.msgpack ??= encodeMessagePack(frame);
+    }
+    return cached.json ??= JSON.stringify(frame);
+}
@@ -0,0 +1,206 @@
+import { config } from '../../config/index.js';
+import type { SequencedEventPayload } from '../../types/events.types.js';
+
+/**
+ * What a connection's queue does once it holds `maxQueued` events:
+ * - `drop-oldest`: drop the oldest queued event
+ * - `drop-priority`: drop the oldest event of the lowest priority present
+ * - `disconnect`: drop everything queued and close the connection
+ */
+export type SlowConsumerPolicy = 'drop-oldest' | 'drop-priority' | 'disconnect';
+
+/**
+ * Where an {@link OutboundQueue} writes to.
+ */
+export interface OutboundSink {
+    /** Send an event; call `flushed` once it has left the process */
+    send(payload: SequencedEventPayload, flushed: () => void): void;
+    /** Close the connection because it cannot keep up */
+    disconnect(): void;
+}
+
+export interface OutboundQueueOptions {
+    /** Events sent but not yet flushed before further events are queued */
+    maxUnflushed: number;
+    /** Events queued before the policy applies */
+    maxQueued: number;
+    policy: SlowConsumerPolicy;
+    /** Priority of an event; lower values are dropped first by `drop-priority` */
+    getPriority: (event: string) => number;
+}
+
+/**
+ * Counters of a single connection.
+ */
+export interface OutboundStats {
+    /** Events handed to the connection */
+    sent: number;
+    /** Events dropped because the connection fell behind */
+    dropped: number;
+    /** Events waiting to be sent */
+    queued: number;
+    /** Events sent but not yet flushed to the network */
+    unflushed: number;
+}
+
+/**
+ * Priority of an event under the configured `drop-priority` lists (0 low, 1 normal, 2 high).
+ */
+export function getEventPriority(event: string): number {
+    if (config.backpressure.highPriorityEvents.includes(event)) {return 2;}
+    if (config.backpressure.lowPriorityEvents.includes(event)) {return 0;}
+    return 1;
+}
+
+/**
+ * Outbound buffer of a realtime connection.
+ *
+ * Live events are sent straight away while fewer than `maxUnflushed` are waiting
+ * to reach the network. Beyond that they are queued, and once the queue is full
+ * the slow-consumer policy decides what gives way, so one slow client cannot make
+ * the server buffer events without bound.
+ */
+export class OutboundQueue {
+    private queue: SequencedEventPayload[] = [];
+    private unflushed = 0;
+    private sent = 0;
+    private dropped = 0;
+    private closed = false;
+
+    constructor(private readonly sink: OutboundSink, private readonly options: OutboundQueueOptions) {}
+
+    /**
+     * Send or queue a live event.
+     */
+    push(payload: SequencedEventPayload): void {
+        if (this.closed) {return;}
+
+        if (this.queue.length === 0 && this.unflushed < this.options.maxUnflushed) {
+            this.transmit(payload);
+            return;
+        }
+
+        this.queue.push(payload);
+        if (this.queue.length > this.options.maxQueued) {
+            this.overflow();
+        }
+    }
+
+    /**
+     * Send a replayed event immediately, regardless of the limits. Replays are
+     * requested by the client and bounded by the event log. Queued live events
+     * up to the replayed one are discarded, since the replay covers them.
+     */
+    replay(payload: SequencedEventPayload): void {
+        if (this.closed) {return;}
+
+        while (this.queue[0] && this.queue[0].seq <= payload.seq) {
+            this.queue.shift();
+        }
+        this.transmit(payload);
+    }
+
+    /**
+     * Stop sending; queued events are discarded.
+     */
+    close(): void {
+        this.closed = true;
+        this.queue = [];
+    }
+
+    get stats(): OutboundStats {
+        return { sent: this.sent, dropped: this.dropped, queued: this.queue.length, unflushed: this.unflushed };
+    }
+
+    private transmit(payload: SequencedEventPayload): void {
+        this.unflushed++;
+        this.sent++;
+
+        let flushed = false;
+        this.sink.send(payload, () => {
+            if (flushed) {return;}
+            flushed = true;
+            this.unflushed--;
+            this.drain();
+        });
+    }
+
+    private drain(): void {
+        while (!this.closed && this.unflushed < this.options.maxUnflushed) {
+            const next = this.queue.shift();
+            if (!next) {return;}
+            this.transmit(next);
+        }
+    }
+
+    private overflow(): void {
+        switch (this.options.policy) {
+            case 'drop-oldest':
+                this.queue.shift();
+                this.dropped++;
+                break;
+
+            case 'drop-priority': {
+                let victim = 0;
+                let lowest = Infinity;
+                this.queue.forEach((payload, index) => {
+                    const priority = this.options.getPriority(payload.event);
+                    if (priority < lowest) {
+                        lowest = priority;
+                        victim = index;
+                    }
+                });
+                this.queue.splice(victim, 1);
+                this.dropped++;
+                break;
+            }
+
+            case 'disconnect':
+                this.dropped += this.queue.length;
+                this.close();
+                this.sink.disconnect();
+                break;
+        }
+    }
+}
+
+/**
+ * A realtime connection, as listed by `/api/system/connections`.
+ */
+export interface ConnectionInfo {
+    id: string;
+    transport: 'socket.io' | 'websocket' | 'sse';
+    keyId: string;
+    connectedAt: Date;
+    outbound: OutboundQueue;
+}
+
+const connections: Map<string, ConnectionInfo> = new Map();
+
+/**
+ * Create the outbound queue of a new connection with the configured limits and
+ * list it for the admin endpoint. Call the returned function when it closes.
+ */
+export function openOutbound(
+    info: Omit<ConnectionInfo, 'outbound' | 'connectedAt'>,
+    sink: OutboundSink
+): { outbound: OutboundQueue; release: () => void } {
+    const { maxUnflushed, maxQueued, policy } = config.backpressure;
+    const outbound = new OutboundQueue(sink, { maxUnflushed, maxQueued, policy, getPriority: getEventPriority });
+    connections.set(info.id, { ...info, connectedAt: new Date(), outbound });
+
+    return {
+        outbound,
+        release: () => {
+            outbound.close();
+            connections.delete(info.id);
+        },
+    };
+}
+
+/**
+ * Every open realtime connection of this process.
+ */
+export function listConnections(): ConnectionInfo[] {
+    return [...connections.values()];
+}
@@ -0,0 +1,113 @@
+import { randomUUID } from 'crypto';
+import type { Response } from 'express';
+import { apiKeyStore, watchKeyExpiry } from '../auth/key-store.js';
+import { resolveChannelLocation } from '../middleware/auth.js';
+import { replayMissedEvents } from '../websocket/events.js';
+import { shouldDeliver, type EventSubscriber } from '../websocket/filters.js';
+import { openOutbound, type OutboundQueue } from './outbound.js';
+import type { SequencedEventPayload } from '../../types/events.types.js';
+
+/** Interval between keep-alive comments, so proxies don't close idle streams */
+const HEARTBEAT_INTERVAL_MS = 25_000;
+
+/** Delay clients should wait before reconnecting (sent as the SSE `retry` field) */
+const RECONNECT_DELAY_MS = 3_000;
+
+/**
+ * An open `text/event-stream` response.
+ */
+interface EventStreamClient extends EventSubscriber {
+    res: Response;
+    outbound: OutboundQueue;
+}
+
+const clients: Set<EventStreamClient> = new Set();
+
+/**
+ * Format a server-sent event. Multi-line data is split across `data:` fields.
+ */
+function formatEvent(data: unknown, options: { id?: number; event?: string } = {}): string {
+    let message = '';
+    if (options.id !== undefined) {message += `id: ${options.id}\n`;}
+    if (options.event) {message += `event: ${options.event}\n`;}
+    for (const line of JSON.stringify(data).split('\n')) {
+        message += `data: ${line}\n`;
+    }
+    return `${message}\n`;
+}
+
+/**
+ * Write a Discord event to a stream. The sequence number is the event ID,
+ * so `Last-Event-ID` on reconnect resumes from it.
+ */
+function writeDiscordEvent(res: Response, payload: SequencedEventPayload, flushed: () => void): void {
+    res.write(formatEvent(payload, { id: payload.seq }), () => flushed());
+}
+
+/**
+ * End a stream with a final `error` event.
+ */
+function closeStream(res: Response, message: string, code: string): void {
+    res.write(formatEvent({ message, code }, { event: 'error' }));
+    res.end();
+}
+
+/**
+ * Start streaming events to a client. Events after `lastEventId` are replayed
+ * first (followed by a `resumed` event), then live events follow.
+ */
+export function openEventStream(res: Response, subscriber: EventSubscriber, lastEventId: number | null): void {
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+    res.setHeader('Cache-Control', 'no-cache, no-transform');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+    res.write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+
+    const { outbound, release } = openOutbound({ id: randomUUID(), transport: 'sse', keyId: subscriber.apiKey.id }, {
+        send: (payload, flushed) => writeDiscordEvent(res, payload, flushed),
+        disconnect: () => closeStream(res, 'Stream could not keep up with events', 'SLOW_CONSUMER'),
+    });
+    const client: EventStreamClient = { ...subscriber, res, outbound };
+
+    // Replay and registration happen in the same tick, so no live event can slip in between
+    if (lastEventId !== null) {
+        const resumed = replayMissedEvents(client, lastEventId, (payload) => outbound.replay(payload));
+        res.write(formatEvent(resumed, { event: 'resumed' }));
+    }
+
+    clients.add(client);
+
+    const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), HEARTBEAT_INTERVAL_MS);
+
+    // Streams are closed when their key or signed token expires
+    const stopExpiryWatch = watchKeyExpiry(subscriber.apiKey, ({ error, code }) => closeStream(res, error, code));
+
+    res.on('close', () => {
+        clients.delete(client);
+        release();
+        clearInterval(heartbeat);
+        stopExpiryWatch();
+    });
+}
+
+/**
+ * Send an event to every open stream that should receive it.
+ */
+export function broadcastToEventStreams(payload: SequencedEventPayload): void {
+    for (const client of clients) {
+        if (shouldDeliver(client, payload, resolveChannelLocation)) {
+            client.outbound.push(payload);
+        }
+    }
+}
+
+// Close streams whose key is rotated or revoked
+apiKeyStore.on('invalidated', (keyId: string) => {
+    for (const client of clients) {
+        if (client.apiKey.id === keyId) {
+            closeStream(client.res, 'API key was revoked or rotated', 'KEY_REVOKED');
+        }
+    }
+});
@@ -0,0 +1,310 @@
+import { randomUUID } from 'crypto';
+import type { IncomingMessage, Server as HttpServer } from 'http';
+import type { Duplex } from 'stream';
+import { WebSocketServer, type RawData, type WebSocket } from 'ws';
+import { config } from '../../config/index.js';
+import { apiKeyStore, watchKeyExpiry } from '../auth/key-store.js';
+import { authenticateConnection, resolveChannelLocation } from '../middleware/auth.js';
+import { runAction } from '../websocket/actions.js';
+import { applySubscribe, applyUnsubscribe, replayMissedEvents } from '../websocket/events.js';
+import { shouldDeliver, type EventSubscriber } from '../websocket/filters.js';
+import { openOutbound, type OutboundQueue } from './outbound.js';
+import { decodeMessagePack, encodeWsFrame, parseEncoding } from './encoding.js';
+import type { ApiKeyRecord } from '../../types/auth.types.js';
+import type { EventEncoding, SequencedEventPayload, WsClientFrame, WsServerFrame } from '../../types/events.types.js';
+
+/** Path the plain WebSocket endpoint is served on */
+export const RAW_WEBSOCKET_PATH = '/ws';
+
+/** Interval at which clients must send a `heartbeat` frame */
+const HEARTBEAT_INTERVAL_MS = 30_000;
+
+/** Time allowed for the `auth` frame after connecting */
+const AUTH_TIMEOUT_MS = 10_000;
+
+/** Largest frame accepted from a client */
+const MAX_FRAME_BYTES = 64 * 1024;
+
+/** Frames a client may send while its `auth` frame is being checked */
+const MAX_QUEUED_FRAMES = 8;
+
+/**
+ * Close codes used by the plain WebSocket endpoint.
+ */
+export const WS_CLOSE_CODES = {
+    /** Credentials were rejected or lack the `events` scope */
+    AUTH_FAILED: 4001,
+    /** No `auth` frame in time, another op before it, or too many frames while it is checked */
+    NOT_AUTHENTICATED: 4002,
+    /** The key was rotated or revoked */
+    KEY_REVOKED: 4003,
+    /** The key or signed token expired (the close reason is `KEY_EXPIRED` or `TOKEN_EXPIRED`) */
+    TOKEN_EXPIRED: 4004,
+    /** No frame within two heartbeat intervals */
+    HEARTBEAT_TIMEOUT: 4005,
+    /** The client fell too far behind (see the `disconnect` slow-consumer policy) */
+    SLOW_CONSUMER: 4006,
+} as const;
+
+/**
+ * A plain WebSocket connection and the encoding it asked for.
+ */
+interface RawConnection {
+    ws: WebSocket;
+    encoding: EventEncoding;
+}
+
+/**
+ * An authenticated plain WebSocket connection.
+ */
+interface RawClient extends EventSubscriber, RawConnection {
+    outbound: OutboundQueue;
+}
+
+const clients: Set<RawClient> = new Set();
+
+function send({ ws, encoding }: RawConnection, frame: WsServerFrame, flushed?: () => void): void {
+    if (ws.readyState === ws.OPEN) {
+        ws.send(encodeWsFrame(frame, encoding), flushed);
+    }
+}
+
+function sendError(connection: RawConnection, message: string, code: string): void {
+    send(connection, { op: 'error', d: { message, code } });
+}
+
+/**
+ * Read the encoding from the `encoding` query parameter of the upgrade request.
+ */
+function getRequestedEncoding(req: IncomingMessage): EventEncoding | null {
+    const { searchParams } = new URL(req.url ?? '/', 'http://localhost');
+    return parseEncoding(searchParams.get('encoding') ?? undefined);
+}
+
+/**
+ * Parse a client frame: binary messages on `msgpack` connections are MessagePack,
+ * anything else is JSON. Returns null if it is not an object with a string `op`.
+ */
+function parseFrame(data: RawData, isBinary: boolean, encoding: EventEncoding): WsClientFrame | null {
+    try {
+        const buffer = Buffer.concat(Array.isArray(data) ? data : [Buffer.from(data)]);
+        const frame = isBinary && encoding === 'msgpack'
+            ? decodeMessagePack(buffer)
+            : JSON.parse(buffer.toString('utf8')) as unknown;
+        if (frame && typeof frame === 'object' && typeof (frame as { op?: unknown }).op === 'string') {
+            return frame as WsClientFrame;
+        }
+    } catch {
+        // Fall through
+    }
+    return null;
+}
+
+/**
+ * Handle a frame from an authenticated client.
+ */
+function handleFrame(client: RawClient, frame: WsClientFrame): void {
+    switch (frame.op) {
+        case 'heartbeat':
+            send(client, { op: 'heartbeat_ack' });
+            return;
+
+        case 'subscribe': {
+            const result = applySubscribe(client, frame.d ?? { guildIds: [] });
+            if (result.filterError) {
+                sendError(client, `Invalid subscription filter: ${result.filterError}`, 'INVALID_FILTER');
+                return;
+            }
+            if (result.deniedGuildIds.length > 0) {
+                sendError(client, `API key is not allowed to access guild(s): ${result.deniedGuildIds.join(', ')}`, 'RESOURCE_NOT_ALLOWED');
+            }
+            send(client, { op: 'subscribed', d: { guildIds: result.guildIds, filter: client.filter } });
+            return;
+        }
+
+        case 'unsubscribe': {
+            const guildIds = Array.isArray(frame.d?.guildIds) ? frame.d.guildIds : [];
+            applyUnsubscribe(client, guildIds);
+            send(client, { op: 'unsubscribed', d: { guildIds } });
+            return;
+        }
+
+        case 'resume': {
+            const result = replayMissedEvents(client, frame.d?.lastSeq, (payload) => client.outbound.replay(payload));
+            if (!result) {
+                sendError(client, 'lastSeq must be a non-negative integer', 'INVALID_RESUME');
+                return;
+            }
+            send(client, { op: 'resumed', d: result });
+            return;
+        }
+
+        case 'request':
+            void runAction(client.apiKey, frame.d).then((response) => send(client, { op: 'response', d: response }));
+            return;
+
+        case 'auth':
+            sendError(client, 'Already authenticated', 'ALREADY_AUTHENTICATED');
+            return;
+
+        default:
+            sendError(client, `Unknown op: ${(frame as { op: string }).op}`, 'UNKNOWN_OP');
+    }
+}
+
+/**
+ * Authenticate a connection from its `auth` frame. Resolves to the key, or
+ * null after closing the connection.
+ */
+async function authenticateClient(ws: WebSocket, req: IncomingMessage, frame: WsClientFrame | null): Promise<ApiKeyRecord | null> {
+    if (frame?.op !== 'auth') {
+        ws.close(WS_CLOSE_CODES.NOT_AUTHENTICATED, 'The first frame must be auth');
+        return null;
+    }
+
+    const { apiKey, token } = frame.d ?? {};
+    const result = await authenticateConnection({
+        apiKey: typeof apiKey === 'string' ? apiKey : undefined,
+        bearer: typeof token === 'string' ? token : undefined,
+    }, req.socket.remoteAddress);
+    if (!result.success) {
+        ws.close(WS_CLOSE_CODES.AUTH_FAILED, result.code);
+        return null;
+    }
+
+    return result.keyRecord;
+}
+
+/**
+ * Run the protocol for a new connection: hello, auth, then ops until it closes.
+ */
+function handleConnection(ws: WebSocket, req: IncomingMessage): void {
+    const connection: RawConnection = { ws, encoding: getRequestedEncoding(req) ?? 'json' };
+    let client: RawClient | null = null;
+    let releaseOutbound: (() => void) | null = null;
+    let stopExpiryWatch: (() => void) | null = null;
+    // Frames received while the auth frame is being checked, handled once it succeeds
+    let queued: [data: RawData, isBinary: boolean][] | null = null;
+
+    send(connection, { op: 'hello', d: { heartbeatInterval: HEARTBEAT_INTERVAL_MS, encoding: connection.encoding } });
+
+    let livenessTimer = setTimeout(() => ws.close(WS_CLOSE_CODES.NOT_AUTHENTICATED, 'Authentication timed out'), AUTH_TIMEOUT_MS);
+    const resetLiveness = (): void => {
+        clearTimeout(livenessTimer);
+        livenessTimer = setTimeout(() => ws.close(WS_CLOSE_CODES.HEARTBEAT_TIMEOUT, 'Heartbeat timed out'), HEARTBEAT_INTERVAL_MS * 2);
+    };
+
+    const onAuthenticated = (apiKey: ApiKeyRecord): void => {
+        const { outbound, release } = openOutbound({ id: randomUUID(), transport: 'websocket', keyId: apiKey.id }, {
+            send: (payload, flushed) => send(connection, { op: 'event', d: payload }, flushed),
+            disconnect: () => ws.close(WS_CLOSE_CODES.SLOW_CONSUMER, 'SLOW_CONSUMER'),
+        });
+        releaseOutbound = release;
+        client = { ...connection, apiKey, subscribedGuilds: new Set(), filter: null, outbound };
+        clients.add(client);
+        resetLiveness();
+        send(connection, { op: 'ready', d: { keyId: client.apiKey.id, scopes: client.apiKey.scopes } });
+
+        // Connections are closed when their key or signed token expires
+        stopExpiryWatch = watchKeyExpiry(client.apiKey, ({ code }) => ws.close(WS_CLOSE_CODES.TOKEN_EXPIRED, code));
+    };
+
+    const onFrame = (data: RawData, isBinary: boolean): void => {
+        if (queued) {
+            if (queued.length >= MAX_QUEUED_FRAMES) {
+                queued = [];
+                ws.close(WS_CLOSE_CODES.NOT_AUTHENTICATED, 'Too many frames before authentication');
+                return;
+            }
+            queued.push([data, isBinary]);
+            return;
+        }
+
+        const frame = parseFrame(data, isBinary, connection.encoding);
+
+        if (!client) {
+            queued = [];
+            void authenticateClient(ws, req, frame).then((authenticated) => {
+                const pending = queued ?? [];
+                queued = null;
+                if (!authenticated || ws.readyState !== ws.OPEN) {return;}
+
+                onAuthenticated(authenticated);
+                pending.forEach(([data, isBinary]) => onFrame(data, isBinary));
+            }, (error: unknown) => {
+                queued = null;
+                console.error('❌ WebSocket authentication failed:', error);
+                ws.close(WS_CLOSE_CODES.AUTH_FAILED, 'INTERNAL_ERROR');
+            });
+            return;
+        }
+
+        resetLiveness();
+        if (!frame) {
+            sendError(connection, 'Frames must be objects with an op', 'INVALID_FRAME');
+            return;
+        }
+        handleFrame(client, frame);
+    };
+
+    ws.on('message', onFrame);
+
+    ws.on('close', () => {
+        clearTimeout(livenessTimer);
+        stopExpiryWatch?.();
+        if (client) {
+            clients.delete(client);
+        }
+        releaseOutbound?.();
+    });
+
+    ws.on('error', (error) => {
+        console.error('❌ Plain WebSocket error:', error);
+    });
+}
+
+/**
+ * Serve the plain WebSocket endpoint on an HTTP server, next to Socket.IO.
+ */
+export function setupRawWebSocket(httpServer: HttpServer): void {
+    const wss = new WebSocketServer({
+        noServer: true,
+        maxPayload: MAX_FRAME_BYTES,
+        // Used only with clients that offer permessage-deflate in the handshake
+        perMessageDeflate: config.compression.enabled ? { threshold: config.compression.threshold } : false,
+    });
+    wss.on('connection', handleConnection);
+
+    // Socket.IO handles its own upgrades; only take requests for our path
+    httpServer.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+        const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+        if (pathname !== RAW_WEBSOCKET_PATH) {return;}
+
+        if (!getRequestedEncoding(req)) {
+            socket.end('HTTP/1.1 400 Bad Request\r\nConnection: close\r\n\r\nUnsupported encoding\n');
+            return;
+        }
+
+        wss.handleUpgrade(req, socket, head, (ws) => wss.emit('connection', ws, req));
+    });
+
+    // Close connections whose key is rotated or revoked
+    apiKeyStore.on('invalidated', (keyId: string) => {
+        for (const client of clients) {
+            if (client.apiKey.id === keyId) {
+                client.ws.close(WS_CLOSE_CODES.KEY_REVOKED, 'KEY_REVOKED');
+            }
+        }
+    });
+}
+
+/**
+ * Send an event to every plain WebSocket client that should receive it.
+ */
+export function broadcastToRawSockets(payload: SequencedEventPayload): void {
+    for (const client of clients) {
+        if (client.ws.readyState === client.ws.OPEN && shouldDeliver(client, payload, resolveChannelLocation)) {
+            client.outbound.push(payload);
+        }
+    }
+}
@@ -0,0 +1,423 @@
+import { z, ZodError, type ZodTypeAny } from 'zod';
+import { channelService, guildService, memberService, messageService, roleService } from '../../discord/services/index.js';
+import { discordRequestQueue } from '../../discord/request-queue.js';
+import { ApiError } from '../middleware/errorHandler.js';
+import { hasScopes, resolveChannelLocation } from '../middleware/auth.js';
+import { consumeRateLimit } from '../middleware/rateLimit.js';
+import { resolvePriority } from '../middleware/requestQueue.js';
+import { apiKeyStore, checkKeyValidity } from '../auth/key-store.js';
+import { canAccessTarget, isRestrictedKey, type ResourceTarget } from '../auth/restrictions.js';
+import { withDefaultMentions } from '../auth/mentions.js';
+import { ROUTE_SCOPES, type RouteMethod, type RouteScope } from '../scopes.js';
+import {
+    BanMemberSchema,
+    CreateChannelSchema,
+    CreateRoleSchema,
+    CreateThreadSchema,
+    EditChannelSchema,
+    EditMessageSchema,
+    EditRoleSchema,
+    GetMessagesSchema,
+    ModifyRolesSchema,
+    SendMessageSchema,
+    SetNicknameSchema,
+} from '../../types/api.types.js';
+import type { ApiKeyRecord } from '../../types/auth.types.js';
+import type { ActionResponse } from '../../types/events.types.js';
+import { config } from '../../config/index.js';
+
+/**
+ * An operation that can be called over the socket. It runs the same service
+ * call as its REST route and is subject to that route's scopes and restrictions.
+ */
+interface SocketAction {
+    /** Scope entry of the equivalent REST route */
+    route: RouteScope;
+    /** Validate the parameters, returning the bound call or the validation error */
+    prepare: (params: unknown, apiKey: ApiKeyRecord) => PreparedAction | ZodError;
+}
+
+/**
+ * An action with validated parameters, ready to run.
+ */
+interface PreparedAction {
+    /** Guild and/or channel the call targets, for restriction checks */
+    target: ResourceTarget;
+    run: () => Promise<unknown>;
+}
+
+/**
+ * Look up the scope entry for a REST route. Throws at startup if an action
+ * names a route that is not listed, so actions never run unchecked.
+ */
+function restRoute(method: RouteMethod, path: string): RouteScope {
+    const route = ROUTE_SCOPES.find((entry) => entry.method === method && entry.path === path);
+    if (!route) {
+        throw new Error(`No scope entry for ${method} ${path}`);
+    }
+    return route;
+}
+
+/**
+ * Define an action. `params` holds the route's path parameters and body fields,
+ * flattened into one object.
+ */
+function defineAction<T extends ZodTypeAny>(definition: {
+    route: RouteScope;
+    params: T;
+    run: (params: z.infer<T>, apiKey: ApiKeyRecord) => Promise<unknown>;
+}): SocketAction {
+    return {
+        route: definition.route,
+        prepare: (input, apiKey) => {
+            const result = definition.params.safeParse(input);
+            if (!result.success) {
+                return result.error;
+            }
+
+            const params = result.data as z.infer<T>;
+            const { guildId, channelId } = params as ResourceTarget;
+            return { target: { guildId, channelId }, run: () => definition.run(params, apiKey) };
+        },
+    };
+}
+
+const id = z.string().min(1);
+const reason = z.string().max(512).optional();
+
+const guildParams = z.object({ guildId: id });
+const memberParams = guildParams.extend({ userId: id });
+const roleParams = guildParams.extend({ roleId: id });
+const channelParams = z.object({ channelId: id });
+const messageParams = channelParams.extend({ messageId: id });
+const reactionParams = messageParams.extend({ emoji: id });
+
+/**
+ * Actions available over the socket, by name.
+ */
+export const SOCKET_ACTIONS: Readonly<Record<string, SocketAction>> = {
+    // Guilds
+    getGuild: defineAction({
+        route: restRoute('GET', '/api/guilds/:guildId'),
+        params: guildParams,
+        run: ({ guildId }) => guildService.getGuild(guildId),
+    }),
+    getGuildChannels: defineAction({
+        route: restRoute('GET', '/api/guilds/:guildId/channels'),
+        params: guildParams,
+        run: ({ guildId }) => guildService.getGuildChannels(guildId),
+    }),
+
+    // Messages
+    getMessages: defineAction({
+        route: restRoute('GET', '/api/channels/:channelId/messages'),
+        params: channelParams.merge(GetMessagesSchema),
+        run: ({ channelId, ...options }) => messageService.getMessages(channelId, options),
+    }),
+    getMessage: defineAction({
+        route: restRoute('GET', '/api/channels/:channelId/messages/:messageId'),
+        params: messageParams,
+        run: ({ channelId, messageId }) => messageService.getMessage(channelId, messageId),
+    }),
+    sendMessage: defineAction({
+        route: restRoute('POST', '/api/channels/:channelId/messages'),
+        params: channelParams.and(SendMessageSchema),
+        run: ({ channelId, ...input }, apiKey) => messageService.sendMessage(channelId, withDefaultMentions(input, apiKey)),
+    }),
+    editMessage: defineAction({
+        route: restRoute('PATCH', '/api/channels/:channelId/messages/:messageId'),
+        params: messageParams.merge(EditMessageSchema),
+        run: ({ channelId, messageId, ...input }, apiKey) =>
+            messageService.editMessage(channelId, messageId, withDefaultMentions(input, apiKey)),
+    }),
+    deleteMessage: defineAction({
+        route: restRoute('DELETE', '/api/channels/:channelId/messages/:messageId'),
+        params: messageParams,
+        run: async ({ channelId, messageId }) => {
+            await messageService.deleteMessage(channelId, messageId);
+            return { deleted: true };
+        },
+    }),
+    bulkDeleteMessages: defineAction({
+        route: restRoute('POST', '/api/channels/:channelId/messages/bulk-delete'),
+        params: channelParams.extend({ messageIds: z.array(id).min(1).max(100) }),
+        run: ({ channelId, messageIds }) => messageService.bulkDelete(channelId, messageIds),
+    }),
+    addReaction: defineAction({
+        route: restRoute('POST', '/api/channels/:channelId/messages/:messageId/reactions/:emoji'),
+        params: reactionParams,
+        run: async ({ channelId, messageId, emoji }) => {
+            await messageService.addReaction(channelId, messageId, emoji);
+            return { reacted: true };
+        },
+    }),
+    removeReaction: defineAction({
+        route: restRoute('DELETE', '/api/channels/:channelId/messages/:messageId/reactions/:emoji'),
+        params: reactionParams.extend({ userId: id.optional() }),
+        run: async ({ channelId, messageId, emoji, userId }) => {
+            await messageService.removeReaction(channelId, messageId, emoji, userId);
+            return { removed: true };
+        },
+    }),
+    removeAllReactions: defineAction({
+        route: restRoute('DELETE', '/api/channels/:channelId/messages/:messageId/reactions'),
+        params: messageParams,
+        run: async ({ channelId, messageId }) => {
+            await messageService.removeAllReactions(channelId, messageId);
+            return { removed: true };
+        },
+    }),
+    pinMessage: defineAction({
+        route: restRoute('POST', '/api/channels/:channelId/messages/:messageId/pin'),
+        params: messageParams,
+        run: async ({ channelId, messageId }) => {
+            await messageService.pinMessage(channelId, messageId);
+            return { pinned: true };
+        },
+    }),
+    unpinMessage: defineAction({
+        route: restRoute('DELETE', '/api/channels/:channelId/messages/:messageId/pin'),
+        params: messageParams,
+        run: async ({ channelId, messageId }) => {
+            await messageService.unpinMessage(channelId, messageId);
+            return { unpinned: true };
+        },
+    }),
+    crosspostMessage: defineAction({
+        route: restRoute('POST', '/api/channels/:channelId/messages/:messageId/crosspost'),
+        params: messageParams,
+        run: async ({ channelId, messageId }) => {
+            await messageService.crosspostMessage(channelId, messageId);
+            return { crossposted: true };
+        },
+    }),
+
+    // Members
+    getMember: defineAction({
+        route: restRoute('GET', '/api/guilds/:guildId/members/:userId'),
+        params: memberParams,
+        run: ({ guildId, userId }) => memberService.getMember(guildId, userId),
+    }),
+    kickMember: defineAction({
+        route: restRoute('POST', '/api/guilds/:guildId/members/:userId/kick'),
+        params: memberParams.extend({ reason }),
+        run: async ({ guildId, userId, reason }) => {
+            await memberService.kickMember(guildId, userId, reason);
+            return { kicked: true };
+        },
+    }),
+    banMember: defineAction({
+        route: restRoute('POST', '/api/guilds/:guildId/members/:userId/ban'),
+        params: memberParams.merge(BanMemberSchema),
+        run: async ({ guildId, userId, ...options }) => {
+            await memberService.banMember(guildId, userId, options);
+            return { banned: true };
+        },
+    }),
+    unbanMember: defineAction({
+        route: restRoute('DELETE', '/api/guilds/:guildId/members/bans/:userId'),
+        params: memberParams.extend({ reason }),
+        run: async ({ guildId, userId, reason }) => {
+            await memberService.unbanMember(guildId, userId, reason);
+            return { unbanned: true };
+        },
+    }),
+    setNickname: defineAction({
+        route: restRoute('PATCH', '/api/guilds/:guildId/members/:userId/nickname'),
+        params: memberParams.merge(SetNicknameSchema),
+        run: ({ guildId, userId, ...input }) => memberService.setNickname(guildId, userId, input),
+    }),
+    modifyMemberRoles: defineAction({
+        route: restRoute('PATCH', '/api/guilds/:guildId/members/:userId/roles'),
+        params: memberParams.merge(ModifyRolesSchema),
+        run: ({ guildId, userId, ...input }) => memberService.modifyRoles(guildId, userId, input),
+    }),
+    timeoutMember: defineAction({
+        route: restRoute('POST', '/api/guilds/:guildId/members/:userId/timeout'),
+        params: memberParams.extend({ duration: z.number().int().positive(), reason }),
+        run: ({ guildId, userId, duration, reason }) => memberService.timeoutMember(guildId, userId, duration, reason),
+    }),
+    removeTimeout: defineAction({
+        route: restRoute('DELETE', '/api/guilds/:guildId/members/:userId/timeout'),
+        params: memberParams.extend({ reason }),
+        run: ({ guildId, userId, reason }) => memberService.removeTimeout(guildId, userId, reason),
+    }),
+
+    // Roles
+    getRoles: defineAction({
+        route: restRoute('GET', '/api/guilds/:guildId/roles'),
+        params: guildParams,
+        run: ({ guildId }) => roleService.getRoles(guildId),
+    }),
+    createRole: defineAction({
+        route: restRoute('POST', '/api/guilds/:guildId/roles'),
+        params: guildParams.merge(CreateRoleSchema),
+        run: ({ guildId, ...input }) => roleService.createRole(guildId, input),
+    }),
+    editRole: defineAction({
+        route: restRoute('PATCH', '/api/guilds/:guildId/roles/:roleId'),
+        params: roleParams.merge(EditRoleSchema),
+        run: ({ guildId, roleId, ...input }) => roleService.editRole(guildId, roleId, input),
+    }),
+    deleteRole: defineAction({
+        route: restRoute('DELETE', '/api/guilds/:guildId/roles/:roleId'),
+        params: roleParams.extend({ reason }),
+        run: async ({ guildId, roleId, reason }) => {
+            await roleService.deleteRole(guildId, roleId, reason);
+            return { deleted: true };
+        },
+    }),
+
+    // Channels & threads
+    getChannel: defineAction({
+        route: restRoute('GET', '/api/channels/:channelId'),
+        params: channelParams,
+        run: ({ channelId }) => channelService.getChannel(channelId),
+    }),
+    createChannel: defineAction({
+        route: restRoute('POST', '/api/channels/guilds/:guildId/channels'),
+        params: guildParams.merge(CreateChannelSchema),
+        run: ({ guildId, ...input }) => channelService.createChannel(guildId, input),
+    }),
+    editChannel: defineAction({
+        route: restRoute('PATCH', '/api/channels/:channelId'),
+        params: channelParams.merge(EditChannelSchema),
+        run: ({ channelId, ...input }) => channelService.editChannel(channelId, input),
+    }),
+    deleteChannel: defineAction({
+        route: restRoute('DELETE', '/api/channels/:channelId'),
+        params: channelParams.extend({ reason }),
+        run: async ({ channelId, reason }) => {
+            await channelService.deleteChannel(channelId, reason);
+            return { deleted: true };
+        },
+    }),
+    createThread: defineAction({
+        route: restRoute('POST', '/api/channels/:channelId/threads'),
+        params: channelParams.merge(CreateThreadSchema).extend({ messageId: id.optional() }),
+        run: ({ channelId, messageId, ...input }) => channelService.createThread(channelId, input, messageId),
+    }),
+};
+
+/**
+ * Build a failed response.
+ */
+function failure(
+    requestId: string | number | null,
+    error: string,
+    code: string,
+    extra: { details?: unknown; rule?: string; retryAfter?: number; discordCode?: number } = {}
+): ActionResponse {
+    return { id: requestId, success: false, error, code, ...extra };
+}
+
+/**
+ * Run an action for a socket's key. Checks happen in the same order as for a
+ * REST request: the key's validity window, scopes, parameters, guild/channel restrictions, the key's rate
+ * limits, then its place in the outbound Discord queue. Never throws; every outcome is
+ * returned as a response carrying the request's correlation ID.
+ */
+export async function executeAction(apiKey: ApiKeyRecord, request: unknown): Promise<ActionResponse> {
+    const { id: requestId, action: name, params, priority } = (request ?? {}) as Record<string, unknown>;
+
+    if (typeof requestId !== 'string' && typeof requestId !== 'number') {
+        return failure(null, 'Requests need a string or number id', 'INVALID_REQUEST');
+    }
+
+    const action = typeof name === 'string' && Object.hasOwn(SOCKET_ACTIONS, name) ? SOCKET_ACTIONS[name] : undefined;
+    if (!action) {
+        return failure(requestId, `Unknown action: ${String(name)}`, 'UNKNOWN_ACTION');
+    }
+
+    // The key was checked when the socket connected, but it may have expired since
+    const validityError = checkKeyValidity(apiKey);
+    if (validityError) {
+        return failure(requestId, validityError.error, validityError.code);
+    }
+
+    const { route } = action;
+    if (!hasScopes(apiKey, route.scopes)) {
+        return failure(requestId, `Missing required scope(s): ${route.scopes.join(', ')}`, 'INSUFFICIENT_SCOPE');
+    }
+
+    const prepared = action.prepare(params ?? {}, apiKey);
+    if (prepared instanceof ZodError) {
+        return failure(requestId, 'Invalid action parameters', 'VALIDATION_ERROR', {
+            details: prepared.errors.map((issue) => ({ path: issue.path.join('.'), message: issue.message })),
+        });
+    }
+
+    if (isRestrictedKey(apiKey) && !route.allowRestricted && !canAccessTarget(apiKey, prepared.target, resolveChannelLocation)) {
+        return failure(requestId, 'API key is not allowed to access this guild or channel', 'RESOURCE_NOT_ALLOWED');
+    }
+
+    apiKeyStore.recordUsage(apiKey.id);
+
+    const limited = await consumeRateLimit(route, `key:${apiKey.id}`);
+    if (limited) {
+        return failure(requestId, 'Too many requests', 'RATE_LIMITED', { rule: limited.rule, retryAfter: limited.retryAfter });
+    }
+
+    // Actions served from the Discord cache skip the queue, as their routes do
+    const slot = route.cached ? null : discordRequestQueue.enqueue(`key:${apiKey.id}`, resolvePriority(priority, apiKey));
+    if (!route.cached && !slot) {
+        return failure(requestId, 'Too many pending Discord requests for this API key', 'DISCORD_QUEUE_FULL', {
+            retryAfter: discordRequestQueue.getRetryAfter(),
+        });
+    }
+
+    try {
+        await slot?.ready;
+        const data = await prepared.run();
+        return { id: requestId, success: true, data: data ?? null };
+    } catch (error) {
+        const apiError = ApiError.fromDiscord(error);
+        if (apiError instanceof ApiError) {
+            return failure(requestId, apiError.message, apiError.code, {
+                ...(apiError.discordCode !== undefined && { discordCode: apiError.discordCode }),
+            });
+        }
+
+        console.error(`❌ Socket action ${name as string} failed:`, error);
+        return failure(
+            requestId,
+            config.debug && error instanceof Error ? error.message : 'Internal server error',
+            'INTERNAL_ERROR'
+        );
+    } finally {
+        slot?.release();
+    }
+}
+
+/**
+ * Runs an action for a socket's key. Cluster API nodes replace it to run
+ * actions on the gateway, which owns the Discord connection.
+ */
+export type ActionRunner = (apiKey: ApiKeyRecord, request: unknown) => Promise<ActionResponse>;
+
+let actionRunner: ActionRunner = executeAction;
+
+/**
+ * Replace how socket actions are run.
+ */
+export function setActionRunner(runner: ActionRunner): void {
+    actionRunner = runner;
+}
+
+/**
+ * Run an action received on a socket. See {@link ActionRunner}. Never rejects:
+ * a fault in the runner is answered as an `INTERNAL_ERROR` response.
+ */
+export async function runAction(apiKey: ApiKeyRecord, request: unknown): Promise<ActionResponse> {
+    try {
+        return await actionRunner(apiKey, request);
+    } catch (error) {
+        console.error('❌ Socket action failed:', error);
+        const { id } = (request ?? {}) as Record<string, unknown>;
+        return failure(
+            typeof id === 'string' || typeof id === 'number' ? id : null,
+            config.debug && error instanceof Error ? error.message : 'Internal server error',
+            'INTERNAL_ERROR'
+        );
+    }
+}
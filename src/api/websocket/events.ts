@@ -1,7 +1,17 @@
 import type { Server as SocketIOServer, Socket } from 'socket.io';
 import { config } from '../../config/index.js';
-import { discordClient } from '../../discord/client.js';
+import { authenticateConnection, getBearerCredential, isKnownGuild, resolveChannelLocation } from '../middleware/auth.js';
+import { apiKeyStore, watchKeyExpiry } from '../auth/key-store.js';
+import { canAccessChannel, canAccessGuild, isRestrictedKey } from '../auth/restrictions.js';
+import { eventLog } from '../../discord/event-log.js';
+import { runAction } from './actions.js';
+import { openOutbound, type OutboundSink } from '../streams/outbound.js';
+import { encodeEvent, parseEncoding } from '../streams/encoding.js';
+import { getPayloadChannelId, matchesFilter, parseSubscriptionFilter, shouldDeliver, type EventSubscriber } from './filters.js';
 import type {
+    ResumedEvent,
+    SequencedEventPayload,
+    SubscribeEvent,
     ServerToClientEvents,
     ClientToServerEvents,
     InterServerEvents,
@@ -9,52 +19,273 @@ import type {
 } from '../../types/events.types.js';
 
 type TypedSocket = Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>;
+type TypedServer = SocketIOServer<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>;
+
+/**
+ * Room joined by sockets whose key has no guild/channel restrictions.
+ * Events without a guild (DMs, user updates) are only sent to this room,
+ * except DM interactions, which go to {@link DM_ROOM}.
+ */
+export const GLOBAL_ROOM = 'global';
+
+/**
+ * Room of interactions used in DMs, joined by the same sockets as the global room.
+ */
+export const DM_ROOM = 'dm';
+
+/**
+ * Room joined by sockets whose key is limited to specific channels.
+ * Guild events are delivered to these sockets individually, after a channel check.
+ */
+export const CHANNEL_RESTRICTED_ROOM = 'channel-restricted';
+
+/**
+ * Room joined by sockets that set a subscription filter.
+ * Events are delivered to these sockets individually, after the filter is checked.
+ */
+export const FILTERED_ROOM = 'filtered';
+
+/**
+ * Broadcast an event to a room (`guild:<id>`, the global room or the DM room).
+ * Each socket gets the event through its outbound queue; sockets of
+ * channel-restricted keys and filtered subscriptions are checked first.
+ */
+export function emitToRoom(io: TypedServer, room: string, payload: SequencedEventPayload): void {
+    const members = io.sockets.adapter.rooms.get(room);
+    if (!members) {return;}
+
+    const restricted = io.sockets.adapter.rooms.get(CHANNEL_RESTRICTED_ROOM);
+    const filtered = io.sockets.adapter.rooms.get(FILTERED_ROOM);
+    const channelId = getPayloadChannelId(payload);
+
+    for (const socketId of members) {
+        const socket = io.sockets.sockets.get(socketId);
+        if (!socket) {continue;}
+
+        if (restricted?.has(socketId) && (!channelId || !canAccessChannel(socket.data.apiKey, channelId, resolveChannelLocation))) {
+            continue;
+        }
+        if (filtered?.has(socketId) && socket.data.filter && !matchesFilter(socket.data.filter, payload)) {
+            continue;
+        }
+
+        socket.data.outbound.push(payload);
+    }
+}
+
+/**
+ * Outcome of a subscribe request.
+ */
+export interface SubscribeResult {
+    /** Guilds now subscribed to */
+    guildIds: string[];
+    /** Guilds the key may not access */
+    deniedGuildIds: string[];
+    /** Why the filter was rejected; nothing else is changed if set */
+    filterError: string | null;
+}
+
+/**
+ * Apply a `subscribe` request to a subscriber: replace the filter if one is given
+ * (`null` removes it) and add the guilds the key may access. Unknown guilds are ignored.
+ * Shared by the Socket.IO and plain WebSocket endpoints.
+ */
+export function applySubscribe(subscriber: EventSubscriber, data: SubscribeEvent): SubscribeResult {
+    const { filter } = data;
+    const guildIds = Array.isArray(data.guildIds) ? data.guildIds : [];
+
+    if (filter !== undefined) {
+        const parsed = filter === null ? null : parseSubscriptionFilter(filter);
+        if (parsed && !parsed.success) {
+            return { guildIds: [], deniedGuildIds: [], filterError: parsed.error };
+        }
+        subscriber.filter = parsed ? parsed.filter : null;
+    }
+
+    const validGuildIds: string[] = [];
+    const deniedGuildIds: string[] = [];
+
+    for (const guildId of guildIds) {
+        if (!canAccessGuild(subscriber.apiKey, guildId, resolveChannelLocation)) {
+            deniedGuildIds.push(guildId);
+            continue;
+        }
+
+        // Verify guild exists
+        if (isKnownGuild(guildId)) {
+            subscriber.subscribedGuilds.add(guildId);
+            validGuildIds.push(guildId);
+
+            if (config.debug) {
+                console.log(`   Subscribed to guild: ${guildId}`);
+            }
+        }
+    }
+
+    return { guildIds: validGuildIds, deniedGuildIds, filterError: null };
+}
+
+/**
+ * Apply an `unsubscribe` request to a subscriber.
+ */
+export function applyUnsubscribe(subscriber: EventSubscriber, guildIds: string[]): void {
+    for (const guildId of guildIds) {
+        subscriber.subscribedGuilds.delete(guildId);
+
+        if (config.debug) {
+            console.log(`   Unsubscribed from guild: ${guildId}`);
+        }
+    }
+}
+
+/**
+ * Send a subscriber the logged events after `lastSeq` that it should receive.
+ * Returns null if `lastSeq` is not a non-negative integer.
+ */
+export function replayMissedEvents(
+    subscriber: EventSubscriber,
+    lastSeq: unknown,
+    send: (payload: SequencedEventPayload) => void
+): ResumedEvent | null {
+    if (typeof lastSeq !== 'number' || !Number.isInteger(lastSeq) || lastSeq < 0) {
+        return null;
+    }
+
+    const replay = eventLog.since(lastSeq);
+    let replayed = 0;
+    for (const payload of replay.events) {
+        if (!shouldDeliver(subscriber, payload, resolveChannelLocation)) {continue;}
+        send(payload);
+        replayed++;
+    }
+
+    return { replayed, lastSeq: replay.lastSeq, gap: replay.gap };
+}
+
+/**
+ * Build a handshake error. Socket.IO forwards `data` to the client's `connect_error` handler.
+ */
+function handshakeError(message: string, code: string): Error {
+    return Object.assign(new Error(message), { data: { code } });
+}
+
+/**
+ * Outbound sink of a socket. Engine.IO transports emit `drain` once the packets
+ * written to them have been flushed, which releases everything sent before it.
+ */
+function createSocketSink(socket: TypedSocket): OutboundSink {
+    const pending: (() => void)[] = [];
+    const onDrain = (): void => {
+        for (const flushed of pending.splice(0)) {
+            flushed();
+        }
+    };
+
+    let transport = socket.conn.transport;
+    transport.on('drain', onDrain);
+    socket.conn.on('upgrade', (upgraded: typeof transport) => {
+        transport.off('drain', onDrain);
+        transport = upgraded;
+        transport.on('drain', onDrain);
+    });
+
+    return {
+        send: (payload, flushed) => {
+            pending.push(flushed);
+            socket.emit('discord', socket.data.encoding === 'msgpack' ? encodeEvent(payload) : payload);
+        },
+        disconnect: () => {
+            socket.emit('error', { message: 'Socket could not keep up with events', code: 'SLOW_CONSUMER' });
+            socket.disconnect(true);
+        },
+    };
+}
+
+/**
+ * Disconnect every socket authenticated with the given key.
+ */
+function disconnectKey(io: TypedServer, keyId: string): void {
+    for (const socket of io.sockets.sockets.values()) {
+        if (socket.data.apiKey?.id !== keyId) {continue;}
+
+        socket.emit('error', { message: 'API key was revoked or rotated', code: 'KEY_REVOKED' });
+        socket.disconnect(true);
+    }
+}
 
 /**
  * Setup WebSocket event handlers for Socket.IO
  */
-export function setupWebSocketEvents(
-    io: SocketIOServer<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>
-): void {
+export function setupWebSocketEvents(io: TypedServer): void {
     // Authentication middleware
     io.use((socket, next) => {
-        const apiKey = socket.handshake.auth['apiKey'] as string | undefined;
-
-        if (!apiKey) {
-            return next(new Error('Missing API key'));
+        const { apiKey, token, encoding: requestedEncoding } = socket.handshake.auth as { apiKey?: unknown; token?: unknown; encoding?: unknown };
+        const encoding = parseEncoding(requestedEncoding ?? socket.handshake.query['encoding']);
+        if (!encoding) {
+            return next(handshakeError('Unsupported encoding', 'INVALID_ENCODING'));
         }
 
-        if (apiKey !== config.api.apiKey) {
-            return next(new Error('Invalid API key'));
-        }
+        const credentials = {
+            apiKey: typeof apiKey === 'string' ? apiKey : undefined,
+            bearer: typeof token === 'string' ? token : getBearerCredential(socket.handshake.headers.authorization),
+        };
 
-        socket.data.apiKey = apiKey;
-        socket.data.subscribedGuilds = new Set();
-        next();
+        void authenticateConnection(credentials, socket.handshake.address).then((result) => {
+            if (!result.success) {
+                return next(handshakeError(result.error, result.code));
+            }
+
+            socket.data.apiKey = result.keyRecord;
+            socket.data.subscribedGuilds = new Set();
+            socket.data.filter = null;
+            socket.data.encoding = encoding;
+            next();
+        }, (error: unknown) => {
+            console.error('❌ Socket.IO authentication failed:', error);
+            next(handshakeError('Internal server error', 'INTERNAL_ERROR'));
+        });
     });
 
     io.on('connection', (socket: TypedSocket) => {
         console.log(`📱 WebSocket client connected: ${socket.id}`);
 
+        const keyRecord = socket.data.apiKey;
+        const { outbound, release } = openOutbound({ id: socket.id, transport: 'socket.io', keyId: keyRecord.id }, createSocketSink(socket));
+        socket.data.outbound = outbound;
+
+        if (!isRestrictedKey(keyRecord)) {
+            socket.join([GLOBAL_ROOM, DM_ROOM]);
+        } else if (keyRecord.channelIds) {
+            socket.join(CHANNEL_RESTRICTED_ROOM);
+        }
+
         // Subscribe to guild events
         socket.on('subscribe', (data) => {
-            const { guildIds } = data;
-            const validGuildIds: string[] = [];
+            const result = applySubscribe(socket.data, data);
+            if (result.filterError) {
+                socket.emit('error', { message: `Invalid subscription filter: ${result.filterError}`, code: 'INVALID_FILTER' });
+                return;
+            }
 
-            for (const guildId of guildIds) {
-                // Verify guild exists
-                if (discordClient.guilds.cache.has(guildId)) {
-                    socket.join(`guild:${guildId}`);
-                    socket.data.subscribedGuilds?.add(guildId);
-                    validGuildIds.push(guildId);
-
-                    if (config.debug) {
-                        console.log(`   Subscribed to guild: ${guildId}`);
-                    }
+            if (data.filter !== undefined) {
+                if (socket.data.filter) {
+                    socket.join(FILTERED_ROOM);
+                } else {
+                    socket.leave(FILTERED_ROOM);
                 }
             }
+            for (const guildId of result.guildIds) {
+                socket.join(`guild:${guildId}`);
+            }
 
-            socket.emit('subscribed', { guildIds: validGuildIds });
+            if (result.deniedGuildIds.length > 0) {
+                socket.emit('error', {
+                    message: `API key is not allowed to access guild(s): ${result.deniedGuildIds.join(', ')}`,
+                    code: 'RESOURCE_NOT_ALLOWED',
+                });
+            }
+
+            socket.emit('subscribed', { guildIds: result.guildIds, filter: socket.data.filter });
         });
 
         // Unsubscribe from guild events
@@ -63,18 +294,45 @@ export function setupWebSocketEvents(
 
             for (const guildId of guildIds) {
                 socket.leave(`guild:${guildId}`);
-                socket.data.subscribedGuilds?.delete(guildId);
-
-                if (config.debug) {
-                    console.log(`   Unsubscribed from guild: ${guildId}`);
-                }
             }
+            applyUnsubscribe(socket.data, guildIds);
 
             socket.emit('unsubscribed', { guildIds });
         });
 
+        // Replay events missed since the client's last sequence, before any newer live event.
+        // Replay is synchronous, so no broadcast can interleave with it.
+        socket.on('resume', (data) => {
+            const result = replayMissedEvents(socket.data, data?.lastSeq, (payload) => outbound.replay(payload));
+            if (!result) {
+                socket.emit('error', { message: 'lastSeq must be a non-negative integer', code: 'INVALID_RESUME' });
+                return;
+            }
+
+            socket.emit('resumed', result);
+        });
+
+        // Run a REST-equivalent action. The reply goes to the ack callback when one is given.
+        socket.on('request', (data, ack) => {
+            void runAction(socket.data.apiKey, data).then((response) => {
+                if (typeof ack === 'function') {
+                    ack(response);
+                } else {
+                    socket.emit('response', response);
+                }
+            });
+        });
+
+        // Sockets are closed when their key or signed token expires
+        const stopExpiryWatch = watchKeyExpiry(keyRecord, ({ error, code }) => {
+            socket.emit('error', { message: error, code });
+            socket.disconnect(true);
+        });
+
         // Handle disconnect
         socket.on('disconnect', (reason) => {
+            release();
+            stopExpiryWatch();
             console.log(`📴 WebSocket client disconnected: ${socket.id} (${reason})`);
         });
 
@@ -84,5 +342,8 @@ export function setupWebSocketEvents(
         });
     });
 
+    // Close connections whose key is rotated or revoked
+    apiKeyStore.on('invalidated', (keyId: string) => disconnectKey(io, keyId));
+
     console.log('✅ WebSocket event handlers configured');
 }
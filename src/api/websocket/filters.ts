@@ -0,0 +1,182 @@
+import { z } from 'zod';
+import { canAccessChannel, isRestrictedKey, type ChannelResolver } from '../auth/restrictions.js';
+import type { ApiKeyRecord } from '../../types/auth.types.js';
+import type { SerializedMessage } from '../../types/discord.types.js';
+import type { DiscordEventName, DiscordEventPayload, SubscriptionFilter } from '../../types/events.types.js';
+
+/**
+ * A client receiving events: its key, the guilds it subscribed to and its filter.
+ */
+export interface EventSubscriber {
+    apiKey: ApiKeyRecord;
+    subscribedGuilds: Set<string>;
+    filter: SubscriptionFilter | null;
+}
+
+/**
+ * Validation for the `filter` field of a `subscribe` message.
+ */
+export const SubscriptionFilterSchema = z.object({
+    events: z.array(z.string().min(1)).max(100).optional(),
+    channelIds: z.array(z.string().regex(/^\d+$/)).max(500).optional(),
+    authorIsBot: z.boolean().optional(),
+    hasAttachments: z.boolean().optional(),
+}).strict();
+
+/**
+ * Get the channel an event happened in, or null for guild-level events.
+ */
+export function getPayloadChannelId(payload: DiscordEventPayload): string | null {
+    switch (payload.event) {
+        case 'messageCreate':
+            return payload.data.channelId;
+        case 'messageUpdate':
+            return payload.data.new.channelId;
+        case 'messageDelete':
+        case 'messageDeleteBulk':
+        case 'messageReactionAdd':
+        case 'messageReactionRemove':
+        case 'messageReactionRemoveAll':
+        case 'messageReactionRemoveEmoji':
+        case 'messagePollVoteAdd':
+        case 'messagePollVoteRemove':
+        case 'channelPinsUpdate':
+        case 'webhookUpdate':
+        case 'typingStart':
+            return payload.data.channelId;
+        case 'channelCreate':
+        case 'channelDelete':
+            return payload.data.id;
+        case 'channelUpdate':
+            return payload.data.new.id;
+        case 'threadCreate':
+            return payload.data.thread.id;
+        case 'threadUpdate':
+            return payload.data.new.id;
+        case 'threadDelete':
+            return payload.data.id;
+        case 'threadMembersUpdate':
+            return payload.data.threadId;
+        case 'voiceStateUpdate':
+            return payload.data.new.channelId ?? payload.data.old?.channelId ?? null;
+        case 'inviteCreate':
+        case 'inviteDelete':
+        case 'interactionCreate':
+        case 'scheduledMessageSent':
+        case 'scheduledMessageFailed':
+            return payload.data.channelId;
+        default:
+            return null;
+    }
+}
+
+/**
+ * Get the message an event carries, or null for non-message events.
+ */
+function getPayloadMessage(payload: DiscordEventPayload): SerializedMessage | null {
+    switch (payload.event) {
+        case 'messageCreate':
+            return payload.data;
+        case 'messageUpdate':
+            return payload.data.new;
+        default:
+            return null;
+    }
+}
+
+/**
+ * Check whether an event passes a subscription filter.
+ */
+export function matchesFilter(filter: SubscriptionFilter, payload: DiscordEventPayload): boolean {
+    if (filter.events && !filter.events.includes(payload.event)) {
+        return false;
+    }
+
+    if (filter.channelIds) {
+        const channelId = getPayloadChannelId(payload);
+        if (!channelId || !filter.channelIds.includes(channelId)) {
+            return false;
+        }
+    }
+
+    if (filter.authorIsBot !== undefined || filter.hasAttachments !== undefined) {
+        const message = getPayloadMessage(payload);
+        if (!message) {
+            return false;
+        }
+        if (filter.authorIsBot !== undefined && message.author.bot !== filter.authorIsBot) {
+            return false;
+        }
+        if (filter.hasAttachments !== undefined && (message.attachments.length > 0) !== filter.hasAttachments) {
+            return false;
+        }
+    }
+
+    return true;
+}
+
+/**
+ * Check whether a subscriber should receive an event. Guild events need a subscription
+ * to the guild; events without a guild only go to keys without guild/channel restrictions.
+ * Channel-restricted keys and the subscriber's filter are checked as for room broadcasts.
+ */
+export function shouldDeliver(subscriber: EventSubscriber, payload: DiscordEventPayload, resolveChannel: ChannelResolver): boolean {
+    if (payload.guildId) {
+        if (!subscriber.subscribedGuilds.has(payload.guildId)) {return false;}
+    } else if (isRestrictedKey(subscriber.apiKey)) {
+        return false;
+    }
+
+    if (subscriber.apiKey.channelIds) {
+        const channelId = getPayloadChannelId(payload);
+        if (!channelId || !canAccessChannel(subscriber.apiKey, channelId, resolveChannel)) {
+            return false;
+        }
+    }
+
+    return !subscriber.filter || matchesFilter(subscriber.filter, payload);
+}
+
+/**
+ * Parse a filter given as query parameters (`events` and `channelIds` comma-separated,
+ * `authorIsBot` and `hasAttachments` as `true`/`false`). Returns a null filter if none is set.
+ */
+export function parseSubscriptionQuery(
+    query: Record<string, unknown>
+): { success: true; filter: SubscriptionFilter | null } | { success: false; error: string } {
+    const input: Record<string, unknown> = {};
+    for (const field of ['events', 'channelIds'] as const) {
+        const value = query[field];
+        if (typeof value === 'string' && value) {
+            input[field] = value.split(',').map((item) => item.trim());
+        }
+    }
+    for (const field of ['authorIsBot', 'hasAttachments'] as const) {
+        const value = query[field];
+        if (value === 'true' || value === 'false') {
+            input[field] = value === 'true';
+        } else if (value !== undefined) {
+            return { success: false, error: `${field}: Expected true or false` };
+        }
+    }
+
+    if (Object.keys(input).length === 0) {
+        return { success: true, filter: null };
+    }
+    return parseSubscriptionFilter(input);
+}
+
+/**
+ * Parse a filter sent by a client. Event names are kept as given; unknown names never match.
+ */
+export function parseSubscriptionFilter(input: unknown): { success: true; filter: SubscriptionFilter } | { success: false; error: string } {
+    const result = SubscriptionFilterSchema.safeParse(input);
+    if (!result.success) {
+        return {
+            success: false,
+            error: result.error.issues.map((issue) => `${issue.path.join('.') || 'filter'}: ${issue.message}`).join('; '),
+        };
+    }
+    const { events, ...rest } = result.data;
+    return { success: true, filter: { ...rest, ...(events && { events: events as DiscordEventName[] }) } };
+}
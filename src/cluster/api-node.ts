@@ -0,0 +1,147 @@
+import { eventLog, type EventReplay } from '../discord/event-log.js';
+import { deliverEvent } from '../discord/events/index.js';
+import { apiKeyStore } from '../api/auth/key-store.js';
+import { setConnectionAuthenticator } from '../api/middleware/auth.js';
+import { setActionRunner } from '../api/websocket/actions.js';
+import { ApiError } from '../api/middleware/errorHandler.js';
+import type { ActionResponse } from '../types/events.types.js';
+import { clusterDirectory, type DirectorySnapshot } from './directory.js';
+import type { ClusterRpc } from './rpc.js';
+import type { ClusterTransport } from './transport.js';
+import {
+    CLUSTER_CHANNELS,
+    CLUSTER_METHODS,
+    fromWireAuthResult,
+    toWireKeyRecord,
+    type ActionParams,
+    type ClusterEvent,
+    type ConnectionAuthParams,
+    type WireAuthResult,
+} from './protocol.js';
+
+/** Delay before retrying a failed directory refresh */
+const DIRECTORY_RETRY_MS = 5000;
+
+/**
+ * Handle to a running API node.
+ */
+export interface ApiNode {
+    /** Fetch the directory from the gateway now */
+    refreshDirectory(): Promise<void>;
+    stop(): void;
+}
+
+export interface ApiNodeOptions {
+    /** How often the directory is refreshed, in milliseconds */
+    directoryRefreshMs: number;
+}
+
+/**
+ * Run this process as a cluster API node: deliver the events published by the
+ * gateway to local clients, and ask the gateway to authenticate connections and
+ * run socket actions, since only the gateway has keys and a Discord connection.
+ */
+export function startApiNode(transport: ClusterTransport, rpc: ClusterRpc, options: ApiNodeOptions): ApiNode {
+    let seeding: Promise<void> | null = null;
+    let refreshTimer: NodeJS.Timeout | null = null;
+    let stopped = false;
+
+    // Fill the local log with the gateway's older events, so clients can resume from them
+    const seedEventLog = (): void => {
+        seeding ??= rpc.call<EventReplay>(CLUSTER_METHODS.eventsSince, { lastSeq: 0 })
+            .then((replay) => {
+                eventLog.prepend(replay.events);
+            })
+            .catch((error: unknown) => console.error('❌ Failed to fetch the cluster event log:', error))
+            .finally(() => {
+                seeding = null;
+            });
+    };
+
+    const unsubscribers = [
+        transport.subscribe(CLUSTER_CHANNELS.events, (message) => {
+            const { payload, channel } = message as ClusterEvent;
+
+            if (payload.guildId) {
+                clusterDirectory.addGuild(payload.guildId);
+            }
+            if (channel) {
+                clusterDirectory.setChannel(channel.id, { guildId: channel.guildId, parentId: channel.parentId });
+            }
+
+            const contiguous = payload.seq === eventLog.lastSeq + 1;
+            eventLog.record(payload);
+            if (!contiguous) {
+                seedEventLog();
+            }
+
+            deliverEvent(payload);
+        }),
+        transport.subscribe(CLUSTER_CHANNELS.keysInvalidated, (keyId) => {
+            apiKeyStore.emit('invalidated', keyId);
+        }),
+    ];
+
+    setConnectionAuthenticator(async (credentials, ip) => {
+        try {
+            const result = await rpc.call<WireAuthResult>(CLUSTER_METHODS.authConnection, { credentials, ip } satisfies ConnectionAuthParams);
+            return fromWireAuthResult(result);
+        } catch (error) {
+            const message = error instanceof ApiError ? error.message : 'Cluster gateway is unavailable';
+            return { success: false, error: message, code: 'GATEWAY_UNAVAILABLE' };
+        }
+    });
+
+    setActionRunner(async (apiKey, request) => {
+        try {
+            return await rpc.call<ActionResponse>(
+                CLUSTER_METHODS.executeAction,
+                { apiKey: toWireKeyRecord(apiKey), request } satisfies ActionParams
+            );
+        } catch (error) {
+            const message = error instanceof ApiError ? error.message : 'Cluster gateway is unavailable';
+            const id = (request as { id?: unknown } | null)?.id;
+            return {
+                id: typeof id === 'string' || typeof id === 'number' ? id : null,
+                success: false,
+                error: message,
+                code: 'GATEWAY_UNAVAILABLE',
+            };
+        }
+    });
+
+    const refreshDirectory = async (): Promise<void> => {
+        clusterDirectory.replace(await rpc.call<DirectorySnapshot>(CLUSTER_METHODS.directorySnapshot, null));
+    };
+
+    const scheduleRefresh = (delayMs: number): void => {
+        if (stopped) {return;}
+        refreshTimer = setTimeout(() => {
+            refreshDirectory().then(
+                () => scheduleRefresh(options.directoryRefreshMs),
+                (error: unknown) => {
+                    console.error('❌ Failed to refresh the cluster directory:', error);
+                    scheduleRefresh(DIRECTORY_RETRY_MS);
+                }
+            );
+        }, delayMs);
+        refreshTimer.unref();
+    };
+
+    scheduleRefresh(0);
+    seedEventLog();
+    console.log('🛰️ Running as cluster API node');
+
+    return {
+        refreshDirectory,
+        stop: () => {
+            stopped = true;
+            if (refreshTimer) {
+                clearTimeout(refreshTimer);
+            }
+            for (const unsubscribe of unsubscribers) {
+                unsubscribe();
+            }
+        },
+    };
+}
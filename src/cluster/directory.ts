@@ -0,0 +1,47 @@
+import type { ChannelLocation } from '../api/auth/restrictions.js';
+
+/**
+ * Guilds and channel locations as sent by the gateway.
+ * Channels are `[id, guildId, parentId]` tuples to keep snapshots small.
+ */
+export interface DirectorySnapshot {
+    guildIds: string[];
+    channels: [id: string, guildId: string | null, parentId: string | null][];
+}
+
+/**
+ * Copy of the gateway's guild and channel cache, kept by API nodes.
+ *
+ * API nodes have no Discord connection, but subscriptions and key restrictions
+ * need to know which guilds the bot is in and which guild (and parent) a channel
+ * belongs to. The directory is replaced by periodic snapshots from the gateway,
+ * and learns new guilds and channels from the events it relays in between.
+ */
+export class ClusterDirectory {
+    private guilds: Set<string> = new Set();
+    private channels: Map<string, ChannelLocation> = new Map();
+
+    replace(snapshot: DirectorySnapshot): void {
+        this.guilds = new Set(snapshot.guildIds);
+        this.channels = new Map(snapshot.channels.map(([id, guildId, parentId]) => [id, { guildId, parentId }]));
+    }
+
+    addGuild(guildId: string): void {
+        this.guilds.add(guildId);
+    }
+
+    setChannel(channelId: string, location: ChannelLocation): void {
+        this.channels.set(channelId, location);
+    }
+
+    hasGuild(guildId: string): boolean {
+        return this.guilds.has(guildId);
+    }
+
+    resolveChannel(channelId: string): ChannelLocation | null {
+        return this.channels.get(channelId) ?? null;
+    }
+}
+
+// Singleton instance (empty unless this process is an API node)
+export const clusterDirectory = new ClusterDirectory();
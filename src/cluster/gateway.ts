@@ -0,0 +1,68 @@
+import { discordClient } from '../discord/client.js';
+import { eventLog } from '../discord/event-log.js';
+import { setEventRelay } from '../discord/events/index.js';
+import { apiKeyStore } from '../api/auth/key-store.js';
+import { authenticateConnection, resolveChannelLocation } from '../api/middleware/auth.js';
+import { executeAction } from '../api/websocket/actions.js';
+import { getPayloadChannelId } from '../api/websocket/filters.js';
+import type { ClusterRpc } from './rpc.js';
+import type { ClusterTransport } from './transport.js';
+import type { DirectorySnapshot } from './directory.js';
+import {
+    CLUSTER_CHANNELS,
+    CLUSTER_METHODS,
+    fromWireKeyRecord,
+    toWireAuthResult,
+    type ActionParams,
+    type ClusterEvent,
+    type ConnectionAuthParams,
+} from './protocol.js';
+
+/**
+ * Snapshot the guilds and channel locations in the Discord cache.
+ */
+export function buildDirectorySnapshot(): DirectorySnapshot {
+    return {
+        guildIds: [...discordClient.guilds.cache.keys()],
+        channels: [...discordClient.channels.cache.values()].map((channel) => [
+            channel.id,
+            'guildId' in channel ? channel.guildId : null,
+            'parentId' in channel ? channel.parentId : null,
+        ]),
+    };
+}
+
+/**
+ * Run this process as the cluster gateway: publish every broadcast event to API
+ * nodes and serve the calls they make for authentication, socket actions, event
+ * replay and the guild/channel directory.
+ */
+export function startClusterGateway(transport: ClusterTransport, rpc: ClusterRpc): void {
+    setEventRelay((payload) => {
+        const channelId = getPayloadChannelId(payload);
+        const location = channelId ? resolveChannelLocation(channelId) : null;
+        const event: ClusterEvent = { payload, channel: channelId && location ? { id: channelId, ...location } : null };
+        transport.publish(CLUSTER_CHANNELS.events, event);
+    });
+
+    apiKeyStore.on('invalidated', (keyId: string) => transport.publish(CLUSTER_CHANNELS.keysInvalidated, keyId));
+
+    rpc.handle(CLUSTER_METHODS.authConnection, async (params) => {
+        const { credentials, ip } = params as ConnectionAuthParams;
+        return toWireAuthResult(await authenticateConnection(credentials ?? {}, ip));
+    });
+
+    rpc.handle(CLUSTER_METHODS.executeAction, (params) => {
+        const { apiKey, request } = params as ActionParams;
+        return executeAction(fromWireKeyRecord(apiKey), request);
+    });
+
+    rpc.handle(CLUSTER_METHODS.eventsSince, (params) => {
+        const { lastSeq } = params as { lastSeq: number };
+        return eventLog.since(lastSeq);
+    });
+
+    rpc.handle(CLUSTER_METHODS.directorySnapshot, () => buildDirectorySnapshot());
+
+    console.log('🛰️ Running as cluster gateway');
+}
@@ -0,0 +1,88 @@
+import type { ApiKeyRecord } from '../types/auth.types.js';
+import type { AuthResult, Credentials } from '../api/middleware/auth.js';
+import type { SequencedEventPayload } from '../types/events.types.js';
+
+/**
+ * Channels and RPC methods shared by the gateway and API nodes.
+ */
+export const CLUSTER_CHANNELS = {
+    /** Every broadcast event, as a {@link ClusterEvent} */
+    events: 'events',
+    /** IDs of keys that were rotated or revoked on the gateway */
+    keysInvalidated: 'keys.invalidated',
+} as const;
+
+export const CLUSTER_METHODS = {
+    /** {@link ConnectionAuthParams} → {@link WireAuthResult} */
+    authConnection: 'auth.connection',
+    /** {@link ActionParams} → ActionResponse */
+    executeAction: 'actions.execute',
+    /** `{ lastSeq }` → EventReplay */
+    eventsSince: 'events.since',
+    /** No params → DirectorySnapshot */
+    directorySnapshot: 'directory.snapshot',
+} as const;
+
+/**
+ * A broadcast event with the location of its channel, so API nodes can check
+ * channel-restricted keys without a Discord cache.
+ */
+export interface ClusterEvent {
+    payload: SequencedEventPayload;
+    channel: { id: string; guildId: string | null; parentId: string | null } | null;
+}
+
+/**
+ * A key record as sent between nodes: dates are ISO strings and the hash is dropped.
+ */
+export type WireKeyRecord = Omit<ApiKeyRecord, 'keyHash' | 'createdAt' | 'notBefore' | 'expiresAt' | 'lastUsedAt'> & {
+    createdAt: string;
+    notBefore?: string;
+    expiresAt?: string;
+    lastUsedAt?: string;
+};
+
+export type WireAuthResult =
+    | { success: true; keyRecord: WireKeyRecord }
+    | { success: false; error: string; code: string };
+
+export interface ConnectionAuthParams {
+    credentials: Credentials;
+    ip: string | undefined;
+}
+
+export interface ActionParams {
+    apiKey: WireKeyRecord;
+    request: unknown;
+}
+
+export function toWireKeyRecord(record: ApiKeyRecord): WireKeyRecord {
+    const { keyHash: _keyHash, createdAt, notBefore, expiresAt, lastUsedAt, ...rest } = record;
+    return {
+        ...rest,
+        createdAt: createdAt.toISOString(),
+        notBefore: notBefore?.toISOString(),
+        expiresAt: expiresAt?.toISOString(),
+        lastUsedAt: lastUsedAt?.toISOString(),
+    };
+}
+
+export function fromWireKeyRecord(wire: WireKeyRecord): ApiKeyRecord {
+    const { createdAt, notBefore, expiresAt, lastUsedAt, ...rest } = wire;
+    return {
+        ...rest,
+        keyHash: '',
+        createdAt: new Date(createdAt),
+        notBefore: notBefore ? new Date(notBefore) : undefined,
+        expiresAt: expiresAt ? new Date(expiresAt) : undefined,
+        lastUsedAt: lastUsedAt ? new Date(lastUsedAt) : undefined,
+    };
+}
+
+export function toWireAuthResult(result: AuthResult): WireAuthResult {
+    return result.success ? { success: true, keyRecord: toWireKeyRecord(result.keyRecord) } : result;
+}
+
+export function fromWireAuthResult(wire: WireAuthResult): AuthResult {
+    return wire.success ? { success: true, keyRecord: fromWireKeyRecord(wire.keyRecord) } : wire;
+}
@@ -0,0 +1,68 @@
+import http from 'http';
+import https from 'https';
+import type { Request, Response } from 'express';
+
+/** Headers that apply to a single connection and are not forwarded */
+const HOP_BY_HOP_HEADERS = new Set([
+    'connection',
+    'keep-alive',
+    'proxy-authenticate',
+    'proxy-authorization',
+    'te',
+    'trailer',
+    'transfer-encoding',
+    'upgrade',
+]);
+
+function forwardableHeaders(headers: http.IncomingHttpHeaders): http.OutgoingHttpHeaders {
+    const forwarded: http.OutgoingHttpHeaders = {};
+    for (const [name, value] of Object.entries(headers)) {
+        if (value !== undefined && !HOP_BY_HOP_HEADERS.has(name)) {
+            forwarded[name] = value;
+        }
+    }
+    return forwarded;
+}
+
+/**
+ * Express handler that forwards requests to the cluster gateway, streaming the
+ * body both ways. The gateway authenticates, rate limits and serves the request
+ * exactly as it would a direct one.
+ */
+export function createGatewayProxy(gatewayUrl: string, timeoutMs: number): (req: Request, res: Response) => void {
+    const base = new URL(gatewayUrl);
+    const transport = base.protocol === 'https:' ? https : http;
+
+    return (req, res) => {
+        const target = new URL(req.originalUrl, base);
+        const headers = forwardableHeaders(req.headers);
+        headers['host'] = target.host;
+        headers['x-forwarded-for'] = [req.headers['x-forwarded-for'], req.socket.remoteAddress].filter(Boolean).join(', ');
+        headers['x-forwarded-proto'] = req.protocol;
+        headers['x-forwarded-host'] = req.headers.host ?? '';
+
+        const upstream = transport.request(target, { method: req.method, headers, timeout: timeoutMs }, (response) => {
+            res.status(response.statusCode ?? 502);
+            for (const [name, value] of Object.entries(forwardableHeaders(response.headers))) {
+                res.setHeader(name, value as string | string[]);
+            }
+            response.pipe(res);
+        });
+
+        upstream.on('timeout', () => upstream.destroy(new Error('Gateway request timed out')));
+        upstream.on('error', (error) => {
+            console.error(`❌ Proxying ${req.method} ${req.originalUrl} to the cluster gateway failed:`, error.message);
+            if (res.headersSent) {
+                res.destroy();
+                return;
+            }
+            res.status(502).json({
+                success: false,
+                error: 'Cluster gateway is unavailable',
+                code: 'GATEWAY_UNAVAILABLE',
+            });
+        });
+
+        req.pipe(upstream);
+    };
+}
@@ -0,0 +1,144 @@
+import { randomUUID } from 'crypto';
+import { ApiError } from '../api/middleware/errorHandler.js';
+import type { ClusterTransport } from './transport.js';
+
+/**
+ * A call published on `rpc:<method>`.
+ */
+interface RpcRequest {
+    id: string;
+    /** Channel the reply is published on */
+    replyTo: string;
+    params: unknown;
+}
+
+/**
+ * The outcome of a call, published on the caller's reply channel.
+ */
+interface RpcReply {
+    id: string;
+    result?: unknown;
+    error?: { message: string; code: string; statusCode: number };
+}
+
+interface PendingCall {
+    resolve: (result: unknown) => void;
+    reject: (error: Error) => void;
+    timer: NodeJS.Timeout;
+}
+
+/**
+ * Handles calls to one method. Errors are sent back to the caller; an
+ * {@link ApiError} keeps its status and code.
+ */
+export type RpcHandler = (params: unknown) => unknown;
+
+/**
+ * Request/response calls over a pub/sub {@link ClusterTransport}.
+ *
+ * Calls are published on `rpc:<method>` with a correlation ID and the caller's
+ * reply channel (`rpc:reply:<nodeId>`). Exactly one node (the gateway) should
+ * handle each method. Calls that get no reply within the timeout fail with
+ * `GATEWAY_UNAVAILABLE`.
+ */
+export class ClusterRpc {
+    readonly nodeId: string;
+    private pending: Map<string, PendingCall> = new Map();
+    private unsubscribers: (() => void)[] = [];
+    private listening = false;
+
+    constructor(
+        private readonly transport: ClusterTransport,
+        private readonly timeoutMs: number,
+        nodeId: string = randomUUID()
+    ) {
+        this.nodeId = nodeId;
+    }
+
+    /**
+     * Serve a method on this node.
+     */
+    handle(method: string, handler: RpcHandler): void {
+        this.unsubscribers.push(this.transport.subscribe(`rpc:${method}`, (message) => {
+            const request = message as RpcRequest;
+            if (typeof request?.id !== 'string' || typeof request.replyTo !== 'string') {return;}
+
+            Promise.resolve()
+                .then(() => handler(request.params))
+                .then(
+                    (result) => this.transport.publish(request.replyTo, { id: request.id, result: result ?? null } satisfies RpcReply),
+                    (error: unknown) => {
+                        const apiError = ApiError.fromDiscord(error);
+                        if (!(apiError instanceof ApiError)) {
+                            console.error(`❌ Cluster call ${method} failed:`, error);
+                        }
+                        const reply: RpcReply = apiError instanceof ApiError
+                            ? { id: request.id, error: { message: apiError.message, code: apiError.code, statusCode: apiError.statusCode } }
+                            : { id: request.id, error: { message: 'Internal server error', code: 'INTERNAL_ERROR', statusCode: 500 } };
+                        this.transport.publish(request.replyTo, reply);
+                    }
+                );
+        }));
+    }
+
+    /**
+     * Call a method on whichever node serves it.
+     */
+    call<T>(method: string, params: unknown): Promise<T> {
+        this.listen();
+
+        const id = randomUUID();
+        return new Promise<T>((resolve, reject) => {
+            const timer = setTimeout(() => {
+                this.pending.delete(id);
+                reject(new ApiError(503, `Cluster gateway did not answer ${method} in time`, 'GATEWAY_UNAVAILABLE'));
+            }, this.timeoutMs);
+
+            this.pending.set(id, { resolve: resolve as (result: unknown) => void, reject, timer });
+            this.transport.publish(`rpc:${method}`, { id, replyTo: this.replyChannel, params } satisfies RpcRequest);
+        });
+    }
+
+    /**
+     * Stop serving methods and fail calls still waiting for a reply.
+     */
+    close(): void {
+        for (const unsubscribe of this.unsubscribers) {
+            unsubscribe();
+        }
+        this.unsubscribers = [];
+        this.listening = false;
+
+        for (const [id, call] of this.pending) {
+            clearTimeout(call.timer);
+            call.reject(new ApiError(503, 'Cluster connection closed', 'GATEWAY_UNAVAILABLE'));
+            this.pending.delete(id);
+        }
+    }
+
+    private get replyChannel(): string {
+        return `rpc:reply:${this.nodeId}`;
+    }
+
+    /**
+     * Subscribe to this node's reply channel on first use.
+     */
+    private listen(): void {
+        if (this.listening) {return;}
+        this.listening = true;
+
+        this.unsubscribers.push(this.transport.subscribe(this.replyChannel, (message) => {
+            const reply = message as RpcReply;
+            const call = this.pending.get(reply?.id);
+            if (!call) {return;}
+
+            this.pending.delete(reply.id);
+            clearTimeout(call.timer);
+            if (reply.error) {
+                call.reject(new ApiError(reply.error.statusCode, reply.error.message, reply.error.code));
+            } else {
+                call.resolve(reply.result);
+            }
+        }));
+    }
+}
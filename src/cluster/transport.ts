@@ -0,0 +1,140 @@
+/**
+ * Receives messages published on a channel.
+ */
+export type MessageHandler = (message: unknown) => void;
+
+/**
+ * Pub/sub transport connecting the gateway to API nodes.
+ *
+ * A message published on a channel is delivered to every handler subscribed to
+ * that channel on any transport of the cluster, including the publisher's own.
+ * Delivery is at-most-once: messages published while a transport is
+ * disconnected are dropped. Messages must survive a JSON round trip.
+ *
+ * Implement this interface (e.g. on Redis pub/sub) to connect nodes through a
+ * broker instead of the built-in WebSocket hub.
+ */
+export interface ClusterTransport {
+    publish(channel: string, message: unknown): void;
+    /** Returns a function that removes the subscription */
+    subscribe(channel: string, handler: MessageHandler): () => void;
+    /** Release connections held by the transport */
+    close(): Promise<void>;
+}
+
+/**
+ * Local subscriber lists, shared by the transport implementations.
+ */
+export class SubscriberRegistry {
+    private handlers: Map<string, Set<MessageHandler>> = new Map();
+
+    /**
+     * Add a handler. `onFirst` runs when the channel gains its first subscriber.
+     */
+    add(channel: string, handler: MessageHandler, onFirst?: () => void): () => void {
+        let handlers = this.handlers.get(channel);
+        if (!handlers) {
+            handlers = new Set();
+            this.handlers.set(channel, handlers);
+            onFirst?.();
+        }
+        handlers.add(handler);
+
+        return () => {
+            handlers.delete(handler);
+            if (handlers.size === 0 && this.handlers.get(channel) === handlers) {
+                this.handlers.delete(channel);
+            }
+        };
+    }
+
+    /**
+     * Channels with at least one subscriber.
+     */
+    channels(): string[] {
+        return [...this.handlers.keys()];
+    }
+
+    has(channel: string): boolean {
+        return this.handlers.has(channel);
+    }
+
+    /**
+     * Call every handler of a channel. A failing handler does not stop the others.
+     */
+    deliver(channel: string, message: unknown): void {
+        for (const handler of this.handlers.get(channel) ?? []) {
+            try {
+                handler(message);
+            } catch (error) {
+                console.error(`❌ Cluster handler for ${channel} failed:`, error);
+            }
+        }
+    }
+
+    clear(): void {
+        this.handlers.clear();
+    }
+}
+
+/**
+ * A bus connecting in-process transports, for tests and single-process setups.
+ */
+export class InProcessBus {
+    private transports: Set<InProcessTransport> = new Set();
+
+    /**
+     * Create a transport attached to this bus.
+     */
+    connect(): InProcessTransport {
+        const transport = new InProcessTransport(this);
+        this.transports.add(transport);
+        return transport;
+    }
+
+    /** @internal */
+    deliver(channel: string, message: unknown): void {
+        // Copy the message as a network transport would, so no state is shared by reference
+        const json = JSON.stringify(message);
+        for (const transport of this.transports) {
+            transport.receive(channel, JSON.parse(json) as unknown);
+        }
+    }
+
+    /** @internal */
+    detach(transport: InProcessTransport): void {
+        this.transports.delete(transport);
+    }
+}
+
+/**
+ * Transport that delivers messages to the other transports of an {@link InProcessBus}.
+ * Delivery is asynchronous, like a network transport's.
+ */
+export class InProcessTransport implements ClusterTransport {
+    private subscribers = new SubscriberRegistry();
+    private closed = false;
+
+    constructor(private readonly bus: InProcessBus) {}
+
+    publish(channel: string, message: unknown): void {
+        if (this.closed) {return;}
+        queueMicrotask(() => this.bus.deliver(channel, message));
+    }
+
+    subscribe(channel: string, handler: MessageHandler): () => void {
+        return this.subscribers.add(channel, handler);
+    }
+
+    /** @internal */
+    receive(channel: string, message: unknown): void {
+        this.subscribers.deliver(channel, message);
+    }
+
+    close(): Promise<void> {
+        this.closed = true;
+        this.subscribers.clear();
+        this.bus.detach(this);
+        return Promise.resolve();
+    }
+}
@@ -0,0 +1,276 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import type { IncomingMessage, Server as HttpServer } from 'http';
+import type { Duplex } from 'stream';
+import { WebSocket, WebSocketServer, type RawData } from 'ws';
+import { SubscriberRegistry, type ClusterTransport, type MessageHandler } from './transport.js';
+
+/** Path the gateway accepts API node connections on */
+export const CLUSTER_PATH = '/cluster';
+
+/** Largest frame accepted on the cluster link (event log snapshots can be large) */
+const MAX_FRAME_BYTES = 64 * 1024 * 1024;
+
+/** Upper bound for the delay between reconnect attempts */
+const MAX_RECONNECT_DELAY_MS = 30_000;
+
+/**
+ * Frames exchanged between the hub and its nodes.
+ */
+type LinkFrame =
+    | { t: 'sub'; channel: string }
+    | { t: 'unsub'; channel: string }
+    | { t: 'msg'; channel: string; message: unknown };
+
+function parseFrame(data: RawData): LinkFrame | null {
+    try {
+        const text = Buffer.concat(Array.isArray(data) ? data : [Buffer.from(data)]).toString('utf8');
+        const frame = JSON.parse(text) as Partial<LinkFrame>;
+        if (typeof frame.channel === 'string' && (frame.t === 'sub' || frame.t === 'unsub' || frame.t === 'msg')) {
+            return frame as LinkFrame;
+        }
+    } catch {
+        // Fall through
+    }
+    return null;
+}
+
+function sendFrame(ws: WebSocket, frame: LinkFrame): void {
+    if (ws.readyState === WebSocket.OPEN) {
+        ws.send(JSON.stringify(frame));
+    }
+}
+
+/**
+ * Deliver a copy of a message to local subscribers on a later tick, as if it
+ * had come over the network.
+ */
+function deliverLocally(subscribers: SubscriberRegistry, channel: string, message: unknown): void {
+    if (!subscribers.has(channel)) {return;}
+    const json = JSON.stringify(message);
+    queueMicrotask(() => subscribers.deliver(channel, JSON.parse(json) as unknown));
+}
+
+/**
+ * Compare a presented secret with the expected one in constant time.
+ */
+function secretMatches(presented: string, expected: string): boolean {
+    const a = createHash('sha256').update(presented).digest();
+    const b = createHash('sha256').update(expected).digest();
+    return timingSafeEqual(a, b);
+}
+
+/**
+ * Build the cluster link URL from the gateway's HTTP base URL.
+ */
+export function getClusterUrl(gatewayUrl: string): string {
+    const url = new URL(CLUSTER_PATH, gatewayUrl);
+    url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+    return url.toString();
+}
+
+/**
+ * Gateway side of the built-in transport: a hub served on the gateway's HTTP
+ * server at {@link CLUSTER_PATH}. Nodes authenticate with the shared secret as a
+ * bearer credential. Each node tells the hub which channels it subscribes to,
+ * and only receives messages for those.
+ */
+export class WebSocketHubTransport implements ClusterTransport {
+    private subscribers = new SubscriberRegistry();
+    private peers: Map<WebSocket, Set<string>> = new Map();
+    private wss = new WebSocketServer({ noServer: true, maxPayload: MAX_FRAME_BYTES });
+
+    constructor(private readonly secret: string) {
+        this.wss.on('connection', (ws: WebSocket, req: IncomingMessage) => this.handlePeer(ws, req));
+    }
+
+    /**
+     * Accept node connections on an HTTP server.
+     */
+    attach(httpServer: HttpServer): void {
+        httpServer.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+            const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+            if (pathname !== CLUSTER_PATH) {return;}
+
+            const header = req.headers.authorization;
+            const presented = header?.startsWith('Bearer ') ? header.slice(7) : '';
+            if (!secretMatches(presented, this.secret)) {
+                socket.end('HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n');
+                return;
+            }
+
+            this.wss.handleUpgrade(req, socket, head, (ws) => this.wss.emit('connection', ws, req));
+        });
+    }
+
+    publish(channel: string, message: unknown): void {
+        deliverLocally(this.subscribers, channel, message);
+        this.relay(channel, message, null);
+    }
+
+    subscribe(channel: string, handler: MessageHandler): () => void {
+        return this.subscribers.add(channel, handler);
+    }
+
+    /**
+     * Number of connected nodes.
+     */
+    get peerCount(): number {
+        return this.peers.size;
+    }
+
+    close(): Promise<void> {
+        this.subscribers.clear();
+        for (const ws of this.peers.keys()) {
+            ws.close(1001, 'Gateway shutting down');
+        }
+        this.peers.clear();
+        return new Promise((resolve) => this.wss.close(() => resolve()));
+    }
+
+    private handlePeer(ws: WebSocket, req: IncomingMessage): void {
+        const channels: Set<string> = new Set();
+        this.peers.set(ws, channels);
+        console.log(`🔗 Cluster node connected from ${req.socket.remoteAddress ?? 'unknown'}`);
+
+        ws.on('message', (data) => {
+            const frame = parseFrame(data);
+            if (!frame) {return;}
+
+            if (frame.t === 'sub') {
+                channels.add(frame.channel);
+            } else if (frame.t === 'unsub') {
+                channels.delete(frame.channel);
+            } else {
+                this.subscribers.deliver(frame.channel, frame.message);
+                this.relay(frame.channel, frame.message, ws);
+            }
+        });
+
+        ws.on('close', () => {
+            this.peers.delete(ws);
+            console.log('🔌 Cluster node disconnected');
+        });
+
+        ws.on('error', (error) => {
+            console.error('❌ Cluster link error:', error);
+        });
+    }
+
+    /**
+     * Send a message to every node subscribed to the channel, except its sender.
+     */
+    private relay(channel: string, message: unknown, sender: WebSocket | null): void {
+        let frame: string | null = null;
+        for (const [ws, channels] of this.peers) {
+            if (ws === sender || !channels.has(channel) || ws.readyState !== WebSocket.OPEN) {continue;}
+            frame ??= JSON.stringify({ t: 'msg', channel, message } satisfies LinkFrame);
+            ws.send(frame);
+        }
+    }
+}
+
+/**
+ * Node side of the built-in transport: a connection to the gateway's hub that
+ * reconnects with exponential backoff and restores its subscriptions.
+ */
+export class WebSocketClientTransport implements ClusterTransport {
+    private subscribers = new SubscriberRegistry();
+    private ws: WebSocket | null = null;
+    private reconnectTimer: NodeJS.Timeout | null = null;
+    private attempts = 0;
+    private closed = false;
+
+    constructor(private readonly url: string, private readonly secret: string) {
+        this.connect();
+    }
+
+    publish(channel: string, message: unknown): void {
+        deliverLocally(this.subscribers, channel, message);
+        if (this.ws) {
+            sendFrame(this.ws, { t: 'msg', channel, message });
+        }
+    }
+
+    subscribe(channel: string, handler: MessageHandler): () => void {
+        const remove = this.subscribers.add(channel, handler, () => {
+            if (this.ws) {
+                sendFrame(this.ws, { t: 'sub', channel });
+            }
+        });
+
+        return () => {
+            remove();
+            if (this.ws && !this.subscribers.has(channel)) {
+                sendFrame(this.ws, { t: 'unsub', channel });
+            }
+        };
+    }
+
+    /**
+     * Whether the link to the gateway is open.
+     */
+    get connected(): boolean {
+        return this.ws !== null;
+    }
+
+    close(): Promise<void> {
+        this.closed = true;
+        this.subscribers.clear();
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+        }
+        this.ws?.close(1000);
+        this.ws = null;
+        return Promise.resolve();
+    }
+
+    private connect(): void {
+        const ws = new WebSocket(this.url, {
+            headers: { authorization: `Bearer ${this.secret}` },
+            maxPayload: MAX_FRAME_BYTES,
+        });
+
+        ws.on('open', () => {
+            this.attempts = 0;
+            this.ws = ws;
+            for (const channel of this.subscribers.channels()) {
+                sendFrame(ws, { t: 'sub', channel });
+            }
+            console.log(`🔗 Connected to cluster gateway at ${this.url}`);
+        });
+
+        ws.on('message', (data) => {
+            const frame = parseFrame(data);
+            if (frame?.t === 'msg') {
+                this.subscribers.deliver(frame.channel, frame.message);
+            }
+        });
+
+        ws.on('close', () => {
+            if (this.ws === ws) {
+                this.ws = null;
+                console.warn('⚠️ Lost connection to cluster gateway');
+            }
+            this.scheduleReconnect();
+        });
+
+        ws.on('error', (error) => {
+            // A failed attempt is followed by `close`, which schedules the next one
+            if (this.attempts === 0) {
+                console.error('❌ Cluster link error:', error.message);
+            }
+        });
+    }
+
+    private scheduleReconnect(): void {
+        if (this.closed || this.reconnectTimer) {return;}
+
+        const delay = Math.min(1000 * 2 ** this.attempts, MAX_RECONNECT_DELAY_MS);
+        this.attempts++;
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = null;
+            this.connect();
+        }, delay);
+        this.reconnectTimer.unref();
+    }
+}
@@ -9,9 +9,52 @@ const apiKeySchema = z.object({
     name: z.string(),
     key: z.string(),
     scopes: z.array(z.string()),
+    guildIds: z.array(z.string()).optional(),
+    channelIds: z.array(z.string()).optional(),
+    // Overrides of the default mention policy for this key
+    mentions: z.object({
+        everyone: z.boolean().optional(),
+        roles: z.boolean().optional(),
+    }).optional(),
     createdAt: z.coerce.date().optional(),
+    notBefore: z.coerce.date().optional(),
+    expiresAt: z.coerce.date().optional(),
 });
 
+// Schema for a rate limit rule applied to a group of routes
+const rateLimitRuleSchema = z.object({
+    id: z.string(),
+    // Routes requiring any of these scopes
+    scopes: z.array(z.string()).optional(),
+    // Routes as "METHOD /path" using the paths from ROUTE_SCOPES
+    routes: z.array(z.string()).optional(),
+    windowMs: z.number().int().positive(),
+    maxRequests: z.number().int().positive(),
+});
+
+export type RateLimitRuleConfig = z.infer<typeof rateLimitRuleSchema>;
+
+// Tighter limits for destructive routes, used unless RATE_LIMIT_RULES is set
+const DEFAULT_RATE_LIMIT_RULES: RateLimitRuleConfig[] = [
+    {
+        id: 'moderation',
+        routes: [
+            'POST /api/guilds/:guildId/members/:userId/kick',
+            'POST /api/guilds/:guildId/members/:userId/ban',
+            'DELETE /api/guilds/:guildId/members/bans/:userId',
+            'POST /api/guilds/:guildId/members/:userId/timeout',
+        ],
+        windowMs: 60000,
+        maxRequests: 10,
+    },
+    {
+        id: 'bulk-delete',
+        routes: ['POST /api/channels/:channelId/messages/bulk-delete'],
+        windowMs: 60000,
+        maxRequests: 5,
+    },
+];
+
 export const configSchema = z.object({
     discord: z.object({
         token: z.string().min(1, 'Discord token is required'),
@@ -23,7 +66,29 @@ export const configSchema = z.object({
         apiKey: z.string().min(1, 'API key is required'),
         // New: Multiple API keys with scopes
         apiKeys: z.array(apiKeySchema).default([]),
+        // File where keys created through /api/keys are persisted (hashed)
+        keyStoreFile: z.string().default('data/api-keys.json'),
+        // Secret for signing short-lived tokens (random per process if unset)
+        tokenSecret: z.string().min(32, 'TOKEN_SECRET must be at least 32 characters').optional(),
+        // Upper bound for the lifetime of signed tokens, in seconds
+        tokenMaxTtl: z.number().int().positive().default(3600),
+        // Express "trust proxy" setting: false, true, a hop count or a list of trusted addresses
+        trustProxy: z.union([z.boolean(), z.number().int().nonnegative(), z.string()]).default(false),
     }),
+    oauth: z.object({
+        // Discord application credentials; login is disabled unless all three are set
+        clientId: z.string().optional(),
+        clientSecret: z.string().optional(),
+        redirectUri: z.string().url().optional(),
+        // Discord endpoints (overridable so tests can point at a local stub)
+        authorizeUrl: z.string().url().default('https://discord.com/oauth2/authorize'),
+        tokenUrl: z.string().url().default('https://discord.com/api/oauth2/token'),
+        apiBaseUrl: z.string().url().default('https://discord.com/api/v10'),
+        // Where to send the browser after a successful login (JSON response if unset)
+        successRedirect: z.string().optional(),
+        // Session lifetime in seconds
+        sessionTtl: z.number().int().positive().default(28800),
+    }).default({}),
     plugins: z.object({
         enabled: z.boolean().default(true),
         directory: z.string().default('plugins'),
@@ -32,7 +97,78 @@ export const configSchema = z.object({
         enabled: z.boolean().default(true),
         windowMs: z.number().default(60000), // 1 minute
         maxRequests: z.number().default(100), // 100 requests per minute
+        ipMaxRequests: z.number().default(300), // per client IP, checked before authentication
+        rules: z.array(rateLimitRuleSchema).default(DEFAULT_RATE_LIMIT_RULES),
     }),
+    eventLog: z.object({
+        file: z.string().default('data/events.log'), // Empty keeps the log in memory only
+        maxEvents: z.number().int().nonnegative().default(10000),
+        maxAge: z.number().int().positive().default(86400), // Seconds
+    }).default({}),
+    eventWebhooks: z.object({
+        file: z.string().default('data/event-webhooks.json'),
+        maxAttempts: z.number().int().positive().default(5),
+        retryBaseMs: z.number().int().positive().default(1000), // Doubled for each retry
+        timeoutMs: z.number().int().positive().default(10000),
+        maxDeadLetters: z.number().int().nonnegative().default(1000),
+        concurrency: z.number().int().positive().default(5), // Per webhook
+        maxPending: z.number().int().nonnegative().default(1000), // Per webhook
+    }).default({}),
+    scheduledMessages: z.object({
+        file: z.string().default('data/scheduled-messages.json'),
+        maxPerKey: z.number().int().positive().default(100), // Pending schedules per API key
+    }).default({}),
+    discordQueue: z.object({
+        concurrency: z.number().int().positive().default(10), // Discord calls in flight at once
+        maxPendingPerKey: z.number().int().positive().default(25), // Running + queued per API key
+    }).default({}),
+    uploads: z.object({
+        maxFileSize: z.number().int().positive().default(10 * 1024 * 1024), // Bytes per file
+        maxFiles: z.number().int().min(1).max(10).default(10), // Files per message (Discord allows 10)
+        // Content types accepted, e.g. "image/*" or "text/plain"; empty accepts any
+        allowedTypes: z.array(z.string()).default([]),
+    }).default({}),
+    mentions: z.object({
+        // Let @everyone/@here and role mentions ping when a request does not set allowedMentions
+        allowEveryone: z.boolean().default(false),
+        allowRoles: z.boolean().default(false),
+    }).default({}),
+    compression: z.object({
+        // Offer per-message deflate on Socket.IO and /ws (clients opt in during the handshake)
+        enabled: z.boolean().default(true),
+        // Messages smaller than this many bytes are sent uncompressed
+        threshold: z.number().int().nonnegative().default(1024),
+    }).default({}),
+    backpressure: z.object({
+        // Events written to a connection but not yet flushed to the network
+        maxUnflushed: z.number().int().positive().default(100),
+        // Events held per connection once maxUnflushed is reached
+        maxQueued: z.number().int().nonnegative().default(1000),
+        // What to do when a connection's queue is full
+        policy: z.enum(['drop-oldest', 'drop-priority', 'disconnect']).default('drop-oldest'),
+        // Events dropped first (low) and last (high) by the drop-priority policy
+        lowPriorityEvents: z.array(z.string()).default(['typingStart', 'presenceUpdate']),
+        highPriorityEvents: z.array(z.string()).default(['interactionCreate']),
+    }).default({}),
+    cluster: z.object({
+        // standalone: one process does everything; gateway: owns the Discord connection
+        // and serves API nodes; api: stateless front-end that relays to the gateway
+        role: z.enum(['standalone', 'gateway', 'api']).default('standalone'),
+        // Shared secret API nodes present to the gateway
+        secret: z.string().min(32, 'CLUSTER_SECRET must be at least 32 characters').optional(),
+        // Base URL of the gateway's HTTP server, used by API nodes
+        gatewayUrl: z.string().url().optional(),
+        requestTimeoutMs: z.number().int().positive().default(15000),
+        directoryRefresh: z.number().int().positive().default(300), // Seconds between guild/channel refreshes
+    }).default({})
+        .refine((cluster) => cluster.role === 'standalone' || cluster.secret, {
+            message: 'CLUSTER_SECRET is required for the gateway and api roles',
+            path: ['secret'],
+        })
+        .refine((cluster) => cluster.role !== 'api' || cluster.gatewayUrl, {
+            message: 'CLUSTER_GATEWAY_URL is required for the api role',
+            path: ['gatewayUrl'],
+        }),
     debug: z.boolean().default(false),
 });
 
@@ -49,6 +185,20 @@ function loadConfig(): Config {
             apiKey: process.env['API_KEY'] ?? '',
             // API keys can be loaded from a JSON file or environment variable
             apiKeys: parseApiKeys(process.env['API_KEYS']),
+            keyStoreFile: process.env['API_KEYS_FILE'] ?? 'data/api-keys.json',
+            tokenSecret: process.env['TOKEN_SECRET'] || undefined,
+            tokenMaxTtl: parseInt(process.env['TOKEN_MAX_TTL'] ?? '3600', 10),
+            trustProxy: parseTrustProxy(process.env['TRUST_PROXY']),
+        },
+        oauth: {
+            clientId: process.env['DISCORD_CLIENT_ID'] || undefined,
+            clientSecret: process.env['DISCORD_CLIENT_SECRET'] || undefined,
+            redirectUri: process.env['DISCORD_REDIRECT_URI'] || undefined,
+            authorizeUrl: process.env['DISCORD_OAUTH_AUTHORIZE_URL'] || undefined,
+            tokenUrl: process.env['DISCORD_OAUTH_TOKEN_URL'] || undefined,
+            apiBaseUrl: process.env['DISCORD_API_BASE_URL'] || undefined,
+            successRedirect: process.env['OAUTH_SUCCESS_REDIRECT'] || undefined,
+            sessionTtl: parseInt(process.env['OAUTH_SESSION_TTL'] ?? '28800', 10),
         },
         plugins: {
             enabled: process.env['PLUGINS_ENABLED'] !== 'false',
@@ -58,6 +208,57 @@ function loadConfig(): Config {
             enabled: process.env['RATE_LIMIT_ENABLED'] !== 'false',
             windowMs: parseInt(process.env['RATE_LIMIT_WINDOW_MS'] ?? '60000', 10),
             maxRequests: parseInt(process.env['RATE_LIMIT_MAX'] ?? '100', 10),
+            ipMaxRequests: parseInt(process.env['RATE_LIMIT_IP_MAX'] ?? '300', 10),
+            rules: parseRateLimitRules(process.env['RATE_LIMIT_RULES']),
+        },
+        eventLog: {
+            file: process.env['EVENT_LOG_FILE'],
+            maxEvents: parseInt(process.env['EVENT_LOG_MAX_EVENTS'] ?? '10000', 10),
+            maxAge: parseInt(process.env['EVENT_LOG_MAX_AGE'] ?? '86400', 10),
+        },
+        eventWebhooks: {
+            file: process.env['EVENT_WEBHOOKS_FILE'] || undefined,
+            maxAttempts: parseInt(process.env['EVENT_WEBHOOK_MAX_ATTEMPTS'] ?? '5', 10),
+            retryBaseMs: parseInt(process.env['EVENT_WEBHOOK_RETRY_BASE_MS'] ?? '1000', 10),
+            timeoutMs: parseInt(process.env['EVENT_WEBHOOK_TIMEOUT_MS'] ?? '10000', 10),
+            maxDeadLetters: parseInt(process.env['EVENT_WEBHOOK_MAX_DEAD_LETTERS'] ?? '1000', 10),
+            concurrency: parseInt(process.env['EVENT_WEBHOOK_CONCURRENCY'] ?? '5', 10),
+            maxPending: parseInt(process.env['EVENT_WEBHOOK_MAX_PENDING'] ?? '1000', 10),
+        },
+        scheduledMessages: {
+            file: process.env['SCHEDULED_MESSAGES_FILE'] || undefined,
+            maxPerKey: parseInt(process.env['SCHEDULED_MESSAGES_MAX_PER_KEY'] ?? '100', 10),
+        },
+        discordQueue: {
+            concurrency: parseInt(process.env['DISCORD_QUEUE_CONCURRENCY'] ?? '10', 10),
+            maxPendingPerKey: parseInt(process.env['DISCORD_QUEUE_MAX_PER_KEY'] ?? '25', 10),
+        },
+        uploads: {
+            maxFileSize: parseInt(process.env['UPLOAD_MAX_FILE_SIZE'] ?? '10485760', 10),
+            maxFiles: parseInt(process.env['UPLOAD_MAX_FILES'] ?? '10', 10),
+            allowedTypes: parseList(process.env['UPLOAD_ALLOWED_TYPES']),
+        },
+        mentions: {
+            allowEveryone: process.env['MENTIONS_ALLOW_EVERYONE'] === 'true',
+            allowRoles: process.env['MENTIONS_ALLOW_ROLES'] === 'true',
+        },
+        compression: {
+            enabled: process.env['WS_COMPRESSION'] !== 'false',
+            threshold: parseInt(process.env['WS_COMPRESSION_THRESHOLD'] ?? '1024', 10),
+        },
+        backpressure: {
+            maxUnflushed: parseInt(process.env['BACKPRESSURE_MAX_UNFLUSHED'] ?? '100', 10),
+            maxQueued: parseInt(process.env['BACKPRESSURE_MAX_QUEUED'] ?? '1000', 10),
+            policy: process.env['BACKPRESSURE_POLICY'] || undefined,
+            lowPriorityEvents: parseList(process.env['BACKPRESSURE_LOW_PRIORITY_EVENTS']),
+            highPriorityEvents: parseList(process.env['BACKPRESSURE_HIGH_PRIORITY_EVENTS']),
+        },
+        cluster: {
+            role: process.env['CLUSTER_ROLE'] || undefined,
+            secret: process.env['CLUSTER_SECRET'] || undefined,
+            gatewayUrl: process.env['CLUSTER_GATEWAY_URL'] || undefined,
+            requestTimeoutMs: parseInt(process.env['CLUSTER_REQUEST_TIMEOUT_MS'] ?? '15000', 10),
+            directoryRefresh: parseInt(process.env['CLUSTER_DIRECTORY_REFRESH'] ?? '300', 10),
         },
         debug: process.env['DEBUG'] === 'true',
     };
@@ -75,6 +276,51 @@ function loadConfig(): Config {
     return result.data;
 }
 
+/**
+ * Parse TRUST_PROXY: "true"/"false", a number of hops, or a comma-separated list of addresses/subnets
+ */
+function parseTrustProxy(envVar: string | undefined): boolean | number | string {
+    if (!envVar || envVar === 'false') { return false; }
+    if (envVar === 'true') { return true; }
+    if (/^\d+$/.test(envVar)) { return parseInt(envVar, 10); }
+    return envVar;
+}
+
+/**
+ * Parse a comma-separated list. Unset falls back to the default; an empty value is an empty list.
+ */
+function parseList(envVar: string | undefined): string[] | undefined {
+    if (envVar === undefined) { return undefined; }
+    return envVar.split(',').map((item) => item.trim()).filter(Boolean);
+}
+
+/**
+ * Parse RATE_LIMIT_RULES environment variable (JSON array). Falls back to the default rules.
+ */
+function parseRateLimitRules(envVar: string | undefined): RateLimitRuleConfig[] | undefined {
+    if (!envVar) { return undefined; }
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(envVar);
+    } catch {
+        console.warn('⚠️ Failed to parse RATE_LIMIT_RULES env var as JSON. Using default rules.');
+        return undefined;
+    }
+
+    const result = z.array(rateLimitRuleSchema).safeParse(parsed);
+    if (!result.success) {
+        console.warn('⚠️ RATE_LIMIT_RULES validation failed:');
+        result.error.issues.forEach((issue) => {
+            console.warn(`  - ${issue.path.join('.')}: ${issue.message}`);
+        });
+        console.warn('Using default rules.');
+        return undefined;
+    }
+
+    return result.data;
+}
+
 /**
  * Parse API_KEYS environment variable (JSON array) with schema validation
  */
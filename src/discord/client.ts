@@ -4,6 +4,7 @@ import {
     Partials,
 } from 'discord.js';
 import { config } from '../config/index.js';
+import { discordRateLimits } from './ratelimits.js';
 
 // Create Discord client with ALL privileged intents for full API access
 export const discordClient = new Client({
@@ -59,6 +60,9 @@ discordClient.on('error', (error) => {
     console.error('❌ Discord client error:', error);
 });
 
+// Track Discord rate limit buckets for the outbound queue and /api/system/ratelimits
+discordRateLimits.attach(discordClient.rest);
+
 discordClient.on('warn', (warning) => {
     if (config.debug) {
         console.warn('⚠️ Discord warning:', warning);
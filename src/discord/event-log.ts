@@ -0,0 +1,275 @@
+import { appendFile, mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname, resolve } from 'path';
+import { config } from '../config/index.js';
+import type { DiscordEventPayload, SequencedEventPayload } from '../types/events.types.js';
+
+/** Appended lines tolerated beyond `maxEvents` before the file is rewritten */
+const MIN_COMPACT_SLACK = 100;
+
+/**
+ * Events missed by a client, as returned by {@link EventLog.since}.
+ */
+export interface EventReplay {
+    events: SequencedEventPayload[];
+    /** Sequence number of the newest logged event (0 if none yet) */
+    lastSeq: number;
+    /** True if events after the requested sequence were pruned, or the sequence is from a previous log */
+    gap: boolean;
+}
+
+/**
+ * The copy of an event that is kept once it has been delivered live. Interaction
+ * tokens let whoever holds them answer the interaction, and are of no use after it
+ * times out, so they are left out of what is stored and replayed.
+ */
+export function toStoredEvent(event: SequencedEventPayload): SequencedEventPayload {
+    if (event.event !== 'interactionCreate') {return event;}
+    return { ...event, data: { ...event.data, token: null } };
+}
+
+/**
+ * First line of the log file: the newest sequence number when it was written,
+ * which outlives the events themselves.
+ */
+interface EventLogHeader {
+    lastSeq: number;
+}
+
+export interface EventLogOptions {
+    /** JSON-lines file the log is persisted to; null keeps it in memory only */
+    filePath: string | null;
+    /** Events retained for replay. 0 disables replay (events are still numbered). */
+    maxEvents: number;
+    /** How long events are retained, in milliseconds */
+    maxAgeMs: number;
+}
+
+/**
+ * Bounded, append-only log of broadcast Discord events.
+ *
+ * Every event is given the next sequence number before it is delivered, so
+ * clients can ask for everything after the last sequence they processed.
+ * Retained events are kept in memory for replay and appended to a JSON-lines
+ * file so the log (and the sequence) survives restarts. The file is rewritten
+ * with only the retained events once it has grown well past `maxEvents`, after
+ * a header holding the newest sequence number, so numbering carries on even
+ * when every event has aged out.
+ * On cluster API nodes the log mirrors the gateway's instead (see {@link EventLog.record}).
+ */
+export class EventLog {
+    private events: SequencedEventPayload[] = [];
+    private seq = 0;
+    private fileLines = 0;
+    private writeQueue: Promise<void> = Promise.resolve();
+
+    constructor(private readonly options: EventLogOptions) {}
+
+    /**
+     * Load persisted events from disk. A missing file is created empty.
+     */
+    async load(): Promise<void> {
+        if (!this.options.filePath) {return;}
+
+        let raw: string;
+        try {
+            raw = await readFile(this.options.filePath, 'utf8');
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                await this.compact();
+                return;
+            }
+            throw error;
+        }
+
+        let skipped = 0;
+        let headerSeq = 0;
+        for (const line of raw.split('\n')) {
+            if (!line.trim()) {continue;}
+
+            let event: SequencedEventPayload | EventLogHeader;
+            try {
+                event = JSON.parse(line) as SequencedEventPayload | EventLogHeader;
+            } catch {
+                skipped++;
+                continue;
+            }
+            if ('lastSeq' in event && typeof event.lastSeq === 'number') {
+                headerSeq = Math.max(headerSeq, event.lastSeq);
+                continue;
+            }
+            if (!('seq' in event) || typeof event.seq !== 'number' || event.seq <= this.seq) {
+                skipped++;
+                continue;
+            }
+
+            // Logs written by earlier versions may still hold interaction tokens
+            this.events.push(toStoredEvent(event));
+            this.seq = event.seq;
+        }
+        this.seq = Math.max(this.seq, headerSeq);
+
+        if (skipped > 0) {
+            console.warn(`⚠️ Skipped ${skipped} unreadable line(s) in event log ${this.options.filePath}`);
+        }
+
+        this.prune();
+        await this.compact();
+    }
+
+    /**
+     * Number an event and add it to the log. The returned event is the one to
+     * deliver live; the log keeps its {@link toStoredEvent} copy.
+     */
+    append(payload: DiscordEventPayload, now: Date = new Date()): SequencedEventPayload {
+        this.seq++;
+        const event = { ...payload, seq: this.seq, timestamp: now.toISOString() } as SequencedEventPayload;
+
+        if (this.options.maxEvents === 0) {
+            return event;
+        }
+
+        const stored = toStoredEvent(event);
+        this.events.push(stored);
+        this.prune(now);
+
+        if (this.options.filePath) {
+            this.fileLines++;
+            if (this.fileLines >= this.options.maxEvents + Math.max(this.options.maxEvents, MIN_COMPACT_SLACK)) {
+                void this.compact();
+            } else {
+                const line = `${JSON.stringify(stored)}\n`;
+                void this.enqueueWrite(() => appendFile(this.options.filePath as string, line, 'utf8'));
+            }
+        }
+
+        return event;
+    }
+
+    /**
+     * Add an event numbered elsewhere (by the cluster gateway). Mirrors are kept
+     * in memory only. A jump in the sequence drops the retained events, since
+     * they no longer lead up to the new one.
+     */
+    record(event: SequencedEventPayload, now: Date = new Date()): void {
+        if (event.seq !== this.seq + 1) {
+            this.events = [];
+        }
+        this.seq = event.seq;
+
+        if (this.options.maxEvents === 0) {return;}
+
+        this.events.push(toStoredEvent(event));
+        this.prune(now);
+    }
+
+    /**
+     * Add older events from the gateway's log in front of the retained ones.
+     * Returns false (and changes nothing) if they do not lead up to the oldest
+     * retained event.
+     */
+    prepend(events: SequencedEventPayload[], now: Date = new Date()): boolean {
+        const firstSeq = this.events[0]?.seq ?? Infinity;
+        const older = events.filter((event) => event.seq < firstSeq);
+        const newest = older[older.length - 1];
+        if (!newest) {return true;}
+
+        if (this.events.length > 0 && newest.seq !== firstSeq - 1) {
+            return false;
+        }
+
+        this.seq = Math.max(this.seq, newest.seq);
+        if (this.options.maxEvents === 0) {return true;}
+
+        this.events.unshift(...older);
+        this.prune(now);
+        return true;
+    }
+
+    /**
+     * Get the retained events after `lastSeq`, oldest first.
+     */
+    since(lastSeq: number, now: Date = new Date()): EventReplay {
+        this.prune(now);
+
+        // A sequence ahead of the log means it was reset (e.g. an in-memory log after a restart)
+        if (lastSeq > this.seq) {
+            return { events: [...this.events], lastSeq: this.seq, gap: true };
+        }
+
+        const events = this.events.filter((event) => event.seq > lastSeq);
+        const firstSeq = events[0]?.seq ?? this.seq + 1;
+
+        return { events, lastSeq: this.seq, gap: firstSeq > lastSeq + 1 };
+    }
+
+    /**
+     * Sequence number of the newest event (0 if none yet).
+     */
+    get lastSeq(): number {
+        return this.seq;
+    }
+
+    /**
+     * Number of events retained for replay.
+     */
+    get size(): number {
+        return this.events.length;
+    }
+
+    /**
+     * Wait for pending writes to reach the disk.
+     */
+    async flush(): Promise<void> {
+        await this.writeQueue;
+    }
+
+    /**
+     * Drop events beyond `maxEvents` or older than `maxAgeMs`.
+     */
+    private prune(now: Date = new Date()): void {
+        const excess = this.events.length - this.options.maxEvents;
+        if (excess > 0) {
+            this.events.splice(0, excess);
+        }
+
+        const cutoff = now.getTime() - this.options.maxAgeMs;
+        const firstKept = this.events.findIndex((event) => Date.parse(event.timestamp) >= cutoff);
+        this.events.splice(0, firstKept === -1 ? this.events.length : firstKept);
+    }
+
+    /**
+     * Rewrite the file with the header and the retained events. Atomic (write + rename).
+     */
+    private compact(): Promise<void> {
+        const filePath = this.options.filePath;
+        if (!filePath) {return Promise.resolve();}
+
+        const header: EventLogHeader = { lastSeq: this.seq };
+        const contents = [header, ...this.events].map((line) => `${JSON.stringify(line)}\n`).join('');
+        this.fileLines = this.events.length;
+
+        return this.enqueueWrite(async () => {
+            const tmpPath = `${filePath}.tmp`;
+            await mkdir(dirname(filePath), { recursive: true });
+            await writeFile(tmpPath, contents, 'utf8');
+            await rename(tmpPath, filePath);
+        });
+    }
+
+    /**
+     * Serialize writes so appends and rewrites never interleave.
+     */
+    private enqueueWrite(write: () => Promise<void>): Promise<void> {
+        this.writeQueue = this.writeQueue
+            .then(write)
+            .catch((error) => console.error('Failed to write event log:', error));
+        return this.writeQueue;
+    }
+}
+
+// Singleton instance (a memory-only mirror of the gateway's log on cluster API nodes)
+export const eventLog = new EventLog({
+    filePath: config.eventLog.file && config.cluster.role !== 'api' ? resolve(process.cwd(), config.eventLog.file) : null,
+    maxEvents: config.eventLog.maxEvents,
+    maxAgeMs: config.eventLog.maxAge * 1000,
+});
@@ -1,7 +1,6 @@
 import type { Server as SocketIOServer } from 'socket.io';
 import type { User, GuildScheduledEvent } from 'discord.js';
 import { discordClient } from '../client.js';
-import { handleInteractionCreate } from './interaction.js';
 import {
     serializeMessage,
     serializeMember,
@@ -25,12 +24,18 @@ import {
 } from '../serializers.js';
 import type {
     DiscordEventPayload,
+    SequencedEventPayload,
     ServerToClientEvents,
     ClientToServerEvents,
     InterServerEvents,
     SocketData,
 } from '../../types/events.types.js';
 import { config } from '../../config/index.js';
+import { eventLog } from '../event-log.js';
+import { eventWebhookDispatcher } from '../../api/event-webhooks/delivery.js';
+import { broadcastToEventStreams } from '../../api/streams/sse.js';
+import { broadcastToRawSockets } from '../../api/streams/ws.js';
+import { DM_ROOM, GLOBAL_ROOM, emitToRoom } from '../../api/websocket/events.js';
 
 let io: SocketIOServer<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData> | null = null;
 
@@ -45,26 +50,56 @@ export function setSocketServer(
 
 import { pluginManager } from '../../plugins/manager.js';
 
+let eventRelay: ((event: SequencedEventPayload) => void) | null = null;
+
 /**
- * Broadcast a Discord event to subscribed clients
+ * Pass every broadcast event to another consumer after local delivery
+ * (the cluster gateway publishes them to API nodes).
  */
-function broadcastEvent(payload: DiscordEventPayload): void {
-    if (!io) {return;}
+export function setEventRelay(relay: (event: SequencedEventPayload) => void): void {
+    eventRelay = relay;
+}
 
-    const guildId = payload.guildId;
-    if (guildId) {
-        // Broadcast to clients subscribed to this guild
-        io.to(`guild:${guildId}`).emit('discord', payload);
-    } else {
-        // Broadcast to all connected clients for DM/global events
-        io.emit('discord', payload);
+/**
+ * Socket.IO room an event is broadcast to
+ */
+function getEventRoom(event: DiscordEventPayload): string {
+    if (event.guildId) {return `guild:${event.guildId}`;}
+    return event.event === 'interactionCreate' ? DM_ROOM : GLOBAL_ROOM;
+}
+
+/**
+ * Send a numbered event to this process's Socket.IO, plain WebSocket and SSE clients
+ */
+export function deliverEvent(event: SequencedEventPayload): void {
+    if (io) {
+        // Guild events go to clients subscribed to the guild; DM/global events to clients
+        // whose key is not guild/channel-restricted. Subscription filters apply to both.
+        emitToRoom(io, getEventRoom(event), event);
     }
+    broadcastToRawSockets(event);
+    broadcastToEventStreams(event);
+}
+
+/**
+ * Broadcast a Discord or bridge event to subscribed clients
+ */
+export function broadcastEvent(payload: DiscordEventPayload): void {
+    if (!io) {return;}
+
+    // Number and log the event so disconnected clients can resume from it
+    const sequenced = eventLog.append(payload);
+    deliverEvent(sequenced);
+    eventRelay?.(sequenced);
+
+    // POST to registered event webhooks
+    eventWebhookDispatcher.dispatch(sequenced);
 
     // Notify plugins of this event
     void pluginManager.emit(payload.event, payload.data);
 
     if (config.debug) {
-        console.log(`📤 Broadcast event: ${payload.event}${guildId ? ` (guild: ${guildId})` : ''}`);
+        console.log(`📤 Broadcast event #${sequenced.seq}: ${payload.event}${payload.guildId ? ` (guild: ${payload.guildId})` : ''}`);
     }
 }
 
@@ -724,10 +759,10 @@ export function registerDiscordEvents(): void {
     // ========== INTERACTION EVENT ==========
 
     discordClient.on('interactionCreate', (interaction) => {
-        if (!io) {return;}
-        // Use specialized handler for full interaction support
-        handleInteractionCreate(interaction, io).catch((error) => {
-            console.error('❌ Error handling interaction:', error);
+        broadcastEvent({
+            event: 'interactionCreate',
+            guildId: interaction.guildId,
+            data: serializeInteraction(interaction),
         });
     });
 
@@ -0,0 +1,182 @@
+import { RESTEvents, type APIRequest, type RateLimitData, type REST, type ResponseLike } from 'discord.js';
+import { config } from '../config/index.js';
+
+/** Number of tracked buckets above which stale entries are pruned */
+const MAX_TRACKED_BUCKETS = 500;
+
+/**
+ * Last known state of a Discord rate limit bucket.
+ */
+export interface DiscordBucketState {
+    /** HTTP method and route, e.g. `POST /channels/123/messages` */
+    key: string;
+    /** Bucket hash reported by Discord, if seen */
+    bucket: string | null;
+    method: string;
+    route: string;
+    limit: number | null;
+    remaining: number | null;
+    /** When the bucket resets (ms since epoch) */
+    resetAt: number | null;
+    /** How many times requests on this route were rate limited */
+    limitedCount: number;
+    lastLimitedAt: number | null;
+}
+
+/**
+ * Snapshot of Discord rate limits as seen by the bridge.
+ */
+export interface DiscordRateLimitSnapshot {
+    global: {
+        limited: boolean;
+        resetAt: string | null;
+    };
+    buckets: (Omit<DiscordBucketState, 'resetAt' | 'lastLimitedAt'> & {
+        resetAt: string | null;
+        lastLimitedAt: string | null;
+    })[];
+}
+
+function toIso(timestamp: number | null): string | null {
+    return timestamp === null ? null : new Date(timestamp).toISOString();
+}
+
+function parseHeader(response: ResponseLike, name: string): number | null {
+    const value = response.headers.get(name);
+    if (value === null) {return null;}
+
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Tracks Discord route buckets and the global rate limit from the discord.js
+ * REST manager's `response` and `rateLimited` events.
+ */
+export class DiscordRateLimitTracker {
+    private buckets: Map<string, DiscordBucketState> = new Map();
+    private globalResetAt = 0;
+
+    /**
+     * Start listening to a REST manager.
+     */
+    attach(rest: REST): void {
+        rest.on(RESTEvents.Response, (request, response) => this.onResponse(request, response));
+        rest.on(RESTEvents.RateLimited, (info) => this.onRateLimited(info));
+    }
+
+    /**
+     * Milliseconds until the global rate limit lifts (0 if not limited).
+     */
+    getGlobalDelay(now: number = Date.now()): number {
+        return Math.max(0, this.globalResetAt - now);
+    }
+
+    /**
+     * Suggested wait, in seconds, before a caller retries: the global reset if
+     * limited, otherwise the soonest reset of an exhausted bucket (at least 1s).
+     */
+    getRetryAfter(now: number = Date.now()): number {
+        let delay = this.getGlobalDelay(now);
+        if (delay === 0) {
+            for (const state of this.buckets.values()) {
+                if (state.remaining === 0 && state.resetAt && state.resetAt > now) {
+                    delay = delay === 0 ? state.resetAt - now : Math.min(delay, state.resetAt - now);
+                }
+            }
+        }
+        return Math.max(1, Math.ceil(delay / 1000));
+    }
+
+    /**
+     * Current buckets, most recently limited first.
+     */
+    getSnapshot(now: number = Date.now()): DiscordRateLimitSnapshot {
+        this.prune(now);
+
+        const buckets = Array.from(this.buckets.values())
+            .sort((a, b) => (b.lastLimitedAt ?? 0) - (a.lastLimitedAt ?? 0))
+            .map((state) => ({
+                ...state,
+                resetAt: toIso(state.resetAt),
+                lastLimitedAt: toIso(state.lastLimitedAt),
+            }));
+
+        const limited = this.globalResetAt > now;
+        return {
+            global: { limited, resetAt: limited ? toIso(this.globalResetAt) : null },
+            buckets,
+        };
+    }
+
+    private getState(method: string, route: string): DiscordBucketState {
+        const key = `${method.toUpperCase()} ${route}`;
+        let state = this.buckets.get(key);
+        if (!state) {
+            if (this.buckets.size >= MAX_TRACKED_BUCKETS) {
+                this.prune(Date.now());
+            }
+            state = {
+                key,
+                bucket: null,
+                method: method.toUpperCase(),
+                route,
+                limit: null,
+                remaining: null,
+                resetAt: null,
+                limitedCount: 0,
+                lastLimitedAt: null,
+            };
+            this.buckets.set(key, state);
+        }
+        return state;
+    }
+
+    private onResponse(request: APIRequest, response: ResponseLike): void {
+        const limit = parseHeader(response, 'x-ratelimit-limit');
+        if (limit === null) {return;}
+
+        const state = this.getState(request.method, request.route);
+        const resetAfter = parseHeader(response, 'x-ratelimit-reset-after');
+        state.bucket = response.headers.get('x-ratelimit-bucket') ?? state.bucket;
+        state.limit = limit;
+        state.remaining = parseHeader(response, 'x-ratelimit-remaining');
+        state.resetAt = resetAfter === null ? null : Date.now() + resetAfter * 1000;
+    }
+
+    private onRateLimited(info: RateLimitData): void {
+        const now = Date.now();
+
+        if (info.global) {
+            this.globalResetAt = Math.max(this.globalResetAt, now + info.retryAfter);
+        }
+
+        const state = this.getState(info.method, info.route);
+        state.bucket = info.hash;
+        state.limit = info.limit;
+        state.remaining = 0;
+        state.resetAt = now + info.timeToReset;
+        state.limitedCount++;
+        state.lastLimitedAt = now;
+
+        if (config.debug) {
+            console.warn(`⏳ Discord rate limit (${info.scope}) on ${state.key}, retry in ${info.retryAfter}ms`);
+        }
+    }
+
+    /**
+     * Drop buckets that have reset and were never rate limited, or were last limited long ago.
+     */
+    private prune(now: number): void {
+        for (const [key, state] of this.buckets) {
+            const reset = state.resetAt === null || state.resetAt < now;
+            const stale = state.lastLimitedAt === null || now - state.lastLimitedAt > 10 * 60 * 1000;
+            if (reset && stale) {
+                this.buckets.delete(key);
+            }
+        }
+    }
+}
+
+// Singleton instance
+export const discordRateLimits = new DiscordRateLimitTracker();
@@ -0,0 +1,167 @@
+import { config } from '../config/index.js';
+import { discordRateLimits, type DiscordRateLimitTracker } from './ratelimits.js';
+
+/**
+ * Priority of a queued request. Higher priorities are dispatched first;
+ * requests of the same priority are dispatched in arrival order.
+ */
+export type RequestPriority = 'high' | 'normal' | 'low';
+
+export const REQUEST_PRIORITIES: readonly RequestPriority[] = ['high', 'normal', 'low'];
+
+/**
+ * A place in the queue. `ready` resolves when the request may run; `release`
+ * must be called when it finishes (or to give up a place that has not started).
+ */
+export interface QueueSlot {
+    ready: Promise<void>;
+    release: () => void;
+}
+
+/**
+ * Queue statistics, as reported by `/api/system/ratelimits`.
+ */
+export interface QueueStats {
+    concurrency: number;
+    maxPendingPerOwner: number;
+    active: number;
+    queued: Record<RequestPriority, number>;
+    pausedUntil: string | null;
+}
+
+interface QueueOptions {
+    /** Requests allowed to run at the same time */
+    concurrency: number;
+    /** Requests (running or queued) allowed per owner */
+    maxPendingPerOwner: number;
+}
+
+interface QueueEntry {
+    ownerId: string;
+    start: () => void;
+}
+
+/**
+ * Outbound scheduler for requests that call Discord.
+ *
+ * Limits how many requests run at once, dispatches by priority, holds everything
+ * while Discord's global rate limit is in effect, and caps how many requests each
+ * owner (API key) may have pending so one caller's fan-out cannot starve the rest.
+ */
+export class DiscordRequestQueue {
+    private active = 0;
+    private queues: Record<RequestPriority, QueueEntry[]> = { high: [], normal: [], low: [] };
+    private pendingByOwner: Map<string, number> = new Map();
+    private resumeTimer: NodeJS.Timeout | null = null;
+
+    constructor(
+        private readonly options: QueueOptions,
+        private readonly rateLimits: DiscordRateLimitTracker = discordRateLimits
+    ) {}
+
+    /**
+     * Take a place in the queue, or return null if the owner already has
+     * `maxPendingPerOwner` requests pending.
+     */
+    enqueue(ownerId: string, priority: RequestPriority = 'normal'): QueueSlot | null {
+        const pending = this.pendingByOwner.get(ownerId) ?? 0;
+        if (pending >= this.options.maxPendingPerOwner) {
+            return null;
+        }
+        this.pendingByOwner.set(ownerId, pending + 1);
+
+        let started = false;
+        let released = false;
+        let entry: QueueEntry | undefined;
+
+        const ready = new Promise<void>((resolve) => {
+            entry = {
+                ownerId,
+                start: () => {
+                    started = true;
+                    this.active++;
+                    resolve();
+                },
+            };
+            this.queues[priority].push(entry);
+        });
+
+        const release = (): void => {
+            if (released) {return;}
+            released = true;
+
+            if (started) {
+                this.active--;
+            } else {
+                const queue = this.queues[priority];
+                const index = entry ? queue.indexOf(entry) : -1;
+                if (index !== -1) {
+                    queue.splice(index, 1);
+                }
+            }
+
+            const remaining = (this.pendingByOwner.get(ownerId) ?? 1) - 1;
+            if (remaining > 0) {
+                this.pendingByOwner.set(ownerId, remaining);
+            } else {
+                this.pendingByOwner.delete(ownerId);
+            }
+
+            this.dispatch();
+        };
+
+        this.dispatch();
+        return { ready, release };
+    }
+
+    /**
+     * Suggested wait, in seconds, for a caller whose queue is full.
+     */
+    getRetryAfter(): number {
+        return this.rateLimits.getRetryAfter();
+    }
+
+    getStats(): QueueStats {
+        const delay = this.rateLimits.getGlobalDelay();
+        return {
+            concurrency: this.options.concurrency,
+            maxPendingPerOwner: this.options.maxPendingPerOwner,
+            active: this.active,
+            queued: {
+                high: this.queues.high.length,
+                normal: this.queues.normal.length,
+                low: this.queues.low.length,
+            },
+            pausedUntil: delay > 0 ? new Date(Date.now() + delay).toISOString() : null,
+        };
+    }
+
+    /**
+     * Start queued requests while there is capacity and no global rate limit.
+     */
+    private dispatch(): void {
+        const delay = this.rateLimits.getGlobalDelay();
+        if (delay > 0) {
+            if (!this.resumeTimer) {
+                this.resumeTimer = setTimeout(() => {
+                    this.resumeTimer = null;
+                    this.dispatch();
+                }, delay);
+                this.resumeTimer.unref();
+            }
+            return;
+        }
+
+        while (this.active < this.options.concurrency) {
+            const next = REQUEST_PRIORITIES.map((priority) => this.queues[priority]).find((queue) => queue.length > 0)?.shift();
+            if (!next) {return;}
+            next.start();
+        }
+    }
+}
+
+// Singleton instance
+export const discordRequestQueue = new DiscordRequestQueue({
+    concurrency: config.discordQueue.concurrency,
+    maxPendingPerOwner: config.discordQueue.maxPendingPerKey,
+});
@@ -326,11 +326,15 @@ import type {
     Invite,
     GuildAuditLogsEntry,
     Interaction,
+    CommandInteractionOption,
+    CommandInteractionResolvedData,
+    ModalSubmitInteraction,
     Entitlement,
     GuildEmoji,
     Webhook,
 } from 'discord.js';
 import {
+    BaseChannel,
     AutoModerationRuleTriggerType,
     AutoModerationActionType,
     GuildScheduledEventStatus,
@@ -350,9 +354,12 @@ import type {
     SerializedInvite,
     SerializedAuditLogEntry,
     SerializedInteraction,
+    SerializedCommandOption,
+    SerializedInteractionResolved,
     SerializedEntitlement,
     SerializedWebhook,
 } from '../types/discord.types.js';
+import type { InteractionEventData } from '../types/events.types.js';
 
 const stickerFormatNames: Record<StickerFormatType, string> = {
     [StickerFormatType.PNG]: 'png',
@@ -577,8 +584,54 @@ export function serializeAuditLogEntry(entry: GuildAuditLogsEntry): SerializedAu
     };
 }
 
-export function serializeInteraction(interaction: Interaction): SerializedInteraction {
-    const base: SerializedInteraction = {
+function serializeCommandOptions(options: readonly CommandInteractionOption[]): SerializedCommandOption[] {
+    return options.map(option => ({
+        name: option.name,
+        type: option.type,
+        value: option.value ?? null,
+        focused: option.focused ?? false,
+        options: option.options ? serializeCommandOptions(option.options) : null,
+    }));
+}
+
+function serializeInteractionResolved(
+    resolved: Readonly<CommandInteractionResolvedData> | null
+): SerializedInteractionResolved | null {
+    if (!resolved) {return null;}
+
+    const result: SerializedInteractionResolved = { users: {}, members: {}, roles: {}, channels: {}, messages: {}, attachments: {} };
+    resolved.users?.forEach((user, id) => {
+        result.users[id] = serializeUser(user);
+    });
+    // Members, roles, channels and messages Discord sends without them being cached are raw API objects, which are skipped
+    resolved.members?.forEach((member, id) => {
+        if (member instanceof GuildMember) {result.members[id] = serializeMember(member);}
+    });
+    resolved.roles?.forEach((role, id) => {
+        if (role instanceof Role) {result.roles[id] = serializeRole(role);}
+    });
+    resolved.channels?.forEach((channel, id) => {
+        if (channel instanceof BaseChannel) {result.channels[id] = serializeChannel(channel);}
+    });
+    resolved.messages?.forEach((message, id) => {
+        if (message instanceof Message) {result.messages[id] = serializeMessage(message);}
+    });
+    resolved.attachments?.forEach((attachment, id) => {
+        result.attachments[id] = serializeAttachment(attachment);
+    });
+    return result;
+}
+
+function serializeModalFields(interaction: ModalSubmitInteraction): Record<string, string | string[]> {
+    const fields: Record<string, string | string[]> = {};
+    interaction.fields.fields.forEach((field, customId) => {
+        fields[customId] = 'value' in field ? field.value : [...field.values];
+    });
+    return fields;
+}
+
+export function serializeInteraction(interaction: Interaction): InteractionEventData {
+    const base: Omit<SerializedInteraction, 'kind'> = {
         id: interaction.id,
         type: interaction.type,
         typeName: interactionTypeNames[interaction.type] ?? 'unknown',
@@ -597,35 +650,76 @@ export function serializeInteraction(interaction: Interaction): SerializedIntera
         componentType: null,
         values: null,
         targetId: null,
+        options: null,
+        resolved: null,
+        fields: null,
         locale: interaction.locale,
         guildLocale: interaction.guildLocale ?? null,
         createdAt: interaction.createdAt.toISOString(),
     };
 
-    if (interaction.isCommand()) {
-        base.commandName = interaction.commandName;
-        base.commandId = interaction.commandId;
-        base.commandType = interaction.commandType;
+    if (interaction.isChatInputCommand()) {
+        return {
+            ...base,
+            kind: 'chatInput',
+            commandName: interaction.commandName,
+            commandId: interaction.commandId,
+            commandType: interaction.commandType,
+            options: serializeCommandOptions(interaction.options.data),
+            resolved: serializeInteractionResolved(interaction.options.resolved),
+        };
     }
 
-    if (interaction.isMessageComponent()) {
-        base.customId = interaction.customId;
-        base.componentType = interaction.componentType;
+    if (interaction.isContextMenuCommand()) {
+        return {
+            ...base,
+            kind: interaction.isUserContextMenuCommand() ? 'userContextMenu' : 'messageContextMenu',
+            commandName: interaction.commandName,
+            commandId: interaction.commandId,
+            commandType: interaction.commandType,
+            targetId: interaction.targetId,
+            resolved: serializeInteractionResolved(interaction.options.resolved),
+        };
     }
 
-    if (interaction.isAnySelectMenu()) {
-        base.values = interaction.values;
+    if (interaction.isPrimaryEntryPointCommand()) {
+        return {
+            ...base,
+            kind: 'primaryEntryPoint',
+            commandName: interaction.commandName,
+            commandId: interaction.commandId,
+            commandType: interaction.commandType,
+        };
     }
 
-    if (interaction.isContextMenuCommand()) {
-        base.targetId = interaction.targetId;
+    if (interaction.isAutocomplete()) {
+        return {
+            ...base,
+            kind: 'autocomplete',
+            commandName: interaction.commandName,
+            commandId: interaction.commandId,
+            commandType: interaction.commandType,
+            options: serializeCommandOptions(interaction.options.data),
+        };
     }
 
-    if (interaction.isModalSubmit()) {
-        base.customId = interaction.customId;
+    if (interaction.isMessageComponent()) {
+        return {
+            ...base,
+            kind: interaction.isAnySelectMenu() ? 'selectMenu' : 'button',
+            customId: interaction.customId,
+            componentType: interaction.componentType,
+            values: interaction.isAnySelectMenu() ? interaction.values : null,
+        };
     }
 
-    return base;
+    return {
+        ...base,
+        kind: 'modalSubmit',
+        customId: interaction.customId,
+        fields: serializeModalFields(interaction),
+        resolved: serializeInteractionResolved(interaction.fields.resolved),
+    };
 }
 
 export function serializeEntitlement(entitlement: Entitlement): SerializedEntitlement {
@@ -2,6 +2,7 @@ import { discordClient } from '../client.js';
 import { serializeAutoModRule } from '../serializers.js';
 import type { SerializedAutoModRule } from '../../types/discord.types.js';
 import type { AutoModerationRuleCreateOptions, AutoModerationRuleEditOptions } from 'discord.js';
+import { ApiError } from '../../api/middleware/errorHandler.js';
 
 export class AutoModService {
     /**
@@ -9,77 +10,74 @@ export class AutoModService {
      */
     async getAutoModRules(guildId: string): Promise<SerializedAutoModRule[]> {
         const guild = discordClient.guilds.cache.get(guildId);
-        if (!guild) {return [];}
+        if (!guild) {throw ApiError.notFound('Guild not found', 'GUILD_NOT_FOUND');}
 
         try {
             const rules = await guild.autoModerationRules.fetch();
             return rules.map(serializeAutoModRule);
         } catch (error) {
-            console.error(`Failed to fetch auto-moderation rules for guild ${guildId}:`, error);
-            return [];
+            throw ApiError.fromDiscord(error);
         }
     }
 
     /**
      * Get a specific auto-moderation rule
      */
-    async getAutoModRule(guildId: string, ruleId: string): Promise<SerializedAutoModRule | null> {
+    async getAutoModRule(guildId: string, ruleId: string): Promise<SerializedAutoModRule> {
         const guild = discordClient.guilds.cache.get(guildId);
-        if (!guild) {return null;}
+        if (!guild) {throw ApiError.notFound('Guild not found', 'GUILD_NOT_FOUND');}
 
         try {
             const rule = await guild.autoModerationRules.fetch(ruleId);
             return serializeAutoModRule(rule);
-        } catch {
-            return null;
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 
     /**
      * Create a new auto-moderation rule
      */
-    async createAutoModRule(guildId: string, data: AutoModerationRuleCreateOptions): Promise<SerializedAutoModRule | null> {
+    async createAutoModRule(guildId: string, data: AutoModerationRuleCreateOptions): Promise<SerializedAutoModRule> {
         const guild = discordClient.guilds.cache.get(guildId);
-        if (!guild) {return null;}
+        if (!guild) {throw ApiError.notFound('Guild not found', 'GUILD_NOT_FOUND');}
 
         try {
             const rule = await guild.autoModerationRules.create(data);
             return serializeAutoModRule(rule);
         } catch (error) {
-            console.error(`Failed to create auto-moderation rule in guild ${guildId}:`, error);
-            return null;
+            throw ApiError.fromDiscord(error);
         }
     }
 
     /**
      * Edit an auto-moderation rule
      */
-    async editAutoModRule(guildId: string, ruleId: string, data: AutoModerationRuleEditOptions): Promise<SerializedAutoModRule | null> {
+    async editAutoModRule(guildId: string, ruleId: string, data: AutoModerationRuleEditOptions): Promise<SerializedAutoModRule> {
         const guild = discordClient.guilds.cache.get(guildId);
-        if (!guild) {return null;}
+        if (!guild) {throw ApiError.notFound('Guild not found', 'GUILD_NOT_FOUND');}
 
         try {
             const rule = await guild.autoModerationRules.fetch(ruleId);
             const updated = await rule.edit(data);
             return serializeAutoModRule(updated);
-        } catch {
-            return null;
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 
     /**
      * Delete an auto-moderation rule
      */
-    async deleteAutoModRule(guildId: string, ruleId: string): Promise<boolean> {
+    async deleteAutoModRule(guildId: string, ruleId: string): Promise<void> {
         const guild = discordClient.guilds.cache.get(guildId);
-        if (!guild) {return false;}
+        if (!guild) {throw ApiError.notFound('Guild not found', 'GUILD_NOT_FOUND');}
 
         try {
             const rule = await guild.autoModerationRules.fetch(ruleId);
             await rule.delete();
-            return true;
-        } catch {
-            return false;
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 }
@@ -3,6 +3,7 @@ import { discordClient } from '../client.js';
 import { serializeChannel } from '../serializers.js';
 import type { SerializedChannel } from '../../types/discord.types.js';
 import type { CreateChannelInput, EditChannelInput, CreateThreadInput } from '../../types/api.types.js';
+import { ApiError } from '../../api/middleware/errorHandler.js';
 
 // Map API channel type strings to Discord.js ChannelType
 function getChannelType(type: CreateChannelInput['type']): ChannelType {
@@ -20,22 +21,22 @@ export class ChannelService {
     /**
      * Get a channel by ID
      */
-    async getChannel(channelId: string): Promise<SerializedChannel | null> {
+    async getChannel(channelId: string): Promise<SerializedChannel> {
         try {
             const channel = await discordClient.channels.fetch(channelId);
-            if (!channel) {return null;}
+            if (!channel) {throw ApiError.notFound('Channel not found', 'CHANNEL_NOT_FOUND');}
             return serializeChannel(channel);
-        } catch {
-            return null;
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 
     /**
      * Create a new channel in a guild
      */
-    async createChannel(guildId: string, input: CreateChannelInput): Promise<SerializedChannel | null> {
+    async createChannel(guildId: string, input: CreateChannelInput): Promise<SerializedChannel> {
         const guild = discordClient.guilds.cache.get(guildId);
-        if (!guild) {return null;}
+        if (!guild) {throw ApiError.notFound('Guild not found', 'GUILD_NOT_FOUND');}
 
         try {
             // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -63,18 +64,18 @@ export class ChannelService {
             const channel = await guild.channels.create(options);
             return serializeChannel(channel);
         } catch (error) {
-            console.error('Failed to create channel:', error);
-            return null;
+            throw ApiError.fromDiscord(error);
         }
     }
 
     /**
      * Edit a channel
      */
-    async editChannel(channelId: string, input: EditChannelInput): Promise<SerializedChannel | null> {
+    async editChannel(channelId: string, input: EditChannelInput): Promise<SerializedChannel> {
         try {
             const channel = await discordClient.channels.fetch(channelId);
-            if (!channel || !('edit' in channel)) {return null;}
+            if (!channel) {throw ApiError.notFound('Channel not found', 'CHANNEL_NOT_FOUND');}
+            if (!('edit' in channel)) {throw ApiError.badRequest('Channel type does not support this action', 'INVALID_CHANNEL_TYPE');}
 
             // eslint-disable-next-line @typescript-eslint/no-explicit-any
             const guildChannel = channel as any;
@@ -89,66 +90,66 @@ export class ChannelService {
                 userLimit: input.userLimit,
             });
             return serializeChannel(edited as Channel);
-        } catch {
-            return null;
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 
     /**
      * Delete a channel
      */
-    async deleteChannel(channelId: string, reason?: string): Promise<boolean> {
+    async deleteChannel(channelId: string, reason?: string): Promise<void> {
         try {
             const channel = await discordClient.channels.fetch(channelId);
-            if (!channel || !('delete' in channel)) {return false;}
+            if (!channel) {throw ApiError.notFound('Channel not found', 'CHANNEL_NOT_FOUND');}
+            if (!('delete' in channel)) {throw ApiError.badRequest('Channel type does not support this action', 'INVALID_CHANNEL_TYPE');}
 
             // eslint-disable-next-line @typescript-eslint/no-explicit-any
             await (channel as any).delete(reason);
-            return true;
-        } catch {
-            return false;
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 
     /**
      * Set channel position
      */
-    async setChannelPosition(channelId: string, position: number): Promise<boolean> {
+    async setChannelPosition(channelId: string, position: number): Promise<void> {
         try {
             const channel = await discordClient.channels.fetch(channelId);
-            if (!channel || !('setPosition' in channel)) {return false;}
+            if (!channel) {throw ApiError.notFound('Channel not found', 'CHANNEL_NOT_FOUND');}
+            if (!('setPosition' in channel)) {throw ApiError.badRequest('Channel type does not support this action', 'INVALID_CHANNEL_TYPE');}
 
             // eslint-disable-next-line @typescript-eslint/no-explicit-any
             await (channel as any).setPosition(position);
-            return true;
-        } catch {
-            return false;
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 
     /**
      * Move channel to a category
      */
-    async setChannelParent(channelId: string, parentId: string | null): Promise<boolean> {
+    async setChannelParent(channelId: string, parentId: string | null): Promise<void> {
         try {
             const channel = await discordClient.channels.fetch(channelId);
-            if (!channel || !('setParent' in channel)) {return false;}
+            if (!channel) {throw ApiError.notFound('Channel not found', 'CHANNEL_NOT_FOUND');}
+            if (!('setParent' in channel)) {throw ApiError.badRequest('Channel type does not support this action', 'INVALID_CHANNEL_TYPE');}
 
             // eslint-disable-next-line @typescript-eslint/no-explicit-any
             await (channel as any).setParent(parentId);
-            return true;
-        } catch {
-            return false;
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 
     /**
      * Create a thread from a message or in a channel
      */
-    async createThread(channelId: string, input: CreateThreadInput, messageId?: string): Promise<SerializedChannel | null> {
+    async createThread(channelId: string, input: CreateThreadInput, messageId?: string): Promise<SerializedChannel> {
         try {
             const channel = await discordClient.channels.fetch(channelId);
-            if (!channel) {return null;}
+            if (!channel) {throw ApiError.notFound('Channel not found', 'CHANNEL_NOT_FOUND');}
 
             // Thread from message
             if (messageId && 'messages' in channel) {
@@ -177,9 +178,9 @@ export class ChannelService {
                 return serializeChannel(thread as Channel);
             }
 
-            return null;
-        } catch {
-            return null;
+            throw ApiError.badRequest('Channel type does not support threads', 'INVALID_CHANNEL_TYPE');
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 
@@ -189,61 +190,63 @@ export class ChannelService {
     async getThreads(channelId: string): Promise<SerializedChannel[]> {
         try {
             const channel = await discordClient.channels.fetch(channelId);
-            if (!channel || !('threads' in channel)) {return [];}
+            if (!channel) {throw ApiError.notFound('Channel not found', 'CHANNEL_NOT_FOUND');}
+            if (!('threads' in channel)) {throw ApiError.badRequest('Channel type does not support this action', 'INVALID_CHANNEL_TYPE');}
 
             // eslint-disable-next-line @typescript-eslint/no-explicit-any
             const threadableChannel = channel as any;
             const threads = await threadableChannel.threads.fetch();
             // eslint-disable-next-line @typescript-eslint/no-explicit-any
             return Array.from(threads.threads.values()).map((t: any) => serializeChannel(t as Channel));
-        } catch {
-            return [];
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 
     /**
      * Archive a thread
      */
-    async archiveThread(threadId: string, archived = true): Promise<boolean> {
+    async archiveThread(threadId: string, archived = true): Promise<void> {
         try {
             const channel = await discordClient.channels.fetch(threadId);
-            if (!channel || !channel.isThread()) {return false;}
+            if (!channel) {throw ApiError.notFound('Channel not found', 'CHANNEL_NOT_FOUND');}
+            if (!channel.isThread()) {throw ApiError.badRequest('Channel is not a thread', 'INVALID_CHANNEL_TYPE');}
 
             await channel.setArchived(archived);
-            return true;
-        } catch {
-            return false;
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 
     /**
      * Lock a thread
      */
-    async lockThread(threadId: string, locked = true): Promise<boolean> {
+    async lockThread(threadId: string, locked = true): Promise<void> {
         try {
             const channel = await discordClient.channels.fetch(threadId);
-            if (!channel || !channel.isThread()) {return false;}
+            if (!channel) {throw ApiError.notFound('Channel not found', 'CHANNEL_NOT_FOUND');}
+            if (!channel.isThread()) {throw ApiError.badRequest('Channel is not a thread', 'INVALID_CHANNEL_TYPE');}
 
             await channel.setLocked(locked);
-            return true;
-        } catch {
-            return false;
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 
     /**
      * Clone a channel
      */
-    async cloneChannel(channelId: string, name?: string): Promise<SerializedChannel | null> {
+    async cloneChannel(channelId: string, name?: string): Promise<SerializedChannel> {
         try {
             const channel = await discordClient.channels.fetch(channelId);
-            if (!channel || !('clone' in channel)) {return null;}
+            if (!channel) {throw ApiError.notFound('Channel not found', 'CHANNEL_NOT_FOUND');}
+            if (!('clone' in channel)) {throw ApiError.badRequest('Channel type does not support this action', 'INVALID_CHANNEL_TYPE');}
 
             // eslint-disable-next-line @typescript-eslint/no-explicit-any
             const cloned = await (channel as any).clone({ name });
             return serializeChannel(cloned as Channel);
-        } catch {
-            return null;
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 
@@ -253,7 +256,8 @@ export class ChannelService {
     async getWebhooks(channelId: string) {
         try {
             const channel = await discordClient.channels.fetch(channelId);
-            if (!channel || !('fetchWebhooks' in channel)) {return [];}
+            if (!channel) {throw ApiError.notFound('Channel not found', 'CHANNEL_NOT_FOUND');}
+            if (!('fetchWebhooks' in channel)) {throw ApiError.badRequest('Channel type does not support this action', 'INVALID_CHANNEL_TYPE');}
 
             // eslint-disable-next-line @typescript-eslint/no-explicit-any
             const webhooks = await (channel as any).fetchWebhooks();
@@ -265,8 +269,8 @@ export class ChannelService {
                 url: w.url as string,
                 ownerId: (w.owner?.id as string) ?? null,
             }));
-        } catch {
-            return [];
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 }
@@ -2,7 +2,8 @@ import { discordClient } from '../client.js';
 import { serializeApplicationCommand } from '../serializers.js';
 import type { SerializedApplicationCommand } from '../../types/discord.types.js';
 import type { CreateApplicationCommandInput, EditApplicationCommandInput } from '../../types/api.types.js';
-import type { ApplicationCommandDataResolvable, PermissionResolvable } from 'discord.js';
+import type { ApplicationCommandDataResolvable, ClientApplication, PermissionResolvable } from 'discord.js';
+import { ApiError } from '../../api/middleware/errorHandler.js';
 
 /**
  * Convert a permissions string to a PermissionResolvable (bigint) or null
@@ -17,6 +18,16 @@ function parsePermissions(permissions: string | null | undefined): PermissionRes
     }
 }
 
+/**
+ * The bot's application, available once the client has logged in
+ */
+function getApplication(): ClientApplication {
+    if (!discordClient.application) {
+        throw new ApiError(503, 'Discord client is not ready', 'DISCORD_NOT_READY');
+    }
+    return discordClient.application;
+}
+
 /**
  * Service for managing Discord Application Commands (Slash Commands)
  */
@@ -26,32 +37,29 @@ export class CommandService {
      */
     async getGlobalCommands(): Promise<SerializedApplicationCommand[]> {
         try {
-            const commands = await discordClient.application?.commands.fetch();
-            if (!commands) {return [];}
+            const commands = await getApplication().commands.fetch();
             return Array.from(commands.values()).map(serializeApplicationCommand);
         } catch (error) {
-            console.error('Failed to fetch global commands:', error);
-            return [];
+            throw ApiError.fromDiscord(error);
         }
     }
 
     /**
      * Get a specific global command by ID
      */
-    async getGlobalCommand(commandId: string): Promise<SerializedApplicationCommand | null> {
+    async getGlobalCommand(commandId: string): Promise<SerializedApplicationCommand> {
         try {
-            const command = await discordClient.application?.commands.fetch(commandId);
-            if (!command) {return null;}
+            const command = await getApplication().commands.fetch(commandId);
             return serializeApplicationCommand(command);
-        } catch {
-            return null;
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 
     /**
      * Create a global command
      */
-    async createGlobalCommand(input: CreateApplicationCommandInput): Promise<SerializedApplicationCommand | null> {
+    async createGlobalCommand(input: CreateApplicationCommandInput): Promise<SerializedApplicationCommand> {
         try {
             const commandData: ApplicationCommandDataResolvable = {
                 name: input.name,
@@ -64,21 +72,19 @@ export class CommandService {
                 descriptionLocalizations: input.description_localizations ?? undefined,
             };
 
-            const command = await discordClient.application?.commands.create(commandData);
-            if (!command) {return null;}
+            const command = await getApplication().commands.create(commandData);
             return serializeApplicationCommand(command);
         } catch (error) {
-            console.error('Failed to create global command:', error);
-            return null;
+            throw ApiError.fromDiscord(error);
         }
     }
 
     /**
      * Edit a global command
      */
-    async editGlobalCommand(commandId: string, input: EditApplicationCommandInput): Promise<SerializedApplicationCommand | null> {
+    async editGlobalCommand(commandId: string, input: EditApplicationCommandInput): Promise<SerializedApplicationCommand> {
         try {
-            const command = await discordClient.application?.commands.edit(commandId, {
+            const command = await getApplication().commands.edit(commandId, {
                 name: input.name,
                 description: input.description,
                 options: input.options,
@@ -87,24 +93,20 @@ export class CommandService {
                 nameLocalizations: input.name_localizations ?? undefined,
                 descriptionLocalizations: input.description_localizations ?? undefined,
             });
-            if (!command) {return null;}
             return serializeApplicationCommand(command);
         } catch (error) {
-            console.error('Failed to edit global command:', error);
-            return null;
+            throw ApiError.fromDiscord(error);
         }
     }
 
     /**
      * Delete a global command
      */
-    async deleteGlobalCommand(commandId: string): Promise<boolean> {
+    async deleteGlobalCommand(commandId: string): Promise<void> {
         try {
-            await discordClient.application?.commands.delete(commandId);
-            return true;
+            await getApplication().commands.delete(commandId);
         } catch (error) {
-            console.error('Failed to delete global command:', error);
-            return false;
+            throw ApiError.fromDiscord(error);
         }
     }
 
@@ -114,39 +116,37 @@ export class CommandService {
     async getGuildCommands(guildId: string): Promise<SerializedApplicationCommand[]> {
         try {
             const guild = discordClient.guilds.cache.get(guildId);
-            if (!guild) {return [];}
+            if (!guild) {throw ApiError.notFound('Guild not found', 'GUILD_NOT_FOUND');}
 
             const commands = await guild.commands.fetch();
             return Array.from(commands.values()).map(serializeApplicationCommand);
         } catch (error) {
-            console.error('Failed to fetch guild commands:', error);
-            return [];
+            throw ApiError.fromDiscord(error);
         }
     }
 
     /**
      * Get a specific guild command by ID
      */
-    async getGuildCommand(guildId: string, commandId: string): Promise<SerializedApplicationCommand | null> {
+    async getGuildCommand(guildId: string, commandId: string): Promise<SerializedApplicationCommand> {
         try {
             const guild = discordClient.guilds.cache.get(guildId);
-            if (!guild) {return null;}
+            if (!guild) {throw ApiError.notFound('Guild not found', 'GUILD_NOT_FOUND');}
 
             const command = await guild.commands.fetch(commandId);
-            if (!command) {return null;}
             return serializeApplicationCommand(command);
-        } catch {
-            return null;
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 
     /**
      * Create a guild-specific command
      */
-    async createGuildCommand(guildId: string, input: CreateApplicationCommandInput): Promise<SerializedApplicationCommand | null> {
+    async createGuildCommand(guildId: string, input: CreateApplicationCommandInput): Promise<SerializedApplicationCommand> {
         try {
             const guild = discordClient.guilds.cache.get(guildId);
-            if (!guild) {return null;}
+            if (!guild) {throw ApiError.notFound('Guild not found', 'GUILD_NOT_FOUND');}
 
             const commandData: ApplicationCommandDataResolvable = {
                 name: input.name,
@@ -162,18 +162,17 @@ export class CommandService {
             const command = await guild.commands.create(commandData);
             return serializeApplicationCommand(command);
         } catch (error) {
-            console.error('Failed to create guild command:', error);
-            return null;
+            throw ApiError.fromDiscord(error);
         }
     }
 
     /**
      * Edit a guild-specific command
      */
-    async editGuildCommand(guildId: string, commandId: string, input: EditApplicationCommandInput): Promise<SerializedApplicationCommand | null> {
+    async editGuildCommand(guildId: string, commandId: string, input: EditApplicationCommandInput): Promise<SerializedApplicationCommand> {
         try {
             const guild = discordClient.guilds.cache.get(guildId);
-            if (!guild) {return null;}
+            if (!guild) {throw ApiError.notFound('Guild not found', 'GUILD_NOT_FOUND');}
 
             const command = await guild.commands.edit(commandId, {
                 name: input.name,
@@ -186,24 +185,21 @@ export class CommandService {
             });
             return serializeApplicationCommand(command);
         } catch (error) {
-            console.error('Failed to edit guild command:', error);
-            return null;
+            throw ApiError.fromDiscord(error);
         }
     }
 
     /**
      * Delete a guild-specific command
      */
-    async deleteGuildCommand(guildId: string, commandId: string): Promise<boolean> {
+    async deleteGuildCommand(guildId: string, commandId: string): Promise<void> {
         try {
             const guild = discordClient.guilds.cache.get(guildId);
-            if (!guild) {return false;}
+            if (!guild) {throw ApiError.notFound('Guild not found', 'GUILD_NOT_FOUND');}
 
             await guild.commands.delete(commandId);
-            return true;
         } catch (error) {
-            console.error('Failed to delete guild command:', error);
-            return false;
+            throw ApiError.fromDiscord(error);
         }
     }
 }
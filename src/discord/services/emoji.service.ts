@@ -2,6 +2,7 @@ import { discordClient } from '../client.js';
 import { serializeGuildEmoji } from '../serializers.js';
 import type { SerializedEmoji } from '../../types/discord.types.js';
 import type { GuildEmojiCreateOptions, GuildEmojiEditOptions } from 'discord.js';
+import { ApiError } from '../../api/middleware/errorHandler.js';
 
 export class EmojiService {
     /**
@@ -9,77 +10,74 @@ export class EmojiService {
      */
     async getGuildEmojis(guildId: string): Promise<SerializedEmoji[]> {
         const guild = discordClient.guilds.cache.get(guildId);
-        if (!guild) {return [];}
+        if (!guild) {throw ApiError.notFound('Guild not found', 'GUILD_NOT_FOUND');}
 
         try {
             const emojis = await guild.emojis.fetch();
             return emojis.map(serializeGuildEmoji);
         } catch (error) {
-            console.error(`Failed to fetch emojis for guild ${guildId}:`, error);
-            return [];
+            throw ApiError.fromDiscord(error);
         }
     }
 
     /**
      * Get a specific emoji
      */
-    async getEmoji(guildId: string, emojiId: string): Promise<SerializedEmoji | null> {
+    async getEmoji(guildId: string, emojiId: string): Promise<SerializedEmoji> {
         const guild = discordClient.guilds.cache.get(guildId);
-        if (!guild) {return null;}
+        if (!guild) {throw ApiError.notFound('Guild not found', 'GUILD_NOT_FOUND');}
 
         try {
             const emoji = await guild.emojis.fetch(emojiId);
             return serializeGuildEmoji(emoji);
-        } catch {
-            return null;
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 
     /**
      * Create a new emoji
      */
-    async createEmoji(guildId: string, data: GuildEmojiCreateOptions): Promise<SerializedEmoji | null> {
+    async createEmoji(guildId: string, data: GuildEmojiCreateOptions): Promise<SerializedEmoji> {
         const guild = discordClient.guilds.cache.get(guildId);
-        if (!guild) {return null;}
+        if (!guild) {throw ApiError.notFound('Guild not found', 'GUILD_NOT_FOUND');}
 
         try {
             const emoji = await guild.emojis.create(data);
             return serializeGuildEmoji(emoji);
         } catch (error) {
-            console.error(`Failed to create emoji in guild ${guildId}:`, error);
-            return null;
+            throw ApiError.fromDiscord(error);
         }
     }
 
     /**
      * Edit an emoji
      */
-    async editEmoji(guildId: string, emojiId: string, data: GuildEmojiEditOptions): Promise<SerializedEmoji | null> {
+    async editEmoji(guildId: string, emojiId: string, data: GuildEmojiEditOptions): Promise<SerializedEmoji> {
         const guild = discordClient.guilds.cache.get(guildId);
-        if (!guild) {return null;}
+        if (!guild) {throw ApiError.notFound('Guild not found', 'GUILD_NOT_FOUND');}
 
         try {
             const emoji = await guild.emojis.fetch(emojiId);
             const updated = await emoji.edit(data);
             return serializeGuildEmoji(updated);
-        } catch {
-            return null;
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 
     /**
      * Delete an emoji
      */
-    async deleteEmoji(guildId: string, emojiId: string): Promise<boolean> {
+    async deleteEmoji(guildId: string, emojiId: string): Promise<void> {
         const guild = discordClient.guilds.cache.get(guildId);
-        if (!guild) {return false;}
+        if (!guild) {throw ApiError.notFound('Guild not found', 'GUILD_NOT_FOUND');}
 
         try {
             const emoji = await guild.emojis.fetch(emojiId);
             await emoji.delete();
-            return true;
-        } catch {
-            return false;
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 }
@@ -1,6 +1,7 @@
 import { discordClient } from '../client.js';
 import { serializeGuild, serializeChannel, serializeRole } from '../serializers.js';
 import type { SerializedGuild, SerializedChannel, SerializedRole } from '../../types/discord.types.js';
+import { ApiError } from '../../api/middleware/errorHandler.js';
 
 export class GuildService {
     /**
@@ -13,21 +14,21 @@ export class GuildService {
     /**
      * Get a specific guild by ID
      */
-    async getGuild(guildId: string): Promise<SerializedGuild | null> {
+    async getGuild(guildId: string): Promise<SerializedGuild> {
         const guild = discordClient.guilds.cache.get(guildId);
-        if (!guild) {return null;}
+        if (!guild) {throw ApiError.notFound('Guild not found', 'GUILD_NOT_FOUND');}
         return serializeGuild(guild);
     }
 
     /**
      * Fetch and refresh guild from API
      */
-    async fetchGuild(guildId: string): Promise<SerializedGuild | null> {
+    async fetchGuild(guildId: string): Promise<SerializedGuild> {
         try {
             const guild = await discordClient.guilds.fetch(guildId);
             return serializeGuild(guild);
-        } catch {
-            return null;
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 
@@ -36,7 +37,7 @@ export class GuildService {
      */
     async getGuildChannels(guildId: string): Promise<SerializedChannel[]> {
         const guild = discordClient.guilds.cache.get(guildId);
-        if (!guild) {return [];}
+        if (!guild) {throw ApiError.notFound('Guild not found', 'GUILD_NOT_FOUND');}
 
         await guild.channels.fetch();
         return guild.channels.cache.map(serializeChannel);
@@ -47,7 +48,7 @@ export class GuildService {
      */
     async getGuildRoles(guildId: string): Promise<SerializedRole[]> {
         const guild = discordClient.guilds.cache.get(guildId);
-        if (!guild) {return [];}
+        if (!guild) {throw ApiError.notFound('Guild not found', 'GUILD_NOT_FOUND');}
 
         await guild.roles.fetch();
         return guild.roles.cache.map(serializeRole).sort((a, b) => b.position - a.position);
@@ -58,7 +59,7 @@ export class GuildService {
      */
     async getGuildEmojis(guildId: string): Promise<Array<{ id: string; name: string | null; animated: boolean; url: string }>> {
         const guild = discordClient.guilds.cache.get(guildId);
-        if (!guild) {return [];}
+        if (!guild) {throw ApiError.notFound('Guild not found', 'GUILD_NOT_FOUND');}
 
         await guild.emojis.fetch();
         return guild.emojis.cache.map((e) => ({
@@ -82,7 +83,7 @@ export class GuildService {
      */
     async getGuildBans(guildId: string): Promise<Array<{ reason: string | null; userId: string; username: string }>> {
         const guild = discordClient.guilds.cache.get(guildId);
-        if (!guild) {return [];}
+        if (!guild) {throw ApiError.notFound('Guild not found', 'GUILD_NOT_FOUND');}
 
         const bans = await guild.bans.fetch();
         return bans.map((ban) => ({
@@ -106,7 +107,7 @@ export class GuildService {
         createdAt: string;
     }>> {
         const guild = discordClient.guilds.cache.get(guildId);
-        if (!guild) {return [];}
+        if (!guild) {throw ApiError.notFound('Guild not found', 'GUILD_NOT_FOUND');}
 
         const invites = await guild.invites.fetch();
         return invites.map((invite) => ({
@@ -2,30 +2,30 @@ import { discordClient } from '../client.js';
 import { serializeInvite } from '../serializers.js';
 import type { SerializedInvite } from '../../types/discord.types.js';
 import type { InviteCreateOptions } from 'discord.js';
+import { ApiError } from '../../api/middleware/errorHandler.js';
 
 export class InviteService {
     /**
      * Get an invite by code
      */
-    async getInvite(code: string): Promise<SerializedInvite | null> {
+    async getInvite(code: string): Promise<SerializedInvite> {
         try {
             const invite = await discordClient.fetchInvite(code);
             return serializeInvite(invite);
-        } catch {
-            return null;
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 
     /**
      * Delete an invite
      */
-    async deleteInvite(code: string): Promise<boolean> {
+    async deleteInvite(code: string): Promise<void> {
         try {
             const invite = await discordClient.fetchInvite(code);
             await invite.delete();
-            return true;
-        } catch {
-            return false;
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 
@@ -34,7 +34,7 @@ export class InviteService {
      */
     async getGuildInvites(guildId: string): Promise<SerializedInvite[]> {
         const guild = discordClient.guilds.cache.get(guildId);
-        if (!guild) {return [];}
+        if (!guild) {throw ApiError.notFound('Guild not found', 'GUILD_NOT_FOUND');}
 
         const invites = await guild.invites.fetch();
         return invites.map(serializeInvite);
@@ -45,28 +45,30 @@ export class InviteService {
      */
     async getChannelInvites(channelId: string): Promise<SerializedInvite[]> {
         const channel = discordClient.channels.cache.get(channelId);
-        if (!channel || !channel.isTextBased() || !('createInvite' in channel)) {return [];}
+        if (!channel) {throw ApiError.notFound('Channel not found', 'CHANNEL_NOT_FOUND');}
+        if (!channel.isTextBased() || !('createInvite' in channel)) {throw ApiError.badRequest('Channel type does not support this action', 'INVALID_CHANNEL_TYPE');}
 
         try {
             const invites = await channel.fetchInvites();
             return invites.map(serializeInvite);
-        } catch {
-            return [];
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 
     /**
      * Create an invite for a channel
      */
-    async createChannelInvite(channelId: string, data: InviteCreateOptions): Promise<SerializedInvite | null> {
+    async createChannelInvite(channelId: string, data: InviteCreateOptions): Promise<SerializedInvite> {
         const channel = discordClient.channels.cache.get(channelId);
-        if (!channel || !('createInvite' in channel)) {return null;}
+        if (!channel) {throw ApiError.notFound('Channel not found', 'CHANNEL_NOT_FOUND');}
+        if (!('createInvite' in channel)) {throw ApiError.badRequest('Channel type does not support this action', 'INVALID_CHANNEL_TYPE');}
 
         try {
             const invite = await channel.createInvite(data);
             return serializeInvite(invite);
-        } catch {
-            return null;
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 }
@@ -2,6 +2,7 @@ import { discordClient } from '../client.js';
 import { serializeMember, serializeUser } from '../serializers.js';
 import type { SerializedMember } from '../../types/discord.types.js';
 import type { BanMemberInput, ModifyRolesInput, SetNicknameInput } from '../../types/api.types.js';
+import { ApiError } from '../../api/middleware/errorHandler.js';
 
 export class MemberService {
     /**
@@ -9,7 +10,7 @@ export class MemberService {
      */
     async getMembers(guildId: string, limit = 1000): Promise<SerializedMember[]> {
         const guild = discordClient.guilds.cache.get(guildId);
-        if (!guild) {return [];}
+        if (!guild) {throw ApiError.notFound('Guild not found', 'GUILD_NOT_FOUND');}
 
         const members = await guild.members.fetch({ limit });
         return members.map(serializeMember);
@@ -18,15 +19,15 @@ export class MemberService {
     /**
      * Get a specific member by user ID
      */
-    async getMember(guildId: string, userId: string): Promise<SerializedMember | null> {
+    async getMember(guildId: string, userId: string): Promise<SerializedMember> {
         const guild = discordClient.guilds.cache.get(guildId);
-        if (!guild) {return null;}
+        if (!guild) {throw ApiError.notFound('Guild not found', 'GUILD_NOT_FOUND');}
 
         try {
             const member = await guild.members.fetch(userId);
             return serializeMember(member);
-        } catch {
-            return null;
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 
@@ -35,7 +36,7 @@ export class MemberService {
      */
     async searchMembers(guildId: string, query: string, limit = 20): Promise<SerializedMember[]> {
         const guild = discordClient.guilds.cache.get(guildId);
-        if (!guild) {return [];}
+        if (!guild) {throw ApiError.notFound('Guild not found', 'GUILD_NOT_FOUND');}
 
         const members = await guild.members.search({ query, limit });
         return members.map(serializeMember);
@@ -44,73 +45,70 @@ export class MemberService {
     /**
      * Kick a member from the guild
      */
-    async kickMember(guildId: string, userId: string, reason?: string): Promise<boolean> {
+    async kickMember(guildId: string, userId: string, reason?: string): Promise<void> {
         const guild = discordClient.guilds.cache.get(guildId);
-        if (!guild) {return false;}
+        if (!guild) {throw ApiError.notFound('Guild not found', 'GUILD_NOT_FOUND');}
 
         try {
             await guild.members.kick(userId, reason);
-            return true;
-        } catch {
-            return false;
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 
     /**
      * Ban a member from the guild
      */
-    async banMember(guildId: string, userId: string, options?: BanMemberInput): Promise<boolean> {
+    async banMember(guildId: string, userId: string, options?: BanMemberInput): Promise<void> {
         const guild = discordClient.guilds.cache.get(guildId);
-        if (!guild) {return false;}
+        if (!guild) {throw ApiError.notFound('Guild not found', 'GUILD_NOT_FOUND');}
 
         try {
             await guild.members.ban(userId, {
                 reason: options?.reason,
                 deleteMessageSeconds: options?.deleteMessageSeconds,
             });
-            return true;
-        } catch {
-            return false;
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 
     /**
      * Unban a user from the guild
      */
-    async unbanMember(guildId: string, userId: string, reason?: string): Promise<boolean> {
+    async unbanMember(guildId: string, userId: string, reason?: string): Promise<void> {
         const guild = discordClient.guilds.cache.get(guildId);
-        if (!guild) {return false;}
+        if (!guild) {throw ApiError.notFound('Guild not found', 'GUILD_NOT_FOUND');}
 
         try {
             await guild.members.unban(userId, reason);
-            return true;
-        } catch {
-            return false;
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 
     /**
      * Set or clear a member's nickname
      */
-    async setNickname(guildId: string, userId: string, input: SetNicknameInput): Promise<SerializedMember | null> {
+    async setNickname(guildId: string, userId: string, input: SetNicknameInput): Promise<SerializedMember> {
         const guild = discordClient.guilds.cache.get(guildId);
-        if (!guild) {return null;}
+        if (!guild) {throw ApiError.notFound('Guild not found', 'GUILD_NOT_FOUND');}
 
         try {
             const member = await guild.members.fetch(userId);
             await member.setNickname(input.nickname ?? null);
             return serializeMember(member);
-        } catch {
-            return null;
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 
     /**
      * Modify member roles (add/remove)
      */
-    async modifyRoles(guildId: string, userId: string, input: ModifyRolesInput): Promise<SerializedMember | null> {
+    async modifyRoles(guildId: string, userId: string, input: ModifyRolesInput): Promise<SerializedMember> {
         const guild = discordClient.guilds.cache.get(guildId);
-        if (!guild) {return null;}
+        if (!guild) {throw ApiError.notFound('Guild not found', 'GUILD_NOT_FOUND');}
 
         try {
             const member = await guild.members.fetch(userId);
@@ -126,72 +124,70 @@ export class MemberService {
             // Refetch to get updated roles
             const updatedMember = await guild.members.fetch(userId);
             return serializeMember(updatedMember);
-        } catch {
-            return null;
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 
     /**
      * Add a role to a member
      */
-    async addRole(guildId: string, userId: string, roleId: string): Promise<boolean> {
+    async addRole(guildId: string, userId: string, roleId: string): Promise<void> {
         const guild = discordClient.guilds.cache.get(guildId);
-        if (!guild) {return false;}
+        if (!guild) {throw ApiError.notFound('Guild not found', 'GUILD_NOT_FOUND');}
 
         try {
             const member = await guild.members.fetch(userId);
             await member.roles.add(roleId);
-            return true;
-        } catch {
-            return false;
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 
     /**
      * Remove a role from a member
      */
-    async removeRole(guildId: string, userId: string, roleId: string): Promise<boolean> {
+    async removeRole(guildId: string, userId: string, roleId: string): Promise<void> {
         const guild = discordClient.guilds.cache.get(guildId);
-        if (!guild) {return false;}
+        if (!guild) {throw ApiError.notFound('Guild not found', 'GUILD_NOT_FOUND');}
 
         try {
             const member = await guild.members.fetch(userId);
             await member.roles.remove(roleId);
-            return true;
-        } catch {
-            return false;
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 
     /**
      * Timeout a member (communication disabled)
      */
-    async timeoutMember(guildId: string, userId: string, durationMs: number, reason?: string): Promise<SerializedMember | null> {
+    async timeoutMember(guildId: string, userId: string, durationMs: number, reason?: string): Promise<SerializedMember> {
         const guild = discordClient.guilds.cache.get(guildId);
-        if (!guild) {return null;}
+        if (!guild) {throw ApiError.notFound('Guild not found', 'GUILD_NOT_FOUND');}
 
         try {
             const member = await guild.members.fetch(userId);
             await member.timeout(durationMs, reason);
             return serializeMember(member);
-        } catch {
-            return null;
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 
     /**
      * Remove timeout from a member
      */
-    async removeTimeout(guildId: string, userId: string, reason?: string): Promise<SerializedMember | null> {
+    async removeTimeout(guildId: string, userId: string, reason?: string): Promise<SerializedMember> {
         const guild = discordClient.guilds.cache.get(guildId);
-        if (!guild) {return null;}
+        if (!guild) {throw ApiError.notFound('Guild not found', 'GUILD_NOT_FOUND');}
 
         try {
             const member = await guild.members.fetch(userId);
             await member.timeout(null, reason);
             return serializeMember(member);
-        } catch {
-            return null;
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 
@@ -202,8 +198,8 @@ export class MemberService {
         try {
             const user = await discordClient.users.fetch(userId);
             return serializeUser(user);
-        } catch {
-            return null;
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 }
@@ -1,8 +1,31 @@
-import { ChannelType, TextChannel, NewsChannel, ThreadChannel } from 'discord.js';
+import {
+    AttachmentBuilder,
+    ChannelType,
+    MessageFlags,
+    TextChannel,
+    NewsChannel,
+    ThreadChannel,
+    type APIEmbed,
+    type APIMessageTopLevelComponent,
+    type Message,
+    type MessageEditOptions,
+    type MessageReaction,
+    type Webhook,
+} from 'discord.js';
 import { discordClient } from '../client.js';
 import { serializeMessage, serializeUser } from '../serializers.js';
 import type { SerializedMessage } from '../../types/discord.types.js';
-import type { SendMessageInput, EditMessageInput, GetMessagesInput } from '../../types/api.types.js';
+import { usesComponentsV2 } from '../../types/api.types.js';
+import type {
+    AttachmentMetadata,
+    EmbedInput,
+    MessageComponentsInput,
+    SendMessageInput,
+    EditMessageInput,
+    GetMessagesInput,
+    UploadedFile,
+} from '../../types/api.types.js';
+import { ApiError } from '../../api/middleware/errorHandler.js';
 
 type TextBasedChannel = TextChannel | NewsChannel | ThreadChannel;
 
@@ -18,114 +41,263 @@ function isTextBasedChannel(channel: unknown): channel is TextBasedChannel {
     );
 }
 
+/**
+ * Look up a text-based channel, throwing if it is unknown or cannot hold messages.
+ */
+function getTextChannel(channelId: string): TextBasedChannel {
+    const channel = discordClient.channels.cache.get(channelId);
+    if (!channel) {
+        throw ApiError.notFound('Channel not found', 'CHANNEL_NOT_FOUND');
+    }
+    if (!isTextBasedChannel(channel)) {
+        throw ApiError.badRequest('Channel is not a text channel', 'INVALID_CHANNEL_TYPE');
+    }
+    return channel;
+}
+
+/**
+ * Find a reaction on a message by emoji name, ID or identifier.
+ */
+function findReaction(message: Message, emoji: string): MessageReaction {
+    const reaction = message.reactions.cache.find(
+        (r) => r.emoji.name === emoji || r.emoji.id === emoji || r.emoji.identifier === emoji
+    );
+    if (!reaction) {
+        throw ApiError.notFound('Reaction not found', 'REACTION_NOT_FOUND');
+    }
+    return reaction;
+}
+
+const ATTACHMENT_URL = 'attachment://';
+
+/**
+ * Turn uploaded files into message attachments with their descriptions and spoiler flags.
+ * Every description must name an uploaded file, and file names must be unique.
+ */
+function buildAttachments(files: readonly UploadedFile[], descriptions: readonly AttachmentMetadata[] = []): AttachmentBuilder[] {
+    const names = new Set<string>();
+    for (const file of files) {
+        if (names.has(file.name)) {
+            throw ApiError.badRequest(`More than one file is named "${file.name}"`, 'INVALID_ATTACHMENTS');
+        }
+        names.add(file.name);
+    }
+    for (const description of descriptions) {
+        if (!names.has(description.name)) {
+            throw ApiError.badRequest(`No file named "${description.name}" was uploaded`, 'INVALID_ATTACHMENTS');
+        }
+    }
+
+    return files.map((file) => {
+        const description = descriptions.find((d) => d.name === file.name);
+        const attachment = new AttachmentBuilder(file.data, { name: file.name, description: description?.description });
+        return description?.spoiler ? attachment.setSpoiler(true) : attachment;
+    });
+}
+
+/**
+ * Check an embed's `attachment://<name>` URL against the uploaded files, following
+ * the `SPOILER_` rename of spoilered files. Other URLs are returned unchanged.
+ */
+function resolveAttachmentUrl<T extends string | undefined>(url: T, attachments: readonly AttachmentBuilder[]): T | string {
+    if (!url?.startsWith(ATTACHMENT_URL)) {return url;}
+
+    const name = url.slice(ATTACHMENT_URL.length);
+    const attachment = attachments.find((a) => a.name === name || a.name === `SPOILER_${name}`);
+    if (!attachment?.name) {
+        throw ApiError.badRequest(`Embed references "${name}", which was not uploaded`, 'INVALID_ATTACHMENTS');
+    }
+    return `${ATTACHMENT_URL}${attachment.name}`;
+}
+
+/**
+ * Resolve the `attachment://` URLs of media in components, as for embeds.
+ * The components were validated against Discord's API shape, so they are
+ * handed to discord.js as raw API components.
+ */
+function resolveComponents(components: MessageComponentsInput, attachments: readonly AttachmentBuilder[]): APIMessageTopLevelComponent[] {
+    const resolve = (value: unknown): unknown => {
+        if (Array.isArray(value)) {return value.map(resolve);}
+        if (!value || typeof value !== 'object') {return value;}
+
+        return Object.fromEntries(Object.entries(value).map(([key, child]) => [
+            key,
+            key === 'url' && typeof child === 'string' ? resolveAttachmentUrl(child, attachments) : resolve(child),
+        ]));
+    };
+    return resolve(components) as APIMessageTopLevelComponent[];
+}
+
+/**
+ * Convert validated embeds to discord.js embeds, resolving `attachment://` image URLs.
+ */
+function buildEmbeds(embeds: EmbedInput[], attachments: readonly AttachmentBuilder[]): APIEmbed[] {
+    return embeds.map((e) => ({
+        title: e.title,
+        description: e.description,
+        url: e.url,
+        color: e.color,
+        timestamp: e.timestamp,
+        footer: e.footer ? { text: e.footer.text, icon_url: resolveAttachmentUrl(e.footer.icon_url, attachments) } : undefined,
+        image: e.image ? { url: resolveAttachmentUrl(e.image.url, attachments) } : undefined,
+        thumbnail: e.thumbnail ? { url: resolveAttachmentUrl(e.thumbnail.url, attachments) } : undefined,
+        author: e.author
+            ? { name: e.author.name, url: e.author.url, icon_url: resolveAttachmentUrl(e.author.icon_url, attachments) }
+            : undefined,
+        fields: e.fields?.map((f) => ({ name: f.name, value: f.value, inline: f.inline })),
+    }));
+}
+
+/**
+ * Flags of an edited message, or undefined to keep them. Only embed suppression can be
+ * toggled; Components V2 is switched on by layout components and cannot be switched off.
+ */
+function getEditFlags(message: Message, input: EditMessageInput): number | undefined {
+    const componentsV2 = !!input.components && usesComponentsV2(input.components);
+    if (input.suppressEmbeds === undefined && !componentsV2) {return undefined;}
+
+    const suppressEmbeds = input.suppressEmbeds ?? message.flags.has(MessageFlags.SuppressEmbeds);
+    const isComponentsV2 = componentsV2 || message.flags.has(MessageFlags.IsComponentsV2);
+    return (suppressEmbeds ? MessageFlags.SuppressEmbeds : 0) | (isComponentsV2 ? MessageFlags.IsComponentsV2 : 0);
+}
+
+/**
+ * Whether a message was posted through a webhook. Interaction replies carry the
+ * application's ID as their webhook ID, but they are authored by the bot and have
+ * no webhook to fetch, so they are edited like the bot's own messages.
+ */
+function isWebhookMessage(message: Message): boolean {
+    return !!message.webhookId && message.webhookId !== message.applicationId;
+}
+
+/**
+ * The webhook that posted a message, if the bot owns it (only then is its token available).
+ */
+async function getOwnWebhook(message: Message): Promise<Webhook> {
+    const webhook = await message.fetchWebhook();
+    if (!webhook.token) {
+        throw ApiError.forbidden('Only messages sent by the bot or its webhooks can be edited', 'NOT_MESSAGE_AUTHOR');
+    }
+    return webhook;
+}
+
 export class MessageService {
     /**
      * Get messages from a channel
      */
     async getMessages(channelId: string, options?: GetMessagesInput): Promise<SerializedMessage[]> {
-        const channel = discordClient.channels.cache.get(channelId);
-        if (!channel || !isTextBasedChannel(channel)) {return [];}
-
-        const messages = await channel.messages.fetch({
-            limit: options?.limit ?? 50,
-            before: options?.before,
-            after: options?.after,
-            around: options?.around,
-        });
+        const channel = getTextChannel(channelId);
 
-        return messages.map(serializeMessage);
+        try {
+            const messages = await channel.messages.fetch({
+                limit: options?.limit ?? 50,
+                before: options?.before,
+                after: options?.after,
+                around: options?.around,
+            });
+            return messages.map(serializeMessage);
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
+        }
     }
 
     /**
      * Get a specific message by ID
      */
-    async getMessage(channelId: string, messageId: string): Promise<SerializedMessage | null> {
-        const channel = discordClient.channels.cache.get(channelId);
-        if (!channel || !isTextBasedChannel(channel)) {return null;}
+    async getMessage(channelId: string, messageId: string): Promise<SerializedMessage> {
+        const channel = getTextChannel(channelId);
 
         try {
             const message = await channel.messages.fetch(messageId);
             return serializeMessage(message);
-        } catch {
-            return null;
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 
     /**
      * Send a message to a channel
      */
-    async sendMessage(channelId: string, input: SendMessageInput): Promise<SerializedMessage | null> {
-        const channel = discordClient.channels.cache.get(channelId);
-        if (!channel || !isTextBasedChannel(channel)) {return null;}
+    async sendMessage(channelId: string, input: SendMessageInput, uploads: UploadedFile[] = []): Promise<SerializedMessage> {
+        const channel = getTextChannel(channelId);
+        const files = buildAttachments(uploads, input.attachments);
+        const componentsV2 = !!input.components && usesComponentsV2(input.components);
 
         try {
             const message = await channel.send({
                 content: input.content,
-                embeds: input.embeds?.map((e) => ({
-                    title: e.title,
-                    description: e.description,
-                    url: e.url,
-                    color: e.color,
-                    timestamp: e.timestamp,
-                    footer: e.footer ? { text: e.footer.text, iconURL: e.footer.icon_url } : undefined,
-                    image: e.image,
-                    thumbnail: e.thumbnail,
-                    author: e.author ? { name: e.author.name, url: e.author.url, iconURL: e.author.icon_url } : undefined,
-                    fields: e.fields?.map((f) => ({ name: f.name, value: f.value, inline: f.inline })),
-                })),
+                embeds: input.embeds && buildEmbeds(input.embeds, files),
+                files,
+                components: input.components && resolveComponents(input.components, files),
+                flags: (input.suppressEmbeds ? MessageFlags.SuppressEmbeds : 0) | (componentsV2 ? MessageFlags.IsComponentsV2 : 0),
                 reply: input.replyTo ? { messageReference: input.replyTo } : undefined,
+                allowedMentions: input.allowedMentions,
                 tts: input.tts,
             });
             return serializeMessage(message);
         } catch (error) {
-            console.error('Failed to send message:', error);
-            return null;
+            throw ApiError.fromDiscord(error);
         }
     }
 
     /**
-     * Edit an existing message
+     * Edit a message sent by the bot or by one of its webhooks. Omitted fields are
+     * left unchanged; uploaded files are added to the attachments that are kept.
      */
-    async editMessage(channelId: string, messageId: string, input: EditMessageInput): Promise<SerializedMessage | null> {
-        const channel = discordClient.channels.cache.get(channelId);
-        if (!channel || !isTextBasedChannel(channel)) {return null;}
+    async editMessage(channelId: string, messageId: string, input: EditMessageInput, uploads: UploadedFile[] = []): Promise<SerializedMessage> {
+        const channel = getTextChannel(channelId);
+        const files = buildAttachments(uploads, input.attachments);
 
         try {
             const message = await channel.messages.fetch(messageId);
 
+            const removed = new Set(input.removeAttachments);
+            for (const attachmentId of removed) {
+                if (!message.attachments.has(attachmentId)) {
+                    throw ApiError.badRequest(`Message has no attachment ${attachmentId}`, 'INVALID_ATTACHMENTS');
+                }
+            }
+
+            const options: MessageEditOptions = {
+                content: input.content,
+                embeds: input.embeds && buildEmbeds(input.embeds, files),
+                components: input.components && resolveComponents(input.components, files),
+                flags: getEditFlags(message, input),
+                allowedMentions: input.allowedMentions,
+                // Discord keeps only the attachments listed, so list the current ones next to the new files
+                ...(files.length > 0 || removed.size > 0
+                    ? { files, attachments: message.attachments.filter((attachment) => !removed.has(attachment.id)).map((attachment) => attachment) }
+                    : {}),
+            };
+
+            if (isWebhookMessage(message)) {
+                const webhook = await getOwnWebhook(message);
+                const edited = await webhook.editMessage(message, { ...options, threadId: channel.isThread() ? channel.id : undefined });
+                return serializeMessage(edited);
+            }
+
             // Can only edit own messages
             if (message.author.id !== discordClient.user?.id) {
-                return null;
+                throw ApiError.forbidden('Only messages sent by the bot can be edited', 'NOT_MESSAGE_AUTHOR');
             }
 
-            const edited = await message.edit({
-                content: input.content ?? undefined,
-                embeds: input.embeds?.map((e) => ({
-                    title: e.title,
-                    description: e.description,
-                    url: e.url,
-                    color: e.color,
-                })),
-            });
-            return serializeMessage(edited);
-        } catch {
-            return null;
+            return serializeMessage(await message.edit(options));
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 
     /**
      * Delete a message
      */
-    async deleteMessage(channelId: string, messageId: string, reason?: string): Promise<boolean> {
-        const channel = discordClient.channels.cache.get(channelId);
-        if (!channel || !isTextBasedChannel(channel)) {return false;}
+    async deleteMessage(channelId: string, messageId: string): Promise<void> {
+        const channel = getTextChannel(channelId);
 
         try {
             const message = await channel.messages.fetch(messageId);
             await message.delete();
-            return true;
-        } catch {
-            return false;
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 
@@ -133,76 +305,58 @@ export class MessageService {
      * Bulk delete messages (2-100 messages, max 14 days old)
      */
     async bulkDelete(channelId: string, messageIds: string[]): Promise<{ deleted: string[]; failed: string[] }> {
-        const channel = discordClient.channels.cache.get(channelId);
-        if (!channel || !isTextBasedChannel(channel)) {
-            return { deleted: [], failed: messageIds };
-        }
+        const channel = getTextChannel(channelId);
 
         try {
             const deleted = await channel.bulkDelete(messageIds, true);
             const deletedIds = Array.from(deleted.keys());
             const failedIds = messageIds.filter((id) => !deletedIds.includes(id));
             return { deleted: deletedIds, failed: failedIds };
-        } catch {
-            return { deleted: [], failed: messageIds };
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 
     /**
      * Add a reaction to a message
      */
-    async addReaction(channelId: string, messageId: string, emoji: string): Promise<boolean> {
-        const channel = discordClient.channels.cache.get(channelId);
-        if (!channel || !isTextBasedChannel(channel)) {return false;}
+    async addReaction(channelId: string, messageId: string, emoji: string): Promise<void> {
+        const channel = getTextChannel(channelId);
 
         try {
             const message = await channel.messages.fetch(messageId);
             await message.react(emoji);
-            return true;
-        } catch {
-            return false;
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 
     /**
      * Remove a reaction from a message
      */
-    async removeReaction(channelId: string, messageId: string, emoji: string, userId?: string): Promise<boolean> {
-        const channel = discordClient.channels.cache.get(channelId);
-        if (!channel || !isTextBasedChannel(channel)) {return false;}
+    async removeReaction(channelId: string, messageId: string, emoji: string, userId?: string): Promise<void> {
+        const channel = getTextChannel(channelId);
 
         try {
             const message = await channel.messages.fetch(messageId);
-            const reaction = message.reactions.cache.find(
-                (r) => r.emoji.name === emoji || r.emoji.id === emoji || r.emoji.identifier === emoji
-            );
-
-            if (!reaction) {return false;}
-
-            if (userId) {
-                await reaction.users.remove(userId);
-            } else {
-                await reaction.users.remove(discordClient.user?.id);
-            }
-            return true;
-        } catch {
-            return false;
+            const reaction = findReaction(message, emoji);
+            await reaction.users.remove(userId ?? discordClient.user?.id);
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 
     /**
      * Remove all reactions from a message
      */
-    async removeAllReactions(channelId: string, messageId: string): Promise<boolean> {
-        const channel = discordClient.channels.cache.get(channelId);
-        if (!channel || !isTextBasedChannel(channel)) {return false;}
+    async removeAllReactions(channelId: string, messageId: string): Promise<void> {
+        const channel = getTextChannel(channelId);
 
         try {
             const message = await channel.messages.fetch(messageId);
             await message.reactions.removeAll();
-            return true;
-        } catch {
-            return false;
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 
@@ -210,53 +364,42 @@ export class MessageService {
      * Get users who reacted with a specific emoji
      */
     async getReactionUsers(channelId: string, messageId: string, emoji: string, limit = 100) {
-        const channel = discordClient.channels.cache.get(channelId);
-        if (!channel || !isTextBasedChannel(channel)) {return [];}
+        const channel = getTextChannel(channelId);
 
         try {
             const message = await channel.messages.fetch(messageId);
-            const reaction = message.reactions.cache.find(
-                (r) => r.emoji.name === emoji || r.emoji.id === emoji || r.emoji.identifier === emoji
-            );
-
-            if (!reaction) {return [];}
-
-            const users = await reaction.users.fetch({ limit });
+            const users = await findReaction(message, emoji).users.fetch({ limit });
             return users.map(serializeUser);
-        } catch {
-            return [];
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 
     /**
      * Pin a message
      */
-    async pinMessage(channelId: string, messageId: string): Promise<boolean> {
-        const channel = discordClient.channels.cache.get(channelId);
-        if (!channel || !isTextBasedChannel(channel)) {return false;}
+    async pinMessage(channelId: string, messageId: string): Promise<void> {
+        const channel = getTextChannel(channelId);
 
         try {
             const message = await channel.messages.fetch(messageId);
             await message.pin();
-            return true;
-        } catch {
-            return false;
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 
     /**
      * Unpin a message
      */
-    async unpinMessage(channelId: string, messageId: string): Promise<boolean> {
-        const channel = discordClient.channels.cache.get(channelId);
-        if (!channel || !isTextBasedChannel(channel)) {return false;}
+    async unpinMessage(channelId: string, messageId: string): Promise<void> {
+        const channel = getTextChannel(channelId);
 
         try {
             const message = await channel.messages.fetch(messageId);
             await message.unpin();
-            return true;
-        } catch {
-            return false;
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 
@@ -264,30 +407,30 @@ export class MessageService {
      * Get pinned messages in a channel
      */
     async getPinnedMessages(channelId: string): Promise<SerializedMessage[]> {
-        const channel = discordClient.channels.cache.get(channelId);
-        if (!channel || !isTextBasedChannel(channel)) {return [];}
+        const channel = getTextChannel(channelId);
 
         try {
             const pinned = await channel.messages.fetchPinned();
             return pinned.map(serializeMessage);
-        } catch {
-            return [];
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 
     /**
      * Crosspost a message (for announcement channels)
      */
-    async crosspostMessage(channelId: string, messageId: string): Promise<boolean> {
-        const channel = discordClient.channels.cache.get(channelId);
-        if (!channel || channel.type !== ChannelType.GuildAnnouncement) {return false;}
+    async crosspostMessage(channelId: string, messageId: string): Promise<void> {
+        const channel = getTextChannel(channelId);
+        if (channel.type !== ChannelType.GuildAnnouncement) {
+            throw ApiError.badRequest('Only messages in announcement channels can be crossposted', 'INVALID_CHANNEL_TYPE');
+        }
 
         try {
             const message = await channel.messages.fetch(messageId);
             await message.crosspost();
-            return true;
-        } catch {
-            return false;
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 }
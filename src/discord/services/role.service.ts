@@ -3,6 +3,7 @@ import { discordClient } from '../client.js';
 import { serializeRole } from '../serializers.js';
 import type { SerializedRole } from '../../types/discord.types.js';
 import type { CreateRoleInput, EditRoleInput } from '../../types/api.types.js';
+import { ApiError } from '../../api/middleware/errorHandler.js';
 
 export class RoleService {
     /**
@@ -10,7 +11,7 @@ export class RoleService {
      */
     async getRoles(guildId: string): Promise<SerializedRole[]> {
         const guild = discordClient.guilds.cache.get(guildId);
-        if (!guild) {return [];}
+        if (!guild) {throw ApiError.notFound('Guild not found', 'GUILD_NOT_FOUND');}
 
         await guild.roles.fetch();
         return guild.roles.cache
@@ -21,25 +22,25 @@ export class RoleService {
     /**
      * Get a specific role by ID
      */
-    async getRole(guildId: string, roleId: string): Promise<SerializedRole | null> {
+    async getRole(guildId: string, roleId: string): Promise<SerializedRole> {
         const guild = discordClient.guilds.cache.get(guildId);
-        if (!guild) {return null;}
+        if (!guild) {throw ApiError.notFound('Guild not found', 'GUILD_NOT_FOUND');}
 
         try {
             const role = await guild.roles.fetch(roleId);
-            if (!role) {return null;}
+            if (!role) {throw ApiError.notFound('Role not found', 'ROLE_NOT_FOUND');}
             return serializeRole(role);
-        } catch {
-            return null;
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 
     /**
      * Create a new role
      */
-    async createRole(guildId: string, input: CreateRoleInput): Promise<SerializedRole | null> {
+    async createRole(guildId: string, input: CreateRoleInput): Promise<SerializedRole> {
         const guild = discordClient.guilds.cache.get(guildId);
-        if (!guild) {return null;}
+        if (!guild) {throw ApiError.notFound('Guild not found', 'GUILD_NOT_FOUND');}
 
         try {
             const role = await guild.roles.create({
@@ -53,21 +54,20 @@ export class RoleService {
             });
             return serializeRole(role);
         } catch (error) {
-            console.error('Failed to create role:', error);
-            return null;
+            throw ApiError.fromDiscord(error);
         }
     }
 
     /**
      * Edit an existing role
      */
-    async editRole(guildId: string, roleId: string, input: EditRoleInput): Promise<SerializedRole | null> {
+    async editRole(guildId: string, roleId: string, input: EditRoleInput): Promise<SerializedRole> {
         const guild = discordClient.guilds.cache.get(guildId);
-        if (!guild) {return null;}
+        if (!guild) {throw ApiError.notFound('Guild not found', 'GUILD_NOT_FOUND');}
 
         try {
             const role = await guild.roles.fetch(roleId);
-            if (!role) {return null;}
+            if (!role) {throw ApiError.notFound('Role not found', 'ROLE_NOT_FOUND');}
 
             const edited = await role.edit({
                 name: input.name,
@@ -80,44 +80,42 @@ export class RoleService {
                 position: input.position,
             });
             return serializeRole(edited);
-        } catch {
-            return null;
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 
     /**
      * Delete a role
      */
-    async deleteRole(guildId: string, roleId: string, reason?: string): Promise<boolean> {
+    async deleteRole(guildId: string, roleId: string, reason?: string): Promise<void> {
         const guild = discordClient.guilds.cache.get(guildId);
-        if (!guild) {return false;}
+        if (!guild) {throw ApiError.notFound('Guild not found', 'GUILD_NOT_FOUND');}
 
         try {
             const role = await guild.roles.fetch(roleId);
-            if (!role) {return false;}
+            if (!role) {throw ApiError.notFound('Role not found', 'ROLE_NOT_FOUND');}
 
             await role.delete(reason);
-            return true;
-        } catch {
-            return false;
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 
     /**
      * Set role position
      */
-    async setRolePosition(guildId: string, roleId: string, position: number): Promise<boolean> {
+    async setRolePosition(guildId: string, roleId: string, position: number): Promise<void> {
         const guild = discordClient.guilds.cache.get(guildId);
-        if (!guild) {return false;}
+        if (!guild) {throw ApiError.notFound('Guild not found', 'GUILD_NOT_FOUND');}
 
         try {
             const role = await guild.roles.fetch(roleId);
-            if (!role) {return false;}
+            if (!role) {throw ApiError.notFound('Role not found', 'ROLE_NOT_FOUND');}
 
             await role.setPosition(position);
-            return true;
-        } catch {
-            return false;
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 
@@ -126,46 +124,46 @@ export class RoleService {
      */
     async getRoleMembers(guildId: string, roleId: string): Promise<string[]> {
         const guild = discordClient.guilds.cache.get(guildId);
-        if (!guild) {return [];}
+        if (!guild) {throw ApiError.notFound('Guild not found', 'GUILD_NOT_FOUND');}
 
         try {
             const role = await guild.roles.fetch(roleId);
-            if (!role) {return [];}
+            if (!role) {throw ApiError.notFound('Role not found', 'ROLE_NOT_FOUND');}
 
             return role.members.map((m) => m.id);
-        } catch {
-            return [];
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 
     /**
      * Set role permissions
      */
-    async setRolePermissions(guildId: string, roleId: string, permissions: string): Promise<boolean> {
+    async setRolePermissions(guildId: string, roleId: string, permissions: string): Promise<void> {
         const guild = discordClient.guilds.cache.get(guildId);
-        if (!guild) {return false;}
+        if (!guild) {throw ApiError.notFound('Guild not found', 'GUILD_NOT_FOUND');}
 
         try {
             const role = await guild.roles.fetch(roleId);
-            if (!role) {return false;}
+            if (!role) {throw ApiError.notFound('Role not found', 'ROLE_NOT_FOUND');}
 
             await role.setPermissions(new PermissionsBitField(BigInt(permissions)));
-            return true;
-        } catch {
-            return false;
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 
     /**
      * Get role by name
      */
-    async getRoleByName(guildId: string, name: string): Promise<SerializedRole | null> {
+    async getRoleByName(guildId: string, name: string): Promise<SerializedRole> {
         const guild = discordClient.guilds.cache.get(guildId);
-        if (!guild) {return null;}
+        if (!guild) {throw ApiError.notFound('Guild not found', 'GUILD_NOT_FOUND');}
 
         await guild.roles.fetch();
         const role = guild.roles.cache.find((r) => r.name.toLowerCase() === name.toLowerCase());
-        return role ? serializeRole(role) : null;
+        if (!role) {throw ApiError.notFound('Role not found', 'ROLE_NOT_FOUND');}
+        return serializeRole(role);
     }
 }
 
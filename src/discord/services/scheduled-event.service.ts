@@ -2,6 +2,7 @@ import { discordClient } from '../client.js';
 import { serializeScheduledEvent, serializeUser } from '../serializers.js';
 import type { SerializedScheduledEvent, SerializedUser } from '../../types/discord.types.js';
 import type { GuildScheduledEventCreateOptions, GuildScheduledEventEditOptions, GuildScheduledEventStatus } from 'discord.js';
+import { ApiError } from '../../api/middleware/errorHandler.js';
 
 export class ScheduledEventService {
     /**
@@ -9,77 +10,74 @@ export class ScheduledEventService {
      */
     async getGuildEvents(guildId: string): Promise<SerializedScheduledEvent[]> {
         const guild = discordClient.guilds.cache.get(guildId);
-        if (!guild) {return [];}
+        if (!guild) {throw ApiError.notFound('Guild not found', 'GUILD_NOT_FOUND');}
 
         try {
             const events = await guild.scheduledEvents.fetch();
             return events.map(serializeScheduledEvent);
         } catch (error) {
-            console.error(`Failed to fetch scheduled events for guild ${guildId}:`, error);
-            return [];
+            throw ApiError.fromDiscord(error);
         }
     }
 
     /**
      * Get a specific scheduled event
      */
-    async getEvent(guildId: string, eventId: string): Promise<SerializedScheduledEvent | null> {
+    async getEvent(guildId: string, eventId: string): Promise<SerializedScheduledEvent> {
         const guild = discordClient.guilds.cache.get(guildId);
-        if (!guild) {return null;}
+        if (!guild) {throw ApiError.notFound('Guild not found', 'GUILD_NOT_FOUND');}
 
         try {
             const event = await guild.scheduledEvents.fetch(eventId);
             return serializeScheduledEvent(event);
-        } catch {
-            return null;
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 
     /**
      * Create a new scheduled event
      */
-    async createEvent(guildId: string, data: GuildScheduledEventCreateOptions): Promise<SerializedScheduledEvent | null> {
+    async createEvent(guildId: string, data: GuildScheduledEventCreateOptions): Promise<SerializedScheduledEvent> {
         const guild = discordClient.guilds.cache.get(guildId);
-        if (!guild) {return null;}
+        if (!guild) {throw ApiError.notFound('Guild not found', 'GUILD_NOT_FOUND');}
 
         try {
             const event = await guild.scheduledEvents.create(data);
             return serializeScheduledEvent(event);
         } catch (error) {
-            console.error(`Failed to create scheduled event in guild ${guildId}:`, error);
-            return null;
+            throw ApiError.fromDiscord(error);
         }
     }
 
     /**
      * Edit a scheduled event
      */
-    async editEvent(guildId: string, eventId: string, data: GuildScheduledEventEditOptions<GuildScheduledEventStatus, GuildScheduledEventStatus.Active | GuildScheduledEventStatus.Completed | GuildScheduledEventStatus.Canceled>): Promise<SerializedScheduledEvent | null> {
+    async editEvent(guildId: string, eventId: string, data: GuildScheduledEventEditOptions<GuildScheduledEventStatus, GuildScheduledEventStatus.Active | GuildScheduledEventStatus.Completed | GuildScheduledEventStatus.Canceled>): Promise<SerializedScheduledEvent> {
         const guild = discordClient.guilds.cache.get(guildId);
-        if (!guild) {return null;}
+        if (!guild) {throw ApiError.notFound('Guild not found', 'GUILD_NOT_FOUND');}
 
         try {
             const event = await guild.scheduledEvents.fetch(eventId);
             const updated = await event.edit(data);
             return serializeScheduledEvent(updated);
-        } catch {
-            return null;
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 
     /**
      * Delete a scheduled event
      */
-    async deleteEvent(guildId: string, eventId: string): Promise<boolean> {
+    async deleteEvent(guildId: string, eventId: string): Promise<void> {
         const guild = discordClient.guilds.cache.get(guildId);
-        if (!guild) {return false;}
+        if (!guild) {throw ApiError.notFound('Guild not found', 'GUILD_NOT_FOUND');}
 
         try {
             const event = await guild.scheduledEvents.fetch(eventId);
             await event.delete();
-            return true;
-        } catch {
-            return false;
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 
@@ -88,14 +86,14 @@ export class ScheduledEventService {
      */
     async getEventUsers(guildId: string, eventId: string): Promise<SerializedUser[]> {
         const guild = discordClient.guilds.cache.get(guildId);
-        if (!guild) {return [];}
+        if (!guild) {throw ApiError.notFound('Guild not found', 'GUILD_NOT_FOUND');}
 
         try {
             const event = await guild.scheduledEvents.fetch(eventId);
             const users = await event.fetchSubscribers();
             return users.map(u => serializeUser(u.user));
-        } catch {
-            return [];
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 }
@@ -3,32 +3,36 @@ import type { StageInstanceCreateOptions, StageInstanceEditOptions } from 'disco
 import { discordClient } from '../client.js';
 import { serializeStageInstance } from '../serializers.js';
 import type { SerializedStageInstance } from '../../types/discord.types.js';
+import { ApiError } from '../../api/middleware/errorHandler.js';
 
 export class StageInstanceService {
     /**
      * Get stage instance for a channel
      */
-    async getStageInstance(channelId: string): Promise<SerializedStageInstance | null> {
+    async getStageInstance(channelId: string): Promise<SerializedStageInstance> {
         const channel = discordClient.channels.cache.get(channelId);
-        if (!channel || !channel.isVoiceBased() || !channel.guild) {return null;}
+        if (!channel) {throw ApiError.notFound('Channel not found', 'CHANNEL_NOT_FOUND');}
+        if (!channel.isVoiceBased() || !channel.guild) {throw ApiError.badRequest('Channel type does not support this action', 'INVALID_CHANNEL_TYPE');}
 
         try {
             const stageInstance = await channel.guild.stageInstances.fetch(channelId);
-            return stageInstance ? serializeStageInstance(stageInstance) : null;
-        } catch {
-            return null;
+            if (!stageInstance) {throw ApiError.notFound('Stage instance not found', 'STAGE_INSTANCE_NOT_FOUND');}
+            return serializeStageInstance(stageInstance);
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 
     /**
      * Create a new stage instance
      */
-    async createStageInstance(channelId: string, topic: string, options?: Omit<StageInstanceCreateOptions, 'channelId' | 'topic'>): Promise<SerializedStageInstance | null> {
+    async createStageInstance(channelId: string, topic: string, options?: Omit<StageInstanceCreateOptions, 'channelId' | 'topic'>): Promise<SerializedStageInstance> {
         const channel = discordClient.channels.cache.get(channelId);
-        if (!channel || !channel.isVoiceBased() || !channel.guild) {return null;}
+        if (!channel) {throw ApiError.notFound('Channel not found', 'CHANNEL_NOT_FOUND');}
+        if (!channel.isVoiceBased() || !channel.guild) {throw ApiError.badRequest('Channel type does not support this action', 'INVALID_CHANNEL_TYPE');}
 
         // Only stage channels can have stage instances
-        if (channel.type !== ChannelType.GuildStageVoice) {return null;}
+        if (channel.type !== ChannelType.GuildStageVoice) {throw ApiError.badRequest('Channel is not a stage channel', 'INVALID_CHANNEL_TYPE');}
 
         try {
             const stageInstance = await channel.guild.stageInstances.create(channel, {
@@ -37,44 +41,44 @@ export class StageInstanceService {
             });
             return serializeStageInstance(stageInstance);
         } catch (error) {
-            console.error(`Failed to create stage instance for channel ${channelId}:`, error);
-            return null;
+            throw ApiError.fromDiscord(error);
         }
     }
 
     /**
      * Edit a stage instance
      */
-    async editStageInstance(channelId: string, data: StageInstanceEditOptions): Promise<SerializedStageInstance | null> {
+    async editStageInstance(channelId: string, data: StageInstanceEditOptions): Promise<SerializedStageInstance> {
         const channel = discordClient.channels.cache.get(channelId);
-        if (!channel || !channel.isVoiceBased() || !channel.guild) {return null;}
+        if (!channel) {throw ApiError.notFound('Channel not found', 'CHANNEL_NOT_FOUND');}
+        if (!channel.isVoiceBased() || !channel.guild) {throw ApiError.badRequest('Channel type does not support this action', 'INVALID_CHANNEL_TYPE');}
 
         try {
             const stageInstance = await channel.guild.stageInstances.fetch(channelId);
-            if (!stageInstance) {return null;}
+            if (!stageInstance) {throw ApiError.notFound('Stage instance not found', 'STAGE_INSTANCE_NOT_FOUND');}
 
             const updated = await stageInstance.edit(data);
             return serializeStageInstance(updated);
-        } catch {
-            return null;
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 
     /**
      * Delete a stage instance
      */
-    async deleteStageInstance(channelId: string): Promise<boolean> {
+    async deleteStageInstance(channelId: string): Promise<void> {
         const channel = discordClient.channels.cache.get(channelId);
-        if (!channel || !channel.isVoiceBased() || !channel.guild) {return false;}
+        if (!channel) {throw ApiError.notFound('Channel not found', 'CHANNEL_NOT_FOUND');}
+        if (!channel.isVoiceBased() || !channel.guild) {throw ApiError.badRequest('Channel type does not support this action', 'INVALID_CHANNEL_TYPE');}
 
         try {
             const stageInstance = await channel.guild.stageInstances.fetch(channelId);
-            if (!stageInstance) {return false;}
+            if (!stageInstance) {throw ApiError.notFound('Stage instance not found', 'STAGE_INSTANCE_NOT_FOUND');}
 
             await stageInstance.delete();
-            return true;
-        } catch {
-            return false;
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 }
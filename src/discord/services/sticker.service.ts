@@ -2,6 +2,7 @@ import { discordClient } from '../client.js';
 import { serializeSticker } from '../serializers.js';
 import type { SerializedSticker } from '../../types/discord.types.js';
 import type { GuildStickerCreateOptions, GuildStickerEditOptions } from 'discord.js';
+import { ApiError } from '../../api/middleware/errorHandler.js';
 
 export class StickerService {
     /**
@@ -9,7 +10,7 @@ export class StickerService {
      */
     async getGuildStickers(guildId: string): Promise<SerializedSticker[]> {
         const guild = discordClient.guilds.cache.get(guildId);
-        if (!guild) {return [];}
+        if (!guild) {throw ApiError.notFound('Guild not found', 'GUILD_NOT_FOUND');}
 
         const stickers = await guild.stickers.fetch();
         return stickers.map(serializeSticker);
@@ -18,24 +19,24 @@ export class StickerService {
     /**
      * Get a specific sticker
      */
-    async getSticker(guildId: string, stickerId: string): Promise<SerializedSticker | null> {
+    async getSticker(guildId: string, stickerId: string): Promise<SerializedSticker> {
         const guild = discordClient.guilds.cache.get(guildId);
-        if (!guild) {return null;}
+        if (!guild) {throw ApiError.notFound('Guild not found', 'GUILD_NOT_FOUND');}
 
         try {
             const sticker = await guild.stickers.fetch(stickerId);
             return serializeSticker(sticker);
-        } catch {
-            return null;
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 
     /**
      * Create a new sticker
      */
-    async createSticker(guildId: string, data: GuildStickerCreateOptions): Promise<SerializedSticker | null> {
+    async createSticker(guildId: string, data: GuildStickerCreateOptions): Promise<SerializedSticker> {
         const guild = discordClient.guilds.cache.get(guildId);
-        if (!guild) {return null;}
+        if (!guild) {throw ApiError.notFound('Guild not found', 'GUILD_NOT_FOUND');}
 
         const sticker = await guild.stickers.create(data);
         return serializeSticker(sticker);
@@ -44,32 +45,31 @@ export class StickerService {
     /**
      * Edit a sticker
      */
-    async editSticker(guildId: string, stickerId: string, data: GuildStickerEditOptions): Promise<SerializedSticker | null> {
+    async editSticker(guildId: string, stickerId: string, data: GuildStickerEditOptions): Promise<SerializedSticker> {
         const guild = discordClient.guilds.cache.get(guildId);
-        if (!guild) {return null;}
+        if (!guild) {throw ApiError.notFound('Guild not found', 'GUILD_NOT_FOUND');}
 
         try {
             const sticker = await guild.stickers.fetch(stickerId);
             const updated = await sticker.edit(data);
             return serializeSticker(updated);
-        } catch {
-            return null;
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 
     /**
      * Delete a sticker
      */
-    async deleteSticker(guildId: string, stickerId: string): Promise<boolean> {
+    async deleteSticker(guildId: string, stickerId: string): Promise<void> {
         const guild = discordClient.guilds.cache.get(guildId);
-        if (!guild) {return false;}
+        if (!guild) {throw ApiError.notFound('Guild not found', 'GUILD_NOT_FOUND');}
 
         try {
             const sticker = await guild.stickers.fetch(stickerId);
             await sticker.delete();
-            return true;
-        } catch {
-            return false;
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 }
@@ -2,6 +2,7 @@ import { discordClient } from '../client.js';
 import { serializeWebhook } from '../serializers.js';
 import type { SerializedWebhook } from '../../types/discord.types.js';
 import type { ChannelWebhookCreateOptions } from 'discord.js';
+import { ApiError } from '../../api/middleware/errorHandler.js';
 
 export class WebhookService {
     /**
@@ -9,13 +10,14 @@ export class WebhookService {
      */
     async getChannelWebhooks(channelId: string): Promise<SerializedWebhook[]> {
         const channel = discordClient.channels.cache.get(channelId);
-        if (!channel || !('fetchWebhooks' in channel)) {return [];}
+        if (!channel) {throw ApiError.notFound('Channel not found', 'CHANNEL_NOT_FOUND');}
+        if (!('fetchWebhooks' in channel)) {throw ApiError.badRequest('Channel type does not support this action', 'INVALID_CHANNEL_TYPE');}
 
         try {
             const webhooks = await channel.fetchWebhooks();
             return webhooks.map(serializeWebhook);
-        } catch {
-            return [];
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 
@@ -24,47 +26,48 @@ export class WebhookService {
      */
     async getGuildWebhooks(guildId: string): Promise<SerializedWebhook[]> {
         const guild = discordClient.guilds.cache.get(guildId);
-        if (!guild) {return [];}
+        if (!guild) {throw ApiError.notFound('Guild not found', 'GUILD_NOT_FOUND');}
 
         try {
             const webhooks = await guild.fetchWebhooks();
             return webhooks.map(serializeWebhook);
-        } catch {
-            return [];
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 
     /**
      * Get a specific webhook
      */
-    async getWebhook(webhookId: string): Promise<SerializedWebhook | null> {
+    async getWebhook(webhookId: string): Promise<SerializedWebhook> {
         try {
             const webhook = await discordClient.fetchWebhook(webhookId);
             return serializeWebhook(webhook);
-        } catch {
-            return null;
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 
     /**
      * Create a webhook
      */
-    async createWebhook(channelId: string, data: ChannelWebhookCreateOptions): Promise<SerializedWebhook | null> {
+    async createWebhook(channelId: string, data: ChannelWebhookCreateOptions): Promise<SerializedWebhook> {
         const channel = discordClient.channels.cache.get(channelId);
-        if (!channel || !('createWebhook' in channel)) {return null;}
+        if (!channel) {throw ApiError.notFound('Channel not found', 'CHANNEL_NOT_FOUND');}
+        if (!('createWebhook' in channel)) {throw ApiError.badRequest('Channel type does not support this action', 'INVALID_CHANNEL_TYPE');}
 
         try {
             const webhook = await channel.createWebhook(data);
             return serializeWebhook(webhook);
-        } catch {
-            return null;
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 
     /**
      * Edit a webhook
      */
-    async editWebhook(webhookId: string, data: { name?: string; avatar?: string | null; channelId?: string }): Promise<SerializedWebhook | null> {
+    async editWebhook(webhookId: string, data: { name?: string; avatar?: string | null; channelId?: string }): Promise<SerializedWebhook> {
         try {
             const webhook = await discordClient.fetchWebhook(webhookId);
 
@@ -79,21 +82,20 @@ export class WebhookService {
 
             const updated = await webhook.edit(editPayload);
             return serializeWebhook(updated);
-        } catch {
-            return null;
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 
     /**
      * Delete a webhook
      */
-    async deleteWebhook(webhookId: string): Promise<boolean> {
+    async deleteWebhook(webhookId: string): Promise<void> {
         try {
             const webhook = await discordClient.fetchWebhook(webhookId);
             await webhook.delete();
-            return true;
-        } catch {
-            return false;
+        } catch (error) {
+            throw ApiError.fromDiscord(error);
         }
     }
 }
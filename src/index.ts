@@ -3,12 +3,61 @@ import { registerDiscordEvents } from './discord/events/index.js';
 import { createApiServer, startApiServer } from './api/server.js';
 import { pluginManager } from './plugins/manager.js';
 import { shutdownRateLimiter } from './api/middleware/rateLimit.js';
+import { apiKeyStore } from './api/auth/key-store.js';
+import { eventLog } from './discord/event-log.js';
+import { eventWebhookStore } from './api/event-webhooks/store.js';
+import { scheduledMessageStore } from './api/scheduled-messages/store.js';
+import { messageScheduler } from './api/scheduled-messages/scheduler.js';
 import { config } from './config/index.js';
+import { ClusterRpc } from './cluster/rpc.js';
+import { startApiNode } from './cluster/api-node.js';
+import { startClusterGateway } from './cluster/gateway.js';
+import type { ClusterTransport } from './cluster/transport.js';
+import { WebSocketClientTransport, WebSocketHubTransport, getClusterUrl } from './cluster/ws-transport.js';
+
+// Link to the other cluster nodes (gateway and API roles only)
+let clusterTransport: ClusterTransport | null = null;
+let clusterRpc: ClusterRpc | null = null;
+
+/**
+ * Start a cluster API node: no Discord connection, key store or plugins, just
+ * the realtime endpoints fed by the gateway and a proxy for the REST API.
+ */
+async function startAsApiNode(): Promise<void> {
+    const { gatewayUrl, secret, requestTimeoutMs, directoryRefresh } = config.cluster;
+    const transport = new WebSocketClientTransport(getClusterUrl(gatewayUrl as string), secret as string);
+    clusterTransport = transport;
+    clusterRpc = new ClusterRpc(transport, requestTimeoutMs);
+
+    createApiServer();
+    startApiNode(transport, clusterRpc, { directoryRefreshMs: directoryRefresh * 1000 });
+
+    await startApiServer();
+    console.log('');
+    console.log(`✨ Holo Bridge API node is ready (gateway: ${gatewayUrl})\n`);
+}
 
 async function main(): Promise<void> {
     console.log('🚀 Starting Holo Bridge...\n');
 
     try {
+        if (config.cluster.role === 'api') {
+            await startAsApiNode();
+            return;
+        }
+
+        // Load runtime-managed API keys
+        await apiKeyStore.load();
+
+        // Restore the event log so clients can resume across restarts
+        await eventLog.load();
+
+        // Load registered event webhooks
+        await eventWebhookStore.load();
+
+        // Load scheduled messages (sent once the API server is up)
+        await scheduledMessageStore.load();
+
         // Login to Discord
         console.log('📡 Connecting to Discord...');
         await loginDiscord();
@@ -20,7 +69,17 @@ async function main(): Promise<void> {
         console.log('');
 
         // Create API server (needed for plugin context)
-        const { io, app } = createApiServer();
+        const { io, app, httpServer } = createApiServer();
+
+        // Accept cluster API nodes and publish events to them
+        if (config.cluster.role === 'gateway') {
+            const hub = new WebSocketHubTransport(config.cluster.secret as string);
+            hub.attach(httpServer);
+            clusterTransport = hub;
+            clusterRpc = new ClusterRpc(hub, config.cluster.requestTimeoutMs);
+            startClusterGateway(hub, clusterRpc);
+            console.log('');
+        }
 
         // Initialize and load plugins
         if (config.plugins.enabled) {
@@ -34,6 +93,9 @@ async function main(): Promise<void> {
         await startApiServer();
         console.log('');
 
+        // Send scheduled messages, including any that came due while the bridge was down
+        messageScheduler.start();
+
         console.log('✨ Holo Bridge is ready!\n');
     } catch (error) {
         console.error('❌ Failed to start Holo Bridge:', error);
@@ -48,6 +110,19 @@ async function shutdown(): Promise<void> {
     // Clean up rate limiter intervals
     shutdownRateLimiter();
 
+    // Stop sending scheduled messages
+    messageScheduler.stop();
+
+    // Disconnect from the other cluster nodes
+    clusterRpc?.close();
+    await clusterTransport?.close();
+
+    // Persist pending API key usage counters
+    await apiKeyStore.flush();
+
+    // Finish writing logged events
+    await eventLog.flush();
+
     // Unload plugins gracefully
     if (pluginManager.count > 0) {
         console.log('🔌 Unloading plugins...');
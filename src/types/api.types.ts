@@ -1,69 +1,400 @@
 import { z } from 'zod';
+import { API_SCOPES } from './auth.types.js';
+import { parseCron } from '../api/scheduled-messages/cron.js';
+
+// ============================================================================
+// Message Component Schemas
+// ============================================================================
+// Components use Discord's API shape (snake_case fields, numeric `type`) and are
+// passed to Discord as they are. Nesting is spelled out level by level rather than
+// with recursive schemas (for OpenAPI compatibility).
+
+/** Numeric component types, as defined by Discord */
+export const COMPONENT_TYPES = {
+    actionRow: 1,
+    button: 2,
+    stringSelect: 3,
+    textInput: 4,
+    userSelect: 5,
+    roleSelect: 6,
+    mentionableSelect: 7,
+    channelSelect: 8,
+    section: 9,
+    textDisplay: 10,
+    thumbnail: 11,
+    mediaGallery: 12,
+    file: 13,
+    separator: 14,
+    container: 17,
+    label: 18,
+    fileUpload: 19,
+} as const;
+
+// Optional identifier, unique within the message
+const componentId = z.number().int().min(0).optional();
+
+const customId = z.string().min(1).max(100);
+
+const PartialEmojiSchema = z.object({
+    id: z.string().optional(),
+    name: z.string().optional(),
+    animated: z.boolean().optional(),
+});
+
+// Styles 1-4 send an interaction, 5 opens `url`, 6 buys `sku_id`
+const ButtonSchema = z
+    .object({
+        type: z.literal(COMPONENT_TYPES.button),
+        id: componentId,
+        style: z.number().int().min(1).max(6),
+        label: z.string().max(80).optional(),
+        emoji: PartialEmojiSchema.optional(),
+        custom_id: customId.optional(),
+        url: z.string().url().max(512).optional(),
+        sku_id: z.string().optional(),
+        disabled: z.boolean().optional(),
+    })
+    .refine((button) => (button.style === 5 ? !!button.url && !button.custom_id : !button.url), {
+        message: 'Link buttons (style 5) need a url and no custom_id; other buttons cannot have a url',
+    })
+    .refine((button) => (button.style === 6 ? !!button.sku_id : !!button.custom_id || button.style === 5), {
+        message: 'Premium buttons (style 6) need a sku_id; interactive buttons need a custom_id',
+    });
+
+const selectMenuFields = {
+    id: componentId,
+    custom_id: customId,
+    placeholder: z.string().max(150).optional(),
+    min_values: z.number().int().min(0).max(25).optional(),
+    max_values: z.number().int().min(1).max(25).optional(),
+    disabled: z.boolean().optional(),
+    // Only used in modals
+    required: z.boolean().optional(),
+};
+
+const SelectDefaultValueSchema = z.object({
+    id: z.string(),
+    type: z.enum(['user', 'role', 'channel']),
+});
+
+const StringSelectSchema = z.object({
+    type: z.literal(COMPONENT_TYPES.stringSelect),
+    ...selectMenuFields,
+    options: z
+        .array(
+            z.object({
+                label: z.string().min(1).max(100),
+                value: z.string().min(1).max(100),
+                description: z.string().max(100).optional(),
+                emoji: PartialEmojiSchema.optional(),
+                default: z.boolean().optional(),
+            })
+        )
+        .min(1)
+        .max(25),
+});
+
+const UserSelectSchema = z.object({
+    type: z.literal(COMPONENT_TYPES.userSelect),
+    ...selectMenuFields,
+    default_values: z.array(SelectDefaultValueSchema).max(25).optional(),
+});
+
+const RoleSelectSchema = z.object({
+    type: z.literal(COMPONENT_TYPES.roleSelect),
+    ...selectMenuFields,
+    default_values: z.array(SelectDefaultValueSchema).max(25).optional(),
+});
+
+const MentionableSelectSchema = z.object({
+    type: z.literal(COMPONENT_TYPES.mentionableSelect),
+    ...selectMenuFields,
+    default_values: z.array(SelectDefaultValueSchema).max(25).optional(),
+});
+
+const ChannelSelectSchema = z.object({
+    type: z.literal(COMPONENT_TYPES.channelSelect),
+    ...selectMenuFields,
+    channel_types: z.array(z.number().int()).optional(),
+    default_values: z.array(SelectDefaultValueSchema).max(25).optional(),
+});
+
+const SelectMenuSchema = z.discriminatedUnion('type', [
+    StringSelectSchema,
+    UserSelectSchema,
+    RoleSelectSchema,
+    MentionableSelectSchema,
+    ChannelSelectSchema,
+]);
+
+// Up to five buttons, or a single select menu
+const ActionRowSchema = z.object({
+    type: z.literal(COMPONENT_TYPES.actionRow),
+    id: componentId,
+    components: z.union([z.array(ButtonSchema).min(1).max(5), z.array(SelectMenuSchema).length(1)]),
+});
+
+// `attachment://<name>` shows an uploaded file
+const UnfurledMediaSchema = z.object({
+    url: z.string().url(),
+});
+
+const TextDisplaySchema = z.object({
+    type: z.literal(COMPONENT_TYPES.textDisplay),
+    id: componentId,
+    content: z.string().min(1).max(4000),
+});
+
+const ThumbnailSchema = z.object({
+    type: z.literal(COMPONENT_TYPES.thumbnail),
+    id: componentId,
+    media: UnfurledMediaSchema,
+    description: z.string().max(1024).optional().nullable(),
+    spoiler: z.boolean().optional(),
+});
+
+const SectionSchema = z.object({
+    type: z.literal(COMPONENT_TYPES.section),
+    id: componentId,
+    components: z.array(TextDisplaySchema).min(1).max(3),
+    accessory: z.union([ButtonSchema, ThumbnailSchema]),
+});
+
+const MediaGallerySchema = z.object({
+    type: z.literal(COMPONENT_TYPES.mediaGallery),
+    id: componentId,
+    items: z
+        .array(
+            z.object({
+                media: UnfurledMediaSchema,
+                description: z.string().max(1024).optional().nullable(),
+                spoiler: z.boolean().optional(),
+            })
+        )
+        .min(1)
+        .max(10),
+});
+
+const FileComponentSchema = z.object({
+    type: z.literal(COMPONENT_TYPES.file),
+    id: componentId,
+    file: z.object({ url: z.string().startsWith('attachment://', 'File components must reference an uploaded file') }),
+    spoiler: z.boolean().optional(),
+});
+
+const SeparatorSchema = z.object({
+    type: z.literal(COMPONENT_TYPES.separator),
+    id: componentId,
+    divider: z.boolean().optional(),
+    spacing: z.union([z.literal(1), z.literal(2)]).optional(), // 1=small, 2=large
+});
+
+const ContainerSchema = z.object({
+    type: z.literal(COMPONENT_TYPES.container),
+    id: componentId,
+    components: z
+        .array(z.union([ActionRowSchema, TextDisplaySchema, SectionSchema, MediaGallerySchema, SeparatorSchema, FileComponentSchema]))
+        .min(1),
+    accent_color: z.number().int().min(0).max(16777215).optional().nullable(),
+    spoiler: z.boolean().optional(),
+});
+
+const MessageComponentSchema = z.union([
+    ActionRowSchema,
+    TextDisplaySchema,
+    SectionSchema,
+    MediaGallerySchema,
+    FileComponentSchema,
+    SeparatorSchema,
+    ContainerSchema,
+]);
+
+/**
+ * Top-level components of a message. Messages with only action rows are classic
+ * messages (up to 5 rows); any layout component makes it a Components V2 message,
+ * which has no content or embeds and up to 40 components in total.
+ */
+export const MessageComponentsSchema = z.array(MessageComponentSchema).superRefine((components, ctx) => {
+    if (!usesComponentsV2(components)) {
+        if (components.length > 5) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Messages can have at most 5 action rows' });
+        }
+        return;
+    }
+    if (countComponents(components) > 40) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Components V2 messages can have at most 40 components' });
+    }
+});
+
+const TextInputSchema = z.object({
+    type: z.literal(COMPONENT_TYPES.textInput),
+    id: componentId,
+    custom_id: customId,
+    style: z.union([z.literal(1), z.literal(2)]), // 1=short, 2=paragraph
+    // Only set when the text input is directly in an action row
+    label: z.string().max(45).optional(),
+    min_length: z.number().int().min(0).max(4000).optional(),
+    max_length: z.number().int().min(1).max(4000).optional(),
+    required: z.boolean().optional(),
+    value: z.string().max(4000).optional(),
+    placeholder: z.string().max(100).optional(),
+});
+
+const FileUploadSchema = z.object({
+    type: z.literal(COMPONENT_TYPES.fileUpload),
+    id: componentId,
+    custom_id: customId,
+    min_values: z.number().int().min(0).max(10).optional(),
+    max_values: z.number().int().min(1).max(10).optional(),
+    required: z.boolean().optional(),
+});
+
+const LabelSchema = z.object({
+    type: z.literal(COMPONENT_TYPES.label),
+    id: componentId,
+    label: z.string().min(1).max(45),
+    description: z.string().max(100).optional(),
+    component: z.union([TextInputSchema, SelectMenuSchema, FileUploadSchema]),
+});
+
+/**
+ * Modal shown in response to an interaction.
+ */
+export const ModalSchema = z.object({
+    custom_id: customId,
+    title: z.string().min(1).max(45),
+    components: z
+        .array(
+            z.union([
+                LabelSchema,
+                TextDisplaySchema,
+                z.object({
+                    type: z.literal(COMPONENT_TYPES.actionRow),
+                    id: componentId,
+                    components: z.array(TextInputSchema).length(1),
+                }),
+            ])
+        )
+        .min(1)
+        .max(5),
+});
+
+/**
+ * Whether top-level components need the Components V2 message flag.
+ */
+export function usesComponentsV2(components: readonly { type: number }[]): boolean {
+    return components.some((component) => component.type !== COMPONENT_TYPES.actionRow);
+}
+
+/**
+ * Count components including nested ones (row children, section text and accessory).
+ */
+function countComponents(components: readonly unknown[]): number {
+    let count = 0;
+    for (const component of components) {
+        count++;
+        const { components: children, accessory } = component as { components?: unknown[]; accessory?: unknown };
+        if (children) {count += countComponents(children);}
+        if (accessory) {count++;}
+    }
+    return count;
+}
 
 // ============================================================================
 // Request Schemas
 // ============================================================================
 
+/**
+ * Description of a file uploaded with a message, matched to the file by its name.
+ * Embeds can show the file with `attachment://<name>`.
+ */
+export const AttachmentMetadataSchema = z.object({
+    name: z.string().min(1),
+    description: z.string().max(1024).optional(),
+    spoiler: z.boolean().optional(),
+});
+
+const EmbedSchema = z.object({
+    title: z.string().max(256).optional(),
+    description: z.string().max(4096).optional(),
+    url: z.string().url().optional(),
+    color: z.number().int().min(0).max(16777215).optional(),
+    timestamp: z.string().datetime().optional(),
+    footer: z
+        .object({
+            text: z.string().max(2048),
+            icon_url: z.string().url().optional(),
+        })
+        .optional(),
+    image: z.object({ url: z.string().url() }).optional(),
+    thumbnail: z.object({ url: z.string().url() }).optional(),
+    author: z
+        .object({
+            name: z.string().max(256),
+            url: z.string().url().optional(),
+            icon_url: z.string().url().optional(),
+        })
+        .optional(),
+    fields: z
+        .array(
+            z.object({
+                name: z.string().max(256),
+                value: z.string().max(1024),
+                inline: z.boolean().optional(),
+            })
+        )
+        .max(25)
+        .optional(),
+});
+
+/**
+ * Who a message may ping. Anything not listed is not pinged.
+ */
+export const AllowedMentionsSchema = z.object({
+    parse: z.array(z.enum(['users', 'roles', 'everyone'])).optional(),
+    users: z.array(z.string()).max(100).optional(),
+    roles: z.array(z.string()).max(100).optional(),
+    repliedUser: z.boolean().optional(),
+});
+
 export const SendMessageSchema = z
     .object({
         content: z.string().max(2000).optional(),
-        embeds: z
-            .array(
-                z.object({
-                    title: z.string().max(256).optional(),
-                    description: z.string().max(4096).optional(),
-                    url: z.string().url().optional(),
-                    color: z.number().int().min(0).max(16777215).optional(),
-                    timestamp: z.string().datetime().optional(),
-                    footer: z
-                        .object({
-                            text: z.string().max(2048),
-                            icon_url: z.string().url().optional(),
-                        })
-                        .optional(),
-                    image: z.object({ url: z.string().url() }).optional(),
-                    thumbnail: z.object({ url: z.string().url() }).optional(),
-                    author: z
-                        .object({
-                            name: z.string().max(256),
-                            url: z.string().url().optional(),
-                            icon_url: z.string().url().optional(),
-                        })
-                        .optional(),
-                    fields: z
-                        .array(
-                            z.object({
-                                name: z.string().max(256),
-                                value: z.string().max(1024),
-                                inline: z.boolean().optional(),
-                            })
-                        )
-                        .max(25)
-                        .optional(),
-                })
-            )
-            .max(10)
-            .optional(),
+        embeds: z.array(EmbedSchema).max(10).optional(),
         replyTo: z.string().optional(),
         tts: z.boolean().optional(),
+        suppressEmbeds: z.boolean().optional(),
+        attachments: z.array(AttachmentMetadataSchema).max(10).optional(),
+        components: MessageComponentsSchema.optional(),
+        allowedMentions: AllowedMentionsSchema.optional(),
     })
-    .refine((data) => data.content || (data.embeds && data.embeds.length > 0), {
-        message: 'Either content or at least one embed is required',
+    .refine(
+        (data) =>
+            data.content ||
+            (data.embeds && data.embeds.length > 0) ||
+            (data.attachments && data.attachments.length > 0) ||
+            (data.components && data.components.length > 0),
+        { message: 'Either content, at least one embed, a file or components are required' }
+    )
+    .refine((data) => !data.components || !usesComponentsV2(data.components) || (!data.content && !data.embeds?.length), {
+        message: 'Components V2 messages cannot have content or embeds; use text display components',
+        path: ['components'],
     });
 
+// Omitted fields are left unchanged
 export const EditMessageSchema = z.object({
+    // null removes the content
     content: z.string().max(2000).optional().nullable(),
-    embeds: z
-        .array(
-            z.object({
-                title: z.string().max(256).optional(),
-                description: z.string().max(4096).optional(),
-                url: z.string().url().optional(),
-                color: z.number().int().optional(),
-            })
-        )
-        .max(10)
-        .optional(),
+    // An empty array removes the embeds
+    embeds: z.array(EmbedSchema).max(10).optional(),
+    suppressEmbeds: z.boolean().optional(),
+    // Files uploaded with the edit, added to the message's attachments
+    attachments: z.array(AttachmentMetadataSchema).max(10).optional(),
+    // IDs of the message's current attachments to remove
+    removeAttachments: z.array(z.string()).max(10).optional(),
+    // An empty array removes the message's components
+    components: MessageComponentsSchema.optional(),
+    allowedMentions: AllowedMentionsSchema.optional(),
 });
 
 export const CreateChannelSchema = z.object({
@@ -142,6 +473,94 @@ export const GetMessagesSchema = z.object({
     around: z.string().optional(),
 });
 
+export const CreateApiKeySchema = z
+    .object({
+        name: z.string().min(1).max(100),
+        scopes: z.array(z.enum(API_SCOPES)).min(1),
+        guildIds: z.array(z.string()).min(1).optional(),
+        channelIds: z.array(z.string()).min(1).optional(),
+        mentions: z
+            .object({
+                everyone: z.boolean().optional(),
+                roles: z.boolean().optional(),
+            })
+            .optional(),
+        notBefore: z.string().datetime({ offset: true }).optional(),
+        expiresAt: z.string().datetime({ offset: true }).optional(),
+    })
+    .refine((data) => !data.notBefore || !data.expiresAt || Date.parse(data.notBefore) < Date.parse(data.expiresAt), {
+        message: 'notBefore must be earlier than expiresAt',
+        path: ['notBefore'],
+    });
+
+export const CreateTokenSchema = z.object({
+    scopes: z.array(z.enum(API_SCOPES)).min(1).optional(),
+    guildIds: z.array(z.string()).min(1).optional(),
+    channelIds: z.array(z.string()).min(1).optional(),
+    ttl: z.number().int().positive().optional(),
+});
+
+/** Hosts that may receive event webhooks over plain HTTP (local development) */
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+export const CreateEventWebhookSchema = z.object({
+    url: z
+        .string()
+        .url()
+        .refine((value) => {
+            const url = new URL(value);
+            return url.protocol === 'https:' || (url.protocol === 'http:' && LOOPBACK_HOSTS.includes(url.hostname));
+        }, { message: 'URL must use HTTPS' }),
+    events: z.array(z.string().min(1)).min(1).max(100).optional(),
+    guildIds: z.array(z.string().regex(/^\d+$/)).min(1).optional(),
+});
+
+// Five-field cron expression, evaluated in UTC
+const CronExpressionSchema = z
+    .string()
+    .max(100)
+    .superRefine((value, ctx) => {
+        try {
+            parseCron(value);
+        } catch (error) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, message: (error as Error).message });
+        }
+    });
+
+// Scheduled messages are sent as JSON, so they cannot carry file uploads
+const ScheduledMessagePayloadSchema = SendMessageSchema.refine((data) => !data.attachments?.length, {
+    message: 'Scheduled messages cannot include file uploads',
+    path: ['attachments'],
+});
+
+export const CreateScheduledMessageSchema = z
+    .object({
+        channelId: z.string().regex(/^\d+$/),
+        // Same payload as POST /api/channels/:channelId/messages
+        message: ScheduledMessagePayloadSchema,
+        // One-off send time
+        sendAt: z.string().datetime({ offset: true }).optional(),
+        // Recurring schedule
+        cron: CronExpressionSchema.optional(),
+    })
+    .refine((data) => (data.sendAt === undefined) !== (data.cron === undefined), {
+        message: 'Either sendAt or cron is required, but not both',
+        path: ['sendAt'],
+    });
+
+// Omitted fields are left unchanged; sendAt or cron switches the schedule to that kind
+export const EditScheduledMessageSchema = z
+    .object({
+        channelId: z.string().regex(/^\d+$/).optional(),
+        message: ScheduledMessagePayloadSchema.optional(),
+        sendAt: z.string().datetime({ offset: true }).optional(),
+        cron: CronExpressionSchema.optional(),
+    })
+    .refine((data) => data.sendAt === undefined || data.cron === undefined, {
+        message: 'sendAt and cron cannot both be set',
+        path: ['sendAt'],
+    });
+
 // ============================================================================
 // Response Types
 // ============================================================================
@@ -160,10 +579,24 @@ export interface ApiErrorResponse {
 
 export type ApiResponse<T> = ApiSuccessResponse<T> | ApiErrorResponse;
 
+/**
+ * A file received in a multipart request.
+ */
+export interface UploadedFile {
+    name: string;
+    contentType: string;
+    data: Buffer;
+}
+
 // ============================================================================
 // Type Exports
 // ============================================================================
 
+export type AttachmentMetadata = z.infer<typeof AttachmentMetadataSchema>;
+export type EmbedInput = z.infer<typeof EmbedSchema>;
+export type AllowedMentionsInput = z.infer<typeof AllowedMentionsSchema>;
+export type MessageComponentsInput = z.infer<typeof MessageComponentsSchema>;
+export type ModalInput = z.infer<typeof ModalSchema>;
 export type SendMessageInput = z.infer<typeof SendMessageSchema>;
 export type EditMessageInput = z.infer<typeof EditMessageSchema>;
 export type CreateChannelInput = z.infer<typeof CreateChannelSchema>;
@@ -175,6 +608,11 @@ export type ModifyRolesInput = z.infer<typeof ModifyRolesSchema>;
 export type SetNicknameInput = z.infer<typeof SetNicknameSchema>;
 export type CreateThreadInput = z.infer<typeof CreateThreadSchema>;
 export type GetMessagesInput = z.infer<typeof GetMessagesSchema>;
+export type CreateApiKeyInput = z.infer<typeof CreateApiKeySchema>;
+export type CreateTokenInput = z.infer<typeof CreateTokenSchema>;
+export type CreateEventWebhookInput = z.infer<typeof CreateEventWebhookSchema>;
+export type CreateScheduledMessageInput = z.infer<typeof CreateScheduledMessageSchema>;
+export type EditScheduledMessageInput = z.infer<typeof EditScheduledMessageSchema>;
 
 // ============================================================================
 // Application Command Schemas
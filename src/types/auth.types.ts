@@ -1,89 +1,155 @@
+/**
+ * All API scopes recognised by the bridge.
+ */
+export const API_SCOPES = [
+    'read:guilds',      // Read guild information
+    'read:channels',    // Read channel information
+    'read:members',     // Read member information
+    'read:messages',    // Read messages
+    'write:messages',   // Send/edit/delete messages
+    'write:members',    // Kick/ban/timeout members
+    'write:channels',   // Create/edit/delete channels
+    'write:roles',      // Create/edit/delete roles
+    'read:emojis',      // Read guild emojis
+    'write:emojis',     // Create/edit/delete emojis
+    'read:stickers',    // Read guild stickers
+    'write:stickers',   // Create/edit/delete stickers
+    'read:automod',     // Read AutoMod rules
+    'write:automod',    // Create/edit/delete AutoMod rules
+    'read:commands',    // Read application commands
+    'write:commands',   // Create/edit/delete application commands
+    'read:webhooks',    // Read webhooks
+    'write:webhooks',   // Edit/delete webhooks
+    'read:voice',       // Read voice connection status
+    'write:voice',      // Join/leave voice channels and play audio
+    'read:invites',     // Read invites
+    'write:invites',    // Delete invites
+    'read:scheduled-events',  // Read scheduled events
+    'write:scheduled-events', // Create/edit/delete scheduled events
+    'write:interactions',     // Respond to interactions
+    'events',           // Subscribe to WebSocket events
+    'admin',            // Full access (bypasses all checks)
+] as const;
+
 /**
  * Available API scopes for granular access control.
  */
-export type ApiScope =
-    | 'read:guilds'      // Read guild information
-    | 'read:channels'    // Read channel information
-    | 'read:members'     // Read member information
-    | 'read:messages'    // Read messages
-    | 'write:messages'   // Send/edit/delete messages
-    | 'write:members'    // Kick/ban/timeout members
-    | 'write:channels'   // Create/edit/delete channels
-    | 'write:roles'      // Create/edit/delete roles
-    | 'events'           // Subscribe to WebSocket events
-    | 'admin';           // Full access (bypasses all checks)
+export type ApiScope = (typeof API_SCOPES)[number];
+
+/**
+ * Where an API key was defined.
+ * - `store`: created at runtime through `/api/keys` and persisted to the key store file
+ * - `env`: defined in the `API_KEYS` environment variable
+ * - `legacy`: the single `API_KEY` environment variable
+ * - `token`: a short-lived signed token minted from another key via `/api/auth/token`
+ * - `session`: a Discord OAuth2 login session; permissions come from the user's Discord permissions
+ */
+export type ApiKeySource = 'store' | 'env' | 'legacy' | 'token' | 'session';
+
+/**
+ * Which mass mentions a key may trigger when a request does not set `allowedMentions`.
+ * Unset fields fall back to the server defaults (`MENTIONS_ALLOW_EVERYONE` / `MENTIONS_ALLOW_ROLES`).
+ */
+export interface MentionPolicy {
+    /** Allow `@everyone` and `@here` to ping */
+    everyone?: boolean;
+    /** Allow role mentions to ping */
+    roles?: boolean;
+}
 
 /**
  * Represents a stored API key with its permissions.
- * 
- * @security IMPORTANT: API Key Storage Security
- * 
- * TODO: Before GA/production deployment, implement hashed key storage:
- * 
- * 1. CURRENT STATE (Development Only):
- *    - Keys are stored in plaintext for development convenience
- *    - This is NOT secure for production use
- *    - If the key store is compromised, all keys are exposed
- * 
- * 2. MIGRATION PLAN:
- *    a) Add bcrypt or argon2 dependency: `npm install argon2` (preferred) or `npm install bcrypt`
- *    b) On key creation:
- *       - Generate the raw key (e.g., "holo_abc123...")
- *       - Hash it: `const keyHash = await argon2.hash(rawKey)`
- *       - Store only `keyHash` in the database, return raw key to user ONCE
- *       - User must save the key; it cannot be recovered
- *    c) On key validation:
- *       - Receive raw key from request header
- *       - Load stored record by key prefix/ID
- *       - Verify: `await argon2.verify(storedHash, rawKey)`
- *    d) Add `keyPrefix` field (first 8 chars) for key lookup without exposing full key
- * 
- * 3. RECOMMENDED FIELDS FOR PRODUCTION:
- *    - keyHash: string         (argon2/bcrypt hash of the key)
- *    - keyPrefix: string       (first 8 chars for identification, e.g., "holo_abc")
- *    - Remove: key field       (never store plaintext)
- * 
- * @example Production implementation
- * ```typescript
- * // Creation
- * const rawKey = generateApiKey(); // "holo_abc123..."
- * const keyHash = await argon2.hash(rawKey);
- * const keyPrefix = rawKey.substring(0, 12); // "holo_abc123"
- * await store.save({ id, name, keyHash, keyPrefix, scopes, createdAt });
- * return rawKey; // Return ONCE to user
- * 
- * // Validation
- * const record = await store.findByPrefix(keyPrefix);
- * const isValid = await argon2.verify(record.keyHash, incomingKey);
- * ```
+ *
+ * @security The raw key is never stored. Keys are identified by `keyPrefix`
+ * and verified against `keyHash` (SHA-256). A raw key is only returned once,
+ * when it is created or rotated.
  */
 export interface ApiKeyRecord {
     /** Unique identifier for this key */
     id: string;
     /** Human-readable name for the key */
     name: string;
-    /** 
-     * The API key value
-     * @deprecated This stores the key in plaintext - FOR DEVELOPMENT ONLY
-     * @todo Replace with keyHash before production deployment
-     */
-    key: string;
-    /**
-     * Hashed API key (for production use)
-     * @todo Implement hashed key validation before production
-     */
-    keyHash?: string;
-    /**
-     * First 8-12 characters of the key for identification without exposing full key
-     * @todo Implement key lookup by prefix before production
-     */
-    keyPrefix?: string;
+    /** SHA-256 hash of the raw key (hex) */
+    keyHash: string;
+    /** First characters of the key, for identification without exposing the full key */
+    keyPrefix: string;
     /** Scopes granted to this key */
     scopes: ApiScope[];
+    /** If set, the key may only access these guilds */
+    guildIds?: string[];
+    /** If set, the key may only access these channels (and their threads) */
+    channelIds?: string[];
+    /** Overrides of the default mention policy for messages sent with this key */
+    mentions?: MentionPolicy;
+    /** Where this key was defined */
+    source: ApiKeySource;
+    /** Discord user a login session acts for (`session` source only) */
+    userId?: string;
     /** When this key was created */
     createdAt: Date;
+    /** If set, the key is rejected before this time */
+    notBefore?: Date;
+    /** If set, the key is rejected from this time on */
+    expiresAt?: Date;
     /** When this key was last used */
     lastUsedAt?: Date;
+    /** Number of authenticated requests and WebSocket connections made with this key */
+    requestCount?: number;
+    /** Client IP of the most recent use */
+    lastIp?: string;
+}
+
+/**
+ * API-safe view of an API key record (never includes the hash).
+ */
+export interface SerializedApiKey {
+    id: string;
+    name: string;
+    keyPrefix: string;
+    scopes: ApiScope[];
+    guildIds: string[] | null;
+    channelIds: string[] | null;
+    mentions: MentionPolicy | null;
+    source: ApiKeySource;
+    createdAt: string;
+    notBefore: string | null;
+    expiresAt: string | null;
+    lastUsedAt: string | null;
+}
+
+/**
+ * Usage counters for a single API key, as reported by `/api/keys/usage`.
+ */
+export interface ApiKeyUsage {
+    id: string;
+    name: string;
+    source: ApiKeySource;
+    lastUsedAt: string | null;
+    requestCount: number;
+    lastIp: string | null;
+    expiresAt: string | null;
+    expired: boolean;
+}
+
+/**
+ * A short-lived signed token returned by `/api/auth/token`.
+ */
+export interface IssuedToken {
+    token: string;
+    expiresAt: string;
+    scopes: ApiScope[];
+    guildIds: string[] | null;
+    channelIds: string[] | null;
+}
+
+/**
+ * Discord user behind a login session, as reported by `/api/auth/session`.
+ */
+export interface SessionUser {
+    id: string;
+    username: string;
+    globalName: string | null;
+    avatar: string | null;
 }
 
 /**
@@ -382,15 +382,53 @@ export interface SerializedAuditLogEntry {
 // Interaction Types
 // ============================================================================
 
+/**
+ * What an interaction is, more specific than its `type`.
+ */
+export type InteractionKind =
+    | 'chatInput'
+    | 'userContextMenu'
+    | 'messageContextMenu'
+    | 'primaryEntryPoint'
+    | 'autocomplete'
+    | 'button'
+    | 'selectMenu'
+    | 'modalSubmit';
+
+export interface SerializedCommandOption {
+    name: string;
+    type: number;
+    /** For user, channel, role, mentionable and attachment options, the ID to look up in `resolved` */
+    value: string | number | boolean | null;
+    /** The option the user is typing in (autocomplete only) */
+    focused: boolean;
+    /** Options of a subcommand or subcommand group */
+    options: SerializedCommandOption[] | null;
+}
+
+/**
+ * Entities referenced by command options or a context menu target, by ID.
+ */
+export interface SerializedInteractionResolved {
+    users: Record<string, SerializedUser>;
+    members: Record<string, SerializedMember>;
+    roles: Record<string, SerializedRole>;
+    channels: Record<string, SerializedChannel>;
+    messages: Record<string, SerializedMessage>;
+    attachments: Record<string, SerializedAttachment>;
+}
+
 export interface SerializedInteraction {
     id: string;
     type: number;
     typeName: string;
+    kind: InteractionKind;
     guildId: string | null;
     channelId: string | null;
     user: SerializedUser;
     member: SerializedMember | null;
-    token: string;
+    /** Null in events replayed from the event log */
+    token: string | null;
     applicationId: string;
     commandName: string | null;
     commandId: string | null;
@@ -399,6 +437,10 @@ export interface SerializedInteraction {
     componentType: number | null;
     values: string[] | null;
     targetId: string | null;
+    options: SerializedCommandOption[] | null;
+    resolved: SerializedInteractionResolved | null;
+    /** Submitted modal values by custom ID: text for text inputs, IDs for selects and file uploads */
+    fields: Record<string, string | string[]> | null;
     locale: string;
     guildLocale: string | null;
     createdAt: string;
@@ -17,8 +17,11 @@ import type {
     SerializedInvite,
     SerializedAuditLogEntry,
     SerializedInteraction,
+    SerializedCommandOption,
     SerializedEntitlement,
 } from './discord.types.js';
+import type { ApiKeyRecord } from './auth.types.js';
+import type { OutboundQueue } from '../api/streams/outbound.js';
 
 // ============================================================================
 // WebSocket Event Types
@@ -99,7 +102,10 @@ export type DiscordEventType =
     // Entitlement Events
     | 'entitlementCreate'
     | 'entitlementUpdate'
-    | 'entitlementDelete';
+    | 'entitlementDelete'
+    // Bridge Events
+    | 'scheduledMessageSent'
+    | 'scheduledMessageFailed';
 
 // ============================================================================
 // Message Event Payload Definitions
@@ -628,10 +634,73 @@ export interface AutoModerationActionExecutionEvent {
 // Interaction Event Payload Definitions
 // ============================================================================
 
+/** Slash command */
+export interface ChatInputCommandInteractionData extends SerializedInteraction {
+    kind: 'chatInput';
+    commandName: string;
+    commandId: string;
+    commandType: 1;
+    options: SerializedCommandOption[];
+}
+
+/** User or message context menu command; `targetId` is the user or message it was used on */
+export interface ContextMenuCommandInteractionData extends SerializedInteraction {
+    kind: 'userContextMenu' | 'messageContextMenu';
+    commandName: string;
+    commandId: string;
+    commandType: 2 | 3;
+    targetId: string;
+}
+
+/** Activity entry point command */
+export interface PrimaryEntryPointCommandInteractionData extends SerializedInteraction {
+    kind: 'primaryEntryPoint';
+    commandName: string;
+    commandId: string;
+    commandType: 4;
+}
+
+/** Autocomplete request; answer it with an `autocomplete` callback */
+export interface AutocompleteInteractionData extends SerializedInteraction {
+    kind: 'autocomplete';
+    commandName: string;
+    commandId: string;
+    commandType: 1;
+    options: SerializedCommandOption[];
+}
+
+/** Button press or select menu choice on a message */
+export interface MessageComponentInteractionData extends SerializedInteraction {
+    kind: 'button' | 'selectMenu';
+    customId: string;
+    componentType: number;
+}
+
+/** Modal submission */
+export interface ModalSubmitInteractionData extends SerializedInteraction {
+    kind: 'modalSubmit';
+    customId: string;
+    fields: Record<string, string | string[]>;
+}
+
+/**
+ * Interaction carried by `interactionCreate`, narrowed by `kind`.
+ */
+export type InteractionEventData =
+    | ChatInputCommandInteractionData
+    | ContextMenuCommandInteractionData
+    | PrimaryEntryPointCommandInteractionData
+    | AutocompleteInteractionData
+    | MessageComponentInteractionData
+    | ModalSubmitInteractionData;
+
+/**
+ * Interactions in DMs have no guild and are delivered to the DM room.
+ */
 export interface InteractionCreateEvent {
     event: 'interactionCreate';
     guildId: string | null;
-    data: SerializedInteraction;
+    data: InteractionEventData;
 }
 
 // ============================================================================
@@ -676,6 +745,40 @@ export interface EntitlementDeleteEvent {
     data: SerializedEntitlement;
 }
 
+// ============================================================================
+// Bridge Event Payload Definitions
+// ============================================================================
+// Events raised by the bridge itself rather than by Discord.
+
+/**
+ * A scheduled message was sent. `nextRunAt` is null once the schedule is done.
+ */
+export interface ScheduledMessageSentEvent {
+    event: 'scheduledMessageSent';
+    guildId: string | null;
+    data: {
+        scheduledMessageId: string;
+        channelId: string;
+        message: SerializedMessage;
+        nextRunAt: string | null;
+    };
+}
+
+/**
+ * A scheduled message could not be sent. `code` is the error code the REST API would return.
+ */
+export interface ScheduledMessageFailedEvent {
+    event: 'scheduledMessageFailed';
+    guildId: string | null;
+    data: {
+        scheduledMessageId: string;
+        channelId: string;
+        error: string;
+        code: string;
+        nextRunAt: string | null;
+    };
+}
+
 // ============================================================================
 // Union Types
 // ============================================================================
@@ -756,37 +859,176 @@ export type DiscordEventPayload =
     // Entitlement Events
     | EntitlementCreateEvent
     | EntitlementUpdateEvent
-    | EntitlementDeleteEvent;
+    | EntitlementDeleteEvent
+    // Bridge Events
+    | ScheduledMessageSentEvent
+    | ScheduledMessageFailedEvent;
+
+/**
+ * An event as delivered to clients: the payload plus its position in the event log.
+ */
+export type SequencedEventPayload = DiscordEventPayload & {
+    /** Monotonically increasing sequence number, used to resume after a disconnect */
+    seq: number;
+    /** When the bridge received the event */
+    timestamp: string;
+};
 
 // ============================================================================
 // Client -> Server Events
 // ============================================================================
 
+/**
+ * Name of a Discord event delivered over the WebSocket
+ */
+export type DiscordEventName = DiscordEventPayload['event'];
+
+/**
+ * Narrows which events a socket receives. All given conditions must match.
+ * `authorIsBot` and `hasAttachments` only match message events.
+ */
+export interface SubscriptionFilter {
+    /** Only these event types */
+    events?: DiscordEventName[];
+    /** Only events in these channels (events without a channel are dropped) */
+    channelIds?: string[];
+    /** Only messages whose author is (true) or is not (false) a bot */
+    authorIsBot?: boolean;
+    /** Only messages with (true) or without (false) attachments */
+    hasAttachments?: boolean;
+}
+
 export interface SubscribeEvent {
     guildIds: string[];
+    /** Replaces the socket's filter; `null` removes it, omitted keeps the current one */
+    filter?: SubscriptionFilter | null;
 }
 
 export interface UnsubscribeEvent {
     guildIds: string[];
 }
 
+export interface ResumeEvent {
+    /** Sequence number of the last event the client processed */
+    lastSeq: number;
+}
+
+export interface ResumedEvent {
+    /** Number of missed events sent before this reply */
+    replayed: number;
+    /** Sequence number of the newest logged event */
+    lastSeq: number;
+    /** True if some missed events were no longer retained */
+    gap: boolean;
+}
+
+/**
+ * A call to a REST-equivalent action over the socket.
+ */
+export interface ActionRequest {
+    /** Correlation ID, echoed in the response */
+    id: string | number;
+    /** Action name (e.g. `sendMessage`) */
+    action: string;
+    /** Path parameters and body fields of the equivalent REST route */
+    params?: Record<string, unknown>;
+    /** Priority in the outbound Discord queue (same as `X-Request-Priority`) */
+    priority?: 'high' | 'normal' | 'low';
+}
+
+/**
+ * Result of an action. `id` is null when the request had no usable ID.
+ */
+export type ActionResponse =
+    | { id: string | number | null; success: true; data: unknown }
+    | { id: string | number | null; success: false; error: string; code: string; details?: unknown; rule?: string; retryAfter?: number; discordCode?: number };
+
 export interface ClientToServerEvents {
     subscribe: (data: SubscribeEvent) => void;
     unsubscribe: (data: UnsubscribeEvent) => void;
-}
-
-export interface ServerToClientEvents {
-    discord: (payload: DiscordEventPayload) => void;
+    resume: (data: ResumeEvent) => void;
+    /** Run an action; the result is passed to `ack`, or emitted as `response` without one */
+    request: (data: ActionRequest, ack?: (response: ActionResponse) => void) => void;
+}
+
+/**
+ * How `discord` events are encoded, chosen by the client when it connects.
+ * With `msgpack`, Socket.IO `discord` events carry the MessagePack encoding of
+ * the payload and every `/ws` frame is a binary MessagePack message.
+ */
+export type EventEncoding = 'json' | 'msgpack';
+
+/**
+ * A `discord` event as received by a client that negotiated the encoding `E`.
+ * Binary data arrives as an `ArrayBuffer` in browsers and a `Buffer` in Node.js.
+ */
+export type EncodedEventPayload<E extends EventEncoding = EventEncoding> = E extends 'msgpack' ? ArrayBuffer | Uint8Array : SequencedEventPayload;
+
+/**
+ * Events sent to Socket.IO clients. Clients pass the encoding they negotiated,
+ * e.g. `Socket<ServerToClientEvents<'msgpack'>, ClientToServerEvents>`.
+ */
+export interface ServerToClientEvents<E extends EventEncoding = EventEncoding> {
+    discord: (payload: EncodedEventPayload<E>) => void;
     error: (error: { message: string; code?: string }) => void;
-    subscribed: (data: { guildIds: string[] }) => void;
+    subscribed: (data: { guildIds: string[]; filter: SubscriptionFilter | null }) => void;
     unsubscribed: (data: { guildIds: string[] }) => void;
+    resumed: (data: ResumedEvent) => void;
+    response: (data: ActionResponse) => void;
 }
 
 export interface InterServerEvents {
-    // For future use with multiple server instances
+    // Unused: cluster API nodes receive events over the cluster transport (src/cluster)
 }
 
 export interface SocketData {
-    apiKey: string;
+    /** The API key the socket authenticated with */
+    apiKey: ApiKeyRecord;
     subscribedGuilds: Set<string>;
+    /** Event filter set on subscribe, if any */
+    filter: SubscriptionFilter | null;
+    /** Buffer of events not yet sent to the socket */
+    outbound: OutboundQueue;
+    /** Encoding of `discord` events, from the handshake */
+    encoding: EventEncoding;
 }
+
+// ============================================================================
+// Plain WebSocket Protocol (/ws)
+// ============================================================================
+
+/**
+ * Credentials sent in the first frame on `/ws`.
+ */
+export interface AuthFrameData {
+    apiKey?: string;
+    /** Signed token from `/api/auth/token` */
+    token?: string;
+}
+
+/**
+ * Frames sent by a plain WebSocket client. Every frame is an object with an `op`,
+ * as JSON text or (on `msgpack` connections) a binary MessagePack message.
+ */
+export type WsClientFrame =
+    | { op: 'auth'; d: AuthFrameData }
+    | { op: 'subscribe'; d: SubscribeEvent }
+    | { op: 'unsubscribe'; d: UnsubscribeEvent }
+    | { op: 'resume'; d: ResumeEvent }
+    | { op: 'request'; d: ActionRequest }
+    | { op: 'heartbeat' };
+
+/**
+ * Frames sent by the server to a plain WebSocket client: JSON text, or binary
+ * MessagePack messages on `msgpack` connections.
+ */
+export type WsServerFrame =
+    | { op: 'hello'; d: { heartbeatInterval: number; encoding: EventEncoding } }
+    | { op: 'ready'; d: { keyId: string; scopes: string[] } }
+    | { op: 'event'; d: SequencedEventPayload }
+    | { op: 'subscribed'; d: { guildIds: string[]; filter: SubscriptionFilter | null } }
+    | { op: 'unsubscribed'; d: { guildIds: string[] } }
+    | { op: 'resumed'; d: ResumedEvent }
+    | { op: 'response'; d: ActionResponse }
+    | { op: 'heartbeat_ack' }
+    | { op: 'error'; d: { message: string; code?: string } };
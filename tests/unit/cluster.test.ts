@@ -0,0 +1,103 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { InProcessBus } from '../../src/cluster/transport.js';
+import { ClusterRpc } from '../../src/cluster/rpc.js';
+import { WebSocketClientTransport, WebSocketHubTransport, getClusterUrl } from '../../src/cluster/ws-transport.js';
+import { ApiError } from '../../src/api/middleware/errorHandler.js';
+
+const SECRET = 'a'.repeat(32);
+
+function nextMessage(subscribe: (handler: (message: unknown) => void) => void): Promise<unknown> {
+    return new Promise((resolve) => subscribe(resolve));
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    while (!condition()) {
+        if (Date.now() > deadline) {throw new Error('Timed out');}
+        await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+}
+
+describe('Cluster RPC', () => {
+    it('should return the result of a call served by another node', async () => {
+        const bus = new InProcessBus();
+        const gateway = new ClusterRpc(bus.connect(), 1000);
+        const node = new ClusterRpc(bus.connect(), 1000);
+        gateway.handle('add', (params) => {
+            const { a, b } = params as { a: number; b: number };
+            return a + b;
+        });
+
+        await expect(node.call<number>('add', { a: 1, b: 2 })).resolves.toBe(3);
+    });
+
+    it('should keep the status and code of ApiErrors thrown by a handler', async () => {
+        const bus = new InProcessBus();
+        const gateway = new ClusterRpc(bus.connect(), 1000);
+        const node = new ClusterRpc(bus.connect(), 1000);
+        gateway.handle('fail', () => {
+            throw ApiError.forbidden('Nope', 'RESOURCE_NOT_ALLOWED');
+        });
+
+        await expect(node.call('fail', null)).rejects.toMatchObject({ statusCode: 403, code: 'RESOURCE_NOT_ALLOWED' });
+    });
+
+    it('should fail calls nobody answers with GATEWAY_UNAVAILABLE', async () => {
+        const node = new ClusterRpc(new InProcessBus().connect(), 20);
+
+        await expect(node.call('missing', null)).rejects.toMatchObject({ statusCode: 503, code: 'GATEWAY_UNAVAILABLE' });
+    });
+});
+
+describe('WebSocket cluster transport', () => {
+    let server: Server;
+    let hub: WebSocketHubTransport;
+    let clients: WebSocketClientTransport[] = [];
+
+    async function startHub(): Promise<string> {
+        server = createServer();
+        hub = new WebSocketHubTransport(SECRET);
+        hub.attach(server);
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    }
+
+    function connect(url: string, secret: string = SECRET): WebSocketClientTransport {
+        const client = new WebSocketClientTransport(getClusterUrl(url), secret);
+        clients.push(client);
+        return client;
+    }
+
+    afterEach(async () => {
+        await Promise.all(clients.map((client) => client.close()));
+        clients = [];
+        await hub.close();
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('should relay messages between the hub and subscribed nodes', async () => {
+        const url = await startHub();
+        const node = connect(url);
+        const received = nextMessage((handler) => node.subscribe('events', handler));
+        await waitFor(() => node.connected);
+        // Give the hub a moment to register the subscription
+        await new Promise((resolve) => setTimeout(resolve, 50));
+
+        hub.publish('events', { seq: 1 });
+        await expect(received).resolves.toEqual({ seq: 1 });
+
+        const fromNode = nextMessage((handler) => hub.subscribe('rpc:ping', handler));
+        node.publish('rpc:ping', { id: 'x' });
+        await expect(fromNode).resolves.toEqual({ id: 'x' });
+    });
+
+    it('should reject nodes presenting the wrong secret', async () => {
+        const url = await startHub();
+        connect(url, 'b'.repeat(32));
+
+        await new Promise((resolve) => setTimeout(resolve, 200));
+        expect(hub.peerCount).toBe(0);
+    });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { EditMessageSchema, ModalSchema, SendMessageSchema, usesComponentsV2 } from '../../src/types/api.types.js';
+
+const button = (customId: string) => ({ type: 2, style: 1, label: 'Go', custom_id: customId });
+const row = (...components: unknown[]) => ({ type: 1, components });
+
+describe('Message components', () => {
+    it('should accept action rows of buttons and select menus', () => {
+        const result = SendMessageSchema.safeParse({
+            content: 'Pick one',
+            components: [
+                row(button('yes'), button('no'), { type: 2, style: 5, label: 'Docs', url: 'https://example.com' }),
+                row({ type: 3, custom_id: 'color', options: [{ label: 'Red', value: 'red' }] }),
+                row({ type: 8, custom_id: 'channel', channel_types: [0], default_values: [{ id: '1', type: 'channel' }] }),
+            ],
+        });
+
+        expect(result.success).toBe(true);
+    });
+
+    it('should reject invalid buttons and rows', () => {
+        const linkWithCustomId = { type: 2, style: 5, url: 'https://example.com', custom_id: 'x' };
+        const twoSelects = row(
+            { type: 5, custom_id: 'a' },
+            { type: 6, custom_id: 'b' }
+        );
+
+        expect(SendMessageSchema.safeParse({ components: [row(linkWithCustomId)] }).success).toBe(false);
+        expect(SendMessageSchema.safeParse({ components: [row({ type: 2, style: 1 })] }).success).toBe(false);
+        expect(SendMessageSchema.safeParse({ components: [twoSelects] }).success).toBe(false);
+        expect(SendMessageSchema.safeParse({ components: Array.from({ length: 6 }, (_, i) => row(button(`b${i}`))) }).success).toBe(false);
+    });
+
+    it('should accept Components V2 layouts without content', () => {
+        const components = [
+            {
+                type: 17,
+                accent_color: 0x5865f2,
+                components: [
+                    { type: 10, content: '## Release notes' },
+                    { type: 9, components: [{ type: 10, content: 'v2.0 is out' }], accessory: { type: 11, media: { url: 'attachment://logo.png' } } },
+                    { type: 14, divider: true, spacing: 1 },
+                    row(button('ack')),
+                ],
+            },
+        ];
+
+        expect(usesComponentsV2(components)).toBe(true);
+        expect(SendMessageSchema.safeParse({ components }).success).toBe(true);
+        expect(SendMessageSchema.safeParse({ content: 'hi', components }).success).toBe(false);
+    });
+
+    it('should allow edits to remove components', () => {
+        expect(EditMessageSchema.safeParse({ components: [] }).success).toBe(true);
+        expect(usesComponentsV2([row(button('a'))])).toBe(false);
+    });
+
+    it('should validate modals', () => {
+        const textInput = { type: 4, custom_id: 'reason', style: 2 };
+
+        expect(ModalSchema.safeParse({
+            custom_id: 'report',
+            title: 'Report',
+            components: [{ type: 18, label: 'Reason', component: textInput }, row({ ...textInput, custom_id: 'extra', label: 'Extra' })],
+        }).success).toBe(true);
+        expect(ModalSchema.safeParse({ custom_id: 'report', title: 'Report', components: [row(button('x'))] }).success).toBe(false);
+    });
+});
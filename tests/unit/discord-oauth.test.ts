@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import express from 'express';
+
+const oauth = {
+    clientId: 'client-id',
+    clientSecret: 'client-secret',
+    redirectUri: 'http://localhost:3000/api/auth/discord/callback',
+    authorizeUrl: 'https://discord.com/oauth2/authorize',
+    tokenUrl: '',
+    apiBaseUrl: '',
+    sessionTtl: 60,
+};
+
+vi.mock('../../src/config/index.js', () => ({
+    config: {
+        api: { apiKey: 'legacy-key', apiKeys: [], keyStoreFile: 'data/api-keys.json' },
+        oauth,
+        debug: false,
+    },
+}));
+
+vi.mock('../../src/discord/client.js', () => ({
+    discordClient: { guilds: { cache: new Map([['guild-a', {}]]) }, channels: { cache: new Map() } },
+}));
+
+const { buildAuthorizeUrl, exchangeCode, fetchCurrentUser, fetchUserGuildIds } = await import(
+    '../../src/api/auth/discord-oauth.js'
+);
+const { SessionStore, toSessionRecord } = await import('../../src/api/auth/sessions.js');
+const { default: oauthRouter } = await import('../../src/api/routes/oauth.js');
+const { errorHandler } = await import('../../src/api/middleware/errorHandler.js');
+
+describe('Discord OAuth2', () => {
+    let server: Server;
+    let lastTokenRequest = '';
+
+    beforeAll(async () => {
+        // Local stand-in for Discord's token endpoint and API
+        server = createServer((req, res) => {
+            let body = '';
+            req.on('data', (chunk: Buffer) => (body += chunk.toString()));
+            req.on('end', () => {
+                res.setHeader('Content-Type', 'application/json');
+                if (req.url === '/oauth2/token') {
+                    lastTokenRequest = body;
+                    const code = new URLSearchParams(body).get('code');
+                    res.statusCode = code === 'good-code' ? 200 : 400;
+                    res.end(JSON.stringify({ access_token: 'user-token', token_type: 'Bearer' }));
+                } else if (req.headers.authorization !== 'Bearer user-token') {
+                    res.statusCode = 401;
+                    res.end('{}');
+                } else if (req.url === '/api/users/@me') {
+                    res.end(JSON.stringify({ id: '42', username: 'mod', global_name: 'Moderator' }));
+                } else if (req.url === '/api/users/@me/guilds') {
+                    res.end(JSON.stringify([{ id: 'guild-a' }, { id: 'guild-b' }]));
+                } else {
+                    res.statusCode = 404;
+                    res.end('{}');
+                }
+            });
+        });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+        const { port } = server.address() as AddressInfo;
+        oauth.tokenUrl = `http://127.0.0.1:${port}/oauth2/token`;
+        oauth.apiBaseUrl = `http://127.0.0.1:${port}/api`;
+    });
+
+    afterAll(async () => {
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('should build the authorization URL', () => {
+        const url = new URL(buildAuthorizeUrl('state-123'));
+        expect(url.searchParams.get('client_id')).toBe('client-id');
+        expect(url.searchParams.get('response_type')).toBe('code');
+        expect(url.searchParams.get('state')).toBe('state-123');
+    });
+
+    it('should exchange a code and fetch the user through the configured endpoints', async () => {
+        const accessToken = await exchangeCode('good-code');
+
+        expect(accessToken).toBe('user-token');
+        expect(new URLSearchParams(lastTokenRequest).get('client_secret')).toBe('client-secret');
+        expect(await fetchCurrentUser(accessToken)).toMatchObject({ id: '42', globalName: 'Moderator' });
+        expect(await fetchUserGuildIds(accessToken)).toEqual(['guild-a', 'guild-b']);
+    });
+
+    it('should reject codes refused by Discord', async () => {
+        await expect(exchangeCode('bad-code')).rejects.toMatchObject({ code: 'OAUTH_EXCHANGE_FAILED' });
+    });
+
+    it('should only complete the login in the browser that started it', async () => {
+        const app = express();
+        app.use('/api/auth/discord', oauthRouter);
+        app.use(errorHandler);
+        const bridge = app.listen(0, '127.0.0.1');
+        await new Promise((resolve) => bridge.once('listening', resolve));
+        const base = `http://127.0.0.1:${(bridge.address() as AddressInfo).port}/api/auth/discord`;
+
+        try {
+            const login = await fetch(`${base}/login`, { redirect: 'manual' });
+            const state = new URL(login.headers.get('location') ?? '').searchParams.get('state');
+            const cookie = login.headers.get('set-cookie') ?? '';
+            expect(cookie).toContain(`holo_oauth_state=${state}`);
+            expect(cookie).toContain('HttpOnly');
+
+            // An attacker's state replayed in another browser
+            const forged = await fetch(`${base}/callback?code=good-code&state=${state}`);
+            expect(forged.status).toBe(400);
+            expect(await forged.json()).toMatchObject({ code: 'INVALID_OAUTH_STATE' });
+
+            const relogin = await fetch(`${base}/login`, { redirect: 'manual' });
+            const freshState = new URL(relogin.headers.get('location') ?? '').searchParams.get('state');
+            const callback = await fetch(`${base}/callback?code=good-code&state=${freshState}`, {
+                headers: { cookie: `holo_oauth_state=${freshState}` },
+            });
+            expect(callback.status).toBe(200);
+            expect(await callback.json()).toMatchObject({ success: true, data: { guildIds: ['guild-a'] } });
+        } finally {
+            await new Promise((resolve) => bridge.close(resolve));
+        }
+    });
+});
+
+describe('SessionStore', () => {
+    const user = { id: '42', username: 'mod', globalName: null, avatar: null };
+
+    it('should resolve sessions to a scope-less principal limited to shared guilds', () => {
+        const store = new SessionStore();
+        const { id, session } = store.create(user, ['guild-a'], 60);
+
+        expect(store.get(id)).toBe(session);
+        expect(toSessionRecord(session)).toMatchObject({
+            source: 'session',
+            userId: '42',
+            scopes: [],
+            guildIds: ['guild-a'],
+        });
+
+        store.delete(id);
+        expect(store.get(id)).toBeNull();
+    });
+
+    it('should accept each OAuth2 state once', () => {
+        const store = new SessionStore();
+        const state = store.createState();
+
+        expect(store.consumeState(state)).toBe(true);
+        expect(store.consumeState(state)).toBe(false);
+        expect(store.consumeState('unknown')).toBe(false);
+    });
+});
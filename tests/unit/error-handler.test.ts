@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { DiscordAPIError, RESTJSONErrorCodes } from 'discord.js';
+import type { Request, Response } from 'express';
+import { ApiError, errorHandler } from '../../src/api/middleware/errorHandler.js';
+
+function discordError(code: number, status: number, message: string): DiscordAPIError {
+    return new DiscordAPIError({ code, message }, code, status, 'POST', 'https://discord.com/api/v10/channels/1/messages', {});
+}
+
+describe('ApiError.fromDiscord', () => {
+    it('should map known Discord codes to bridge codes', () => {
+        const missing = ApiError.fromDiscord(discordError(RESTJSONErrorCodes.MissingPermissions, 403, 'Missing Permissions'));
+        expect(missing).toMatchObject({ statusCode: 403, code: 'MISSING_PERMISSIONS', discordCode: 50013 });
+
+        const unknown = ApiError.fromDiscord(discordError(RESTJSONErrorCodes.UnknownMessage, 404, 'Unknown Message'));
+        expect(unknown).toMatchObject({ statusCode: 404, code: 'MESSAGE_NOT_FOUND', discordCode: 10008 });
+    });
+
+    it('should fall back to the Discord status for unlisted codes', () => {
+        expect(ApiError.fromDiscord(discordError(30005, 400, 'Maximum number of guild roles reached')))
+            .toMatchObject({ statusCode: 400, code: 'DISCORD_LIMIT_REACHED' });
+        expect(ApiError.fromDiscord(discordError(0, 500, 'Internal Server Error')))
+            .toMatchObject({ statusCode: 502, code: 'DISCORD_ERROR' });
+    });
+
+    it('should leave other errors unchanged', () => {
+        const error = new Error('boom');
+        expect(ApiError.fromDiscord(error)).toBe(error);
+    });
+});
+
+describe('errorHandler', () => {
+    it('should include the Discord error code in the response', () => {
+        let status = 0;
+        let body: unknown;
+        const res = {
+            status(code: number) {
+                status = code;
+                return res;
+            },
+            json(payload: unknown) {
+                body = payload;
+                return res;
+            },
+        } as unknown as Response;
+
+        errorHandler(discordError(RESTJSONErrorCodes.UnknownChannel, 404, 'Unknown Channel'), {} as Request, res, () => {});
+
+        expect(status).toBe(404);
+        expect(body).toEqual({
+            success: false,
+            error: 'Unknown Channel',
+            code: 'CHANNEL_NOT_FOUND',
+            discordCode: 10003,
+        });
+    });
+});
@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { DiscordEventPayload } from '../../src/types/events.types.js';
+
+vi.mock('../../src/config/index.js', () => ({
+    config: {
+        eventLog: { file: '', maxEvents: 10000, maxAge: 86400 },
+        debug: false,
+    },
+}));
+
+const { EventLog } = await import('../../src/discord/event-log.js');
+
+function roleDelete(id: string): DiscordEventPayload {
+    return { event: 'roleDelete', guildId: '1', data: { id, guildId: '1' } };
+}
+
+describe('EventLog', () => {
+    let dir: string;
+    let filePath: string;
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), 'holo-events-'));
+        filePath = join(dir, 'events.log');
+    });
+
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should number events in order', () => {
+        const log = new EventLog({ filePath: null, maxEvents: 10, maxAgeMs: 60000 });
+
+        expect(log.append(roleDelete('a')).seq).toBe(1);
+        expect(log.append(roleDelete('b')).seq).toBe(2);
+        expect(log.lastSeq).toBe(2);
+    });
+
+    it('should return only events after the given sequence', () => {
+        const log = new EventLog({ filePath: null, maxEvents: 10, maxAgeMs: 60000 });
+        for (const id of ['a', 'b', 'c']) {
+            log.append(roleDelete(id));
+        }
+
+        const replay = log.since(1);
+        expect(replay.events.map((e) => e.seq)).toEqual([2, 3]);
+        expect(replay.lastSeq).toBe(3);
+        expect(replay.gap).toBe(false);
+        expect(log.since(3).events).toHaveLength(0);
+    });
+
+    it('should report a gap when missed events were pruned by count', () => {
+        const log = new EventLog({ filePath: null, maxEvents: 2, maxAgeMs: 60000 });
+        for (const id of ['a', 'b', 'c', 'd']) {
+            log.append(roleDelete(id));
+        }
+
+        expect(log.size).toBe(2);
+        const replay = log.since(1);
+        expect(replay.events.map((e) => e.seq)).toEqual([3, 4]);
+        expect(replay.gap).toBe(true);
+    });
+
+    it('should drop events older than the retention age', () => {
+        const log = new EventLog({ filePath: null, maxEvents: 10, maxAgeMs: 60000 });
+        const start = new Date('2025-01-01T00:00:00Z');
+        log.append(roleDelete('a'), start);
+        log.append(roleDelete('b'), new Date(start.getTime() + 30000));
+
+        const replay = log.since(0, new Date(start.getTime() + 75000));
+        expect(replay.events.map((e) => e.seq)).toEqual([2]);
+        expect(replay.gap).toBe(true);
+    });
+
+    it('should treat a sequence from a previous log as a gap', () => {
+        const log = new EventLog({ filePath: null, maxEvents: 10, maxAgeMs: 60000 });
+        log.append(roleDelete('a'));
+
+        const replay = log.since(500);
+        expect(replay.events).toHaveLength(1);
+        expect(replay.gap).toBe(true);
+    });
+
+    it('should restore events and the sequence from disk', async () => {
+        const log = new EventLog({ filePath, maxEvents: 10, maxAgeMs: 60000 });
+        await log.load();
+        log.append(roleDelete('a'));
+        log.append(roleDelete('b'));
+        await log.flush();
+
+        const reloaded = new EventLog({ filePath, maxEvents: 10, maxAgeMs: 60000 });
+        await reloaded.load();
+        expect(reloaded.lastSeq).toBe(2);
+        expect(reloaded.since(1).events[0]?.data).toEqual({ id: 'b', guildId: '1' });
+        expect(reloaded.append(roleDelete('c')).seq).toBe(3);
+    });
+
+    it('should keep numbering after a restart in which every event aged out', async () => {
+        const log = new EventLog({ filePath, maxEvents: 10, maxAgeMs: 60000 });
+        await log.load();
+        const longAgo = new Date(Date.now() - 120000);
+        log.append(roleDelete('a'), longAgo);
+        log.append(roleDelete('b'), longAgo);
+        await log.flush();
+
+        // The first restart drops the old events and rewrites the file without them
+        const restarted = new EventLog({ filePath, maxEvents: 10, maxAgeMs: 60000 });
+        await restarted.load();
+        expect(restarted.size).toBe(0);
+
+        const reloaded = new EventLog({ filePath, maxEvents: 10, maxAgeMs: 60000 });
+        await reloaded.load();
+        expect(reloaded.lastSeq).toBe(2);
+        expect(reloaded.since(1)).toEqual({ events: [], lastSeq: 2, gap: true });
+        expect(reloaded.append(roleDelete('c')).seq).toBe(3);
+    });
+
+    it('should deliver interaction tokens live but not store or replay them', async () => {
+        const log = new EventLog({ filePath, maxEvents: 10, maxAgeMs: 60000 });
+        await log.load();
+        const live = log.append({
+            event: 'interactionCreate',
+            guildId: '1',
+            data: { id: '5', kind: 'button', customId: 'confirm', token: 'interaction-token' },
+        } as unknown as DiscordEventPayload);
+        await log.flush();
+
+        expect(live.data).toMatchObject({ token: 'interaction-token' });
+        expect(log.since(0).events[0]?.data).toEqual({ id: '5', kind: 'button', customId: 'confirm', token: null });
+        expect(await readFile(filePath, 'utf8')).not.toContain('interaction-token');
+
+        const reloaded = new EventLog({ filePath, maxEvents: 10, maxAgeMs: 60000 });
+        await reloaded.load();
+        expect(reloaded.since(0).events[0]?.data).toMatchObject({ token: null });
+    });
+
+    it('should rewrite the file with only retained events', async () => {
+        const log = new EventLog({ filePath, maxEvents: 2, maxAgeMs: 60000 });
+        await log.load();
+        for (let i = 0; i < 150; i++) {
+            log.append(roleDelete(String(i)));
+        }
+        await log.flush();
+
+        const lines = (await readFile(filePath, 'utf8')).trim().split('\n');
+        expect(lines.length).toBeLessThan(102);
+        expect(JSON.parse(lines[lines.length - 1] as string).seq).toBe(150);
+    });
+
+    it('should mirror events numbered elsewhere and drop them on a sequence jump', () => {
+        const gateway = new EventLog({ filePath: null, maxEvents: 10, maxAgeMs: 60000 });
+        const mirror = new EventLog({ filePath: null, maxEvents: 10, maxAgeMs: 60000 });
+        const events = ['a', 'b', 'c', 'd'].map((id) => gateway.append(roleDelete(id)));
+
+        mirror.record(events[0]!);
+        mirror.record(events[1]!);
+        expect(mirror.since(0).events.map((event) => event.seq)).toEqual([1, 2]);
+
+        mirror.record(events[3]!);
+        expect(mirror.lastSeq).toBe(4);
+        expect(mirror.since(0)).toMatchObject({ gap: true, events: [{ seq: 4 }] });
+    });
+
+    it('should prepend older events only when they lead up to the retained ones', () => {
+        const gateway = new EventLog({ filePath: null, maxEvents: 10, maxAgeMs: 60000 });
+        const mirror = new EventLog({ filePath: null, maxEvents: 10, maxAgeMs: 60000 });
+        const events = ['a', 'b', 'c', 'd'].map((id) => gateway.append(roleDelete(id)));
+
+        mirror.record(events[3]!);
+        expect(mirror.prepend(events.slice(0, 2))).toBe(false);
+        expect(mirror.prepend(events)).toBe(true);
+        expect(mirror.since(0)).toMatchObject({ gap: false, lastSeq: 4 });
+        expect(mirror.size).toBe(4);
+    });
+});
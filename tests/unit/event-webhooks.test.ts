@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import { createServer, type IncomingHttpHeaders, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { SequencedEventPayload } from '../../src/types/events.types.js';
+
+vi.mock('../../src/config/index.js', () => ({
+    config: {
+        eventWebhooks: {
+            file: 'data/event-webhooks.json',
+            maxAttempts: 3,
+            retryBaseMs: 1,
+            timeoutMs: 1000,
+            maxDeadLetters: 10,
+            concurrency: 2,
+            maxPending: 1,
+        },
+        debug: false,
+    },
+}));
+
+const { EventWebhookStore, webhookMatches } = await import('../../src/api/event-webhooks/store.js');
+const { EventWebhookDispatcher, signDelivery } = await import('../../src/api/event-webhooks/delivery.js');
+const { CreateEventWebhookSchema } = await import('../../src/types/api.types.js');
+
+const options = { maxAttempts: 3, retryBaseMs: 1, timeoutMs: 1000, concurrency: 2, maxPending: 1 };
+
+const payload: SequencedEventPayload = {
+    event: 'roleDelete',
+    guildId: '111',
+    data: { id: '5', guildId: '111' },
+    seq: 7,
+    timestamp: '2025-01-01T00:00:00.000Z',
+};
+
+describe('Event webhooks', () => {
+    let server: Server;
+    let baseUrl: string;
+    let received: { headers: IncomingHttpHeaders; body: string }[];
+    let failuresLeft: number;
+    let inFlight: number;
+    let maxInFlight: number;
+    let releaseSlow: (() => void)[];
+    let dir: string;
+    let store: InstanceType<typeof EventWebhookStore>;
+
+    beforeAll(async () => {
+        // Local receiver that fails the first `failuresLeft` requests
+        server = createServer((req, res) => {
+            let body = '';
+            req.on('data', (chunk: Buffer) => (body += chunk.toString()));
+            req.on('end', () => {
+                received.push({ headers: req.headers, body });
+                if (req.url === '/slow') {
+                    maxInFlight = Math.max(maxInFlight, ++inFlight);
+                    releaseSlow.push(() => {
+                        inFlight--;
+                        res.statusCode = 204;
+                        res.end();
+                    });
+                    return;
+                }
+                res.statusCode = req.url === '/gone' ? 410 : failuresLeft-- > 0 ? 503 : 204;
+                res.end();
+            });
+        });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    beforeEach(async () => {
+        received = [];
+        failuresLeft = 0;
+        inFlight = 0;
+        maxInFlight = 0;
+        releaseSlow = [];
+        dir = await mkdtemp(join(tmpdir(), 'holo-webhooks-'));
+        store = new EventWebhookStore(join(dir, 'webhooks.json'), 10);
+    });
+
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should require HTTPS except for loopback hosts', () => {
+        expect(CreateEventWebhookSchema.safeParse({ url: 'https://example.com/hook' }).success).toBe(true);
+        expect(CreateEventWebhookSchema.safeParse({ url: 'http://localhost:8080/hook' }).success).toBe(true);
+        expect(CreateEventWebhookSchema.safeParse({ url: 'http://example.com/hook' }).success).toBe(false);
+    });
+
+    it('should match webhooks by event type and guild', async () => {
+        const byEvent = await store.create({ url: baseUrl, events: ['messageCreate'] });
+        const byGuild = await store.create({ url: baseUrl, guildIds: ['111'] });
+
+        expect(webhookMatches(byEvent, payload)).toBe(false);
+        expect(webhookMatches(byGuild, payload)).toBe(true);
+        expect(webhookMatches(byGuild, { ...payload, guildId: null })).toBe(false);
+    });
+
+    it('should sign deliveries with the webhook secret', async () => {
+        const webhook = await store.create({ url: baseUrl });
+        const dispatcher = new EventWebhookDispatcher(options, store);
+
+        expect(await dispatcher.deliver(webhook, payload)).toBe(true);
+
+        const [request] = received;
+        const timestamp = Number(request?.headers['x-holo-timestamp']);
+        expect(request?.headers['x-holo-event']).toBe('roleDelete');
+        expect(request?.headers['x-holo-signature']).toBe(signDelivery(webhook.secret, timestamp, request?.body ?? ''));
+        expect(JSON.parse(request?.body ?? '{}')).toEqual(payload);
+    });
+
+    it('should retry failed attempts before succeeding', async () => {
+        failuresLeft = 2;
+        const webhook = await store.create({ url: baseUrl });
+        const dispatcher = new EventWebhookDispatcher(options, store);
+
+        expect(await dispatcher.deliver(webhook, payload)).toBe(true);
+        expect(received).toHaveLength(3);
+        expect(store.listDeadLetters()).toHaveLength(0);
+    });
+
+    it('should dead-letter deliveries that exhaust their attempts and redeliver them', async () => {
+        failuresLeft = 4;
+        const webhook = await store.create({ url: baseUrl });
+        const dispatcher = new EventWebhookDispatcher(options, store);
+
+        expect(await dispatcher.deliver(webhook, payload)).toBe(false);
+        const [deadLetter] = store.listDeadLetters(webhook.id);
+        expect(deadLetter).toMatchObject({ attempts: 3, lastStatus: 503 });
+
+        const retry = await dispatcher.redeliver(deadLetter?.id ?? '');
+        expect(retry.ok).toBe(false);
+        expect(store.getDeadLetter(deadLetter?.id ?? '').attempts).toBe(4);
+
+        const success = await dispatcher.redeliver(deadLetter?.id ?? '');
+        expect(success.ok).toBe(true);
+        expect(store.listDeadLetters()).toHaveLength(0);
+    });
+
+    it('should not retry non-retryable responses', async () => {
+        const webhook = await store.create({ url: `${baseUrl}/gone` });
+        const dispatcher = new EventWebhookDispatcher(options, store);
+
+        expect(await dispatcher.deliver(webhook, payload)).toBe(false);
+        expect(received).toHaveLength(1);
+        expect(store.listDeadLetters()[0]?.lastStatus).toBe(410);
+    });
+
+    it('should bound the deliveries in flight and waiting per webhook', async () => {
+        const webhook = await store.create({ url: `${baseUrl}/slow` });
+        const dispatcher = new EventWebhookDispatcher(options, store);
+
+        for (let seq = 1; seq <= 4; seq++) {
+            dispatcher.dispatch({ ...payload, seq });
+        }
+
+        // Two in flight, one waiting, the fourth dead-lettered straight away
+        await vi.waitFor(() => expect(store.listDeadLetters(webhook.id)).toHaveLength(1));
+        expect(store.listDeadLetters(webhook.id)[0]).toMatchObject({ attempts: 0, lastError: 'Delivery queue full' });
+        await vi.waitFor(() => expect(releaseSlow).toHaveLength(2));
+
+        while (received.length < 3 || releaseSlow.length > 0) {
+            releaseSlow.shift()?.();
+            await new Promise((resolve) => setTimeout(resolve, 5));
+        }
+        expect(received).toHaveLength(3);
+        expect(maxInFlight).toBe(2);
+    });
+
+    it('should persist webhooks across restarts', async () => {
+        const webhook = await store.create({ url: baseUrl, events: ['roleDelete'] });
+
+        const reloaded = new EventWebhookStore(join(dir, 'webhooks.json'), 10);
+        await reloaded.load();
+        expect(reloaded.get(webhook.id)).toMatchObject({ url: baseUrl, secret: webhook.secret, events: ['roleDelete'] });
+    });
+});
@@ -0,0 +1,199 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+    AutocompleteInteraction,
+    ButtonInteraction,
+    ChatInputCommandInteraction,
+    Client,
+    MessageContextMenuCommandInteraction,
+    ModalSubmitInteraction,
+    StringSelectMenuInteraction,
+    UserContextMenuCommandInteraction,
+} from 'discord.js';
+import type { Server as SocketIOServer } from 'socket.io';
+import type { SequencedEventPayload } from '../../src/types/events.types.js';
+
+vi.mock('../../src/config/index.js', () => ({
+    config: {
+        api: { apiKey: 'legacy-key', apiKeys: [], keyStoreFile: 'data/api-keys.json', tokenMaxTtl: 3600 },
+        eventLog: { file: '', maxEvents: 100, maxAge: 3600 },
+        eventWebhooks: { file: 'data/event-webhooks.json', maxAttempts: 1, retryBaseMs: 1, timeoutMs: 1000, maxDeadLetters: 10, concurrency: 1, maxPending: 1 },
+        discordQueue: { concurrency: 2, maxPendingPerKey: 5 },
+        mentions: { allowEveryone: false, allowRoles: false },
+        debug: false,
+    },
+}));
+
+const { serializeInteraction } = await import('../../src/discord/serializers.js');
+const { deliverEvent, setSocketServer } = await import('../../src/discord/events/index.js');
+const { DM_ROOM } = await import('../../src/api/websocket/events.js');
+
+// Interactions are built from raw gateway data; nothing is cached, so the client is never logged in
+const client = new Client({ intents: [] });
+
+const rawUser = { id: '42', username: 'mod', discriminator: '0', global_name: 'Moderator', avatar: null };
+const rawBase = {
+    id: '1',
+    application_id: '9',
+    token: 'interaction-token',
+    version: 1,
+    locale: 'en-US',
+    user: rawUser,
+    channel_id: '10',
+    app_permissions: '0',
+    entitlements: [],
+};
+const command = { id: '5', name: 'ban' };
+
+describe('serializeInteraction', () => {
+    it('should serialize slash commands with their options and resolved entities', () => {
+        const interaction = new ChatInputCommandInteraction(client, {
+            ...rawBase,
+            type: 2,
+            data: {
+                ...command,
+                type: 1,
+                options: [
+                    { name: 'user', type: 6, value: '77' },
+                    { name: 'role', type: 8, value: '88' },
+                    { name: 'reason', type: 3, value: 'spam' },
+                ],
+                resolved: {
+                    users: { '77': { id: '77', username: 'target', discriminator: '0', avatar: null } },
+                    roles: { '88': { id: '88', name: 'Muted', color: 0, hoist: false, position: 1, permissions: '0', managed: false, mentionable: false, flags: 0 } },
+                },
+            },
+        } as never);
+
+        const data = serializeInteraction(interaction);
+
+        expect(data).toMatchObject({
+            kind: 'chatInput',
+            typeName: 'application_command',
+            guildId: null,
+            commandName: 'ban',
+            commandId: '5',
+            commandType: 1,
+            customId: null,
+            options: [
+                { name: 'user', type: 6, value: '77', focused: false, options: null },
+                { name: 'role', type: 8, value: '88', focused: false, options: null },
+                { name: 'reason', type: 3, value: 'spam', focused: false, options: null },
+            ],
+        });
+        expect(data.resolved?.users['77']).toMatchObject({ id: '77', username: 'target' });
+        // Roles of guilds the bot has not cached arrive as raw API objects and are left out
+        expect(data.resolved?.roles).toEqual({});
+    });
+
+    it('should serialize user and message context menu commands with their target', () => {
+        const userCommand = new UserContextMenuCommandInteraction(client, {
+            ...rawBase,
+            type: 2,
+            data: {
+                ...command,
+                type: 2,
+                target_id: '77',
+                resolved: { users: { '77': { id: '77', username: 'target', discriminator: '0', avatar: null } } },
+            },
+        } as never);
+        const messageCommand = new MessageContextMenuCommandInteraction(client, {
+            ...rawBase,
+            type: 2,
+            data: { ...command, type: 3, target_id: '99', resolved: { messages: { '99': { id: '99', channel_id: '10' } } } },
+        } as never);
+
+        expect(serializeInteraction(userCommand)).toMatchObject({ kind: 'userContextMenu', commandType: 2, targetId: '77', options: null });
+        const message = serializeInteraction(messageCommand);
+        expect(message).toMatchObject({ kind: 'messageContextMenu', commandType: 3, targetId: '99' });
+        expect(message.resolved?.messages).toEqual({});
+    });
+
+    it('should mark the option being typed in autocomplete interactions', () => {
+        const interaction = new AutocompleteInteraction(client, {
+            ...rawBase,
+            type: 4,
+            data: { ...command, type: 1, options: [{ name: 'reason', type: 3, value: 'sp', focused: true }] },
+        } as never);
+
+        expect(serializeInteraction(interaction)).toMatchObject({
+            kind: 'autocomplete',
+            typeName: 'autocomplete',
+            commandName: 'ban',
+            options: [{ name: 'reason', value: 'sp', focused: true }],
+            resolved: null,
+        });
+    });
+
+    it('should serialize buttons and select menus', () => {
+        const button = new ButtonInteraction(client, {
+            ...rawBase,
+            type: 3,
+            message: { id: '20', channel_id: '10' },
+            data: { custom_id: 'confirm', component_type: 2 },
+        } as never);
+        const select = new StringSelectMenuInteraction(client, {
+            ...rawBase,
+            type: 3,
+            message: { id: '20', channel_id: '10' },
+            data: { custom_id: 'colour', component_type: 3, values: ['red', 'blue'] },
+        } as never);
+
+        expect(serializeInteraction(button)).toMatchObject({ kind: 'button', customId: 'confirm', componentType: 2, values: null, commandName: null });
+        expect(serializeInteraction(select)).toMatchObject({ kind: 'selectMenu', customId: 'colour', componentType: 3, values: ['red', 'blue'] });
+    });
+
+    it('should serialize modal fields by custom ID', () => {
+        const interaction = new ModalSubmitInteraction(client, {
+            ...rawBase,
+            type: 5,
+            data: {
+                custom_id: 'report',
+                components: [
+                    { type: 1, components: [{ type: 4, custom_id: 'subject', value: 'Spam' }] },
+                    { type: 1, components: [{ type: 4, custom_id: 'details', value: 'Lots of it' }] },
+                ],
+            },
+        } as never);
+
+        expect(serializeInteraction(interaction)).toMatchObject({
+            kind: 'modalSubmit',
+            typeName: 'modal_submit',
+            customId: 'report',
+            fields: { subject: 'Spam', details: 'Lots of it' },
+            options: null,
+        });
+    });
+});
+
+describe('Interaction delivery', () => {
+    /**
+     * A Socket.IO server stand-in with one socket in each room.
+     */
+    function createServer(rooms: Record<string, string>): { io: SocketIOServer; received: Record<string, string[]> } {
+        const received: Record<string, string[]> = {};
+        const sockets = new Map(Object.values(rooms).map((socketId) => {
+            received[socketId] = [];
+            const outbound = { push: (payload: SequencedEventPayload) => received[socketId]?.push(payload.event) };
+            return [socketId, { data: { outbound } }];
+        }));
+        const adapterRooms = new Map(Object.entries(rooms).map(([room, socketId]) => [room, new Set([socketId])]));
+
+        const io = { sockets: { sockets, adapter: { rooms: adapterRooms } } } as unknown as SocketIOServer;
+        return { io, received };
+    }
+
+    function interactionEvent(guildId: string | null): SequencedEventPayload {
+        return { event: 'interactionCreate', guildId, data: {} as never, seq: 1, timestamp: new Date().toISOString() };
+    }
+
+    it('should deliver DM interactions to the DM room and not to guild rooms', () => {
+        const { io, received } = createServer({ [DM_ROOM]: 'dm-client', 'guild:1': 'guild-client', global: 'global-client' });
+        setSocketServer(io as never);
+
+        deliverEvent(interactionEvent(null));
+        expect(received).toEqual({ 'dm-client': ['interactionCreate'], 'guild-client': [], 'global-client': [] });
+
+        deliverEvent(interactionEvent('1'));
+        expect(received).toEqual({ 'dm-client': ['interactionCreate'], 'guild-client': ['interactionCreate'], 'global-client': [] });
+    });
+});
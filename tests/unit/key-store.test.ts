@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { ApiKeyRecord } from '../../src/types/auth.types.js';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+vi.mock('../../src/config/index.js', () => ({
+    config: {
+        api: { apiKey: 'legacy-key', apiKeys: [], keyStoreFile: 'data/api-keys.json' },
+        debug: false,
+    },
+}));
+
+const { ApiKeyStore, checkKeyValidity, getApiKeyUsage, hashApiKey, watchKeyExpiry } = await import('../../src/api/auth/key-store.js');
+
+describe('ApiKeyStore', () => {
+    let dir: string;
+    let filePath: string;
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), 'holo-keys-'));
+        filePath = join(dir, 'keys.json');
+    });
+
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should resolve configured keys by raw value', () => {
+        const store = new ApiKeyStore(filePath, [
+            { id: 'env1', name: 'Env', key: 'env_secret_value', scopes: ['read:guilds'], source: 'env' },
+        ]);
+
+        expect(store.find('env_secret_value')?.id).toBe('env1');
+        expect(store.find('env_secret_wrong')).toBeNull();
+    });
+
+    it('should persist only the hash and prefix of created keys', async () => {
+        const store = new ApiKeyStore(filePath);
+        const { record, key } = await store.create({ name: 'Dashboard', scopes: ['read:guilds'] });
+
+        expect(key.startsWith('holo_')).toBe(true);
+        expect(record.keyHash).toBe(hashApiKey(key));
+        expect(store.find(key)?.id).toBe(record.id);
+
+        const contents = await readFile(filePath, 'utf8');
+        expect(contents).not.toContain(key);
+        expect(contents).toContain(record.keyHash);
+
+        const reloaded = new ApiKeyStore(filePath);
+        await reloaded.load();
+        expect(reloaded.find(key)?.name).toBe('Dashboard');
+    });
+
+    it('should persist the mention policy of created keys', async () => {
+        const store = new ApiKeyStore(filePath);
+        const { key } = await store.create({ name: 'Announcer', scopes: ['write:messages'], mentions: { everyone: true } });
+
+        const reloaded = new ApiKeyStore(filePath);
+        await reloaded.load();
+        expect(reloaded.find(key)?.mentions).toEqual({ everyone: true });
+    });
+
+    it('should invalidate the old secret on rotation', async () => {
+        const store = new ApiKeyStore(filePath);
+        const created = await store.create({ name: 'Bot', scopes: ['write:messages'] });
+        const rotated = await store.rotate(created.record.id);
+
+        expect(rotated.record.id).toBe(created.record.id);
+        expect(store.find(created.key)).toBeNull();
+        expect(store.find(rotated.key)?.id).toBe(created.record.id);
+    });
+
+    it('should revoke keys', async () => {
+        const store = new ApiKeyStore(filePath);
+        const { record, key } = await store.create({ name: 'Temp', scopes: ['events'] });
+        await store.revoke(record.id);
+
+        expect(store.find(key)).toBeNull();
+        expect(store.get(record.id)).toBeNull();
+    });
+
+    it('should refuse to manage configured keys', async () => {
+        const store = new ApiKeyStore(filePath, [
+            { id: 'legacy', name: 'Legacy', key: 'legacy-key', scopes: ['admin'], source: 'legacy' },
+        ]);
+
+        await expect(store.revoke('legacy')).rejects.toMatchObject({ code: 'KEY_NOT_MANAGED' });
+        await expect(store.rotate('missing')).rejects.toMatchObject({ code: 'KEY_NOT_FOUND' });
+    });
+
+    it('should reject keys outside their validity window', async () => {
+        const store = new ApiKeyStore(filePath);
+        const { record } = await store.create({
+            name: 'Windowed',
+            scopes: ['read:guilds'],
+            notBefore: new Date('2025-01-01T00:00:00Z'),
+            expiresAt: new Date('2025-02-01T00:00:00Z'),
+        });
+
+        expect(checkKeyValidity(record, new Date('2024-12-31T00:00:00Z'))?.code).toBe('KEY_NOT_YET_VALID');
+        expect(checkKeyValidity(record, new Date('2025-01-15T00:00:00Z'))).toBeNull();
+        expect(checkKeyValidity(record, new Date('2025-02-01T00:00:00Z'))?.code).toBe('KEY_EXPIRED');
+    });
+
+    it('should track and persist usage for every key', async () => {
+        const store = new ApiKeyStore(filePath, [
+            { id: 'env1', name: 'Env', key: 'env_secret_value', scopes: ['read:guilds'], source: 'env' },
+        ]);
+
+        store.recordUsage('env1', '10.0.0.1');
+        store.recordUsage('env1', '10.0.0.2');
+        await store.flush();
+
+        const usage = getApiKeyUsage(store.get('env1')!);
+        expect(usage.requestCount).toBe(2);
+        expect(usage.lastIp).toBe('10.0.0.2');
+        expect(usage.lastUsedAt).not.toBeNull();
+
+        const reloaded = new ApiKeyStore(filePath, [
+            { id: 'env1', name: 'Env', key: 'env_secret_value', scopes: ['read:guilds'], source: 'env' },
+        ]);
+        await reloaded.load();
+        expect(reloaded.get('env1')?.requestCount).toBe(2);
+    });
+});
+
+describe('watchKeyExpiry', () => {
+    const day = 24 * 60 * 60 * 1000;
+
+    function key(overrides: Partial<ApiKeyRecord>): ApiKeyRecord {
+        return { id: 'k', name: 'Key', keyHash: '', keyPrefix: '', scopes: ['events'], source: 'store', createdAt: new Date(), ...overrides };
+    }
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should report keys once they expire, even beyond the longest timer delay', () => {
+        const onExpired = vi.fn();
+        watchKeyExpiry(key({ expiresAt: new Date(Date.now() + 60 * day) }), onExpired);
+
+        vi.advanceTimersByTime(60 * day - 1);
+        expect(onExpired).not.toHaveBeenCalled();
+
+        vi.advanceTimersByTime(1);
+        expect(onExpired).toHaveBeenCalledOnce();
+        expect(onExpired).toHaveBeenCalledWith({ error: 'API key has expired', code: 'KEY_EXPIRED' });
+    });
+
+    it('should report signed tokens as TOKEN_EXPIRED', () => {
+        const onExpired = vi.fn();
+        watchKeyExpiry(key({ source: 'token', expiresAt: new Date(Date.now() + 1000) }), onExpired);
+
+        vi.advanceTimersByTime(1000);
+        expect(onExpired).toHaveBeenCalledWith({ error: 'Token has expired', code: 'TOKEN_EXPIRED' });
+    });
+
+    it('should ignore keys without expiry and stop when asked', () => {
+        const onExpired = vi.fn();
+        watchKeyExpiry(key({}), onExpired);
+        const stop = watchKeyExpiry(key({ expiresAt: new Date(Date.now() + 40 * day) }), onExpired);
+
+        vi.advanceTimersByTime(30 * day);
+        stop();
+        vi.advanceTimersByTime(30 * day);
+        expect(onExpired).not.toHaveBeenCalled();
+    });
+});
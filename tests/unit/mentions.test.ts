@@ -0,0 +1,83 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { ApiKeyRecord } from '../../src/types/auth.types.js';
+
+vi.mock('../../src/config/index.js', () => ({
+    config: {
+        mentions: { allowEveryone: false, allowRoles: false },
+    },
+}));
+
+const { getDefaultAllowedMentions, getMentionPolicy, limitAllowedMentions, withDefaultMentions } = await import('../../src/api/auth/mentions.js');
+
+function key(mentions?: ApiKeyRecord['mentions']): ApiKeyRecord {
+    return {
+        id: 'k',
+        name: 'Key',
+        keyHash: '',
+        keyPrefix: 'hb_',
+        scopes: ['write:messages'],
+        source: 'store',
+        createdAt: new Date(),
+        mentions,
+    };
+}
+
+describe('getMentionPolicy', () => {
+    it('should use the server defaults for keys without overrides', () => {
+        expect(getMentionPolicy(key())).toEqual({ everyone: false, roles: false });
+        expect(getMentionPolicy()).toEqual({ everyone: false, roles: false });
+    });
+
+    it('should apply per-key overrides field by field', () => {
+        expect(getMentionPolicy(key({ roles: true }))).toEqual({ everyone: false, roles: true });
+    });
+});
+
+describe('getDefaultAllowedMentions', () => {
+    it('should only let users and replies ping by default', () => {
+        expect(getDefaultAllowedMentions(key())).toEqual({ parse: ['users'], repliedUser: true });
+    });
+
+    it('should add roles and everyone when the key allows them', () => {
+        expect(getDefaultAllowedMentions(key({ everyone: true, roles: true }))).toEqual({
+            parse: ['users', 'roles', 'everyone'],
+            repliedUser: true,
+        });
+    });
+});
+
+describe('withDefaultMentions', () => {
+    it('should fill in the defaults when the request sets no allowed mentions', () => {
+        expect(withDefaultMentions({ content: '@everyone hi' }, key())).toEqual({
+            content: '@everyone hi',
+            allowedMentions: { parse: ['users'], repliedUser: true },
+        });
+    });
+
+    it('should hold allowed mentions chosen by the caller to the policy', () => {
+        const input = {
+            content: '@everyone <@&222>',
+            allowedMentions: { parse: ['everyone' as const, 'roles' as const], users: ['111'], roles: ['222'], repliedUser: false },
+        };
+        expect(withDefaultMentions(input, key())).toEqual({
+            content: '@everyone <@&222>',
+            allowedMentions: { parse: [], users: ['111'], repliedUser: false },
+        });
+    });
+
+    it('should keep allowed mentions the policy allows', () => {
+        const input = { content: 'hi', allowedMentions: { parse: ['users' as const, 'everyone' as const], roles: ['222'] } };
+        expect(withDefaultMentions(input, key({ everyone: true, roles: true }))).toEqual(input);
+    });
+});
+
+describe('limitAllowedMentions', () => {
+    it('should limit Discord-shaped allowed mentions', () => {
+        expect(limitAllowedMentions({ parse: ['users', 'roles', 'everyone'], roles: ['222'], replied_user: true }, key({ everyone: true })))
+            .toEqual({ parse: ['users', 'everyone'], replied_user: true });
+    });
+
+    it('should leave out parse when the caller did not set it', () => {
+        expect(limitAllowedMentions({ roles: ['222'] }, key())).toEqual({});
+    });
+});
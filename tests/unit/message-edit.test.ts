@@ -0,0 +1,152 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { AttachmentBuilder, ChannelType, Collection, MessageFlags, MessageFlagsBitField } from 'discord.js';
+
+const channels = new Map<string, unknown>();
+
+vi.mock('../../src/discord/client.js', () => ({
+    discordClient: { user: { id: 'bot' }, channels: { cache: channels } },
+}));
+
+vi.mock('../../src/discord/serializers.js', () => ({
+    serializeMessage: (message: { id: string }) => ({ id: message.id }),
+    serializeUser: () => ({}),
+}));
+
+const { messageService } = await import('../../src/discord/services/message.service.js');
+const { ApiError } = await import('../../src/api/middleware/errorHandler.js');
+
+interface FakeMessage {
+    id: string;
+    webhookId: string | null;
+    applicationId: string | null;
+    author: { id: string };
+    flags: MessageFlagsBitField;
+    attachments: Collection<string, { id: string; name: string }>;
+    edit: ReturnType<typeof vi.fn>;
+    fetchWebhook: ReturnType<typeof vi.fn>;
+}
+
+/**
+ * A message in channel 10 with two attachments, authored by the bot unless overridden.
+ */
+function createMessage(overrides: Partial<FakeMessage> = {}): FakeMessage {
+    const message: FakeMessage = {
+        id: '20',
+        webhookId: null,
+        applicationId: null,
+        author: { id: 'bot' },
+        flags: new MessageFlagsBitField(),
+        attachments: new Collection([
+            ['a1', { id: 'a1', name: 'one.png' }],
+            ['a2', { id: 'a2', name: 'two.png' }],
+        ]),
+        edit: vi.fn(async () => message),
+        fetchWebhook: vi.fn(),
+        ...overrides,
+    };
+    channels.set('10', {
+        id: '10',
+        type: ChannelType.GuildText,
+        isThread: () => false,
+        messages: { fetch: vi.fn(async () => message) },
+    });
+    return message;
+}
+
+function lastEdit(mock: ReturnType<typeof vi.fn>): Record<string, unknown> {
+    return mock.mock.calls.at(-1)?.at(-1) as Record<string, unknown>;
+}
+
+describe('MessageService.editMessage', () => {
+    beforeEach(() => {
+        channels.clear();
+    });
+
+    it('should pass every edited field to Discord', async () => {
+        const message = createMessage();
+
+        await messageService.editMessage('10', '20', {
+            content: null,
+            embeds: [{ title: 'Report', image: { url: 'attachment://chart.png' } }],
+            components: [{ type: 1, components: [{ type: 2, style: 1, custom_id: 'ok', label: 'OK' }] }],
+            suppressEmbeds: true,
+            allowedMentions: { parse: [] },
+            attachments: [{ name: 'chart.png', spoiler: true }],
+        }, [{ name: 'chart.png', contentType: 'image/png', data: Buffer.from('png') }]);
+
+        const options = lastEdit(message.edit);
+        expect(options).toMatchObject({
+            content: null,
+            embeds: [{ title: 'Report', image: { url: 'attachment://SPOILER_chart.png' } }],
+            components: [{ type: 1, components: [{ custom_id: 'ok' }] }],
+            flags: MessageFlags.SuppressEmbeds,
+            allowedMentions: { parse: [] },
+        });
+        expect((options.files as AttachmentBuilder[]).map((file) => file.name)).toEqual(['SPOILER_chart.png']);
+        expect((options.attachments as { id: string }[]).map((attachment) => attachment.id)).toEqual(['a1', 'a2']);
+    });
+
+    it('should leave omitted fields and attachments unchanged', async () => {
+        const message = createMessage();
+
+        await messageService.editMessage('10', '20', { content: 'Updated' });
+
+        const options = lastEdit(message.edit);
+        expect(options).toMatchObject({ content: 'Updated', embeds: undefined, components: undefined, flags: undefined });
+        expect(options).not.toHaveProperty('attachments');
+        expect(options).not.toHaveProperty('files');
+    });
+
+    it('should keep only the attachments that are not removed', async () => {
+        const message = createMessage();
+
+        await messageService.editMessage('10', '20', { removeAttachments: ['a1'] });
+
+        const options = lastEdit(message.edit);
+        expect(options.files).toEqual([]);
+        expect((options.attachments as { id: string }[]).map((attachment) => attachment.id)).toEqual(['a2']);
+    });
+
+    it('should reject removing an attachment the message does not have', async () => {
+        const message = createMessage();
+
+        await expect(messageService.editMessage('10', '20', { removeAttachments: ['missing'] }))
+            .rejects.toMatchObject({ statusCode: 400, code: 'INVALID_ATTACHMENTS' });
+        expect(message.edit).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to edit messages of other users', async () => {
+        createMessage({ author: { id: 'someone' } });
+
+        await expect(messageService.editMessage('10', '20', { content: 'Hijacked' }))
+            .rejects.toMatchObject({ statusCode: 403, code: 'NOT_MESSAGE_AUTHOR' });
+    });
+
+    it('should edit webhook messages through the bot\'s webhook', async () => {
+        const webhook = { token: 'webhook-token', editMessage: vi.fn(async () => ({ id: '20' })) };
+        const message = createMessage({ webhookId: '30', author: { id: '30' }, fetchWebhook: vi.fn(async () => webhook) });
+
+        await messageService.editMessage('10', '20', { content: 'Updated', removeAttachments: ['a2'] });
+
+        expect(message.edit).not.toHaveBeenCalled();
+        expect(webhook.editMessage).toHaveBeenCalledWith(message, expect.objectContaining({ content: 'Updated', threadId: undefined }));
+        expect((lastEdit(webhook.editMessage).attachments as { id: string }[]).map((attachment) => attachment.id)).toEqual(['a1']);
+    });
+
+    it('should refuse to edit messages of webhooks the bot does not own', async () => {
+        createMessage({ webhookId: '30', author: { id: '30' }, fetchWebhook: vi.fn(async () => ({ token: null })) });
+
+        const error = await messageService.editMessage('10', '20', { content: 'Hijacked' }).catch((e: unknown) => e);
+        expect(error).toBeInstanceOf(ApiError);
+        expect(error).toMatchObject({ statusCode: 403, code: 'NOT_MESSAGE_AUTHOR' });
+    });
+
+    it('should edit interaction replies as the bot\'s own messages', async () => {
+        const message = createMessage({ webhookId: '9', applicationId: '9' });
+
+        await messageService.editMessage('10', '20', { content: 'Updated' });
+
+        expect(message.fetchWebhook).not.toHaveBeenCalled();
+        expect(lastEdit(message.edit)).toMatchObject({ content: 'Updated' });
+    });
+});
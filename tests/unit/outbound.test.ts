@@ -0,0 +1,123 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { SequencedEventPayload } from '../../src/types/events.types.js';
+import type { OutboundSink, SlowConsumerPolicy } from '../../src/api/streams/outbound.js';
+
+vi.mock('../../src/config/index.js', () => ({
+    config: {
+        backpressure: {
+            maxUnflushed: 2,
+            maxQueued: 3,
+            policy: 'drop-oldest',
+            lowPriorityEvents: ['typingStart'],
+            highPriorityEvents: ['interactionCreate'],
+        },
+        debug: false,
+    },
+}));
+
+const { OutboundQueue, getEventPriority, listConnections, openOutbound } = await import('../../src/api/streams/outbound.js');
+
+function event(seq: number, name = 'messageCreate'): SequencedEventPayload {
+    return { event: name, guildId: '1', data: {}, seq, timestamp: new Date().toISOString() } as unknown as SequencedEventPayload;
+}
+
+/**
+ * A sink that holds events until `flush()` is called, like a client that stopped reading.
+ */
+function createSink(): { sink: OutboundSink; sent: number[]; flush: () => void; disconnected: () => boolean } {
+    const sent: number[] = [];
+    let pending: (() => void)[] = [];
+    let disconnected = false;
+    return {
+        sink: {
+            send: (payload, flushed) => {
+                sent.push(payload.seq);
+                pending.push(flushed);
+            },
+            disconnect: () => {
+                disconnected = true;
+            },
+        },
+        sent,
+        flush: () => {
+            const callbacks = pending;
+            pending = [];
+            callbacks.forEach((flushed) => flushed());
+        },
+        disconnected: () => disconnected,
+    };
+}
+
+function createQueue(policy: SlowConsumerPolicy) {
+    const sink = createSink();
+    const queue = new OutboundQueue(sink.sink, { maxUnflushed: 2, maxQueued: 3, policy, getPriority: getEventPriority });
+    return { queue, ...sink };
+}
+
+describe('OutboundQueue', () => {
+    it('should queue events beyond the unflushed limit and send them once flushed', () => {
+        const { queue, sent, flush } = createQueue('drop-oldest');
+        [1, 2, 3, 4].forEach((seq) => queue.push(event(seq)));
+
+        expect(sent).toEqual([1, 2]);
+        expect(queue.stats).toEqual({ sent: 2, dropped: 0, queued: 2, unflushed: 2 });
+
+        flush();
+        expect(sent).toEqual([1, 2, 3, 4]);
+        expect(queue.stats).toEqual({ sent: 4, dropped: 0, queued: 0, unflushed: 2 });
+    });
+
+    it('should drop the oldest queued event when full', () => {
+        const { queue, sent, flush } = createQueue('drop-oldest');
+        [1, 2, 3, 4, 5, 6].forEach((seq) => queue.push(event(seq)));
+
+        expect(queue.stats.dropped).toBe(1);
+        flush();
+        expect(sent).toEqual([1, 2, 4, 5]);
+    });
+
+    it('should drop the lowest priority event first', () => {
+        const { queue, sent, flush } = createQueue('drop-priority');
+        queue.push(event(1));
+        queue.push(event(2));
+        queue.push(event(3, 'interactionCreate'));
+        queue.push(event(4));
+        queue.push(event(5, 'typingStart'));
+        queue.push(event(6));
+
+        expect(queue.stats.dropped).toBe(1);
+        flush();
+        flush();
+        expect(sent).toEqual([1, 2, 3, 4, 6]);
+    });
+
+    it('should disconnect under the disconnect policy', () => {
+        const { queue, disconnected } = createQueue('disconnect');
+        [1, 2, 3, 4, 5, 6].forEach((seq) => queue.push(event(seq)));
+
+        expect(disconnected()).toBe(true);
+        expect(queue.stats).toMatchObject({ dropped: 4, queued: 0 });
+
+        queue.push(event(7));
+        expect(queue.stats.sent).toBe(2);
+    });
+
+    it('should send replayed events immediately and skip the queued ones they cover', () => {
+        const { queue, sent, flush } = createQueue('drop-oldest');
+        [10, 11, 12, 13].forEach((seq) => queue.push(event(seq)));
+
+        queue.replay(event(12));
+        flush();
+        expect(sent).toEqual([10, 11, 12, 13]);
+    });
+
+    it('should list open connections until released', () => {
+        const { sink } = createSink();
+        const { outbound, release } = openOutbound({ id: 'c1', transport: 'websocket', keyId: 'k1' }, sink);
+        outbound.push(event(1));
+
+        expect(listConnections()).toEqual([expect.objectContaining({ id: 'c1', transport: 'websocket', keyId: 'k1', outbound })]);
+        release();
+        expect(listConnections()).toEqual([]);
+    });
+});
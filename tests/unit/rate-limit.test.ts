@@ -0,0 +1,113 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Request, Response } from 'express';
+
+vi.mock('../../src/config/index.js', () => ({
+    config: {
+        rateLimit: {
+            enabled: true,
+            windowMs: 60000,
+            maxRequests: 10,
+            ipMaxRequests: 15,
+            rules: [
+                { id: 'bulk-delete', routes: ['POST /api/channels/:channelId/messages/bulk-delete'], windowMs: 60000, maxRequests: 1 },
+                { id: 'members', scopes: ['write:members'], windowMs: 60000, maxRequests: 2 },
+            ],
+        },
+        debug: false,
+    },
+}));
+
+const { MemoryRateLimitStore, ipRateLimiter, rateLimiter, setRateLimitStore } = await import('../../src/api/middleware/rateLimit.js');
+
+function makeRequest(method: string, path: string, keyId: string | null): Request {
+    return {
+        method,
+        baseUrl: '',
+        path,
+        ip: '10.0.0.1',
+        apiKey: keyId ? { id: keyId } : undefined,
+    } as unknown as Request;
+}
+
+function makeResponse(): Response & { statusCode: number; headers: Record<string, unknown> } {
+    const res = {
+        statusCode: 200,
+        headers: {} as Record<string, unknown>,
+        setHeader(name: string, value: unknown) {
+            res.headers[name] = value;
+            return res;
+        },
+        status(code: number) {
+            res.statusCode = code;
+            return res;
+        },
+        json() {
+            return res;
+        },
+    };
+    return res as unknown as Response & { statusCode: number; headers: Record<string, unknown> };
+}
+
+async function send(limiter: ReturnType<typeof rateLimiter>, req: Request): Promise<number> {
+    const res = makeResponse();
+    await new Promise<void>((resolve) => {
+        const json = res.json.bind(res);
+        res.json = ((body: unknown) => {
+            resolve();
+            return json(body);
+        }) as Response['json'];
+        limiter(req, res, () => resolve());
+    });
+    return res.statusCode;
+}
+
+describe('Rate Limiter', () => {
+    it('should count separately per API key', async () => {
+        setRateLimitStore(new MemoryRateLimitStore());
+        const limiter = rateLimiter();
+
+        for (let i = 0; i < 10; i++) {
+            expect(await send(limiter, makeRequest('GET', '/api/guilds', 'key-a'))).toBe(200);
+        }
+        expect(await send(limiter, makeRequest('GET', '/api/guilds', 'key-a'))).toBe(429);
+        expect(await send(limiter, makeRequest('GET', '/api/guilds', 'key-b'))).toBe(200);
+    });
+
+    it('should apply tighter rules to matching routes and scopes', async () => {
+        setRateLimitStore(new MemoryRateLimitStore());
+        const limiter = rateLimiter();
+        const bulkDelete = makeRequest('POST', '/api/channels/123/messages/bulk-delete', 'key-a');
+        const ban = makeRequest('POST', '/api/guilds/1/members/2/ban', 'key-a');
+
+        expect(await send(limiter, bulkDelete)).toBe(200);
+        expect(await send(limiter, bulkDelete)).toBe(429);
+
+        expect(await send(limiter, ban)).toBe(200);
+        expect(await send(limiter, ban)).toBe(200);
+        expect(await send(limiter, ban)).toBe(429);
+
+        // Reads are still within the default limit
+        expect(await send(limiter, makeRequest('GET', '/api/guilds', 'key-a'))).toBe(200);
+    });
+
+    it('should limit every request from an address before authentication', async () => {
+        setRateLimitStore(new MemoryRateLimitStore());
+        const limiter = ipRateLimiter();
+
+        // Requests with bad credentials carry no key but still count
+        for (let i = 0; i < 15; i++) {
+            expect(await send(limiter, makeRequest('GET', '/api/guilds', i % 2 ? 'key-a' : null))).toBe(200);
+        }
+        expect(await send(limiter, makeRequest('GET', '/api/guilds', null))).toBe(429);
+        expect(await send(limiter, makeRequest('GET', '/api/guilds', 'key-b'))).toBe(429);
+    });
+
+    it('should use a pluggable store', async () => {
+        const increment = vi.fn().mockResolvedValue({ count: 1, resetAt: Date.now() + 60000 });
+        setRateLimitStore({ increment });
+        const limiter = rateLimiter();
+
+        expect(await send(limiter, makeRequest('GET', '/api/guilds', null))).toBe(200);
+        expect(increment).toHaveBeenCalledWith('default:ip:10.0.0.1', 60000);
+    });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { WebSocket } from 'ws';
+import { decode, encode } from '@msgpack/msgpack';
+
+vi.mock('../../src/config/index.js', () => ({
+    config: {
+        api: { apiKey: 'legacy-key', apiKeys: [], keyStoreFile: 'data/api-keys.json', tokenMaxTtl: 3600 },
+        eventLog: { file: '', maxEvents: 100, maxAge: 3600 },
+        discordQueue: { concurrency: 2, maxPendingPerKey: 5 },
+        compression: { enabled: true, threshold: 1024 },
+        backpressure: { maxUnflushed: 100, maxQueued: 1000, policy: 'drop-oldest', lowPriorityEvents: [], highPriorityEvents: [] },
+        debug: false,
+    },
+}));
+
+const { setupRawWebSocket, WS_CLOSE_CODES } = await import('../../src/api/streams/ws.js');
+const { setConnectionAuthenticator } = await import('../../src/api/middleware/auth.js');
+
+/**
+ * Connect and read frames in the order they arrive.
+ */
+function connect(url: string): { ws: WebSocket; next: () => Promise<Record<string, unknown>>; closed: Promise<number> } {
+    const ws = new WebSocket(url);
+    const queue: Record<string, unknown>[] = [];
+    const waiters: ((frame: Record<string, unknown>) => void)[] = [];
+
+    ws.on('message', (data, isBinary) => {
+        const frame = (isBinary ? decode(data as Buffer) : JSON.parse(String(data))) as Record<string, unknown>;
+        const waiter = waiters.shift();
+        if (waiter) {
+            waiter(frame);
+        } else {
+            queue.push(frame);
+        }
+    });
+
+    return {
+        ws,
+        next: () => new Promise((resolve) => {
+            const frame = queue.shift();
+            if (frame) {
+                resolve(frame);
+            } else {
+                waiters.push(resolve);
+            }
+        }),
+        closed: new Promise((resolve) => ws.on('close', (code) => resolve(code))),
+    };
+}
+
+describe('Plain WebSocket endpoint', () => {
+    let server: Server;
+    let url: string;
+
+    beforeAll(async () => {
+        server = createServer();
+        setupRawWebSocket(server);
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}/ws`;
+    });
+
+    afterAll(async () => {
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('should greet, authenticate and answer heartbeats', async () => {
+        const client = connect(url);
+
+        expect(await client.next()).toEqual({ op: 'hello', d: { heartbeatInterval: 30000, encoding: 'json' } });
+
+        client.ws.send(JSON.stringify({ op: 'auth', d: { apiKey: 'legacy-key' } }));
+        expect(await client.next()).toMatchObject({ op: 'ready', d: { keyId: 'legacy' } });
+
+        client.ws.send(JSON.stringify({ op: 'heartbeat' }));
+        expect(await client.next()).toEqual({ op: 'heartbeat_ack' });
+
+        client.ws.send(JSON.stringify({ op: 'subscribe', d: { guildIds: [], filter: { events: ['messageCreate'] } } }));
+        expect(await client.next()).toEqual({ op: 'subscribed', d: { guildIds: [], filter: { events: ['messageCreate'] } } });
+
+        client.ws.send(JSON.stringify({ op: 'resume', d: { lastSeq: 0 } }));
+        expect(await client.next()).toEqual({ op: 'resumed', d: { replayed: 0, lastSeq: 0, gap: false } });
+
+        client.ws.send(JSON.stringify({ op: 'request', d: { id: 'r1', action: 'noSuchAction' } }));
+        expect(await client.next()).toMatchObject({ op: 'response', d: { id: 'r1', success: false, code: 'UNKNOWN_ACTION' } });
+
+        client.ws.send('not json');
+        expect(await client.next()).toMatchObject({ op: 'error', d: { code: 'INVALID_FRAME' } });
+
+        client.ws.close();
+        await client.closed;
+    });
+
+    it('should close connections with invalid credentials', async () => {
+        const client = connect(url);
+        await client.next();
+
+        client.ws.send(JSON.stringify({ op: 'auth', d: { apiKey: 'wrong-key' } }));
+        expect(await client.closed).toBe(WS_CLOSE_CODES.AUTH_FAILED);
+    });
+
+    it('should require auth before any other op', async () => {
+        const client = connect(url);
+        await client.next();
+
+        client.ws.send(JSON.stringify({ op: 'subscribe', d: { guildIds: [] } }));
+        expect(await client.closed).toBe(WS_CLOSE_CODES.NOT_AUTHENTICATED);
+    });
+
+    it('should send binary MessagePack frames when negotiated and accept them from the client', async () => {
+        const client = connect(`${url}?encoding=msgpack`);
+        expect(await client.next()).toEqual({ op: 'hello', d: { heartbeatInterval: 30000, encoding: 'msgpack' } });
+
+        client.ws.send(encode({ op: 'auth', d: { apiKey: 'legacy-key' } }));
+        expect(await client.next()).toMatchObject({ op: 'ready', d: { keyId: 'legacy' } });
+
+        client.ws.send(JSON.stringify({ op: 'heartbeat' }));
+        expect(await client.next()).toEqual({ op: 'heartbeat_ack' });
+
+        client.ws.close();
+        await client.closed;
+    });
+
+    it('should reject unknown encodings at the handshake', async () => {
+        const ws = new WebSocket(`${url}?encoding=etf`);
+        const error = await new Promise<Error>((resolve) => ws.on('error', resolve));
+        expect(error.message).toContain('400');
+    });
+
+    it('should close connections that flood frames while authenticating', async () => {
+        // Credentials that are never confirmed keep the connection authenticating
+        setConnectionAuthenticator(() => new Promise(() => {}));
+        const client = connect(url);
+        await client.next();
+
+        client.ws.send(JSON.stringify({ op: 'auth', d: { apiKey: 'legacy-key' } }));
+        for (let i = 0; i < 20; i++) {
+            client.ws.send(JSON.stringify({ op: 'heartbeat' }));
+        }
+        expect(await client.closed).toBe(WS_CLOSE_CODES.NOT_AUTHENTICATED);
+    });
+
+    it('should close the connection when the authenticator fails', async () => {
+        setConnectionAuthenticator(() => {
+            throw new Error('Gateway link lost');
+        });
+        const client = connect(url);
+        await client.next();
+
+        client.ws.send(JSON.stringify({ op: 'auth', d: { apiKey: 'legacy-key' } }));
+        expect(await client.closed).toBe(WS_CLOSE_CODES.AUTH_FAILED);
+    });
+});
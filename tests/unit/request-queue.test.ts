@@ -0,0 +1,114 @@
+import { describe, it, expect, vi } from 'vitest';
+import { RESTEvents, type REST } from 'discord.js';
+import { EventEmitter } from 'events';
+
+vi.mock('../../src/config/index.js', () => ({
+    config: {
+        discordQueue: { concurrency: 1, maxPendingPerKey: 2 },
+        debug: false,
+    },
+}));
+
+const { DiscordRateLimitTracker } = await import('../../src/discord/ratelimits.js');
+const { DiscordRequestQueue } = await import('../../src/discord/request-queue.js');
+
+function rateLimited(rest: EventEmitter, global: boolean, retryAfter: number): void {
+    rest.emit(RESTEvents.RateLimited, {
+        global,
+        method: 'POST',
+        route: '/channels/:id/messages',
+        hash: 'abc',
+        url: 'https://discord.com/api/v10/channels/1/messages',
+        limit: 5,
+        timeToReset: retryAfter,
+        retryAfter,
+        majorParameter: '1',
+        sublimitTimeout: 0,
+        scope: global ? 'global' : 'user',
+    });
+}
+
+describe('DiscordRateLimitTracker', () => {
+    it('should record limited buckets and the global limit', () => {
+        const rest = new EventEmitter();
+        const tracker = new DiscordRateLimitTracker();
+        tracker.attach(rest as unknown as REST);
+
+        rateLimited(rest, false, 2500);
+        expect(tracker.getGlobalDelay()).toBe(0);
+        expect(tracker.getRetryAfter()).toBe(3);
+
+        const snapshot = tracker.getSnapshot();
+        expect(snapshot.global.limited).toBe(false);
+        expect(snapshot.buckets[0]).toMatchObject({
+            key: 'POST /channels/:id/messages',
+            bucket: 'abc',
+            remaining: 0,
+            limitedCount: 1,
+        });
+
+        rateLimited(rest, true, 5000);
+        expect(tracker.getSnapshot().global.limited).toBe(true);
+        expect(tracker.getRetryAfter()).toBe(5);
+    });
+});
+
+describe('DiscordRequestQueue', () => {
+    it('should dispatch by priority and cap pending requests per owner', async () => {
+        const queue = new DiscordRequestQueue({ concurrency: 1, maxPendingPerOwner: 2 }, new DiscordRateLimitTracker());
+        const order: string[] = [];
+
+        const first = queue.enqueue('key-a');
+        const low = queue.enqueue('key-b', 'low');
+        const high = queue.enqueue('key-c', 'high');
+        expect(first && low && high).toBeTruthy();
+        if (!first || !low || !high) {return;}
+
+        void low.ready.then(() => order.push('low'));
+        void high.ready.then(() => order.push('high'));
+        await first.ready;
+
+        const second = queue.enqueue('key-a');
+        expect(second).not.toBeNull();
+        expect(queue.enqueue('key-a')).toBeNull();
+        expect(queue.getStats()).toMatchObject({ active: 1, queued: { high: 1, normal: 1, low: 1 } });
+
+        second?.release();
+        first.release();
+        await high.ready;
+        high.release();
+        await low.ready;
+
+        expect(order).toEqual(['high', 'low']);
+    });
+
+    it('should hold requests while the global rate limit is in effect', () => {
+        vi.useFakeTimers();
+        try {
+            const rest = new EventEmitter();
+            const tracker = new DiscordRateLimitTracker();
+            tracker.attach(rest as unknown as REST);
+            rateLimited(rest, true, 1000);
+
+            const queue = new DiscordRequestQueue({ concurrency: 5, maxPendingPerOwner: 5 }, tracker);
+            queue.enqueue('key-a');
+            expect(queue.getStats()).toMatchObject({ active: 0, queued: { normal: 1 } });
+
+            vi.advanceTimersByTime(1000);
+            expect(queue.getStats()).toMatchObject({ active: 1, queued: { normal: 0 } });
+        } finally {
+            vi.useRealTimers();
+        }
+    });
+
+    it('should give up a place that has not started', () => {
+        const queue = new DiscordRequestQueue({ concurrency: 1, maxPendingPerOwner: 1 }, new DiscordRateLimitTracker());
+        const running = queue.enqueue('key-a');
+        const waiting = queue.enqueue('key-b');
+
+        waiting?.release();
+        expect(queue.getStats().queued.normal).toBe(0);
+        expect(queue.enqueue('key-b')).not.toBeNull();
+        running?.release();
+    });
+});
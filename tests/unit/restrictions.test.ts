@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { canAccessChannel, canAccessGuild, canAccessTarget } from '../../src/api/auth/restrictions.js';
+import type { ApiKeyRecord } from '../../src/types/auth.types.js';
+import type { ChannelLocation } from '../../src/api/auth/restrictions.js';
+
+const channels: Record<string, ChannelLocation> = {
+    'general': { guildId: 'guild-a', parentId: null },
+    'thread': { guildId: 'guild-a', parentId: 'general' },
+    'random': { guildId: 'guild-a', parentId: null },
+    'other': { guildId: 'guild-b', parentId: null },
+};
+
+const resolve = (id: string): ChannelLocation | null => channels[id] ?? null;
+
+function makeKey(overrides: Partial<ApiKeyRecord> = {}): ApiKeyRecord {
+    return {
+        id: 'test',
+        name: 'Test',
+        keyHash: '',
+        keyPrefix: '',
+        scopes: ['read:messages'],
+        source: 'env',
+        createdAt: new Date(),
+        ...overrides,
+    };
+}
+
+describe('Key Restrictions', () => {
+    it('should allow everything for unrestricted keys', () => {
+        const key = makeKey();
+        expect(canAccessTarget(key, { channelId: 'other' }, resolve)).toBe(true);
+        expect(canAccessTarget(key, {}, resolve)).toBe(true);
+    });
+
+    it('should limit guild-restricted keys to their guilds', () => {
+        const key = makeKey({ guildIds: ['guild-a'] });
+        expect(canAccessGuild(key, 'guild-a', resolve)).toBe(true);
+        expect(canAccessGuild(key, 'guild-b', resolve)).toBe(false);
+        expect(canAccessChannel(key, 'random', resolve)).toBe(true);
+        expect(canAccessChannel(key, 'other', resolve)).toBe(false);
+    });
+
+    it('should limit channel-restricted keys to their channels and threads', () => {
+        const key = makeKey({ channelIds: ['general'] });
+        expect(canAccessChannel(key, 'general', resolve)).toBe(true);
+        expect(canAccessChannel(key, 'thread', resolve)).toBe(true);
+        expect(canAccessChannel(key, 'random', resolve)).toBe(false);
+        expect(canAccessGuild(key, 'guild-a', resolve)).toBe(true);
+        expect(canAccessGuild(key, 'guild-b', resolve)).toBe(false);
+    });
+
+    it('should deny guild-wide targets to channel-restricted keys', () => {
+        const key = makeKey({ guildIds: ['guild-a'], channelIds: ['general'] });
+        expect(canAccessTarget(key, { guildId: 'guild-a' }, resolve)).toBe(false);
+        expect(canAccessTarget(key, { channelId: 'thread' }, resolve)).toBe(true);
+        expect(canAccessTarget(makeKey({ guildIds: ['guild-a'] }), { guildId: 'guild-a' }, resolve)).toBe(true);
+    });
+
+    it('should deny targets without a guild or channel to restricted keys', () => {
+        const key = makeKey({ guildIds: ['guild-a'] });
+        expect(canAccessTarget(key, {}, resolve)).toBe(false);
+    });
+
+    it('should deny unknown channels to guild-restricted keys', () => {
+        const key = makeKey({ guildIds: ['guild-a'] });
+        expect(canAccessChannel(key, 'missing', resolve)).toBe(false);
+    });
+});
@@ -0,0 +1,258 @@
+import { describe, it, expect, beforeEach, afterEach, afterAll, vi } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { AddressInfo } from 'net';
+import express from 'express';
+import { ApiError } from '../../src/api/middleware/errorHandler.js';
+import type { SerializedMessage } from '../../src/types/discord.types.js';
+import type { ApiKeyRecord } from '../../src/types/auth.types.js';
+
+vi.mock('../../src/config/index.js', async () => {
+    const { tmpdir } = await import('os');
+    return {
+        config: {
+            api: { apiKey: 'legacy-key', apiKeys: [], keyStoreFile: 'data/api-keys.json', tokenMaxTtl: 3600 },
+            scheduledMessages: { file: `${tmpdir()}/holo-scheduled-routes-${process.pid}.json`, maxPerKey: 2 },
+            mentions: { allowEveryone: false, allowRoles: false },
+            debug: false,
+        },
+    };
+});
+
+vi.mock('../../src/discord/services/index.js', () => ({ messageService: {} }));
+vi.mock('../../src/discord/events/index.js', () => ({ broadcastEvent: vi.fn() }));
+vi.mock('../../src/discord/client.js', () => ({
+    discordClient: {
+        channels: { cache: new Map([['10', { guildId: '111', parentId: null }], ['20', { guildId: '111', parentId: null }]]) },
+        guilds: { cache: new Map() },
+    },
+}));
+
+const { getNextCronRun, parseCron } = await import('../../src/api/scheduled-messages/cron.js');
+const { ScheduledMessageStore } = await import('../../src/api/scheduled-messages/store.js');
+const { MessageScheduler } = await import('../../src/api/scheduled-messages/scheduler.js');
+const { CreateScheduledMessageSchema } = await import('../../src/types/api.types.js');
+const { scheduledMessageStore } = await import('../../src/api/scheduled-messages/store.js');
+const { default: scheduledMessagesRouter } = await import('../../src/api/routes/scheduled-messages.js');
+const { errorHandler } = await import('../../src/api/middleware/errorHandler.js');
+const { config } = await import('../../src/config/index.js');
+
+const next = (expression: string, after: string): string | undefined =>
+    getNextCronRun(parseCron(expression), new Date(after))?.toISOString();
+
+describe('Cron expressions', () => {
+    it('should find the next matching minute in UTC', () => {
+        expect(next('*/15 * * * *', '2025-01-01T10:07:30Z')).toBe('2025-01-01T10:15:00.000Z');
+        expect(next('0 18 * * *', '2025-01-01T18:00:00Z')).toBe('2025-01-02T18:00:00.000Z');
+        expect(next('30 9 1 JAN,JUL *', '2025-03-10T00:00:00Z')).toBe('2025-07-01T09:30:00.000Z');
+    });
+
+    it('should accept weekday names and 7 for Sunday', () => {
+        // 2025-01-01 is a Wednesday
+        expect(next('0 9 * * MON', '2025-01-01T00:00:00Z')).toBe('2025-01-06T09:00:00.000Z');
+        expect(next('0 9 * * 7', '2025-01-01T00:00:00Z')).toBe('2025-01-05T09:00:00.000Z');
+    });
+
+    it('should match either day field when both are restricted', () => {
+        expect(next('0 0 10 * MON', '2025-01-01T00:00:00Z')).toBe('2025-01-06T00:00:00.000Z');
+    });
+
+    it('should reject invalid expressions and report schedules that never run', () => {
+        expect(() => parseCron('* * *')).toThrow('5 fields');
+        expect(() => parseCron('60 * * * *')).toThrow('minute');
+        expect(() => parseCron('0 0 * * FUN')).toThrow('day of week');
+        expect(next('0 0 30 2 *', '2025-01-01T00:00:00Z')).toBeUndefined();
+    });
+});
+
+describe('CreateScheduledMessageSchema', () => {
+    const message = { content: 'Hello' };
+
+    it('should require exactly one of sendAt and cron', () => {
+        expect(CreateScheduledMessageSchema.safeParse({ channelId: '10', message, cron: '0 9 * * MON' }).success).toBe(true);
+        expect(CreateScheduledMessageSchema.safeParse({ channelId: '10', message }).success).toBe(false);
+        expect(CreateScheduledMessageSchema.safeParse({
+            channelId: '10', message, cron: '0 9 * * MON', sendAt: '2030-01-01T18:00:00Z',
+        }).success).toBe(false);
+    });
+
+    it('should reject invalid cron expressions and file uploads', () => {
+        expect(CreateScheduledMessageSchema.safeParse({ channelId: '10', message, cron: 'every monday' }).success).toBe(false);
+        expect(CreateScheduledMessageSchema.safeParse({
+            channelId: '10', message: { attachments: [{ name: 'a.png' }] }, sendAt: '2030-01-01T18:00:00Z',
+        }).success).toBe(false);
+    });
+});
+
+describe('ScheduledMessageStore', () => {
+    let dir: string;
+    let filePath: string;
+    const now = new Date('2025-01-01T00:00:00Z');
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), 'holo-scheduled-'));
+        filePath = join(dir, 'scheduled.json');
+    });
+
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should persist schedules across restarts', async () => {
+        const store = new ScheduledMessageStore(filePath, 10);
+        const created = await store.create({ keyId: 'k', channelId: '10', message: { content: 'Hi' }, cron: '0 9 * * MON' }, now);
+        expect(created.nextRunAt.toISOString()).toBe('2025-01-06T09:00:00.000Z');
+
+        const reloaded = new ScheduledMessageStore(filePath, 10);
+        await reloaded.load();
+        expect(reloaded.get(created.id)).toEqual(created);
+    });
+
+    it('should reject past send times and limit schedules per key', async () => {
+        const store = new ScheduledMessageStore(filePath, 1);
+        await expect(store.create({ keyId: 'k', channelId: '10', message: { content: 'Hi' }, sendAt: new Date('2024-12-31T00:00:00Z') }, now))
+            .rejects.toMatchObject({ code: 'INVALID_SCHEDULE' });
+
+        await store.create({ keyId: 'k', channelId: '10', message: { content: 'Hi' }, sendAt: new Date('2025-01-02T00:00:00Z') }, now);
+        await expect(store.create({ keyId: 'k', channelId: '10', message: { content: 'Hi' }, sendAt: new Date('2025-01-02T00:00:00Z') }, now))
+            .rejects.toMatchObject({ code: 'SCHEDULE_LIMIT_REACHED' });
+    });
+
+    it('should switch between one-off and recurring schedules on edit', async () => {
+        const store = new ScheduledMessageStore(filePath, 10);
+        const created = await store.create({ keyId: 'k', channelId: '10', message: { content: 'Hi' }, sendAt: new Date('2025-01-02T00:00:00Z') }, now);
+
+        const updated = await store.update(created.id, { cron: '0 12 * * *' }, now);
+        expect(updated.sendAt).toBeUndefined();
+        expect(updated.nextRunAt.toISOString()).toBe('2025-01-01T12:00:00.000Z');
+    });
+});
+
+describe('MessageScheduler', () => {
+    let dir: string;
+    let store: InstanceType<typeof ScheduledMessageStore>;
+    const send = vi.fn<[unknown], Promise<SerializedMessage>>();
+    const publish = vi.fn();
+
+    beforeEach(async () => {
+        vi.clearAllMocks();
+        dir = await mkdtemp(join(tmpdir(), 'holo-scheduler-'));
+        store = new ScheduledMessageStore(join(dir, 'scheduled.json'), 10);
+    });
+
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    function createScheduler(): InstanceType<typeof MessageScheduler> {
+        return new MessageScheduler({ send, publish, resolveChannel: () => ({ guildId: '111', parentId: null }) }, store);
+    }
+
+    it('should send due one-off messages once and remove them', async () => {
+        const scheduled = await store.create({ keyId: 'k', channelId: '10', message: { content: 'Hi' }, sendAt: new Date(Date.now() + 60_000) });
+        send.mockResolvedValue({ id: 'm1' } as SerializedMessage);
+
+        await createScheduler().runDue(new Date(Date.now() + 120_000));
+
+        expect(send).toHaveBeenCalledTimes(1);
+        expect(store.get(scheduled.id)).toBeNull();
+        expect(publish).toHaveBeenCalledWith({
+            event: 'scheduledMessageSent',
+            guildId: '111',
+            data: { scheduledMessageId: scheduled.id, channelId: '10', message: { id: 'm1' }, nextRunAt: null },
+        });
+    });
+
+    it('should move recurring messages to their next run after a failure', async () => {
+        const scheduled = await store.create({ keyId: 'k', channelId: '10', message: { content: 'Hi' }, cron: '* * * * *' });
+        send.mockRejectedValue(ApiError.forbidden('Missing Permissions', 'MISSING_PERMISSIONS'));
+
+        await createScheduler().runDue(new Date(Date.now() + 120_000));
+
+        const updated = store.get(scheduled.id);
+        expect(updated?.lastRun).toMatchObject({ messageId: null, code: 'MISSING_PERMISSIONS' });
+        expect(updated?.nextRunAt.getTime()).toBeGreaterThan(Date.now());
+        expect(publish).toHaveBeenCalledWith(expect.objectContaining({
+            event: 'scheduledMessageFailed',
+            data: expect.objectContaining({ code: 'MISSING_PERMISSIONS', nextRunAt: updated?.nextRunAt.toISOString() }),
+        }));
+    });
+
+    it('should drop the schedules of revoked keys', async () => {
+        const scheduled = await store.create({ keyId: 'gone', channelId: '10', message: { content: 'Hi' }, cron: '* * * * *' });
+        send.mockRejectedValue(ApiError.forbidden('Revoked', 'KEY_REVOKED'));
+
+        await createScheduler().runDue(new Date(Date.now() + 120_000));
+
+        expect(store.get(scheduled.id)).toBeNull();
+        expect(publish).toHaveBeenCalledWith(expect.objectContaining({
+            event: 'scheduledMessageFailed',
+            data: expect.objectContaining({ code: 'KEY_REVOKED', nextRunAt: null }),
+        }));
+    });
+});
+
+describe('Scheduled message routes', () => {
+    const parentKey: ApiKeyRecord = {
+        id: 'k',
+        name: 'Key',
+        keyHash: '',
+        keyPrefix: 'hb_',
+        scopes: ['write:messages'],
+        source: 'store',
+        createdAt: new Date(),
+    };
+    // A signed token carries its parent key's ID, narrowed here to channel 10
+    const narrowedToken: ApiKeyRecord = { ...parentKey, channelIds: ['10'] };
+
+    afterAll(async () => {
+        await rm(config.scheduledMessages.file, { force: true });
+    });
+
+    async function withRouter(key: ApiKeyRecord, run: (base: string) => Promise<void>): Promise<void> {
+        const app = express();
+        app.use(express.json());
+        app.use((req, _res, next) => {
+            (req as unknown as { apiKey: ApiKeyRecord }).apiKey = key;
+            next();
+        });
+        app.use('/', scheduledMessagesRouter);
+        app.use(errorHandler);
+
+        const server = app.listen(0, '127.0.0.1');
+        await new Promise((resolve) => server.once('listening', resolve));
+        try {
+            await run(`http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+        } finally {
+            await new Promise((resolve) => server.close(resolve));
+        }
+    }
+
+    it('should keep channel-narrowed tokens to the schedules of their channels', async () => {
+        const inside = await scheduledMessageStore.create({ keyId: 'k', channelId: '10', message: { content: 'Hi' }, cron: '0 9 * * MON' });
+        const outside = await scheduledMessageStore.create({ keyId: 'k', channelId: '20', message: { content: 'Hi' }, cron: '0 9 * * MON' });
+
+        await withRouter(narrowedToken, async (base) => {
+            const list = await (await fetch(base)).json() as { data: { id: string }[] };
+            expect(list.data.map((s) => s.id)).toEqual([inside.id]);
+
+            expect((await fetch(`${base}/${inside.id}`)).status).toBe(200);
+            expect((await fetch(`${base}/${outside.id}`)).status).toBe(404);
+
+            const edit = await fetch(`${base}/${outside.id}`, {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ message: { content: 'Rewritten' } }),
+            });
+            expect(edit.status).toBe(404);
+            expect((await fetch(`${base}/${outside.id}`, { method: 'DELETE' })).status).toBe(404);
+        });
+        expect(scheduledMessageStore.get(outside.id)?.message).toEqual({ content: 'Hi' });
+
+        await withRouter(parentKey, async (base) => {
+            const list = await (await fetch(base)).json() as { data: { id: string }[] };
+            expect(list.data.map((s) => s.id).sort()).toEqual([inside.id, outside.id].sort());
+        });
+    });
+});
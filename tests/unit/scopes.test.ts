@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { matchRouteScope, ROUTE_SCOPES } from '../../src/api/scopes.js';
+
+describe('Route Scopes', () => {
+    it('should map moderation routes to write:members', () => {
+        const match = matchRouteScope('POST', '/api/guilds/123/members/456/ban');
+        expect(match?.route.scopes).toEqual(['write:members']);
+        expect(match?.params).toEqual({ guildId: '123', userId: '456' });
+    });
+
+    it('should prefer specific paths over parameterised ones', () => {
+        const match = matchRouteScope('GET', '/api/channels/42/messages/pinned');
+        expect(match?.route.path).toBe('/api/channels/:channelId/messages/pinned');
+    });
+
+    it('should distinguish methods on the same path', () => {
+        expect(matchRouteScope('GET', '/api/channels/42')?.route.scopes).toEqual(['read:channels']);
+        expect(matchRouteScope('DELETE', '/api/channels/42')?.route.scopes).toEqual(['write:channels']);
+    });
+
+    it('should treat HEAD as GET and ignore trailing slashes', () => {
+        expect(matchRouteScope('HEAD', '/api/guilds/')?.route.scopes).toEqual(['read:guilds']);
+    });
+
+    it('should match wildcard plugin routes', () => {
+        expect(matchRouteScope('POST', '/api/plugins/my-plugin/do/thing')?.route.scopes).toEqual([]);
+    });
+
+    it('should return null for unknown routes', () => {
+        expect(matchRouteScope('GET', '/api/unknown')).toBeNull();
+    });
+
+    it('should declare at least one scope for every non-plugin route except the auth routes', () => {
+        const open = ROUTE_SCOPES.filter((r) => r.scopes.length === 0).map((r) => r.path);
+        expect(open.every((path) => path.startsWith('/api/plugins/') || path.startsWith('/api/auth/'))).toBe(true);
+    });
+});
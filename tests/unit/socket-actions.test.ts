@@ -0,0 +1,190 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { DiscordAPIError, RESTJSONErrorCodes } from 'discord.js';
+import type { ApiKeyRecord } from '../../src/types/auth.types.js';
+
+vi.mock('../../src/config/index.js', () => ({
+    config: {
+        api: { apiKey: 'legacy-key', apiKeys: [], keyStoreFile: 'data/api-keys.json', tokenMaxTtl: 3600 },
+        discordQueue: { concurrency: 2, maxPendingPerKey: 1 },
+        mentions: { allowEveryone: false, allowRoles: false },
+        rateLimit: {
+            enabled: true,
+            windowMs: 60000,
+            maxRequests: 100,
+            rules: [{ id: 'moderation', scopes: ['write:members'], windowMs: 60000, maxRequests: 3 }],
+        },
+        debug: false,
+    },
+}));
+
+const sendMessage = vi.fn();
+const addReaction = vi.fn();
+const timeoutMember = vi.fn();
+const getGuild = vi.fn();
+
+vi.mock('../../src/discord/services/index.js', () => ({
+    guildService: { getGuild },
+    channelService: {},
+    roleService: {},
+    messageService: { sendMessage, addReaction },
+    memberService: { timeoutMember },
+}));
+
+const { executeAction, runAction, setActionRunner } = await import('../../src/api/websocket/actions.js');
+const { resolvePriority } = await import('../../src/api/middleware/requestQueue.js');
+const { apiKeyStore } = await import('../../src/api/auth/key-store.js');
+
+function makeKey(overrides: Partial<ApiKeyRecord> = {}): ApiKeyRecord {
+    return {
+        id: 'test',
+        name: 'Test',
+        keyHash: '',
+        keyPrefix: '',
+        scopes: ['write:messages', 'write:members'],
+        source: 'env',
+        createdAt: new Date(),
+        ...overrides,
+    };
+}
+
+describe('Socket actions', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('should run an action and echo the correlation ID', async () => {
+        sendMessage.mockResolvedValue({ id: 'm1', content: 'hi' });
+
+        const response = await executeAction(makeKey(), { id: 'req-1', action: 'sendMessage', params: { channelId: '10', content: 'hi' } });
+
+        expect(response).toEqual({ id: 'req-1', success: true, data: { id: 'm1', content: 'hi' } });
+        expect(sendMessage).toHaveBeenCalledWith('10', { content: 'hi', allowedMentions: { parse: ['users'], repliedUser: true } });
+    });
+
+    it('should return the REST response shape for actions without a result', async () => {
+        addReaction.mockResolvedValue(undefined);
+
+        const response = await executeAction(makeKey(), { id: 2, action: 'addReaction', params: { channelId: '10', messageId: '20', emoji: '👍' } });
+
+        expect(response).toEqual({ id: 2, success: true, data: { reacted: true } });
+    });
+
+    it('should reject malformed requests and unknown actions', async () => {
+        expect(await executeAction(makeKey(), { action: 'sendMessage' })).toMatchObject({ id: null, code: 'INVALID_REQUEST' });
+        expect(await executeAction(makeKey(), { id: 1, action: 'toString' })).toMatchObject({ id: 1, code: 'UNKNOWN_ACTION' });
+    });
+
+    it('should enforce the scopes of the equivalent REST route', async () => {
+        const key = makeKey({ scopes: ['write:messages'] });
+
+        const response = await executeAction(key, { id: 1, action: 'timeoutMember', params: { guildId: '1', userId: '2', duration: 60000 } });
+
+        expect(response).toMatchObject({ success: false, code: 'INSUFFICIENT_SCOPE' });
+        expect(timeoutMember).not.toHaveBeenCalled();
+    });
+
+    it('should refuse actions once the key has expired', async () => {
+        const key = makeKey({ expiresAt: new Date(Date.now() - 1000) });
+
+        const response = await executeAction(key, { id: 1, action: 'sendMessage', params: { channelId: '10', content: 'hi' } });
+
+        expect(response).toMatchObject({ id: 1, success: false, code: 'KEY_EXPIRED' });
+        expect(sendMessage).not.toHaveBeenCalled();
+    });
+
+    it('should validate parameters', async () => {
+        const response = await executeAction(makeKey(), { id: 1, action: 'timeoutMember', params: { guildId: '1', userId: '2' } });
+
+        expect(response).toMatchObject({ success: false, code: 'VALIDATION_ERROR', details: [{ path: 'duration' }] });
+    });
+
+    it('should enforce guild restrictions', async () => {
+        timeoutMember.mockResolvedValue({ id: '2' });
+        const key = makeKey({ guildIds: ['1'] });
+
+        const denied = await executeAction(key, { id: 1, action: 'timeoutMember', params: { guildId: '3', userId: '2', duration: 60000 } });
+        expect(denied).toMatchObject({ success: false, code: 'RESOURCE_NOT_ALLOWED' });
+
+        const allowed = await executeAction(key, { id: 2, action: 'timeoutMember', params: { guildId: '1', userId: '2', duration: 60000 } });
+        expect(allowed).toMatchObject({ success: true });
+        expect(timeoutMember).toHaveBeenCalledTimes(1);
+    });
+
+    it('should map Discord errors to bridge error codes', async () => {
+        sendMessage.mockRejectedValue(new DiscordAPIError(
+            { code: RESTJSONErrorCodes.MissingPermissions, message: 'Missing Permissions' },
+            RESTJSONErrorCodes.MissingPermissions,
+            403,
+            'POST',
+            '/channels/10/messages',
+            {}
+        ));
+
+        const response = await executeAction(makeKey(), { id: 1, action: 'sendMessage', params: { channelId: '10', content: 'hi' } });
+
+        expect(response).toEqual({
+            id: 1,
+            success: false,
+            error: 'Missing Permissions',
+            code: 'MISSING_PERMISSIONS',
+            discordCode: RESTJSONErrorCodes.MissingPermissions,
+        });
+    });
+
+    it('should reject calls beyond the key\'s queue limit', async () => {
+        let finish: () => void = () => {};
+        sendMessage.mockReturnValue(new Promise((resolve) => (finish = () => resolve({ id: 'm1' }))));
+
+        const first = executeAction(makeKey(), { id: 1, action: 'sendMessage', params: { channelId: '10', content: 'a' } });
+        const second = await executeAction(makeKey(), { id: 2, action: 'sendMessage', params: { channelId: '10', content: 'b' } });
+
+        expect(second).toMatchObject({ id: 2, success: false, code: 'DISCORD_QUEUE_FULL' });
+
+        // Reads served from the cache do not take a place in the queue
+        getGuild.mockResolvedValue({ id: '1' });
+        const key = makeKey({ scopes: ['read:guilds', 'write:messages'] });
+        expect(await executeAction(key, { id: 3, action: 'getGuild', params: { guildId: '1' } })).toMatchObject({ id: 3, success: true });
+
+        finish();
+        expect(await first).toMatchObject({ id: 1, success: true });
+    });
+
+    it('should apply the route\'s rate limits and record usage', async () => {
+        timeoutMember.mockResolvedValue({ id: '2' });
+        const recordUsage = vi.spyOn(apiKeyStore, 'recordUsage');
+        const key = makeKey({ id: 'moderator' });
+        const request = { id: 1, action: 'timeoutMember', params: { guildId: '1', userId: '2', duration: 60000 } };
+
+        // A key of its own, so calls from the other tests do not count
+        for (let i = 0; i < 3; i++) {
+            expect(await executeAction(key, request)).toMatchObject({ success: true });
+        }
+        expect(await executeAction(key, request)).toMatchObject({ success: false, code: 'RATE_LIMITED', rule: 'moderation' });
+        expect(timeoutMember).toHaveBeenCalledTimes(3);
+        expect(recordUsage).toHaveBeenCalledWith('moderator');
+    });
+
+    it('should only let admin keys jump the queue', () => {
+        expect(resolvePriority('high', makeKey({ scopes: ['admin'] }))).toBe('high');
+        expect(resolvePriority('high', makeKey())).toBe('normal');
+        expect(resolvePriority('low', makeKey())).toBe('low');
+        expect(resolvePriority('urgent', makeKey())).toBe('normal');
+    });
+
+    it('should answer faults of a replaced runner with an error response', async () => {
+        setActionRunner(() => {
+            throw new Error('Gateway link lost');
+        });
+        try {
+            expect(await runAction(makeKey(), { id: 'req-1', action: 'sendMessage' })).toEqual({
+                id: 'req-1',
+                success: false,
+                error: 'Internal server error',
+                code: 'INTERNAL_ERROR',
+            });
+        } finally {
+            setActionRunner(executeAction);
+        }
+    });
+
+});
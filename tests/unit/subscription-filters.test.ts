@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { matchesFilter, parseSubscriptionFilter, parseSubscriptionQuery, shouldDeliver } from '../../src/api/websocket/filters.js';
+import type { ApiKeyRecord } from '../../src/types/auth.types.js';
+import type { DiscordEventPayload } from '../../src/types/events.types.js';
+import type { SerializedMessage } from '../../src/types/discord.types.js';
+
+function messageCreate(channelId: string, bot: boolean, attachments: number): DiscordEventPayload {
+    return {
+        event: 'messageCreate',
+        guildId: 'guild-a',
+        data: {
+            channelId,
+            author: { bot },
+            attachments: Array.from({ length: attachments }, () => ({})),
+        } as unknown as SerializedMessage,
+    };
+}
+
+const typingStart = {
+    event: 'typingStart',
+    guildId: 'guild-a',
+    data: { channelId: 'general' },
+} as unknown as DiscordEventPayload;
+
+function key(restrictions: Pick<ApiKeyRecord, 'guildIds' | 'channelIds'> = {}): ApiKeyRecord {
+    return {
+        id: 'k', name: 'Key', keyHash: '', keyPrefix: '', scopes: ['events'], source: 'env', createdAt: new Date(),
+        ...restrictions,
+    };
+}
+
+const resolveChannel = (): null => null;
+
+describe('Subscription Filters', () => {
+    it('should match event types and channels', () => {
+        const filter = { events: ['messageCreate' as const], channelIds: ['general'] };
+
+        expect(matchesFilter(filter, messageCreate('general', false, 0))).toBe(true);
+        expect(matchesFilter(filter, messageCreate('random', false, 0))).toBe(false);
+        expect(matchesFilter(filter, typingStart)).toBe(false);
+    });
+
+    it('should apply message predicates only to message events', () => {
+        expect(matchesFilter({ authorIsBot: false }, messageCreate('general', false, 0))).toBe(true);
+        expect(matchesFilter({ authorIsBot: false }, messageCreate('general', true, 0))).toBe(false);
+        expect(matchesFilter({ hasAttachments: true }, messageCreate('general', false, 2))).toBe(true);
+        expect(matchesFilter({ hasAttachments: true }, messageCreate('general', false, 0))).toBe(false);
+        expect(matchesFilter({ hasAttachments: true }, typingStart)).toBe(false);
+    });
+
+    it('should pass everything through an empty filter', () => {
+        expect(matchesFilter({}, typingStart)).toBe(true);
+    });
+
+    it('should reject malformed filters', () => {
+        expect(parseSubscriptionFilter({ events: ['messageCreate'], authorIsBot: false }).success).toBe(true);
+        expect(parseSubscriptionFilter({ channelIds: 'general' }).success).toBe(false);
+        expect(parseSubscriptionFilter({ fromBots: true }).success).toBe(false);
+    });
+
+    it('should parse filters from query parameters', () => {
+        expect(parseSubscriptionQuery({})).toEqual({ success: true, filter: null });
+        expect(parseSubscriptionQuery({ events: 'messageCreate,typingStart', authorIsBot: 'false' })).toEqual({
+            success: true,
+            filter: { events: ['messageCreate', 'typingStart'], authorIsBot: false },
+        });
+        expect(parseSubscriptionQuery({ hasAttachments: 'yes' }).success).toBe(false);
+    });
+
+    it('should deliver guild events only to subscribers of the guild', () => {
+        const subscriber = { apiKey: key(), subscribedGuilds: new Set(['guild-a']), filter: null };
+
+        expect(shouldDeliver(subscriber, typingStart, resolveChannel)).toBe(true);
+        expect(shouldDeliver({ ...subscriber, subscribedGuilds: new Set<string>() }, typingStart, resolveChannel)).toBe(false);
+        expect(shouldDeliver(subscriber, { ...typingStart, guildId: null }, resolveChannel)).toBe(true);
+        expect(shouldDeliver({ ...subscriber, apiKey: key({ guildIds: ['guild-a'] }) }, { ...typingStart, guildId: null }, resolveChannel)).toBe(false);
+    });
+
+    it('should apply channel restrictions and filters to delivery', () => {
+        const subscriber = { apiKey: key({ channelIds: ['general'] }), subscribedGuilds: new Set(['guild-a']), filter: null };
+
+        expect(shouldDeliver(subscriber, typingStart, resolveChannel)).toBe(true);
+        expect(shouldDeliver(subscriber, messageCreate('random', false, 0), resolveChannel)).toBe(false);
+        expect(shouldDeliver({ ...subscriber, filter: { events: ['messageCreate'] } }, typingStart, resolveChannel)).toBe(false);
+    });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../src/config/index.js', () => ({
+    config: {
+        api: {
+            apiKey: 'legacy-key',
+            apiKeys: [],
+            keyStoreFile: 'data/api-keys.json',
+            tokenSecret: 'test-secret-test-secret-test-secret',
+            tokenMaxTtl: 3600,
+        },
+        debug: false,
+    },
+}));
+
+vi.mock('../../src/discord/client.js', () => ({
+    discordClient: { channels: { cache: new Map() } },
+}));
+
+const { signToken, verifyToken } = await import('../../src/api/auth/tokens.js');
+const { apiKeyStore } = await import('../../src/api/auth/key-store.js');
+const { authenticate, getBearerCredential, resolveToken } = await import('../../src/api/middleware/auth.js');
+
+const now = Math.floor(Date.now() / 1000);
+
+function tokenFor(overrides: Partial<Parameters<typeof signToken>[0]> = {}): string {
+    const legacy = apiKeyStore.get('legacy')!;
+    return signToken({
+        kid: legacy.id,
+        kpx: legacy.keyPrefix,
+        scopes: ['read:guilds'],
+        iat: now,
+        exp: now + 60,
+        ...overrides,
+    });
+}
+
+describe('Signed Tokens', () => {
+    it('should round-trip claims and reject tampered tokens', () => {
+        const token = tokenFor({ guildIds: ['guild-a'] });
+        expect(verifyToken(token)?.guildIds).toEqual(['guild-a']);
+
+        const [payload, signature] = token.split('.');
+        const forged = Buffer.from(JSON.stringify({ ...verifyToken(token), scopes: ['admin'] })).toString('base64url');
+        expect(verifyToken(`hbt_${forged}.${signature}`)).toBeNull();
+        expect(verifyToken(`${payload}.AAAA`)).toBeNull();
+    });
+
+    it('should act as the parent key with the token restrictions', () => {
+        const result = resolveToken(tokenFor({ channelIds: ['general'] }));
+
+        expect(result.success).toBe(true);
+        if (result.success) {
+            expect(result.keyRecord.id).toBe('legacy');
+            expect(result.keyRecord.source).toBe('token');
+            expect(result.keyRecord.scopes).toEqual(['read:guilds']);
+            expect(result.keyRecord.channelIds).toEqual(['general']);
+        }
+    });
+
+    it('should reject expired tokens and tokens of rotated keys', () => {
+        expect(resolveToken(tokenFor({ exp: now - 1 }))).toMatchObject({ code: 'TOKEN_EXPIRED' });
+        expect(resolveToken(tokenFor({ kpx: 'stale_prefix' }))).toMatchObject({ code: 'INVALID_TOKEN' });
+    });
+
+    it('should accept tokens as bearer credentials', () => {
+        expect(getBearerCredential('Bearer abc')).toBe('abc');
+        expect(getBearerCredential('Basic abc')).toBeUndefined();
+
+        expect(authenticate({ bearer: tokenFor() })).toMatchObject({ success: true });
+        expect(authenticate({ bearer: 'legacy-key' })).toMatchObject({ success: true });
+        expect(authenticate({})).toMatchObject({ code: 'MISSING_API_KEY' });
+    });
+});
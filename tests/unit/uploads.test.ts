@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import express from 'express';
+
+vi.mock('../../src/config/index.js', () => ({
+    config: {
+        uploads: { maxFileSize: 16, maxFiles: 2, allowedTypes: ['image/*', 'text/plain'] },
+    },
+}));
+
+const { acceptUploads, describeUploads, getUploadedFiles, isAllowedContentType } = await import('../../src/api/middleware/upload.js');
+const { errorHandler } = await import('../../src/api/middleware/errorHandler.js');
+
+describe('isAllowedContentType', () => {
+    it('should match exact types and wildcards', () => {
+        expect(isAllowedContentType('image/png', ['image/*'])).toBe(true);
+        expect(isAllowedContentType('Text/Plain', ['text/plain'])).toBe(true);
+        expect(isAllowedContentType('application/zip', ['image/*', 'text/plain'])).toBe(false);
+    });
+
+    it('should allow any type when the list is empty', () => {
+        expect(isAllowedContentType('application/zip', [])).toBe(true);
+    });
+});
+
+describe('describeUploads', () => {
+    const file = (name: string) => ({ name, contentType: 'text/plain', data: Buffer.from('x') });
+
+    it('should add entries for files the body does not describe', () => {
+        const body = { attachments: [{ name: 'a.txt', spoiler: true }] };
+
+        expect(describeUploads(body, [file('a.txt'), file('b.txt')])).toEqual({
+            attachments: [{ name: 'a.txt', spoiler: true }, { name: 'b.txt' }],
+        });
+    });
+
+    it('should leave the body alone without files', () => {
+        const body = { content: 'hi' };
+        expect(describeUploads(body, [])).toBe(body);
+    });
+});
+
+describe('acceptUploads', () => {
+    let server: Server;
+    let url: string;
+
+    beforeAll(async () => {
+        const app = express();
+        app.use(express.json());
+        app.post('/', acceptUploads, (req, res) => {
+            res.json({ body: req.body as unknown, files: getUploadedFiles(req).map((f) => ({ ...f, data: f.data.toString() })) });
+        });
+        app.use(errorHandler);
+
+        server = createServer(app);
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+    });
+
+    afterAll(async () => {
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    function form(files: { name: string; type: string; content: string }[], payload?: string): FormData {
+        const data = new FormData();
+        if (payload !== undefined) {data.append('payload_json', payload);}
+        for (const file of files) {
+            data.append('files', new Blob([file.content], { type: file.type }), file.name);
+        }
+        return data;
+    }
+
+    it('should parse payload_json and read the files', async () => {
+        const res = await fetch(url, {
+            method: 'POST',
+            body: form([{ name: 'log.txt', type: 'text/plain', content: 'hello' }], JSON.stringify({ content: 'see log' })),
+        });
+
+        expect(res.status).toBe(200);
+        expect(await res.json()).toEqual({
+            body: { content: 'see log' },
+            files: [{ name: 'log.txt', contentType: 'text/plain', data: 'hello' }],
+        });
+    });
+
+    it('should pass JSON requests through', async () => {
+        const res = await fetch(url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ content: 'hi' }),
+        });
+
+        expect(await res.json()).toEqual({ body: { content: 'hi' }, files: [] });
+    });
+
+    it('should reject files over the size limit', async () => {
+        const res = await fetch(url, { method: 'POST', body: form([{ name: 'big.txt', type: 'text/plain', content: 'x'.repeat(17) }]) });
+
+        expect(res.status).toBe(413);
+        expect(await res.json()).toMatchObject({ code: 'FILE_TOO_LARGE' });
+    });
+
+    it('should reject content types outside the allow-list', async () => {
+        const res = await fetch(url, { method: 'POST', body: form([{ name: 'a.zip', type: 'application/zip', content: 'x' }]) });
+
+        expect(res.status).toBe(415);
+        expect(await res.json()).toMatchObject({ code: 'UNSUPPORTED_FILE_TYPE' });
+    });
+
+    it('should reject more files than allowed', async () => {
+        const file = { name: 'a.png', type: 'image/png', content: 'x' };
+        const res = await fetch(url, { method: 'POST', body: form([file, file, file]) });
+
+        expect(res.status).toBe(400);
+        expect(await res.json()).toMatchObject({ code: 'TOO_MANY_FILES' });
+    });
+
+    it('should reject a malformed payload_json', async () => {
+        const res = await fetch(url, { method: 'POST', body: form([], '{') });
+
+        expect(res.status).toBe(400);
+        expect(await res.json()).toMatchObject({ code: 'INVALID_MULTIPART' });
+    });
+});